@@ -0,0 +1,21 @@
+// 시스템 알림 클릭 처리 - workbox 서비스 워커에서 importScripts로 불러옴
+// 알림 버튼 동작을 열려 있는 앱 창에 전달 (SystemNotificationService가 수신)
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const action = event.action || 'open';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => {
+        client.postMessage({ type: 'timer-notification-action', action });
+      });
+
+      // 알림 본문을 누르면 앱 창을 앞으로 (열린 창이 없으면 새로 열기)
+      if (action === 'open') {
+        const client = clients[0];
+        return client ? client.focus() : self.clients.openWindow('/');
+      }
+      return undefined;
+    })
+  );
+});
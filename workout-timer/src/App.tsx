@@ -1,12 +1,17 @@
 import React, { Suspense, lazy } from 'react';
-import { TimerProvider, SettingsProvider, PWAProvider } from './contexts';
-import { Header, TimerDisplay, TimerControls, Modal, ModeSelector } from './components';
-import { useSettings, useKeyboardNavigation } from './hooks';
+import { TimerProvider, SettingsProvider, TemplateProvider, WorkoutProvider, HistoryProvider, MetronomeProvider, PWAProvider } from './contexts';
+import { Header, TimerDisplay, TimerControls, Modal, ModeSelector, WorkoutStatus, ResumePrompt, MetronomePanel } from './components';
+import { useSettings, useTimer, useKeyboardNavigation, useScreenReader } from './hooks';
+import type { Template } from './types';
 import styles from './App.module.css';
 
 // Lazy load heavy components
 const Settings = lazy(() => import('./components/Settings/Settings'));
 const KeyboardShortcuts = lazy(() => import('./components/KeyboardShortcuts/KeyboardShortcuts'));
+const WorkoutBuilder = lazy(() => import('./components/WorkoutBuilder/WorkoutBuilder'));
+const TemplateModal = lazy(() => import('./components/TemplateModal/TemplateModal'));
+const HistoryModal = lazy(() => import('./components/HistoryModal/HistoryModal'));
+const StatsDashboard = lazy(() => import('./components/StatsDashboard/StatsDashboard'));
 
 // Loading component
 const LoadingSpinner: React.FC = () => (
@@ -64,12 +69,35 @@ class ErrorBoundary extends React.Component<
   }
 }
 
+// 템플릿 선택 시 타이머 모드로 전환하고 시간 설정 (TimerProvider 안에서 사용)
+const TimerTemplateProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
+  const { state, setMode, setDuration } = useTimer();
+  const { announceTemplateSelection } = useScreenReader();
+
+  const handleTemplateSelect = React.useCallback((template: Template) => {
+    if (state.mode !== 'timer') {
+      setMode('timer');
+    }
+    setDuration(template.duration);
+    announceTemplateSelection(template.name, template.duration);
+  }, [state.mode, setMode, setDuration, announceTemplateSelection]);
+
+  return (
+    <TemplateProvider onTemplateSelect={handleTemplateSelect}>
+      {children}
+    </TemplateProvider>
+  );
+};
+
 // Main App Content
 const AppContent: React.FC = () => {
   const { settings } = useSettings();
-  // 템플릿 기능 제거
+  const [showTemplates, setShowTemplates] = React.useState(false);
   const [showSettings, setShowSettings] = React.useState(false);
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = React.useState(false);
+  const [showWorkoutBuilder, setShowWorkoutBuilder] = React.useState(false);
+  const [showHistory, setShowHistory] = React.useState(false);
+  const [showStats, setShowStats] = React.useState(false);
 
   // 키보드 네비게이션 활성화
   useKeyboardNavigation({
@@ -89,6 +117,12 @@ const AppContent: React.FC = () => {
       if (event.key === 'Escape') {
         if (showSettings) {
           setShowSettings(false);
+        } else if (showTemplates) {
+          setShowTemplates(false);
+        } else if (showHistory) {
+          setShowHistory(false);
+        } else if (showStats) {
+          setShowStats(false);
         } else if (showKeyboardShortcuts) {
           setShowKeyboardShortcuts(false);
         }
@@ -100,22 +134,58 @@ const AppContent: React.FC = () => {
     return () => {
       document.removeEventListener('keydown', handleEscapeKey);
     };
-  }, [showSettings, showKeyboardShortcuts]);
+  }, [showSettings, showTemplates, showHistory, showStats, showKeyboardShortcuts]);
+
+  const handleTemplateClick = React.useCallback(() => {
+    setShowSettings(false);
+    setShowKeyboardShortcuts(false);
+    setShowTemplates(true);
+  }, []);
 
   const handleSettingsClick = React.useCallback(() => {
+    setShowTemplates(false);
     setShowKeyboardShortcuts(false);
     setShowSettings(true);
   }, []);
 
   const handleHelpClick = React.useCallback(() => {
+    setShowTemplates(false);
     setShowSettings(false);
     setShowKeyboardShortcuts(true);
   }, []);
 
+  const handleWorkoutClick = React.useCallback(() => {
+    setShowTemplates(false);
+    setShowSettings(false);
+    setShowKeyboardShortcuts(false);
+    setShowWorkoutBuilder(true);
+  }, []);
+
+  const handleHistoryClick = React.useCallback(() => {
+    setShowTemplates(false);
+    setShowSettings(false);
+    setShowKeyboardShortcuts(false);
+    setShowHistory(true);
+  }, []);
+
+  const handleStatsClick = React.useCallback(() => {
+    setShowTemplates(false);
+    setShowSettings(false);
+    setShowKeyboardShortcuts(false);
+    setShowStats(true);
+  }, []);
+
   return (
     <div className={styles.app}>
       <div className={styles.container} data-testid="app-container">
-        <Header onSettingsClick={handleSettingsClick} onHelpClick={handleHelpClick} />
+        <Header
+          onTemplateClick={handleTemplateClick}
+          onSettingsClick={handleSettingsClick}
+          onHelpClick={handleHelpClick}
+          onWorkoutClick={handleWorkoutClick}
+          onHistoryClick={handleHistoryClick}
+          onStatsClick={handleStatsClick}
+        />
         
         {/* Mode Selector - 상단바 아래에 위치 */}
         <div className={styles.modeSelectorSection}>
@@ -124,12 +194,17 @@ const AppContent: React.FC = () => {
         
         <main className={styles.main}>
           <div className={styles.timerSection}>
+            <WorkoutStatus />
             <TimerDisplay />
           </div>
           
           <div className={styles.controlsSection}>
             <TimerControls />
           </div>
+
+          <div className={styles.metronomeSection}>
+            <MetronomePanel />
+          </div>
         </main>
 
         <Modal
@@ -144,6 +219,49 @@ const AppContent: React.FC = () => {
           </Suspense>
         </Modal>
 
+        {/* 템플릿 목록 */}
+        {showTemplates && (
+          <Suspense fallback={<LoadingSpinner />}>
+            <TemplateModal
+              isOpen={showTemplates}
+              onClose={() => setShowTemplates(false)}
+            />
+          </Suspense>
+        )}
+
+        {/* 운동 프로그램 빌더 */}
+        {showWorkoutBuilder && (
+          <Suspense fallback={<LoadingSpinner />}>
+            <WorkoutBuilder
+              isOpen={showWorkoutBuilder}
+              onClose={() => setShowWorkoutBuilder(false)}
+            />
+          </Suspense>
+        )}
+
+        {/* 운동 기록 */}
+        {showHistory && (
+          <Suspense fallback={<LoadingSpinner />}>
+            <HistoryModal
+              isOpen={showHistory}
+              onClose={() => setShowHistory(false)}
+            />
+          </Suspense>
+        )}
+
+        {/* 운동 통계 */}
+        {showStats && (
+          <Suspense fallback={<LoadingSpinner />}>
+            <StatsDashboard
+              isOpen={showStats}
+              onClose={() => setShowStats(false)}
+            />
+          </Suspense>
+        )}
+
+        {/* 새로고침 전 진행 중이던 오래된 세션 이어하기 확인 */}
+        <ResumePrompt />
+
         {/* Keyboard Shortcuts Modal */}
         {showKeyboardShortcuts && (
           <Suspense fallback={<LoadingSpinner />}>
@@ -163,11 +281,19 @@ function App() {
     <ErrorBoundary>
       <PWAProvider>
         <SettingsProvider>
-          <TimerProvider>
-              <Suspense fallback={<LoadingSpinner />}>
-                <AppContent />
-              </Suspense>
+          <HistoryProvider>
+            <TimerProvider>
+              <TimerTemplateProvider>
+                <WorkoutProvider>
+                  <MetronomeProvider>
+                    <Suspense fallback={<LoadingSpinner />}>
+                      <AppContent />
+                    </Suspense>
+                  </MetronomeProvider>
+                </WorkoutProvider>
+              </TimerTemplateProvider>
             </TimerProvider>
+          </HistoryProvider>
         </SettingsProvider>
       </PWAProvider>
     </ErrorBoundary>
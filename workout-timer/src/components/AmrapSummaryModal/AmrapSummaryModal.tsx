@@ -0,0 +1,73 @@
+import React from 'react';
+import Button from '../Button/Button';
+import Modal from '../Modal/Modal';
+import { formatTime, formatTimeWithMilliseconds } from '../../utils';
+import type { AmrapSummary } from '../../types';
+import styles from './AmrapSummaryModal.module.css';
+
+interface AmrapSummaryModalProps {
+  summary: AmrapSummary | null;
+  onClose: () => void;
+}
+
+const AmrapSummaryModal: React.FC<AmrapSummaryModalProps> = ({ summary, onClose }) => {
+  return (
+    <Modal
+      isOpen={summary !== null}
+      onClose={onClose}
+      title="AMRAP 결과"
+      className={styles.modal}
+    >
+      {summary && (
+        <>
+          <div className={styles.total}>
+            <span className={styles.totalRounds} data-testid="amrap-total-rounds">
+              {summary.totalRounds}
+            </span>
+            <span className={styles.totalLabel}>
+              라운드 완료 ({formatTime(summary.duration)})
+            </span>
+          </div>
+
+          {summary.splits.length > 0 ? (
+            <div className={styles.tableWrapper}>
+              <table className={styles.table} aria-label="라운드별 기록">
+                <thead>
+                  <tr>
+                    <th scope="col">라운드</th>
+                    <th scope="col">구간</th>
+                    <th scope="col">누적</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.splits.map((split) => (
+                    <tr key={split.round}>
+                      <td>{split.round}</td>
+                      <td>{formatTimeWithMilliseconds(split.splitTime)}</td>
+                      <td>{formatTimeWithMilliseconds(split.elapsedTime)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className={styles.empty}>기록된 라운드가 없습니다</p>
+          )}
+        </>
+      )}
+
+      <div className={styles.actions}>
+        <Button
+          variant="primary"
+          onClick={onClose}
+          className={styles.actionButton}
+          data-testid="close-amrap-summary"
+        >
+          확인
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default AmrapSummaryModal;
@@ -0,0 +1,47 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import AmrapSummaryModal from '../AmrapSummaryModal';
+import type { AmrapSummary } from '../../../types';
+
+const summary: AmrapSummary = {
+  duration: 600,
+  totalRounds: 2,
+  splits: [
+    { round: 1, timestamp: 1_000, elapsedTime: 95000, splitTime: 95000 },
+    { round: 2, timestamp: 2_000, elapsedTime: 182500, splitTime: 87500 },
+  ],
+};
+
+describe('AmrapSummaryModal', () => {
+  it('does not render without a summary', () => {
+    render(<AmrapSummaryModal summary={null} onClose={vi.fn()} />);
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('shows total rounds and per-round split times', () => {
+    render(<AmrapSummaryModal summary={summary} onClose={vi.fn()} />);
+
+    expect(screen.getByText('AMRAP 결과')).toBeInTheDocument();
+    expect(screen.getByTestId('amrap-total-rounds')).toHaveTextContent('2');
+
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows).toHaveLength(3); // 헤더 + 2라운드
+    expect(rows[2]).toHaveTextContent('201:27.5003:02.50');
+  });
+
+  it('shows an empty message when no rounds were logged', () => {
+    render(<AmrapSummaryModal summary={{ duration: 300, totalRounds: 0, splits: [] }} onClose={vi.fn()} />);
+
+    expect(screen.getByText('기록된 라운드가 없습니다')).toBeInTheDocument();
+  });
+
+  it('calls onClose when confirmed', () => {
+    const onClose = vi.fn();
+    render(<AmrapSummaryModal summary={summary} onClose={onClose} />);
+
+    fireEvent.click(screen.getByTestId('close-amrap-summary'));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
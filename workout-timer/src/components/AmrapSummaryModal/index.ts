@@ -0,0 +1,2 @@
+export { default as AmrapSummaryModal } from './AmrapSummaryModal';
+export { default } from './AmrapSummaryModal';
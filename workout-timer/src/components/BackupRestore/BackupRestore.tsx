@@ -0,0 +1,166 @@
+import React, { useState, useRef } from 'react';
+import Button from '../Button/Button';
+import { BackupService } from '../../services/BackupService';
+import type { BackupFile, BackupPreview, BackupRestoreMode } from '../../types';
+import styles from './BackupRestore.module.css';
+
+interface BackupRestoreProps {
+  onRestored?: () => void; // 복원 완료 후 호출 (기본: 새로고침으로 저장된 데이터 다시 불러오기)
+}
+
+const RESTORE_MODES: { value: BackupRestoreMode; label: string; description: string }[] = [
+  { value: 'merge', label: '합치기', description: '현재 데이터를 유지하고 없는 템플릿과 기록만 추가합니다.' },
+  { value: 'replace', label: '덮어쓰기', description: '현재 데이터를 모두 지우고 백업 내용으로 바꿉니다.' },
+];
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ onRestored = () => window.location.reload() }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ backup: BackupFile; preview: BackupPreview } | null>(null);
+  const [mode, setMode] = useState<BackupRestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // 작업마다 DB 연결을 열고 끝나면 정리
+  const withService = async (task: (service: BackupService) => Promise<void>) => {
+    const service = new BackupService();
+    setIsWorking(true);
+    try {
+      await task(service);
+    } finally {
+      service.destroy();
+      setIsWorking(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setError(null);
+    try {
+      await withService(async service => {
+        BackupService.download(await service.createBackup());
+      });
+    } catch (err) {
+      console.error('Failed to create backup:', err);
+      setError('백업 파일을 만들지 못했습니다.');
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // 같은 파일을 다시 선택할 수 있도록 초기화
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setPending(null);
+    try {
+      const backup = BackupService.parseBackup(await file.text());
+      setPending({ backup, preview: BackupService.getPreview(backup) });
+      setMode('merge');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '백업 파일을 읽을 수 없습니다.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    try {
+      await withService(service => service.restore(pending.backup, mode));
+      setPending(null);
+      onRestored();
+    } catch (err) {
+      console.error('Failed to restore backup:', err);
+      setError('백업을 복원하지 못했습니다.');
+    }
+  };
+
+  return (
+    <section className={styles.section} aria-labelledby="backup-settings">
+      <h3 id="backup-settings" className={styles.sectionTitle}>데이터 백업</h3>
+      <p className={styles.description}>
+        설정, 템플릿, 운동 프로그램, 운동 기록, 알림음을 하나의 파일로 저장하거나 다른 기기에서 복원합니다.
+      </p>
+
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      {pending ? (
+        <div className={styles.preview} data-testid="backup-preview">
+          <p className={styles.previewTitle}>
+            {pending.preview.createdAt.toLocaleString('ko-KR')}에 만든 백업
+          </p>
+          <ul className={styles.previewList}>
+            <li>설정: {pending.preview.hasSettings ? '포함' : '없음'}</li>
+            <li>사용자 템플릿: {pending.preview.templates}개</li>
+            <li>운동 프로그램 종목: {pending.preview.exercises}개</li>
+            <li>운동 기록: {pending.preview.sessions}개</li>
+            <li>알림음: {pending.preview.sounds}개</li>
+          </ul>
+
+          <fieldset className={styles.modes}>
+            <legend className={styles.modesLegend}>복원 방식</legend>
+            {RESTORE_MODES.map(option => (
+              <label key={option.value} className={styles.mode}>
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  value={option.value}
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                />
+                <span>
+                  <span className={styles.modeLabel}>{option.label}</span>
+                  <span className={styles.modeDescription}>{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className={styles.buttons}>
+            <Button variant="secondary" size="small" onClick={() => setPending(null)} disabled={isWorking}>
+              취소
+            </Button>
+            <Button
+              variant={mode === 'replace' ? 'danger' : 'primary'}
+              size="small"
+              onClick={handleRestore}
+              disabled={isWorking}
+              data-testid="confirm-restore"
+            >
+              복원
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className={styles.buttons}>
+          <Button variant="outline" size="small" onClick={handleBackup} disabled={isWorking} data-testid="create-backup">
+            백업 파일 만들기
+          </Button>
+          <Button
+            variant="outline"
+            size="small"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isWorking}
+            data-testid="restore-backup"
+          >
+            복원하기
+          </Button>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className={styles.fileInput}
+        onChange={handleFileChange}
+        aria-label="복원할 백업 파일"
+        data-testid="backup-file"
+      />
+    </section>
+  );
+};
+
+export default BackupRestore;
@@ -0,0 +1,84 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import BackupRestore from '../BackupRestore';
+import { BackupService, calculateChecksum } from '../../../services/BackupService';
+import type { BackupData } from '../../../types';
+
+const data: BackupData = {
+  settings: null,
+  templates: [],
+  workoutProgram: { name: '하체', exercises: [] },
+  sessions: [],
+  sounds: [],
+};
+
+const createBackupFile = (overrides: Record<string, unknown> = {}) => {
+  const content = JSON.stringify({
+    format: BackupService.FORMAT,
+    version: BackupService.VERSION,
+    createdAt: '2024-03-01T00:00:00.000Z',
+    checksum: calculateChecksum(JSON.stringify(data)),
+    data,
+    ...overrides,
+  });
+  // jsdom의 File에는 text()가 없어 직접 추가
+  return Object.assign(new File([content], 'backup.json', { type: 'application/json' }), {
+    text: async () => content,
+  });
+};
+
+const selectFile = (file: File) => {
+  fireEvent.change(screen.getByTestId('backup-file'), { target: { files: [file] } });
+};
+
+describe('BackupRestore', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shows a preview and restores with the chosen mode', async () => {
+    const restore = vi.spyOn(BackupService.prototype, 'restore').mockResolvedValue();
+    const onRestored = vi.fn();
+    render(<BackupRestore onRestored={onRestored} />);
+
+    selectFile(createBackupFile());
+
+    const preview = await screen.findByTestId('backup-preview');
+    expect(preview).toHaveTextContent('설정: 없음');
+    expect(preview).toHaveTextContent('운동 기록: 0개');
+
+    fireEvent.click(screen.getByRole('radio', { name: /덮어쓰기/ }));
+    fireEvent.click(screen.getByTestId('confirm-restore'));
+
+    await waitFor(() => expect(onRestored).toHaveBeenCalledTimes(1));
+    expect(restore).toHaveBeenCalledWith(expect.objectContaining({ data }), 'replace');
+    expect(screen.queryByTestId('backup-preview')).not.toBeInTheDocument();
+  });
+
+  it('shows a clear message for corrupt or future-version files', async () => {
+    render(<BackupRestore onRestored={vi.fn()} />);
+
+    selectFile(createBackupFile({ checksum: '00000000' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent('백업 파일이 손상되었습니다.');
+
+    selectFile(createBackupFile({ version: BackupService.VERSION + 1 }));
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('더 새로운 버전의 앱에서 만든 백업');
+    });
+    expect(screen.queryByTestId('backup-preview')).not.toBeInTheDocument();
+  });
+
+  it('downloads a backup file', async () => {
+    vi.spyOn(BackupService.prototype, 'createBackup').mockResolvedValue('{}');
+    const download = vi.spyOn(BackupService, 'download').mockImplementation(() => {});
+    render(<BackupRestore onRestored={vi.fn()} />);
+
+    fireEvent.click(screen.getByTestId('create-backup'));
+
+    await waitFor(() => expect(download).toHaveBeenCalledWith('{}'));
+  });
+});
@@ -0,0 +1,2 @@
+export { default as BackupRestore } from './BackupRestore';
+export { default } from './BackupRestore';
@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import type { BarChartProps } from '../../types';
+import styles from './BarChart.module.css';
+
+const BarChart: React.FC<BarChartProps> = React.memo(({
+  data,
+  label,
+  formatValue = (value: number) => String(value),
+  color = 'var(--color-primary)',
+  className = '',
+}) => {
+  // 고정 뷰박스 크기(벡터 단위). 컨테이너 너비에 맞춰 자동 스케일링됨
+  const viewBoxWidth = 100;
+  const viewBoxHeight = 60;
+  const labelHeight = 8;   // 아래쪽 축 레이블 영역
+  const valueHeight = 7;   // 막대 위 값 표시 영역
+
+  // 막대 위치/높이 계산 (메모화)
+  const bars = useMemo(() => {
+    const max = Math.max(0, ...data.map(item => item.value));
+    const slot = viewBoxWidth / Math.max(1, data.length);
+    const barWidth = slot * 0.6;
+    const chartHeight = viewBoxHeight - labelHeight - valueHeight;
+    return data.map((item, index) => {
+      const height = max > 0 ? (item.value / max) * chartHeight : 0;
+      return {
+        ...item,
+        x: index * slot + (slot - barWidth) / 2,
+        center: index * slot + slot / 2,
+        y: valueHeight + chartHeight - height,
+        width: barWidth,
+        height,
+      };
+    });
+  }, [data]);
+
+  const description = data.map(item => `${item.label} ${formatValue(item.value)}`).join(', ');
+
+  return (
+    <div className={`${styles.container} ${className}`} data-testid="bar-chart">
+      <svg
+        width="100%"
+        className={styles.svg}
+        viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`}
+        role="img"
+        aria-label={`${label}: ${description}`}
+      >
+        {/* 기준선 */}
+        <line
+          x1={0}
+          x2={viewBoxWidth}
+          y1={viewBoxHeight - labelHeight}
+          y2={viewBoxHeight - labelHeight}
+          stroke="var(--color-border)"
+          strokeWidth={0.5}
+          aria-hidden="true"
+        />
+
+        {bars.map(bar => (
+          <g key={bar.label} aria-hidden="true">
+            <rect
+              x={bar.x}
+              y={bar.y}
+              width={bar.width}
+              height={bar.height}
+              rx={1}
+              fill={color}
+              className={styles.bar}
+              data-testid="bar-chart-bar"
+            />
+            {bar.value > 0 && (
+              <text x={bar.center} y={bar.y - 1.5} className={styles.value} textAnchor="middle">
+                {formatValue(bar.value)}
+              </text>
+            )}
+            <text x={bar.center} y={viewBoxHeight - 1.5} className={styles.axisLabel} textAnchor="middle">
+              {bar.label}
+            </text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+});
+
+export default BarChart;
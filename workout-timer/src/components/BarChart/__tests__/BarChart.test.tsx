@@ -0,0 +1,41 @@
+import { render, screen } from '@testing-library/react';
+import BarChart from '../BarChart';
+
+describe('BarChart', () => {
+  const data = [
+    { label: '3/1', value: 10 },
+    { label: '3/2', value: 0 },
+    { label: '3/3', value: 5 }
+  ];
+
+  it('renders one bar per data point scaled to the largest value', () => {
+    render(<BarChart data={data} label="운동 시간" />);
+
+    const bars = screen.getAllByTestId('bar-chart-bar');
+    expect(bars).toHaveLength(3);
+
+    const heights = bars.map(bar => Number(bar.getAttribute('height')));
+    expect(heights[0]).toBeGreaterThan(0);
+    expect(heights[1]).toBe(0);
+    expect(heights[2]).toBeCloseTo(heights[0] / 2);
+  });
+
+  it('describes every value in the accessible label', () => {
+    render(<BarChart data={data} label="운동 시간" formatValue={(value) => `${value}분`} />);
+
+    expect(screen.getByRole('img')).toHaveAttribute('aria-label', '운동 시간: 3/1 10분, 3/2 0분, 3/3 5분');
+  });
+
+  it('shows axis labels and only non-zero values', () => {
+    const { container } = render(<BarChart data={data} label="운동 시간" />);
+
+    const texts = Array.from(container.querySelectorAll('text')).map(text => text.textContent);
+    expect(texts).toEqual(['10', '3/1', '3/2', '5', '3/3']);
+  });
+
+  it('renders flat bars when all values are zero', () => {
+    render(<BarChart data={[{ label: '3/1', value: 0 }]} label="운동 시간" />);
+
+    expect(screen.getByTestId('bar-chart-bar')).toHaveAttribute('height', '0');
+  });
+});
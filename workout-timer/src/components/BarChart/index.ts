@@ -0,0 +1,2 @@
+export { default as BarChart } from './BarChart';
+export { default } from './BarChart';
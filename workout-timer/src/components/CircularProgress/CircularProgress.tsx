@@ -8,7 +8,9 @@ const CircularProgress: React.FC<CircularProgressProps> = React.memo(({
   strokeWidth,
   color,
   backgroundColor = 'var(--color-border)',
-  className = ''
+  className = '',
+  innerProgress,
+  innerColor = color
 }) => {
   // 고정 뷰박스 크기(벡터 단위). 컨테이너 크기에 따라 자동 스케일링됨
   const viewBoxSize = 100;
@@ -21,6 +23,21 @@ const CircularProgress: React.FC<CircularProgressProps> = React.memo(({
     const strokeDashoffset = circumference - (progress / 100) * circumference;
     return { center, radius, circumference, strokeDashoffset };
   }, [strokeWidth, progress]);
+
+  // 안쪽 동심원 (예: EMOM 전체 진행률) - 바깥 원 안쪽에 간격을 두고 그림
+  const inner = useMemo(() => {
+    if (innerProgress === undefined) {
+      return null;
+    }
+    const innerRadius = radius - strokeWidth * 1.5;
+    const innerCircumference = 2 * Math.PI * innerRadius;
+    const clamped = Math.max(0, Math.min(100, innerProgress));
+    return {
+      radius: innerRadius,
+      circumference: innerCircumference,
+      strokeDashoffset: innerCircumference - (clamped / 100) * innerCircumference,
+    };
+  }, [innerProgress, radius, strokeWidth]);
   
   return (
     <div className={`${styles.container} ${className}`} data-testid="circular-progress">
@@ -63,6 +80,40 @@ const CircularProgress: React.FC<CircularProgressProps> = React.memo(({
           }}
           aria-hidden="true"
         />
+
+        {/* 안쪽 진행률 원 */}
+        {inner && (
+          <>
+            <circle
+              cx={center}
+              cy={center}
+              r={inner.radius}
+              fill="none"
+              stroke={backgroundColor}
+              strokeWidth={strokeWidth / 2}
+              className={styles.backgroundCircle}
+              aria-hidden="true"
+            />
+            <circle
+              cx={center}
+              cy={center}
+              r={inner.radius}
+              fill="none"
+              stroke={innerColor}
+              strokeWidth={strokeWidth / 2}
+              strokeDasharray={inner.circumference}
+              strokeDashoffset={inner.strokeDashoffset}
+              strokeLinecap="round"
+              className={styles.progressCircle}
+              style={{
+                transform: 'rotate(-90deg)',
+                transformOrigin: `${center}px ${center}px`,
+              }}
+              aria-hidden="true"
+              data-testid="inner-progress"
+            />
+          </>
+        )}
       </svg>
     </div>
   );
@@ -101,4 +101,19 @@ describe('CircularProgress', () => {
       transformOrigin: '100px 100px'
     });
   });
+
+  it('renders an inner concentric ring when innerProgress is given', () => {
+    const { container } = render(
+      <CircularProgress {...defaultProps} innerProgress={50} innerColor="#17a2b8" />
+    );
+    expect(container.querySelectorAll('circle')).toHaveLength(4);
+
+    const innerCircle = screen.getByTestId('inner-progress');
+    const innerRadius = 100 / 2 - 8 / 2 - 8 * 1.5;
+    const circumference = 2 * Math.PI * innerRadius;
+
+    expect(innerCircle).toHaveAttribute('r', innerRadius.toString());
+    expect(innerCircle).toHaveAttribute('stroke', '#17a2b8');
+    expect(innerCircle).toHaveAttribute('stroke-dashoffset', (circumference / 2).toString());
+  });
 });
\ No newline at end of file
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { useTimer } from '../../hooks';
+import Button from '../Button/Button';
+import Modal from '../Modal/Modal';
+import WheelPicker from '../WheelPicker/WheelPicker';
+import { formatTime } from '../../utils';
+import { EMOM_CONSTANTS } from '../../types';
+import type { EmomRepBehavior } from '../../types';
+import styles from './EmomSettingModal.module.css';
+
+interface EmomSettingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const REP_BEHAVIOR_OPTIONS: { value: EmomRepBehavior; label: string }[] = [
+  { value: 'reset', label: '초기화' },
+  { value: 'increment', label: '+1' },
+];
+
+const EmomSettingModal: React.FC<EmomSettingModalProps> = ({ isOpen, onClose }) => {
+  const { state, setEmomConfig } = useTimer();
+  const [intervalDuration, setIntervalDuration] = useState(state.emom.intervalDuration);
+  const [rounds, setRounds] = useState(state.emom.rounds);
+  const [repBehavior, setRepBehavior] = useState<EmomRepBehavior>(state.emom.repBehavior);
+
+  // 모달이 열릴 때 현재 EMOM 설정으로 초기화
+  useEffect(() => {
+    if (isOpen) {
+      setIntervalDuration(state.emom.intervalDuration);
+      setRounds(state.emom.rounds);
+      setRepBehavior(state.emom.repBehavior);
+    }
+  }, [isOpen, state.emom]);
+
+  const handleConfirm = () => {
+    setEmomConfig({ intervalDuration, rounds, repBehavior });
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="EMOM 설정"
+      className={styles.modal}
+    >
+      <div className={styles.inputs}>
+        <div className={styles.inputGroup}>
+          <label htmlFor="emom-interval-input" className={styles.label}>간격(초)</label>
+          <WheelPicker
+            value={intervalDuration}
+            min={EMOM_CONSTANTS.MIN_INTERVAL_SECONDS}
+            max={EMOM_CONSTANTS.MAX_INTERVAL_SECONDS}
+            step={EMOM_CONSTANTS.STEP_SECONDS}
+            label="간격"
+            onChange={setIntervalDuration}
+            inputId="emom-interval-input"
+          />
+        </div>
+
+        <div className={styles.inputGroup}>
+          <label htmlFor="emom-rounds-input" className={styles.label}>라운드</label>
+          <WheelPicker
+            value={rounds}
+            min={EMOM_CONSTANTS.MIN_ROUNDS}
+            max={EMOM_CONSTANTS.MAX_ROUNDS}
+            label="라운드"
+            onChange={setRounds}
+            inputId="emom-rounds-input"
+          />
+        </div>
+      </div>
+
+      {/* 라운드 경계에서 반복 횟수 처리 방식 */}
+      <div className={styles.repBehavior} role="group" aria-label="라운드마다 반복 횟수">
+        <span className={styles.repBehaviorLabel}>라운드마다 반복 횟수:</span>
+        {REP_BEHAVIOR_OPTIONS.map(({ value, label }) => (
+          <Button
+            key={value}
+            variant={repBehavior === value ? 'primary' : 'outline'}
+            size="small"
+            aria-pressed={repBehavior === value}
+            onClick={() => setRepBehavior(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      <div className={styles.preview}>
+        <span className={styles.previewLabel}>총 시간:</span>
+        <span className={styles.previewTime} data-testid="emom-total">
+          {formatTime(intervalDuration * rounds)}
+        </span>
+      </div>
+
+      <div className={styles.actions}>
+        <Button
+          variant="primary"
+          onClick={handleConfirm}
+          className={styles.actionButton}
+          data-testid="confirm-emom"
+        >
+          확인
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={onClose}
+          className={styles.actionButton}
+        >
+          취소
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default EmomSettingModal;
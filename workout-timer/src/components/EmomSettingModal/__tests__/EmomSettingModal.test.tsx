@@ -0,0 +1,60 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import EmomSettingModal from '../EmomSettingModal';
+
+// Mock the useTimer hook
+const mockUseTimer = {
+  state: {
+    emom: { intervalDuration: 60, rounds: 10, repBehavior: 'reset' },
+  },
+  setEmomConfig: vi.fn(),
+};
+
+vi.mock('../../../hooks', () => ({
+  useTimer: () => mockUseTimer,
+}));
+
+describe('EmomSettingModal', () => {
+  const mockOnClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseTimer.state = {
+      emom: { intervalDuration: 60, rounds: 10, repBehavior: 'reset' },
+    };
+  });
+
+  it('renders with current EMOM config', () => {
+    render(<EmomSettingModal isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByText('EMOM 설정')).toBeInTheDocument();
+    expect(screen.getByLabelText('간격 입력')).toHaveValue(60);
+    expect(screen.getByLabelText('라운드 입력')).toHaveValue(10);
+    expect(screen.getByRole('button', { name: '초기화' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByTestId('emom-total')).toHaveTextContent('10:00');
+  });
+
+  it('saves config with selected rep behavior', () => {
+    render(<EmomSettingModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '라운드 감소' }));
+    fireEvent.click(screen.getByRole('button', { name: '+1' }));
+    fireEvent.click(screen.getByTestId('confirm-emom'));
+
+    expect(mockUseTimer.setEmomConfig).toHaveBeenCalledWith({
+      intervalDuration: 60,
+      rounds: 9,
+      repBehavior: 'increment',
+    });
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+
+  it('closes without saving on cancel', () => {
+    render(<EmomSettingModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByText('취소'));
+
+    expect(mockUseTimer.setEmomConfig).not.toHaveBeenCalled();
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,2 @@
+export { default as EmomSettingModal } from './EmomSettingModal';
+export { default } from './EmomSettingModal';
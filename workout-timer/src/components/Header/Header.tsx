@@ -4,26 +4,71 @@ import styles from './Header.module.css';
 
 export interface HeaderProps {
   onSettingsClick: () => void;
+  onTemplateClick?: () => void;
   onHelpClick?: () => void;
+  onWorkoutClick?: () => void;
+  onHistoryClick?: () => void;
+  onStatsClick?: () => void;
   title?: string;
   className?: string;
 }
 
 const Header: React.FC<HeaderProps> = ({
   onSettingsClick,
+  onTemplateClick,
   onHelpClick,
+  onWorkoutClick,
+  onHistoryClick,
+  onStatsClick,
   title = '운동 타이머',
   className
 }) => {
   return (
     <header className={`${styles.header} ${className || ''}`}>
-      <div className={styles.leftSection} />
+      <div className={styles.leftSection}>
+        {onTemplateClick && (
+          <Button
+            variant="outline"
+            size="small"
+            onClick={onTemplateClick}
+            aria-label="템플릿 선택"
+            className={styles.templateButton}
+            data-testid="templates-button"
+          >
+            템플릿
+          </Button>
+        )}
+      </div>
       
       <div className={styles.centerSection}>
         <h1 className={styles.title}>{title}</h1>
       </div>
       
       <div className={styles.rightSection}>
+        {onWorkoutClick && (
+          <Button
+            variant="outline"
+            size="small"
+            onClick={onWorkoutClick}
+            aria-label="운동 프로그램"
+            className={styles.workoutButton}
+            data-testid="workout-button"
+          >
+            📋
+          </Button>
+        )}
+        {onHistoryClick && (
+          <Button
+            variant="outline"
+            size="small"
+            onClick={onHistoryClick}
+            aria-label="운동 기록"
+            className={styles.historyButton}
+            data-testid="history-button"
+          >
+            🗓️
+          </Button>
+        )}
         {onHelpClick && (
           <Button
             variant="outline"
@@ -35,6 +80,18 @@ const Header: React.FC<HeaderProps> = ({
             ?
           </Button>
         )}
+        {onStatsClick && (
+          <Button
+            variant="outline"
+            size="small"
+            onClick={onStatsClick}
+            aria-label="운동 통계"
+            className={styles.statsButton}
+            data-testid="stats-button"
+          >
+            📊
+          </Button>
+        )}
         <Button
           variant="outline"
           size="small"
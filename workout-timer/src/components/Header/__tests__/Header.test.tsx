@@ -58,8 +58,6 @@ describe('Header Component', () => {
     expect(screen.getByText(customTitle)).toBeInTheDocument();
   });
 
-  // 템플릿 버튼은 제거됨
-
   it('renders settings button with correct aria-label', () => {
     renderWithContext({ onSettingsClick: mockOnSettingsClick });
 
@@ -89,6 +87,53 @@ describe('Header Component', () => {
     expect(mockOnSettingsClick).toHaveBeenCalledTimes(1);
   });
 
+  it('renders templates button that opens the template list', () => {
+    const onTemplateClick = vi.fn();
+    renderWithContext({ onSettingsClick: mockOnSettingsClick, onTemplateClick });
+
+    const templatesButton = screen.getByTestId('templates-button');
+    expect(templatesButton).toHaveAttribute('aria-label', '템플릿 선택');
+
+    fireEvent.click(templatesButton);
+    expect(onTemplateClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders workout button only when onWorkoutClick is provided', () => {
+    const mockOnWorkoutClick = vi.fn();
+    const { unmount } = renderWithContext({ onSettingsClick: mockOnSettingsClick });
+
+    expect(screen.queryByTestId('workout-button')).not.toBeInTheDocument();
+    unmount();
+
+    renderWithContext({ onSettingsClick: mockOnSettingsClick, onWorkoutClick: mockOnWorkoutClick });
+    fireEvent.click(screen.getByRole('button', { name: '운동 프로그램' }));
+
+    expect(mockOnWorkoutClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders history button when onHistoryClick is provided', () => {
+    const onHistoryClick = vi.fn();
+    renderWithContext({ onSettingsClick: mockOnSettingsClick, onHistoryClick });
+
+    const historyButton = screen.getByTestId('history-button');
+    expect(historyButton).toHaveAttribute('aria-label', '운동 기록');
+
+    fireEvent.click(historyButton);
+    expect(onHistoryClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders stats button next to settings when onStatsClick is provided', () => {
+    const onStatsClick = vi.fn();
+    renderWithContext({ onSettingsClick: mockOnSettingsClick, onStatsClick });
+
+    const statsButton = screen.getByTestId('stats-button');
+    expect(statsButton).toHaveAttribute('aria-label', '운동 통계');
+    expect(statsButton.nextElementSibling).toBe(screen.getByTestId('settings-button'));
+
+    fireEvent.click(statsButton);
+    expect(onStatsClick).toHaveBeenCalledTimes(1);
+  });
+
   it('applies custom className when provided', () => {
     const customClass = 'custom-header';
     const { container } = renderWithContext({ onSettingsClick: mockOnSettingsClick, className: customClass });
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useHistory } from '../../hooks';
+import Button from '../Button/Button';
+import Modal from '../Modal/Modal';
+import { formatClock, formatOvertime } from '../../utils';
+import type { HistoryImportResult, TimerMode, WorkoutSession } from '../../types';
+import styles from './HistoryModal.module.css';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<TimerMode, string> = {
+  timer: '타이머',
+  stopwatch: '스톱워치',
+  interval: '인터벌',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+};
+
+/**
+ * 기록 상세 문구 (예: "운동 1:05 / 설정 1:00 · 반복 3회 · 일시정지 1회")
+ */
+const describeSession = (session: WorkoutSession): string => {
+  const parts = [`운동 ${formatClock(Math.floor(session.elapsedTime / 1000))}`];
+  if (session.duration > 0) {
+    parts[0] += ` / 설정 ${formatClock(session.duration)}`;
+  }
+  if (session.overtime !== null) {
+    parts.push(`초과 ${formatOvertime(session.overtime)}`);
+  }
+  if (session.repetitions > 0) {
+    parts.push(`반복 ${session.repetitions}회`);
+  }
+  if (session.laps.length > 0) {
+    parts.push(`랩 ${session.laps.length}개`);
+  }
+  if (session.pauses.length > 0) {
+    parts.push(`일시정지 ${session.pauses.length}회`);
+  }
+  return parts.join(' · ');
+};
+
+/**
+ * 가져오기 결과 문구 (예: "3개 가져옴 · 중복 1개 · 오류 2행")
+ */
+const describeImportResult = (result: HistoryImportResult): string => {
+  const parts = [`${result.imported}개 가져옴`];
+  if (result.duplicates > 0) {
+    parts.push(`중복 ${result.duplicates}개`);
+  }
+  if (result.rejected > 0) {
+    parts.push(`오류 ${result.rejected}행`);
+  }
+  return parts.join(' · ');
+};
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose }) => {
+  const { sessions, isLoading, error, deleteSession, clearHistory, exportHistory, importHistory } = useHistory();
+  // 전체 삭제 확인 대기 여부
+  const [confirmClear, setConfirmClear] = useState(false);
+  // 마지막 가져오기 결과
+  const [importResult, setImportResult] = useState<HistoryImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 모달이 닫히면 삭제 확인 상태와 가져오기 결과 초기화
+  useEffect(() => {
+    if (!isOpen) {
+      setConfirmClear(false);
+      setImportResult(null);
+    }
+  }, [isOpen]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // 같은 파일을 다시 선택할 수 있도록 초기화
+    event.target.value = '';
+    if (!file) return;
+    setImportResult(await importHistory(file));
+  };
+
+  const handleClear = async () => {
+    await clearHistory();
+    setConfirmClear(false);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="운동 기록"
+      className={styles.modal}
+    >
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      {importResult && (
+        <p className={styles.notice} role="status" data-testid="import-result">
+          {describeImportResult(importResult)}
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className={styles.empty} role="status">기록을 불러오는 중...</p>
+      ) : sessions.length === 0 ? (
+        <p className={styles.empty}>기록된 운동이 없습니다.</p>
+      ) : (
+        <ol className={styles.list} aria-label="운동 기록 목록" data-testid="history-list">
+          {sessions.map(session => {
+            const date = new Date(session.startedAt).toLocaleString('ko-KR');
+            return (
+              <li key={session.id} className={styles.item}>
+                <div className={styles.itemText}>
+                  <div className={styles.itemHeader}>
+                    <span className={styles.itemMode}>{MODE_LABELS[session.mode]}</span>
+                    <span className={session.completed ? styles.badgeCompleted : styles.badgeStopped}>
+                      {session.completed ? '완료' : '중단'}
+                    </span>
+                  </div>
+                  <time className={styles.itemDate} dateTime={new Date(session.startedAt).toISOString()}>
+                    {date}
+                  </time>
+                  <span className={styles.itemDetail}>{describeSession(session)}</span>
+                </div>
+                <Button
+                  variant="outline"
+                  size="small"
+                  onClick={() => deleteSession(session.id)}
+                  aria-label={`${date} ${MODE_LABELS[session.mode]} 기록 삭제`}
+                >
+                  ✕
+                </Button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {/* 내보내기/가져오기 */}
+      <div className={styles.transfer} role="group" aria-label="기록 내보내기 및 가져오기">
+        <Button
+          variant="outline"
+          size="small"
+          onClick={() => exportHistory('csv')}
+          disabled={sessions.length === 0}
+          data-testid="export-csv"
+        >
+          CSV 내보내기
+        </Button>
+        <Button
+          variant="outline"
+          size="small"
+          onClick={() => exportHistory('json')}
+          disabled={sessions.length === 0}
+          data-testid="export-json"
+        >
+          JSON 내보내기
+        </Button>
+        <Button
+          variant="outline"
+          size="small"
+          onClick={() => fileInputRef.current?.click()}
+          data-testid="import-history"
+        >
+          가져오기
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className={styles.fileInput}
+          onChange={handleImport}
+          aria-label="가져올 운동 기록 파일"
+          data-testid="import-file"
+        />
+      </div>
+
+      <div className={styles.actions}>
+        {sessions.length > 0 && (confirmClear ? (
+          <div className={styles.confirm} role="group" aria-label="전체 기록 삭제 확인">
+            <Button variant="danger" onClick={handleClear} data-testid="confirm-clear-history">
+              전체 삭제
+            </Button>
+            <Button variant="secondary" onClick={() => setConfirmClear(false)}>
+              취소
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => setConfirmClear(true)}
+            className={styles.actionButton}
+            data-testid="clear-history"
+          >
+            기록 삭제
+          </Button>
+        ))}
+        <Button
+          variant="secondary"
+          onClick={onClose}
+          className={styles.actionButton}
+          data-testid="close-history"
+        >
+          닫기
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default HistoryModal;
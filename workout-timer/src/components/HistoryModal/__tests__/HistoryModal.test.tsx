@@ -0,0 +1,135 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import HistoryModal from '../HistoryModal';
+import type { WorkoutSession } from '../../../types';
+
+const sessions: WorkoutSession[] = [
+  {
+    id: 'session-2',
+    mode: 'stopwatch',
+    duration: 0,
+    elapsedTime: 95_000,
+    pauses: [{ startedAt: 0, endedAt: 1000 }],
+    repetitions: 0,
+    laps: [
+      { number: 1, lapTime: 40_000, totalTime: 40_000 },
+      { number: 2, lapTime: 55_000, totalTime: 95_000 },
+    ],
+    overtime: null,
+    startedAt: new Date('2024-03-02T10:00:00').getTime(),
+    endedAt: new Date('2024-03-02T10:01:36').getTime(),
+    completed: false,
+  },
+  {
+    id: 'session-1',
+    mode: 'timer',
+    duration: 60,
+    elapsedTime: 60_000,
+    pauses: [],
+    repetitions: 3,
+    laps: [],
+    overtime: null,
+    startedAt: new Date('2024-03-01T09:00:00').getTime(),
+    endedAt: new Date('2024-03-01T09:01:00').getTime(),
+    completed: true,
+  },
+];
+
+// Mock the useHistory hook
+const mockUseHistory = {
+  sessions,
+  isLoading: false,
+  error: null as string | null,
+  deleteSession: vi.fn().mockResolvedValue(undefined),
+  clearHistory: vi.fn().mockResolvedValue(undefined),
+  exportHistory: vi.fn().mockResolvedValue(undefined),
+  importHistory: vi.fn(),
+};
+
+vi.mock('../../../hooks', () => ({
+  useHistory: () => mockUseHistory,
+}));
+
+describe('HistoryModal', () => {
+  const mockOnClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseHistory.sessions = sessions;
+    mockUseHistory.isLoading = false;
+    mockUseHistory.error = null;
+  });
+
+  it('lists sessions with mode, status and details', () => {
+    render(<HistoryModal isOpen={true} onClose={mockOnClose} />);
+
+    const items = screen.getByTestId('history-list').querySelectorAll('li');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent('스톱워치');
+    expect(items[0]).toHaveTextContent('중단');
+    expect(items[0]).toHaveTextContent('운동 1:35 · 랩 2개 · 일시정지 1회');
+    expect(items[1]).toHaveTextContent('타이머');
+    expect(items[1]).toHaveTextContent('완료');
+    expect(items[1]).toHaveTextContent('운동 1:00 / 설정 1:00 · 반복 3회');
+  });
+
+  it('shows empty and loading states', () => {
+    mockUseHistory.sessions = [];
+    const { rerender } = render(<HistoryModal isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByText('기록된 운동이 없습니다.')).toBeInTheDocument();
+    expect(screen.queryByTestId('clear-history')).not.toBeInTheDocument();
+
+    mockUseHistory.isLoading = true;
+    rerender(<HistoryModal isOpen={true} onClose={mockOnClose} />);
+    expect(screen.getByRole('status')).toHaveTextContent('기록을 불러오는 중...');
+  });
+
+  it('deletes a single session', () => {
+    render(<HistoryModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getAllByRole('button', { name: /기록 삭제$/ })[1]);
+
+    expect(mockUseHistory.deleteSession).toHaveBeenCalledWith('session-1');
+  });
+
+  it('asks for confirmation before clearing all history', () => {
+    render(<HistoryModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByTestId('clear-history'));
+    expect(mockUseHistory.clearHistory).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTestId('confirm-clear-history'));
+    expect(mockUseHistory.clearHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('exports history as CSV or JSON', () => {
+    render(<HistoryModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByTestId('export-csv'));
+    fireEvent.click(screen.getByTestId('export-json'));
+
+    expect(mockUseHistory.exportHistory).toHaveBeenNthCalledWith(1, 'csv');
+    expect(mockUseHistory.exportHistory).toHaveBeenNthCalledWith(2, 'json');
+  });
+
+  it('imports a selected file and reports the result', async () => {
+    mockUseHistory.importHistory.mockResolvedValue({ imported: 3, duplicates: 1, rejected: 2 });
+    render(<HistoryModal isOpen={true} onClose={mockOnClose} />);
+
+    const file = new File(['{}'], 'history.json', { type: 'application/json' });
+    fireEvent.change(screen.getByTestId('import-file'), { target: { files: [file] } });
+
+    expect(mockUseHistory.importHistory).toHaveBeenCalledWith(file);
+    await waitFor(() => {
+      expect(screen.getByTestId('import-result')).toHaveTextContent('3개 가져옴 · 중복 1개 · 오류 2행');
+    });
+  });
+
+  it('shows errors from the history context', () => {
+    mockUseHistory.error = '운동 기록을 저장하지 못했습니다.';
+    render(<HistoryModal isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('운동 기록을 저장하지 못했습니다.');
+  });
+});
@@ -0,0 +1,2 @@
+export { default as HistoryModal } from './HistoryModal';
+export { default } from './HistoryModal';
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { useTimer } from '../../hooks';
+import Button from '../Button/Button';
+import Modal from '../Modal/Modal';
+import WheelPicker from '../WheelPicker/WheelPicker';
+import { formatTime, buildIntervalSchedule, getScheduleDuration } from '../../utils';
+import { INTERVAL_CONSTANTS } from '../../types';
+import styles from './IntervalSettingModal.module.css';
+
+interface IntervalSettingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const IntervalSettingModal: React.FC<IntervalSettingModalProps> = ({ isOpen, onClose }) => {
+  const { state, setIntervalConfig } = useTimer();
+  const [workDuration, setWorkDuration] = useState(state.interval.workDuration);
+  const [restDuration, setRestDuration] = useState(state.interval.restDuration);
+  const [rounds, setRounds] = useState(state.interval.rounds);
+
+  // 모달이 열릴 때 현재 인터벌 설정으로 초기화
+  useEffect(() => {
+    if (isOpen) {
+      setWorkDuration(state.interval.workDuration);
+      setRestDuration(state.interval.restDuration);
+      setRounds(state.interval.rounds);
+    }
+  }, [isOpen, state.interval]);
+
+  const totalSeconds = getScheduleDuration(
+    buildIntervalSchedule({ workDuration, restDuration, rounds })
+  );
+
+  const handleConfirm = () => {
+    setIntervalConfig({ workDuration, restDuration, rounds });
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="인터벌 설정"
+      className={styles.modal}
+    >
+      <div className={styles.inputs}>
+        <div className={styles.inputGroup}>
+          <label htmlFor="work-input" className={styles.label}>운동(초)</label>
+          <WheelPicker
+            value={workDuration}
+            min={INTERVAL_CONSTANTS.MIN_WORK_SECONDS}
+            max={INTERVAL_CONSTANTS.MAX_WORK_SECONDS}
+            step={INTERVAL_CONSTANTS.STEP_SECONDS}
+            label="운동"
+            onChange={setWorkDuration}
+            inputId="work-input"
+          />
+        </div>
+
+        <div className={styles.inputGroup}>
+          <label htmlFor="rest-input" className={styles.label}>휴식(초)</label>
+          <WheelPicker
+            value={restDuration}
+            min={INTERVAL_CONSTANTS.MIN_REST_SECONDS}
+            max={INTERVAL_CONSTANTS.MAX_REST_SECONDS}
+            step={INTERVAL_CONSTANTS.STEP_SECONDS}
+            label="휴식"
+            onChange={setRestDuration}
+            inputId="rest-input"
+          />
+        </div>
+
+        <div className={styles.inputGroup}>
+          <label htmlFor="rounds-input" className={styles.label}>라운드</label>
+          <WheelPicker
+            value={rounds}
+            min={INTERVAL_CONSTANTS.MIN_ROUNDS}
+            max={INTERVAL_CONSTANTS.MAX_ROUNDS}
+            label="라운드"
+            onChange={setRounds}
+            inputId="rounds-input"
+          />
+        </div>
+      </div>
+
+      <div className={styles.preview}>
+        <span className={styles.previewLabel}>총 시간:</span>
+        <span className={styles.previewTime} data-testid="interval-total">
+          {formatTime(totalSeconds)}
+        </span>
+      </div>
+
+      <div className={styles.actions}>
+        <Button
+          variant="primary"
+          onClick={handleConfirm}
+          className={styles.actionButton}
+          data-testid="confirm-interval"
+        >
+          확인
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={onClose}
+          className={styles.actionButton}
+        >
+          취소
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default IntervalSettingModal;
@@ -0,0 +1,79 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import IntervalSettingModal from '../IntervalSettingModal';
+
+// Mock the useTimer hook
+const mockUseTimer = {
+  state: {
+    interval: { workDuration: 20, restDuration: 10, rounds: 8 },
+  },
+  setIntervalConfig: vi.fn(),
+};
+
+vi.mock('../../../hooks', () => ({
+  useTimer: () => mockUseTimer,
+}));
+
+describe('IntervalSettingModal', () => {
+  const mockOnClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseTimer.state = {
+      interval: { workDuration: 20, restDuration: 10, rounds: 8 },
+    };
+  });
+
+  it('does not render when isOpen is false', () => {
+    render(<IntervalSettingModal isOpen={false} onClose={mockOnClose} />);
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('renders with current interval config', () => {
+    render(<IntervalSettingModal isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByText('인터벌 설정')).toBeInTheDocument();
+    expect(screen.getByLabelText('운동 입력')).toHaveValue(20);
+    expect(screen.getByLabelText('휴식 입력')).toHaveValue(10);
+    expect(screen.getByLabelText('라운드 입력')).toHaveValue(8);
+  });
+
+  it('shows total duration without trailing rest', () => {
+    render(<IntervalSettingModal isOpen={true} onClose={mockOnClose} />);
+
+    // 20초 × 8 + 10초 × 7 = 230초
+    expect(screen.getByTestId('interval-total')).toHaveTextContent('03:50');
+  });
+
+  it('updates rounds with increment button', () => {
+    render(<IntervalSettingModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '라운드 증가' }));
+
+    expect(screen.getByLabelText('라운드 입력')).toHaveValue(9);
+  });
+
+  it('saves config and closes on confirm', () => {
+    render(<IntervalSettingModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '운동 증가' }));
+    fireEvent.click(screen.getByTestId('confirm-interval'));
+
+    expect(mockUseTimer.setIntervalConfig).toHaveBeenCalledWith({
+      workDuration: 25,
+      restDuration: 10,
+      rounds: 8,
+    });
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+
+  it('closes without saving on cancel', () => {
+    render(<IntervalSettingModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByText('취소'));
+
+    expect(mockUseTimer.setIntervalConfig).not.toHaveBeenCalled();
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+});
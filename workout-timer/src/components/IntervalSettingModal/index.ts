@@ -0,0 +1,2 @@
+export { default as IntervalSettingModal } from './IntervalSettingModal';
+export { default } from './IntervalSettingModal';
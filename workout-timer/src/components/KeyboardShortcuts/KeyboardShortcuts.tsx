@@ -18,9 +18,11 @@ const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
     { key: '↑', description: '반복 횟수 증가' },
     { key: '↓', description: '반복 횟수 감소' },
     { key: 'R', description: '타이머 초기화' },
+    { key: 'L', description: '랩 기록 (스톱워치)' },
     { key: '1', description: '30초 템플릿 선택' },
     { key: '2', description: '1분 템플릿 선택' },
     { key: '3', description: '3분 템플릿 선택' },
+    { key: '4–9', description: '목록 순서대로 템플릿 선택' },
     { key: 'Esc', description: '모달 닫기' },
     { key: 'Tab', description: '다음 요소로 이동' },
     { key: 'Shift + Tab', description: '이전 요소로 이동' },
@@ -109,7 +109,7 @@ describe('KeyboardShortcuts', () => {
     expect(list).toBeInTheDocument();
     
     const listItems = screen.getAllByRole('listitem');
-    expect(listItems).toHaveLength(10); // Should have 10 shortcuts
+    expect(listItems).toHaveLength(12); // Should have 12 shortcuts
   });
 
   it('should render keyboard keys with proper styling', () => {
@@ -138,7 +138,7 @@ describe('KeyboardShortcuts', () => {
   it('should render all expected shortcut keys', () => {
     render(<KeyboardShortcuts isVisible={true} onClose={mockOnClose} />);
     
-    const expectedKeys = ['Space', '↑', '↓', 'R', '1', '2', '3', 'Esc', 'Tab', 'Shift + Tab'];
+    const expectedKeys = ['Space', '↑', '↓', 'R', 'L', '1', '2', '3', '4–9', 'Esc', 'Tab', 'Shift + Tab'];
     
     expectedKeys.forEach(key => {
       expect(screen.getByText(key)).toBeInTheDocument();
@@ -153,9 +153,11 @@ describe('KeyboardShortcuts', () => {
       '반복 횟수 증가',
       '반복 횟수 감소',
       '타이머 초기화',
+      '랩 기록 (스톱워치)',
       '30초 템플릿 선택',
       '1분 템플릿 선택',
       '3분 템플릿 선택',
+      '목록 순서대로 템플릿 선택',
       '모달 닫기',
       '다음 요소로 이동',
       '이전 요소로 이동'
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import type { Lap } from '../../types';
+import { formatTimeWithMilliseconds, getLapExtremes, classNames } from '../../utils';
+import styles from './LapTable.module.css';
+
+interface LapTableProps {
+  laps: Lap[];
+  className?: string;
+}
+
+const LapTable: React.FC<LapTableProps> = React.memo(({ laps, className = '' }) => {
+  const { fastest, slowest } = useMemo(() => getLapExtremes(laps), [laps]);
+
+  // 최근 랩이 위에 오도록 역순 표시
+  const rows = useMemo(() => [...laps].reverse(), [laps]);
+
+  if (laps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={classNames(styles.container, className)} data-testid="lap-table">
+      <table className={styles.table} aria-label="랩 기록">
+        <thead>
+          <tr>
+            <th scope="col">랩</th>
+            <th scope="col">랩 타임</th>
+            <th scope="col">누적</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((lap) => {
+            const isFastest = lap.number === fastest;
+            const isSlowest = lap.number === slowest;
+            return (
+              <tr
+                key={lap.number}
+                className={classNames(isFastest && styles.fastest, isSlowest && styles.slowest)}
+                data-testid={`lap-${lap.number}`}
+              >
+                <td>
+                  {lap.number}
+                  {isFastest && <span className="sr-only"> (가장 빠름)</span>}
+                  {isSlowest && <span className="sr-only"> (가장 느림)</span>}
+                </td>
+                <td>{formatTimeWithMilliseconds(lap.lapTime)}</td>
+                <td>{formatTimeWithMilliseconds(lap.totalTime)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+
+export default LapTable;
@@ -0,0 +1,37 @@
+import { render, screen, within } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import LapTable from '../LapTable';
+import type { Lap } from '../../../types';
+
+const laps: Lap[] = [
+  { number: 1, lapTime: 62000, totalTime: 62000 },
+  { number: 2, lapTime: 58500, totalTime: 120500 },
+  { number: 3, lapTime: 65000, totalTime: 185500 },
+];
+
+describe('LapTable', () => {
+  it('renders nothing without laps', () => {
+    const { container } = render(<LapTable laps={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows lap time and cumulative time with the latest lap first', () => {
+    render(<LapTable laps={laps} />);
+
+    const rows = screen.getAllByRole('row');
+    expect(rows).toHaveLength(4); // 헤더 + 3랩
+    const cellTexts = (row: HTMLElement) =>
+      within(row).getAllByRole('cell').slice(1).map(cell => cell.textContent);
+    expect(cellTexts(rows[1])).toEqual(['01:05.00', '03:05.50']);
+    expect(cellTexts(rows[3])).toEqual(['01:02.00', '01:02.00']);
+  });
+
+  it('highlights the fastest and slowest laps', () => {
+    render(<LapTable laps={laps} />);
+
+    expect(screen.getByTestId('lap-2')).toHaveTextContent('가장 빠름');
+    expect(screen.getByTestId('lap-3')).toHaveTextContent('가장 느림');
+    expect(screen.getByTestId('lap-1')).not.toHaveTextContent(/가장/);
+  });
+});
@@ -0,0 +1,2 @@
+export { default as LapTable } from './LapTable';
+export { default } from './LapTable';
@@ -0,0 +1,111 @@
+import React, { useCallback } from 'react';
+import { useMetronome, useSettings } from '../../hooks';
+import Button from '../Button/Button';
+import WheelPicker from '../WheelPicker/WheelPicker';
+import { METRONOME_CONSTANTS } from '../../types';
+import { classNames } from '../../utils';
+import styles from './MetronomePanel.module.css';
+
+interface MetronomePanelProps {
+  className?: string;
+}
+
+/**
+ * 메트로놈 (BPM, 강박 간격, 박 나누기 설정 및 시작/정지)
+ * 단독으로 실행하거나 타이머/스톱워치 진행에 맞춰 자동으로 실행합니다.
+ */
+const MetronomePanel: React.FC<MetronomePanelProps> = ({ className = '' }) => {
+  const { settings, updateMetronomeSettings } = useSettings();
+  const { isRunning, beat, toggleMetronome } = useMetronome();
+  const { bpm, accentEvery, subdivision, followTimer } = settings.metronome;
+
+  const handleBpmChange = useCallback((value: number) => {
+    updateMetronomeSettings({ bpm: value });
+  }, [updateMetronomeSettings]);
+
+  // 강박이 없으면 박 표시 하나만 깜빡임
+  const beatsPerBar = accentEvery > 0 ? accentEvery : 1;
+  const activeBeat = beat >= 0 ? beat % beatsPerBar : -1;
+
+  return (
+    <section className={classNames(styles.container, className)} aria-labelledby="metronome-title">
+      <div className={styles.header}>
+        <h2 id="metronome-title" className={styles.title}>메트로놈</h2>
+        <div className={styles.beats} aria-hidden data-testid="metronome-beats">
+          {Array.from({ length: beatsPerBar }, (_, index) => (
+            <span
+              key={index}
+              className={classNames(
+                styles.beat,
+                index === 0 && accentEvery > 0 && styles.accent,
+                index === activeBeat && styles.active
+              )}
+            />
+          ))}
+        </div>
+      </div>
+
+      <WheelPicker
+        value={bpm}
+        min={METRONOME_CONSTANTS.MIN_BPM}
+        max={METRONOME_CONSTANTS.MAX_BPM}
+        label="BPM"
+        onChange={handleBpmChange}
+        inputId="metronome-bpm"
+      />
+
+      <div className={styles.options}>
+        <label className={styles.field}>
+          <span className={styles.fieldLabel}>강박</span>
+          <select
+            className={styles.select}
+            value={accentEvery}
+            onChange={(event) => updateMetronomeSettings({ accentEvery: Number(event.target.value) })}
+          >
+            {METRONOME_CONSTANTS.ACCENT_OPTIONS.map((beats) => (
+              <option key={beats} value={beats}>
+                {beats > 0 ? `${beats}박마다` : '없음'}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className={styles.field}>
+          <span className={styles.fieldLabel}>박 나누기</span>
+          <select
+            className={styles.select}
+            value={subdivision}
+            onChange={(event) => updateMetronomeSettings({ subdivision: Number(event.target.value) })}
+          >
+            {METRONOME_CONSTANTS.SUBDIVISION_OPTIONS.map((ticks) => (
+              <option key={ticks} value={ticks}>
+                {ticks > 1 ? `${ticks}분할` : '없음'}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className={styles.follow}>
+        <input
+          type="checkbox"
+          checked={followTimer}
+          onChange={() => updateMetronomeSettings({ followTimer: !followTimer })}
+        />
+        <span>타이머와 함께 시작/정지</span>
+      </label>
+
+      <Button
+        variant={isRunning ? 'secondary' : 'primary'}
+        size="small"
+        onClick={toggleMetronome}
+        aria-pressed={isRunning}
+        data-testid="metronome-toggle"
+      >
+        {isRunning ? '메트로놈 정지' : '메트로놈 시작'}
+      </Button>
+    </section>
+  );
+};
+
+export default MetronomePanel;
@@ -0,0 +1,73 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import MetronomePanel from '../MetronomePanel';
+import { DEFAULT_SETTINGS } from '../../../types';
+
+// Mock the useSettings and useMetronome hooks
+const mockUseSettings = {
+  settings: DEFAULT_SETTINGS,
+  updateMetronomeSettings: vi.fn(),
+};
+
+const mockUseMetronome = {
+  isRunning: false,
+  beat: -1,
+  toggleMetronome: vi.fn(),
+};
+
+vi.mock('../../../hooks', () => ({
+  useSettings: () => mockUseSettings,
+  useMetronome: () => mockUseMetronome,
+}));
+
+describe('MetronomePanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseSettings.settings = DEFAULT_SETTINGS;
+    mockUseMetronome.isRunning = false;
+    mockUseMetronome.beat = -1;
+  });
+
+  it('changes the BPM with the wheel picker', () => {
+    render(<MetronomePanel />);
+
+    expect(screen.getByLabelText('BPM 입력')).toHaveValue(120);
+    fireEvent.click(screen.getByLabelText('BPM 증가'));
+
+    expect(mockUseSettings.updateMetronomeSettings).toHaveBeenCalledWith({ bpm: 121 });
+  });
+
+  it('changes accent, subdivision and timer following', () => {
+    render(<MetronomePanel />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: '강박' }), { target: { value: '3' } });
+    fireEvent.change(screen.getByRole('combobox', { name: '박 나누기' }), { target: { value: '2' } });
+    fireEvent.click(screen.getByRole('checkbox', { name: '타이머와 함께 시작/정지' }));
+
+    expect(mockUseSettings.updateMetronomeSettings).toHaveBeenCalledWith({ accentEvery: 3 });
+    expect(mockUseSettings.updateMetronomeSettings).toHaveBeenCalledWith({ subdivision: 2 });
+    expect(mockUseSettings.updateMetronomeSettings).toHaveBeenCalledWith({ followTimer: true });
+  });
+
+  it('starts and stops the metronome', () => {
+    const { rerender } = render(<MetronomePanel />);
+
+    fireEvent.click(screen.getByTestId('metronome-toggle'));
+    expect(mockUseMetronome.toggleMetronome).toHaveBeenCalledTimes(1);
+
+    mockUseMetronome.isRunning = true;
+    rerender(<MetronomePanel />);
+    expect(screen.getByTestId('metronome-toggle')).toHaveTextContent('메트로놈 정지');
+  });
+
+  it('highlights the current beat within the bar', () => {
+    mockUseMetronome.isRunning = true;
+    mockUseMetronome.beat = 6;
+    render(<MetronomePanel />);
+
+    const beats = screen.getByTestId('metronome-beats').children;
+    expect(beats).toHaveLength(4);
+    expect(beats[2].className).toContain('active');
+    expect(beats[0].className).toContain('accent');
+  });
+});
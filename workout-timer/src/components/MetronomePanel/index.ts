@@ -0,0 +1,2 @@
+export { default as MetronomePanel } from './MetronomePanel';
+export { default } from './MetronomePanel';
@@ -1,14 +1,23 @@
 import { useTimer } from '../../hooks';
+import type { TimerMode } from '../../types';
 import styles from './ModeSelector.module.css';
 
 export interface ModeSelectorProps {
   className?: string;
 }
 
+const MODE_OPTIONS: { mode: TimerMode; label: string }[] = [
+  { mode: 'timer', label: '타이머' },
+  { mode: 'stopwatch', label: '스톱워치' },
+  { mode: 'interval', label: '인터벌' },
+  { mode: 'emom', label: 'EMOM' },
+  { mode: 'amrap', label: 'AMRAP' },
+];
+
 export default function ModeSelector({ className }: ModeSelectorProps) {
   const { state, setMode } = useTimer();
 
-  const handleModeChange = (mode: 'timer' | 'stopwatch') => {
+  const handleModeChange = (mode: TimerMode) => {
     if (mode !== state.mode) {
       setMode(mode);
     }
@@ -16,28 +25,20 @@ export default function ModeSelector({ className }: ModeSelectorProps) {
 
   return (
     <div className={`${styles.modeSelector} ${className || ''}`} role="tablist" aria-label="타이머 모드 선택">
-      <button
-        type="button"
-        role="tab"
-        aria-selected={state.mode === 'timer'}
-        aria-controls="timer-display"
-        className={`${styles.modeButton} ${state.mode === 'timer' ? styles.active : ''}`}
-        onClick={() => handleModeChange('timer')}
-        tabIndex={state.mode === 'timer' ? 0 : -1}
-      >
-        타이머
-      </button>
-      <button
-        type="button"
-        role="tab"
-        aria-selected={state.mode === 'stopwatch'}
-        aria-controls="timer-display"
-        className={`${styles.modeButton} ${state.mode === 'stopwatch' ? styles.active : ''}`}
-        onClick={() => handleModeChange('stopwatch')}
-        tabIndex={state.mode === 'stopwatch' ? 0 : -1}
-      >
-        스톱워치
-      </button>
+      {MODE_OPTIONS.map(({ mode, label }) => (
+        <button
+          key={mode}
+          type="button"
+          role="tab"
+          aria-selected={state.mode === mode}
+          aria-controls="timer-display"
+          className={`${styles.modeButton} ${state.mode === mode ? styles.active : ''}`}
+          onClick={() => handleModeChange(mode)}
+          tabIndex={state.mode === mode ? 0 : -1}
+        >
+          {label}
+        </button>
+      ))}
     </div>
   );
-}
\ No newline at end of file
+}
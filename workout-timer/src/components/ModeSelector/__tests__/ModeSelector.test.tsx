@@ -93,6 +93,30 @@ describe('ModeSelector', () => {
     expect(mockSetMode).toHaveBeenCalledWith('stopwatch');
   });
 
+  it('renders interval mode button and selects it', () => {
+    renderWithContext({ mode: 'interval' });
+
+    const intervalButton = screen.getByRole('tab', { name: '인터벌' });
+    expect(intervalButton).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getByRole('tab', { name: '타이머' })).toHaveAttribute('aria-selected', 'false');
+  });
+
+  it('calls setMode when interval button is clicked', () => {
+    renderWithContext({ mode: 'timer' });
+
+    fireEvent.click(screen.getByRole('tab', { name: '인터벌' }));
+
+    expect(mockSetMode).toHaveBeenCalledWith('interval');
+  });
+
+  it('calls setMode when EMOM button is clicked', () => {
+    renderWithContext({ mode: 'timer' });
+
+    fireEvent.click(screen.getByRole('tab', { name: 'EMOM' }));
+
+    expect(mockSetMode).toHaveBeenCalledWith('emom');
+  });
+
   it('does not call setMode when clicking already active mode', () => {
     renderWithContext({ mode: 'timer' });
 
@@ -0,0 +1,66 @@
+import React from 'react';
+import { useTimer } from '../../hooks';
+import Button from '../Button/Button';
+import Modal from '../Modal/Modal';
+import { formatClock } from '../../utils';
+import type { TimerMode } from '../../types';
+import styles from './ResumePrompt.module.css';
+
+const MODE_LABELS: Record<TimerMode, string> = {
+  timer: '타이머',
+  stopwatch: '스톱워치',
+  interval: '인터벌',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+};
+
+/**
+ * 새로고침/탭 종료 전에 진행 중이던 오래된 세션을 이어서 할지 확인
+ */
+const ResumePrompt: React.FC = () => {
+  const { pendingResume, continueSavedSession, discardSavedSession } = useTimer();
+
+  if (!pendingResume) {
+    return null;
+  }
+
+  const startedAt = new Date(pendingResume.startedAt).toLocaleString('ko-KR');
+  const elapsed = formatClock(Math.floor(pendingResume.elapsedTime / 1000));
+
+  return (
+    <Modal
+      isOpen
+      onClose={discardSavedSession}
+      title="이전 운동 이어하기"
+      className={styles.modal}
+    >
+      <p className={styles.message} data-testid="resume-message">
+        {startedAt}에 시작한 {MODE_LABELS[pendingResume.mode]} 세션이
+        {pendingResume.isPaused ? ' 일시정지된 채로' : ' 진행 중인 채로'} 남아 있습니다.
+        (운동 {elapsed}{pendingResume.repetitions > 0 ? ` · 반복 ${pendingResume.repetitions}회` : ''})
+      </p>
+      <p className={styles.hint}>이어서 하면 시작 후 흐른 시간이 반영됩니다.</p>
+
+      <div className={styles.actions}>
+        <Button
+          variant="primary"
+          onClick={continueSavedSession}
+          className={styles.actionButton}
+          data-testid="resume-session"
+        >
+          이어서 하기
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={discardSavedSession}
+          className={styles.actionButton}
+          data-testid="discard-session"
+        >
+          새로 시작
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default ResumePrompt;
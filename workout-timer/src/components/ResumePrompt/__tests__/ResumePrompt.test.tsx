@@ -0,0 +1,68 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import ResumePrompt from '../ResumePrompt';
+import { DEFAULT_EMOM_CONFIG, DEFAULT_INTERVAL_CONFIG } from '../../../types';
+import type { SavedTimerSession } from '../../../types';
+
+const SAVED_SESSION: SavedTimerSession = {
+  mode: 'stopwatch',
+  duration: 0,
+  interval: DEFAULT_INTERVAL_CONFIG,
+  emom: DEFAULT_EMOM_CONFIG,
+  overtime: false,
+  repetitions: 12,
+  laps: [],
+  roundSplits: [],
+  isPaused: true,
+  startedAt: 1_700_000_000_000,
+  elapsedTime: 125_000,
+  savedAt: 1_700_000_200_000,
+  pauses: [{ startedAt: 1_700_000_050_000, endedAt: 1_700_000_075_000 }],
+  pausedAt: 1_700_000_200_000,
+  addedTime: [],
+};
+
+// Mock the useTimer hook
+const mockUseTimer = {
+  pendingResume: null as SavedTimerSession | null,
+  continueSavedSession: vi.fn(),
+  discardSavedSession: vi.fn(),
+};
+
+vi.mock('../../../hooks', () => ({
+  useTimer: () => mockUseTimer,
+}));
+
+describe('ResumePrompt', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseTimer.pendingResume = SAVED_SESSION;
+  });
+
+  it('renders nothing without a pending session', () => {
+    mockUseTimer.pendingResume = null;
+
+    const { container } = render(<ResumePrompt />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('describes the saved session', () => {
+    render(<ResumePrompt />);
+
+    expect(screen.getByText('이전 운동 이어하기')).toBeInTheDocument();
+    const message = screen.getByTestId('resume-message');
+    expect(message).toHaveTextContent('스톱워치 세션이 일시정지된 채로 남아 있습니다.');
+    expect(message).toHaveTextContent('운동 2:05 · 반복 12회');
+  });
+
+  it('continues or discards the saved session', () => {
+    render(<ResumePrompt />);
+
+    fireEvent.click(screen.getByTestId('resume-session'));
+    expect(mockUseTimer.continueSavedSession).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByTestId('discard-session'));
+    expect(mockUseTimer.discardSavedSession).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,2 @@
+export { default as ResumePrompt } from './ResumePrompt';
+export { default } from './ResumePrompt';
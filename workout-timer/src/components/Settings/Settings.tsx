@@ -1,8 +1,15 @@
 // Settings Component - 설정 화면 컴포넌트
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSettings } from '../../hooks/useSettings';
+import { useCustomSounds } from '../../hooks/useCustomSounds';
 import Button from '../Button/Button';
-import { AUDIO_CONSTANTS } from '../../types';
+import BackupRestore from '../BackupRestore/BackupRestore';
+import { SystemNotificationService } from '../../services/SystemNotificationService';
+import type { SystemNotificationPermission } from '../../services/SystemNotificationService';
+import { SpeechCueService } from '../../services/SpeechCueService';
+import type { SpeechCueSetting } from '../../services/SpeechCueService';
+import { AUDIO_CONSTANTS, CUSTOM_SOUND_CONSTANTS, DEFAULT_SETTINGS, SPEECH_CONSTANTS, TIME_CONSTANTS, VOICE_COUNT_CONSTANTS } from '../../types';
+import type { CustomSound, SoundType } from '../../types';
 import { classNames } from '../../utils';
 import { useScreenReader } from '../../hooks/useScreenReader';
 import styles from './Settings.module.css';
@@ -11,18 +18,73 @@ interface SettingsProps {
   onClose: () => void;
 }
 
+// 시스템 알림 권한 상태 표시 (요청 전에는 허용 버튼 표시)
+const NOTIFICATION_PERMISSION_LABELS: Record<Exclude<SystemNotificationPermission, 'default'>, string> = {
+  granted: '허용됨',
+  denied: '차단됨 (브라우저 설정에서 변경)',
+  unsupported: '지원 안 함',
+};
+
+const SPEECH_LANGUAGE_LABELS: Record<string, string> = {
+  'ko-KR': '한국어',
+  'en-US': 'English',
+};
+
+// 음성 안내 항목 (설정 키와 표시 이름)
+const SPEECH_CUE_OPTIONS: Array<{ key: SpeechCueSetting; label: string }> = [
+  { key: 'timeLeftCue', label: `${SPEECH_CONSTANTS.TIME_LEFT_SECONDS}초 남음` },
+  { key: 'halfwayCue', label: '절반 지남' },
+  { key: 'phaseCue', label: '운동/휴식 전환' },
+  { key: 'roundCue', label: '라운드' },
+  { key: 'exerciseCue', label: '다음 종목' },
+];
+
+// 기본 알림음 표시 이름
+const BUILT_IN_SOUND_LABELS: Record<string, string> = {
+  [AUDIO_CONSTANTS.SOUNDS.BEEP]: '기본음 (띵)',
+  [AUDIO_CONSTANTS.SOUNDS.BELL]: '벨소리',
+  [AUDIO_CONSTANTS.SOUNDS.CHIME]: '차임',
+};
+
+// 템포 구간 이름 (설정의 tempo 배열 순서)
+const TEMPO_PHASE_LABELS = ['내리기', '아래 멈춤', '올리기', '위 멈춤'];
+const TEMPO_SECONDS_OPTIONS = Array.from({ length: VOICE_COUNT_CONSTANTS.MAX_TEMPO_SECONDS + 1 }, (_, seconds) => seconds);
+
 const Settings: React.FC<SettingsProps> = ({ onClose }) => {
   const {
     settings,
     updateSoundSettings,
     updateVibrationSettings,
     updateUISettings,
+    updateTimerSettings,
+    updateSpeechSettings,
+    updateVoiceCountSettings,
     resetSettings
   } = useSettings();
   
   // 스크린 리더 지원
   const { announceSettingChange } = useScreenReader();
 
+  // 사용자가 추가한 알림음 (기본 알림음 뒤에 선택지로 표시)
+  const {
+    sounds: customSounds,
+    error: customSoundError,
+    isImporting: isImportingSound,
+    importSound,
+    deleteSound,
+    previewSound
+  } = useCustomSounds();
+  const soundFileInputRef = useRef<HTMLInputElement>(null);
+  const soundOptions: Array<{ id: SoundType; label: string }> = [
+    ...Object.values(AUDIO_CONSTANTS.SOUNDS).map((sound) => ({ id: sound, label: BUILT_IN_SOUND_LABELS[sound] })),
+    ...customSounds.map((sound) => ({ id: sound.id, label: sound.name })),
+  ];
+
+  // 화면이 잠겨도 보이는 시스템 알림 권한
+  const [notificationPermission, setNotificationPermission] = useState<SystemNotificationPermission>(
+    () => SystemNotificationService.getPermission()
+  );
+
   const handleSoundToggle = () => {
     const newValue = !settings.sound.enabled;
     updateSoundSettings({ enabled: newValue });
@@ -35,14 +97,107 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
     announceSettingChange('진동 알림', newValue);
   };
 
-  const handleCountdownSoundChange = (sound: string) => {
+  const handleNotificationPermissionRequest = async () => {
+    const permission = await SystemNotificationService.requestPermission();
+    setNotificationPermission(permission);
+    announceSettingChange('시스템 알림', permission === 'granted');
+  };
+
+  // 선택한 언어의 음성 목록 (브라우저가 음성을 늦게 불러오면 voiceschanged에서 갱신)
+  const speechLang = settings.speech.lang;
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => SpeechCueService.getVoices(speechLang));
+  useEffect(() => {
+    if (!SpeechCueService.supported) {
+      return;
+    }
+    const updateVoices = () => setVoices(SpeechCueService.getVoices(speechLang));
+    updateVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', updateVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', updateVoices);
+  }, [speechLang]);
+
+  const handleSpeechToggle = () => {
+    const newValue = !settings.speech.enabled;
+    updateSpeechSettings({ enabled: newValue });
+    announceSettingChange('음성 안내', newValue);
+  };
+
+  const handleSpeechLangChange = (lang: string) => {
+    // 언어를 바꾸면 이전 언어의 음성 선택은 해제
+    updateSpeechSettings({ lang, voiceURI: '' });
+    announceSettingChange('음성 안내 언어', SPEECH_LANGUAGE_LABELS[lang]);
+  };
+
+  const handleSpeechRateChange = (rate: number) => {
+    updateSpeechSettings({ rate });
+    announceSettingChange('말하기 속도', `${rate}배`);
+  };
+
+  const handleSpeechCueToggle = (key: SpeechCueSetting, label: string) => {
+    const newValue = !settings.speech[key];
+    updateSpeechSettings({ [key]: newValue });
+    announceSettingChange(`${label} 안내`, newValue);
+  };
+
+  const handleTargetRepsChange = (targetReps: number) => {
+    updateVoiceCountSettings({ targetReps });
+    announceSettingChange('목표 반복 횟수', `${targetReps}회`);
+  };
+
+  const handleTempoChange = (index: number, seconds: number) => {
+    const tempo = settings.voiceCount.tempo.map((value, phase) => (phase === index ? seconds : value));
+    updateVoiceCountSettings({ tempo });
+    announceSettingChange('템포', tempo.join('-'));
+  };
+
+  const handleCountdownSoundChange = (sound: string, label: string) => {
     updateSoundSettings({ countdownSound: sound });
-    announceSettingChange('카운트다운 알림음', sound);
+    announceSettingChange('카운트다운 알림음', label);
   };
 
-  const handleCompletionSoundChange = (sound: string) => {
+  const handleCompletionSoundChange = (sound: string, label: string) => {
     updateSoundSettings({ completionSound: sound });
-    announceSettingChange('완료 알림음', sound);
+    announceSettingChange('완료 알림음', label);
+  };
+
+  const handleCustomSoundFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // 같은 파일을 다시 선택할 수 있도록 초기화
+    event.target.value = '';
+    if (!file) return;
+
+    const sound = await importSound(file);
+    if (sound) {
+      announceSettingChange('알림음 추가', sound.name);
+    }
+  };
+
+  const handleCustomSoundDelete = async (sound: CustomSound) => {
+    // 삭제한 알림음을 사용 중이면 기본 알림음으로 되돌림
+    if (settings.sound.countdownSound === sound.id) {
+      updateSoundSettings({ countdownSound: DEFAULT_SETTINGS.sound.countdownSound });
+    }
+    if (settings.sound.completionSound === sound.id) {
+      updateSoundSettings({ completionSound: DEFAULT_SETTINGS.sound.completionSound });
+    }
+    await deleteSound(sound.id);
+    announceSettingChange('알림음 삭제', sound.name);
+  };
+
+  const handlePreStartChange = (seconds: number) => {
+    updateTimerSettings({ preStartCountdown: seconds });
+    announceSettingChange('준비 카운트다운', seconds > 0 ? `${seconds}초` : false);
+  };
+
+  const handleResumePromptChange = (minutes: number) => {
+    updateTimerSettings({ resumePromptMinutes: minutes });
+    announceSettingChange('이어하기 확인 기준', `${minutes}분`);
+  };
+
+  const handleOvertimeToggle = () => {
+    const newValue = !settings.timer.overtime;
+    updateTimerSettings({ overtime: newValue });
+    announceSettingChange('시간 초과 카운트', newValue);
   };
 
   const handleThemeToggle = () => {
@@ -109,6 +264,21 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
               </button>
             </label>
           </div>
+
+          <div className={styles.settingItem}>
+            <div className={styles.settingLabel}>
+              <span className={styles.labelText}>시스템 알림</span>
+              {notificationPermission === 'default' ? (
+                <Button variant="outline" size="small" onClick={handleNotificationPermissionRequest}>
+                  알림 허용
+                </Button>
+              ) : (
+                <span className={styles.permissionStatus}>
+                  {NOTIFICATION_PERMISSION_LABELS[notificationPermission]}
+                </span>
+              )}
+            </div>
+          </div>
         </section>
 
         {/* 알림음 선택 */}
@@ -118,49 +288,340 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
           <div className={styles.settingItem}>
             <span className={styles.settingSubtitle} id="countdown-sound-label">카운트다운 알림음</span>
             <div className={styles.radioGroup} role="radiogroup" aria-labelledby="countdown-sound-label">
-              {Object.values(AUDIO_CONSTANTS.SOUNDS).map((sound) => (
-                <label key={`countdown-${sound}`} className={styles.radioLabel}>
+              {soundOptions.map(({ id, label }) => (
+                <label key={`countdown-${id}`} className={styles.radioLabel}>
                   <input
                     type="radio"
                     name="countdownSound"
-                    value={sound}
-                    checked={settings.sound.countdownSound === sound}
-                    onChange={() => handleCountdownSoundChange(sound)}
+                    value={id}
+                    checked={settings.sound.countdownSound === id}
+                    onChange={() => handleCountdownSoundChange(id, label)}
                     className={styles.radioInput}
-                    aria-describedby={`countdown-${sound}-desc`}
+                    aria-describedby={`countdown-${id}-desc`}
                   />
-                  <span className={styles.radioText} id={`countdown-${sound}-desc`}>
-                    {sound === 'beep' && '기본음 (띵)'}
-                    {sound === 'bell' && '벨소리'}
-                    {sound === 'chime' && '차임'}
+                  <span className={styles.radioText} id={`countdown-${id}-desc`}>
+                    {label}
                   </span>
                 </label>
               ))}
             </div>
+            <Button
+              variant="outline"
+              size="small"
+              onClick={() => previewSound(settings.sound.countdownSound as SoundType)}
+              aria-label="카운트다운 알림음 미리 듣기"
+              className={styles.previewButton}
+            >
+              미리 듣기
+            </Button>
           </div>
 
           <div className={styles.settingItem}>
             <span className={styles.settingSubtitle} id="completion-sound-label">완료 알림음</span>
             <div className={styles.radioGroup} role="radiogroup" aria-labelledby="completion-sound-label">
-              {Object.values(AUDIO_CONSTANTS.SOUNDS).map((sound) => (
-                <label key={`completion-${sound}`} className={styles.radioLabel}>
+              {soundOptions.map(({ id, label }) => (
+                <label key={`completion-${id}`} className={styles.radioLabel}>
                   <input
                     type="radio"
                     name="completionSound"
-                    value={sound}
-                    checked={settings.sound.completionSound === sound}
-                    onChange={() => handleCompletionSoundChange(sound)}
+                    value={id}
+                    checked={settings.sound.completionSound === id}
+                    onChange={() => handleCompletionSoundChange(id, label)}
                     className={styles.radioInput}
-                    aria-describedby={`completion-${sound}-desc`}
+                    aria-describedby={`completion-${id}-desc`}
                   />
-                  <span className={styles.radioText} id={`completion-${sound}-desc`}>
-                    {sound === 'beep' && '기본음 (띵)'}
-                    {sound === 'bell' && '벨소리'}
-                    {sound === 'chime' && '차임'}
+                  <span className={styles.radioText} id={`completion-${id}-desc`}>
+                    {label}
                   </span>
                 </label>
               ))}
             </div>
+            <Button
+              variant="outline"
+              size="small"
+              onClick={() => previewSound(settings.sound.completionSound as SoundType)}
+              aria-label="완료 알림음 미리 듣기"
+              className={styles.previewButton}
+            >
+              미리 듣기
+            </Button>
+          </div>
+
+          <div className={styles.settingItem}>
+            <span className={styles.settingSubtitle} id="custom-sounds-label">내 알림음</span>
+            {customSounds.length > 0 && (
+              <ul className={styles.customSoundList} aria-labelledby="custom-sounds-label">
+                {customSounds.map((sound) => (
+                  <li key={sound.id} className={styles.customSoundItem}>
+                    <span className={styles.customSoundName}>{sound.name}</span>
+                    <span className={styles.customSoundDuration}>{sound.duration.toFixed(1)}초</span>
+                    <Button
+                      variant="outline"
+                      size="small"
+                      onClick={() => previewSound(sound.id)}
+                      aria-label={`${sound.name} 미리 듣기`}
+                    >
+                      듣기
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="small"
+                      onClick={() => handleCustomSoundDelete(sound)}
+                      aria-label={`${sound.name} 삭제`}
+                    >
+                      삭제
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {customSoundError && (
+              <p className={styles.settingError} role="alert">
+                {customSoundError}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              size="small"
+              onClick={() => soundFileInputRef.current?.click()}
+              disabled={isImportingSound}
+              data-testid="add-custom-sound"
+            >
+              {isImportingSound ? '추가하는 중...' : '알림음 추가'}
+            </Button>
+            <input
+              ref={soundFileInputRef}
+              type="file"
+              accept="audio/*"
+              className={styles.fileInput}
+              onChange={handleCustomSoundFile}
+              aria-label="추가할 알림음 파일"
+              data-testid="custom-sound-file"
+            />
+            <p className={styles.settingHint}>
+              {CUSTOM_SOUND_CONSTANTS.MAX_FILE_BYTES / 1024 / 1024}MB, {CUSTOM_SOUND_CONSTANTS.MAX_DURATION_SECONDS}초 이하의 오디오 파일을 카운트다운/완료 알림음으로 쓸 수 있습니다.
+            </p>
+          </div>
+        </section>
+
+        {/* 음성 안내 */}
+        <section className={styles.section} aria-labelledby="speech-settings">
+          <h3 id="speech-settings" className={styles.sectionTitle}>음성 안내</h3>
+
+          <div className={styles.settingItem}>
+            <label className={styles.settingLabel}>
+              <span className={styles.labelText}>음성 안내</span>
+              <button
+                className={classNames(
+                  styles.toggle,
+                  settings.speech.enabled && styles.toggleActive
+                )}
+                onClick={handleSpeechToggle}
+                aria-label={`음성 안내 ${settings.speech.enabled ? '끄기' : '켜기'}`}
+                aria-pressed={settings.speech.enabled}
+                role="switch"
+              >
+                <span className={styles.toggleSlider} aria-hidden="true" />
+              </button>
+            </label>
+            {!SpeechCueService.supported && (
+              <p className={styles.settingHint}>이 브라우저는 음성 합성을 지원하지 않아 비프음으로 안내합니다.</p>
+            )}
+          </div>
+
+          {settings.speech.enabled && (
+            <>
+              <div className={styles.settingItem}>
+                <span className={styles.settingSubtitle} id="speech-cues-label">안내 항목</span>
+                <div className={styles.radioGroup} role="group" aria-labelledby="speech-cues-label">
+                  {SPEECH_CUE_OPTIONS.map(({ key, label }) => (
+                    <label key={key} className={styles.radioLabel}>
+                      <input
+                        type="checkbox"
+                        checked={settings.speech[key]}
+                        onChange={() => handleSpeechCueToggle(key, label)}
+                        className={styles.radioInput}
+                      />
+                      <span className={styles.radioText}>{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className={styles.settingItem}>
+                <span className={styles.settingSubtitle} id="speech-lang-label">언어</span>
+                <div className={styles.radioGroup} role="radiogroup" aria-labelledby="speech-lang-label">
+                  {SPEECH_CONSTANTS.LANGUAGES.map((lang) => (
+                    <label key={`speech-lang-${lang}`} className={styles.radioLabel}>
+                      <input
+                        type="radio"
+                        name="speechLang"
+                        value={lang}
+                        checked={settings.speech.lang === lang}
+                        onChange={() => handleSpeechLangChange(lang)}
+                        className={styles.radioInput}
+                      />
+                      <span className={styles.radioText}>{SPEECH_LANGUAGE_LABELS[lang]}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {voices.length > 0 && (
+                <div className={styles.settingItem}>
+                  <label className={styles.settingSubtitle} htmlFor="speech-voice">음성</label>
+                  <select
+                    id="speech-voice"
+                    className={styles.select}
+                    value={settings.speech.voiceURI}
+                    onChange={(event) => updateSpeechSettings({ voiceURI: event.target.value })}
+                  >
+                    <option value="">기본 음성</option>
+                    {voices.map((voice) => (
+                      <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className={styles.settingItem}>
+                <span className={styles.settingSubtitle} id="speech-rate-label">말하기 속도</span>
+                <div className={styles.radioGroup} role="radiogroup" aria-labelledby="speech-rate-label">
+                  {SPEECH_CONSTANTS.RATE_OPTIONS.map((rate) => (
+                    <label key={`speech-rate-${rate}`} className={styles.radioLabel}>
+                      <input
+                        type="radio"
+                        name="speechRate"
+                        value={rate}
+                        checked={settings.speech.rate === rate}
+                        onChange={() => handleSpeechRateChange(rate)}
+                        className={styles.radioInput}
+                      />
+                      <span className={styles.radioText}>{rate}배</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </section>
+
+        {/* 음성 카운트 */}
+        <section className={styles.section} aria-labelledby="voice-count-settings">
+          <h3 id="voice-count-settings" className={styles.sectionTitle}>음성 카운트</h3>
+
+          <div className={styles.settingItem}>
+            <span className={styles.settingSubtitle} id="target-reps-label">목표 반복 횟수</span>
+            <div className={styles.radioGroup} role="radiogroup" aria-labelledby="target-reps-label">
+              {VOICE_COUNT_CONSTANTS.TARGET_REP_OPTIONS.map((reps) => (
+                <label key={`target-reps-${reps}`} className={styles.radioLabel}>
+                  <input
+                    type="radio"
+                    name="targetReps"
+                    value={reps}
+                    checked={settings.voiceCount.targetReps === reps}
+                    onChange={() => handleTargetRepsChange(reps)}
+                    className={styles.radioInput}
+                  />
+                  <span className={styles.radioText}>{reps}회</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className={styles.settingItem}>
+            <span className={styles.settingSubtitle} id="tempo-label">
+              템포 {settings.voiceCount.tempo.join('-')}
+            </span>
+            <div className={styles.tempoGroup} role="group" aria-labelledby="tempo-label">
+              {TEMPO_PHASE_LABELS.map((label, index) => (
+                <label key={label} className={styles.tempoField}>
+                  <span className={styles.tempoLabel}>{label}</span>
+                  <select
+                    className={styles.select}
+                    value={settings.voiceCount.tempo[index]}
+                    onChange={(event) => handleTempoChange(index, Number(event.target.value))}
+                  >
+                    {TEMPO_SECONDS_OPTIONS.map((seconds) => (
+                      <option
+                        key={seconds}
+                        value={seconds}
+                        // 모든 구간이 0초가 되면 반복이 진행되지 않으므로 선택 불가
+                        disabled={seconds === 0 && settings.voiceCount.tempo.every((value, phase) => phase === index || value === 0)}
+                      >
+                        {seconds}초
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <p className={styles.settingHint}>반복마다 번호를, 구간마다 내리고/멈춤/올리고를 안내합니다.</p>
+          </div>
+        </section>
+
+        {/* 타이머 설정 */}
+        <section className={styles.section} aria-labelledby="timer-settings">
+          <h3 id="timer-settings" className={styles.sectionTitle}>타이머 설정</h3>
+
+          <div className={styles.settingItem}>
+            <span className={styles.settingSubtitle} id="prestart-label">시작 전 준비 카운트다운</span>
+            <div className={styles.radioGroup} role="radiogroup" aria-labelledby="prestart-label">
+              {TIME_CONSTANTS.PRE_START_OPTIONS.map((seconds) => (
+                <label key={`prestart-${seconds}`} className={styles.radioLabel}>
+                  <input
+                    type="radio"
+                    name="preStartCountdown"
+                    value={seconds}
+                    checked={settings.timer.preStartCountdown === seconds}
+                    onChange={() => handlePreStartChange(seconds)}
+                    className={styles.radioInput}
+                  />
+                  <span className={styles.radioText}>
+                    {seconds > 0 ? `${seconds}초` : '끄기'}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className={styles.settingItem}>
+            <label className={styles.settingLabel}>
+              <span className={styles.labelText}>0초 이후 초과 시간 카운트</span>
+              <button
+                className={classNames(
+                  styles.toggle,
+                  settings.timer.overtime && styles.toggleActive
+                )}
+                onClick={handleOvertimeToggle}
+                aria-label={`시간 초과 카운트 ${settings.timer.overtime ? '끄기' : '켜기'}`}
+                aria-pressed={settings.timer.overtime}
+                role="switch"
+              >
+                <span className={styles.toggleSlider} aria-hidden="true" />
+              </button>
+            </label>
+          </div>
+
+          <div className={styles.settingItem}>
+            <span className={styles.settingSubtitle} id="resume-prompt-label">
+              새로고침 후 이어하기 전에 확인 (시작 후 경과 시간)
+            </span>
+            <div className={styles.radioGroup} role="radiogroup" aria-labelledby="resume-prompt-label">
+              {TIME_CONSTANTS.RESUME_PROMPT_OPTIONS.map((minutes) => (
+                <label key={`resume-prompt-${minutes}`} className={styles.radioLabel}>
+                  <input
+                    type="radio"
+                    name="resumePromptMinutes"
+                    value={minutes}
+                    checked={settings.timer.resumePromptMinutes === minutes}
+                    onChange={() => handleResumePromptChange(minutes)}
+                    className={styles.radioInput}
+                  />
+                  <span className={styles.radioText}>{minutes}분</span>
+                </label>
+              ))}
+            </div>
           </div>
         </section>
 
@@ -205,6 +666,9 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
           </div>
         </section>
 
+        {/* 데이터 백업/복원 */}
+        <BackupRestore />
+
         {/* 액션 버튼 */}
         <div className={styles.actions}>
           <Button
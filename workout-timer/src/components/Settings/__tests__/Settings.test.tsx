@@ -4,7 +4,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import Settings from '../Settings';
 import { SettingsProvider } from '../../../contexts/SettingsContext';
-import { DEFAULT_SETTINGS } from '../../../types';
+import { CUSTOM_SOUND_CONSTANTS, DEFAULT_SETTINGS } from '../../../types';
 
 // Mock the StorageService
 vi.mock('../../../services/StorageService', () => ({
@@ -192,6 +192,110 @@ describe('Settings Component', () => {
     });
   });
 
+  it('changes pre-start countdown when radio button is selected', async () => {
+    render(
+      <TestWrapper>
+        <Settings isOpen={true} onClose={mockOnClose} />
+      </TestWrapper>
+    );
+
+    expect(screen.getByText('타이머 설정')).toBeInTheDocument();
+    expect(screen.getByRole('radio', { name: '끄기' })).toBeChecked();
+
+    const fiveSecondsRadio = screen.getByRole('radio', { name: '5초' });
+    fireEvent.click(fiveSecondsRadio);
+
+    await waitFor(() => {
+      expect(fiveSecondsRadio).toBeChecked();
+    });
+  });
+
+  it('toggles overtime counting', async () => {
+    render(
+      <TestWrapper>
+        <Settings isOpen={true} onClose={mockOnClose} />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByLabelText('시간 초과 카운트 켜기'));
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('시간 초과 카운트 끄기')).toBeInTheDocument();
+    });
+  });
+
+  it('shows speech cue options when speech cues are enabled', async () => {
+    render(
+      <TestWrapper>
+        <Settings isOpen={true} onClose={mockOnClose} />
+      </TestWrapper>
+    );
+
+    expect(screen.queryByRole('checkbox', { name: '절반 지남' })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('음성 안내 켜기'));
+
+    const halfwayCue = await screen.findByRole('checkbox', { name: '절반 지남' });
+    expect(halfwayCue).toBeChecked();
+    fireEvent.click(halfwayCue);
+
+    await waitFor(() => {
+      expect(halfwayCue).not.toBeChecked();
+    });
+    fireEvent.click(screen.getByRole('radio', { name: '1.5배' }));
+    expect(screen.getByRole('radio', { name: '1.5배' })).toBeChecked();
+  });
+
+  it('changes the voice count target and tempo', async () => {
+    render(
+      <TestWrapper>
+        <Settings isOpen={true} onClose={mockOnClose} />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByRole('radio', { name: '12회' }));
+    fireEvent.change(screen.getByRole('combobox', { name: /올리기/ }), { target: { value: '3' } });
+
+    await waitFor(() => {
+      expect(screen.getByText('템포 3-1-3-0')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('radio', { name: '12회' })).toBeChecked();
+  });
+
+  it('rejects custom sound files that are too large', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(
+      <TestWrapper>
+        <Settings isOpen={true} onClose={mockOnClose} />
+      </TestWrapper>
+    );
+
+    const file = new File([new Uint8Array(CUSTOM_SOUND_CONSTANTS.MAX_FILE_BYTES + 1)], 'long.mp3', { type: 'audio/mpeg' });
+    fireEvent.change(screen.getByTestId('custom-sound-file'), { target: { files: [file] } });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('파일이 너무 큽니다. 1MB 이하의 파일을 선택해주세요.');
+    expect(screen.getAllByRole('radio', { name: /기본음|벨소리|차임/ })).toHaveLength(6);
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('requests system notification permission', async () => {
+    const requestPermission = vi.fn().mockResolvedValue('granted');
+    vi.stubGlobal('Notification', { permission: 'default', requestPermission });
+
+    render(
+      <TestWrapper>
+        <Settings isOpen={true} onClose={mockOnClose} />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '알림 허용' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('허용됨')).toBeInTheDocument();
+    });
+    expect(requestPermission).toHaveBeenCalled();
+    vi.unstubAllGlobals();
+  });
+
   it('shows confirmation dialog when reset is clicked', () => {
     render(
       <TestWrapper>
@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { useHistory } from '../../hooks';
+import Button from '../Button/Button';
+import Modal from '../Modal/Modal';
+import BarChart from '../BarChart/BarChart';
+import { calculateTrainingStats, formatClock } from '../../utils';
+import styles from './StatsDashboard.module.css';
+
+interface StatsDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * 밀리초를 운동 시간 문구로 변환 (1시간 미만은 M:SS, 이상은 H:MM:SS)
+ */
+const formatDuration = (milliseconds: number): string => formatClock(Math.floor(milliseconds / 1000));
+
+/**
+ * 차트 막대 위 짧은 분 단위 표시 (예: 90초 → "2분")
+ */
+const formatMinutes = (milliseconds: number): string => `${Math.round(milliseconds / 60000)}분`;
+
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ isOpen, onClose }) => {
+  const { sessions, isLoading } = useHistory();
+
+  // 저장된 기록이 바뀔 때만 다시 계산
+  const stats = useMemo(() => calculateTrainingStats(sessions), [sessions]);
+
+  const summary = [
+    { label: '오늘', value: formatDuration(stats.totalTime.day), testId: 'stats-day' },
+    { label: '이번 주', value: formatDuration(stats.totalTime.week), testId: 'stats-week' },
+    { label: '이번 달', value: formatDuration(stats.totalTime.month), testId: 'stats-month' },
+    { label: '총 반복', value: `${stats.totalReps}회`, testId: 'stats-reps' },
+    { label: '평균 일시정지', value: formatDuration(stats.averagePause), testId: 'stats-pause' },
+    { label: '최장 연속', value: `${stats.longestStreak}일`, testId: 'stats-streak' },
+  ];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="운동 통계"
+      className={styles.modal}
+    >
+      {isLoading ? (
+        <p className={styles.empty} role="status">기록을 불러오는 중...</p>
+      ) : stats.totalSessions === 0 ? (
+        <p className={styles.empty}>통계를 계산할 운동 기록이 없습니다.</p>
+      ) : (
+        <>
+          <dl className={styles.summary}>
+            {summary.map(item => (
+              <div key={item.label} className={styles.summaryItem}>
+                <dt className={styles.summaryLabel}>{item.label}</dt>
+                <dd className={styles.summaryValue} data-testid={item.testId}>{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <section className={styles.chartSection}>
+            <h3 className={styles.chartTitle}>최근 7일 운동 시간</h3>
+            <BarChart
+              data={stats.dailyTime}
+              label="최근 7일 운동 시간"
+              formatValue={formatMinutes}
+            />
+          </section>
+
+          <section className={styles.chartSection}>
+            <h3 className={styles.chartTitle}>주별 세션 수</h3>
+            <BarChart
+              data={stats.weeklySessions}
+              label="최근 8주 주별 세션 수"
+              formatValue={(value) => `${value}회`}
+              color="var(--color-success)"
+            />
+          </section>
+        </>
+      )}
+
+      <div className={styles.actions}>
+        <Button
+          variant="secondary"
+          onClick={onClose}
+          className={styles.actionButton}
+          data-testid="close-stats"
+        >
+          닫기
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,71 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import StatsDashboard from '../StatsDashboard';
+import type { WorkoutSession } from '../../../types';
+
+const today = new Date();
+today.setHours(0, 0, 0, 0);
+
+const createSession = (daysAgo: number, minutes: number, overrides: Partial<WorkoutSession> = {}): WorkoutSession => {
+  const startedAt = today.getTime() - daysAgo * 24 * 60 * 60 * 1000 + 60 * 1000;
+  return {
+    id: `session-${daysAgo}`,
+    mode: 'timer',
+    duration: minutes * 60,
+    elapsedTime: minutes * 60 * 1000,
+    pauses: [],
+    repetitions: 0,
+    laps: [],
+    overtime: null,
+    startedAt,
+    endedAt: startedAt + minutes * 60 * 1000,
+    completed: true,
+    ...overrides,
+  };
+};
+
+// Mock the useHistory hook
+const mockUseHistory = {
+  sessions: [] as WorkoutSession[],
+  isLoading: false,
+};
+
+vi.mock('../../../hooks', () => ({
+  useHistory: () => mockUseHistory,
+}));
+
+describe('StatsDashboard', () => {
+  beforeEach(() => {
+    mockUseHistory.sessions = [];
+    mockUseHistory.isLoading = false;
+  });
+
+  it('shows an empty state without history', () => {
+    render(<StatsDashboard isOpen={true} onClose={vi.fn()} />);
+
+    expect(screen.getByText('통계를 계산할 운동 기록이 없습니다.')).toBeInTheDocument();
+    expect(screen.queryByTestId('bar-chart')).not.toBeInTheDocument();
+  });
+
+  it('summarizes persisted sessions and draws charts', () => {
+    mockUseHistory.sessions = [
+      createSession(0, 10, { repetitions: 4, pauses: [{ startedAt: 0, endedAt: 30_000 }] }),
+      createSession(1, 5, { repetitions: 6 }),
+    ];
+    render(<StatsDashboard isOpen={true} onClose={vi.fn()} />);
+
+    expect(screen.getByTestId('stats-day')).toHaveTextContent('10:00');
+    expect(screen.getByTestId('stats-reps')).toHaveTextContent('10회');
+    expect(screen.getByTestId('stats-pause')).toHaveTextContent('0:30');
+    expect(screen.getByTestId('stats-streak')).toHaveTextContent('2일');
+    expect(screen.getAllByTestId('bar-chart')).toHaveLength(2);
+    expect(screen.getByRole('img', { name: /^최근 7일 운동 시간/ })).toHaveAccessibleName(expect.stringContaining('10분'));
+  });
+
+  it('shows a loading state while history loads', () => {
+    mockUseHistory.isLoading = true;
+    render(<StatsDashboard isOpen={true} onClose={vi.fn()} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('기록을 불러오는 중...');
+  });
+});
@@ -0,0 +1,2 @@
+export { default as StatsDashboard } from './StatsDashboard';
+export { default } from './StatsDashboard';
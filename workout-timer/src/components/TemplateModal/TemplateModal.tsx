@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { useTemplate } from '../../hooks';
+import Button from '../Button/Button';
+import Modal from '../Modal/Modal';
+import WheelPicker from '../WheelPicker/WheelPicker';
+import { formatTime, splitTime, combineTime } from '../../utils';
+import { TIME_CONSTANTS } from '../../types';
+import type { Template } from '../../types';
+import styles from './TemplateModal.module.css';
+
+interface TemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 숫자 키(1-9)로 불러올 수 있는 템플릿 수
+const SHORTCUT_COUNT = 9;
+
+/**
+ * 템플릿 선택 버튼의 테스트 ID (기본: template-30s, 사용자: custom-template-이름)
+ */
+const getTemplateTestId = (template: Template): string =>
+  template.isDefault ? `template-${template.id.replace('default-', '')}` : `custom-template-${template.name}`;
+
+const TemplateModal: React.FC<TemplateModalProps> = ({ isOpen, onClose }) => {
+  const { state, addTemplate, updateTemplate, deleteTemplate, moveTemplate, selectTemplate, clearError } = useTemplate();
+  const { templates, error } = state;
+
+  // 추가/수정 폼 상태 (editingId가 있으면 해당 템플릿 수정)
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [hours, setHours] = useState(0);
+  const [minutes, setMinutes] = useState(1);
+  const [seconds, setSeconds] = useState(0);
+  // 삭제 확인 대기 중인 템플릿
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  const totalSeconds = combineTime(minutes, seconds, hours);
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+    setName('');
+    setHours(0);
+    setMinutes(1);
+    setSeconds(0);
+  };
+
+  // 모달이 닫히면 작성 중인 폼과 오류 초기화
+  useEffect(() => {
+    if (!isOpen) {
+      closeForm();
+      setPendingDeleteId(null);
+      clearError();
+    }
+  }, [isOpen, clearError]);
+
+  const handleSelect = (template: Template) => {
+    selectTemplate(template);
+    onClose();
+  };
+
+  const handleAdd = () => {
+    clearError();
+    closeForm();
+    setIsFormOpen(true);
+  };
+
+  const handleEdit = (template: Template) => {
+    const time = splitTime(template.duration);
+    clearError();
+    setIsFormOpen(true);
+    setEditingId(template.id);
+    setName(template.name);
+    setHours(time.hours);
+    setMinutes(time.minutes);
+    setSeconds(time.seconds);
+  };
+
+  const handleSave = () => {
+    const saved = editingId
+      ? updateTemplate(editingId, { name, duration: totalSeconds })
+      : addTemplate(name, totalSeconds);
+    if (saved) {
+      closeForm();
+    }
+  };
+
+  const handleConfirmDelete = () => {
+    if (pendingDeleteId) {
+      deleteTemplate(pendingDeleteId);
+      setPendingDeleteId(null);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="템플릿"
+      className={styles.modal}
+    >
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* 템플릿 목록 (표시 순서대로 숫자 키 1-9 대응) */}
+      <ol className={styles.list} aria-label="템플릿 목록" data-testid="template-list">
+        {templates.map((template, index) => (
+          <li key={template.id} className={styles.item}>
+            <button
+              type="button"
+              className={styles.selectButton}
+              onClick={() => handleSelect(template)}
+              aria-label={`${template.name} 템플릿 선택, ${formatTime(template.duration)}`}
+              data-testid={getTemplateTestId(template)}
+            >
+              {index < SHORTCUT_COUNT && (
+                <kbd className={styles.shortcut} aria-hidden="true">{index + 1}</kbd>
+              )}
+              <span className={styles.itemName}>{template.name}</span>
+              <span className={styles.itemTime}>{formatTime(template.duration)}</span>
+            </button>
+
+            {pendingDeleteId === template.id ? (
+              <div className={styles.itemActions} role="group" aria-label={`${template.name} 삭제 확인`}>
+                <Button variant="danger" size="small" onClick={handleConfirmDelete} data-testid="confirm-delete">
+                  삭제
+                </Button>
+                <Button variant="secondary" size="small" onClick={() => setPendingDeleteId(null)}>
+                  취소
+                </Button>
+              </div>
+            ) : (
+              <div className={styles.itemActions}>
+                <Button
+                  variant="outline"
+                  size="small"
+                  onClick={() => moveTemplate(template.id, -1)}
+                  disabled={index === 0}
+                  aria-label={`${template.name} 위로 이동`}
+                >
+                  ▲
+                </Button>
+                <Button
+                  variant="outline"
+                  size="small"
+                  onClick={() => moveTemplate(template.id, 1)}
+                  disabled={index === templates.length - 1}
+                  aria-label={`${template.name} 아래로 이동`}
+                >
+                  ▼
+                </Button>
+                {!template.isDefault && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="small"
+                      onClick={() => handleEdit(template)}
+                      aria-label={`${template.name} 수정`}
+                      data-testid={`edit-template-${template.name}`}
+                    >
+                      ✎
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="small"
+                      onClick={() => setPendingDeleteId(template.id)}
+                      aria-label={`${template.name} 삭제`}
+                      data-testid={`delete-template-${template.name}`}
+                    >
+                      ✕
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {/* 템플릿 추가/수정 폼 */}
+      {isFormOpen ? (
+        <fieldset className={styles.form}>
+          <legend className={styles.legend}>{editingId ? '템플릿 수정' : '새 템플릿'}</legend>
+
+          <label htmlFor="template-name-input" className={styles.label}>이름</label>
+          <input
+            id="template-name-input"
+            type="text"
+            className={styles.nameInput}
+            value={name}
+            maxLength={50}
+            placeholder="예: 플랭크"
+            onChange={(e) => setName(e.target.value)}
+            data-testid="template-name"
+          />
+
+          <div className={styles.timeInputs}>
+            <div className={styles.inputGroup}>
+              <label htmlFor="template-hours" className={styles.label}>시</label>
+              <WheelPicker
+                value={hours}
+                min={0}
+                max={TIME_CONSTANTS.MAX_HOURS}
+                label="시"
+                onChange={setHours}
+                inputId="template-hours"
+              />
+            </div>
+            <div className={styles.inputGroup}>
+              <label htmlFor="template-minutes" className={styles.label}>분</label>
+              <WheelPicker
+                value={minutes}
+                min={0}
+                max={59}
+                label="분"
+                onChange={setMinutes}
+                inputId="template-minutes"
+              />
+            </div>
+            <div className={styles.inputGroup}>
+              <label htmlFor="template-seconds" className={styles.label}>초</label>
+              <WheelPicker
+                value={seconds}
+                min={0}
+                max={59}
+                label="초"
+                onChange={setSeconds}
+                inputId="template-seconds"
+              />
+            </div>
+          </div>
+
+          <div className={styles.formActions}>
+            <Button
+              variant="primary"
+              onClick={handleSave}
+              disabled={!name.trim() || totalSeconds === 0}
+              data-testid="save-template"
+            >
+              저장
+            </Button>
+            <Button variant="secondary" onClick={closeForm}>
+              취소
+            </Button>
+          </div>
+        </fieldset>
+      ) : (
+        <Button
+          variant="outline"
+          onClick={handleAdd}
+          className={styles.addButton}
+          data-testid="add-template"
+        >
+          + 템플릿 추가
+        </Button>
+      )}
+
+      <div className={styles.actions}>
+        <Button
+          variant="secondary"
+          onClick={onClose}
+          className={styles.actionButton}
+          data-testid="close-templates"
+        >
+          닫기
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default TemplateModal;
@@ -0,0 +1,125 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import TemplateModal from '../TemplateModal';
+import type { Template, TemplateState } from '../../../types';
+
+const templates: Template[] = [
+  { id: 'default-30s', name: '30초', duration: 30, isDefault: true, createdAt: new Date(0) },
+  { id: 'default-1m', name: '1분', duration: 60, isDefault: true, createdAt: new Date(0) },
+  { id: 'custom-1', name: '플랭크', duration: 90, isDefault: false, createdAt: new Date('2024-01-01') },
+];
+
+// Mock the useTemplate hook
+const mockUseTemplate = {
+  state: { templates, isLoading: false, error: null } as TemplateState,
+  addTemplate: vi.fn().mockReturnValue(true),
+  updateTemplate: vi.fn().mockReturnValue(true),
+  deleteTemplate: vi.fn().mockReturnValue(true),
+  moveTemplate: vi.fn(),
+  selectTemplate: vi.fn(),
+  clearError: vi.fn(),
+};
+
+vi.mock('../../../hooks', () => ({
+  useTemplate: () => mockUseTemplate,
+}));
+
+describe('TemplateModal', () => {
+  const mockOnClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseTemplate.state = { templates, isLoading: false, error: null };
+  });
+
+  it('lists templates in order with shortcut numbers', () => {
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByTestId('template-30s')).toHaveTextContent('130초00:30');
+    expect(screen.getByTestId('template-1m')).toHaveTextContent('21분01:00');
+    expect(screen.getByTestId('custom-template-플랭크')).toHaveTextContent('3플랭크01:30');
+  });
+
+  it('selects a template and closes', () => {
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByTestId('template-1m'));
+
+    expect(mockUseTemplate.selectTemplate).toHaveBeenCalledWith(templates[1]);
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+
+  it('only offers edit and delete for custom templates', () => {
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.queryByTestId('delete-template-30초')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('edit-template-1분')).not.toBeInTheDocument();
+    expect(screen.getByTestId('delete-template-플랭크')).toBeInTheDocument();
+  });
+
+  it('adds a new template from the form', () => {
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByTestId('add-template'));
+    fireEvent.change(screen.getByTestId('template-name'), { target: { value: '버피' } });
+    fireEvent.change(screen.getByTestId('template-minutes'), { target: { value: '2' } });
+    fireEvent.change(screen.getByTestId('template-seconds'), { target: { value: '30' } });
+    fireEvent.click(screen.getByTestId('save-template'));
+
+    expect(mockUseTemplate.addTemplate).toHaveBeenCalledWith('버피', 150);
+    expect(screen.queryByTestId('template-name')).not.toBeInTheDocument();
+  });
+
+  it('keeps the form open when saving fails', () => {
+    mockUseTemplate.addTemplate.mockReturnValueOnce(false);
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByTestId('add-template'));
+    fireEvent.change(screen.getByTestId('template-name'), { target: { value: '30초' } });
+    fireEvent.click(screen.getByTestId('save-template'));
+
+    expect(screen.getByTestId('template-name')).toBeInTheDocument();
+  });
+
+  it('edits a custom template with its current values', () => {
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByTestId('edit-template-플랭크'));
+
+    expect(screen.getByTestId('template-name')).toHaveValue('플랭크');
+    expect(screen.getByTestId('template-minutes')).toHaveValue(1);
+    expect(screen.getByTestId('template-seconds')).toHaveValue(30);
+
+    fireEvent.change(screen.getByTestId('template-seconds'), { target: { value: '45' } });
+    fireEvent.click(screen.getByTestId('save-template'));
+
+    expect(mockUseTemplate.updateTemplate).toHaveBeenCalledWith('custom-1', { name: '플랭크', duration: 105 });
+  });
+
+  it('asks for confirmation before deleting', () => {
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByTestId('delete-template-플랭크'));
+    expect(mockUseTemplate.deleteTemplate).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTestId('confirm-delete'));
+    expect(mockUseTemplate.deleteTemplate).toHaveBeenCalledWith('custom-1');
+  });
+
+  it('reorders templates', () => {
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByRole('button', { name: '30초 위로 이동' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: '플랭크 위로 이동' }));
+
+    expect(mockUseTemplate.moveTemplate).toHaveBeenCalledWith('custom-1', -1);
+  });
+
+  it('shows context errors', () => {
+    mockUseTemplate.state = { templates, isLoading: false, error: '이미 존재하는 템플릿 이름입니다.' };
+    render(<TemplateModal isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('이미 존재하는 템플릿 이름입니다.');
+  });
+});
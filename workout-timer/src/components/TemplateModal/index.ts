@@ -0,0 +1,2 @@
+export { default as TemplateModal } from './TemplateModal';
+export { default } from './TemplateModal';
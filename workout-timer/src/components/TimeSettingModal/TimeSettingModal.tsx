@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useTimer } from '../../hooks';
 import Button from '../Button/Button';
 import Modal from '../Modal/Modal';
-import { formatTime } from '../../utils';
+import { formatTime, splitTime, combineTime } from '../../utils';
+import { TIME_CONSTANTS } from '../../types';
 import styles from './TimeSettingModal.module.css';
 import WheelPicker from '../WheelPicker/WheelPicker';
 
@@ -13,18 +14,26 @@ interface TimeSettingModalProps {
 
 const TimeSettingModal: React.FC<TimeSettingModalProps> = ({ isOpen, onClose }) => {
   const { state, setDuration } = useTimer();
+  const [hours, setHours] = useState(0);
   const [minutes, setMinutes] = useState(0);
   const [seconds, setSeconds] = useState(0);
 
-  // 모달이 열릴 때 현재 duration을 분/초로 변환하여 설정
+  // 모달이 열릴 때 현재 duration을 시/분/초로 변환하여 설정
   useEffect(() => {
     if (isOpen) {
-      const totalSeconds = state.duration;
-      setMinutes(Math.floor(totalSeconds / 60));
-      setSeconds(totalSeconds % 60);
+      const time = splitTime(state.duration);
+      setHours(time.hours);
+      setMinutes(time.minutes);
+      setSeconds(time.seconds);
     }
   }, [isOpen, state.duration]);
 
+  const totalSeconds = combineTime(minutes, seconds, hours);
+
+  const handleHoursChange = (value: number) => {
+    setHours(Math.max(0, Math.min(TIME_CONSTANTS.MAX_HOURS, value)));
+  };
+
   const handleMinutesChange = (value: number) => {
     setMinutes(Math.max(0, Math.min(59, value)));
   };
@@ -34,7 +43,6 @@ const TimeSettingModal: React.FC<TimeSettingModalProps> = ({ isOpen, onClose })
   };
 
   const handleConfirm = () => {
-    const totalSeconds = minutes * 60 + seconds;
     if (totalSeconds > 0) {
       setDuration(totalSeconds);
       onClose();
@@ -63,6 +71,21 @@ const TimeSettingModal: React.FC<TimeSettingModalProps> = ({ isOpen, onClose })
             handleConfirm();
           }
         }}>
+          <div className={styles.inputGroup}>
+            <label htmlFor="hours-input" className={styles.label}>시</label>
+            <WheelPicker
+              value={hours}
+              min={0}
+              max={TIME_CONSTANTS.MAX_HOURS}
+              step={1}
+              label="시"
+              onChange={handleHoursChange}
+              inputId="hours-input"
+            />
+          </div>
+
+          <div className={styles.separator}>:</div>
+
           <div className={styles.inputGroup}>
             <label htmlFor="minutes-input" className={styles.label}>분</label>
             <WheelPicker
@@ -95,7 +118,7 @@ const TimeSettingModal: React.FC<TimeSettingModalProps> = ({ isOpen, onClose })
         <div className={styles.preview}>
           <span className={styles.previewLabel}>설정 시간:</span>
           <span className={styles.previewTime}>
-            {formatTime(minutes * 60 + seconds)}
+            {formatTime(totalSeconds)}
           </span>
         </div>
 
@@ -103,7 +126,7 @@ const TimeSettingModal: React.FC<TimeSettingModalProps> = ({ isOpen, onClose })
           <Button
             variant="primary"
             onClick={handleConfirm}
-            disabled={minutes === 0 && seconds === 0}
+            disabled={totalSeconds === 0}
             className={styles.actionButton}
             data-testid="confirm-time"
           >
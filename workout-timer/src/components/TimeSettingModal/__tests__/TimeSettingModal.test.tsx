@@ -70,6 +70,31 @@ describe('TimeSettingModal', () => {
     expect(secondsInput).toHaveValue(0); // 0 seconds remainder
   });
 
+  it('displays durations over an hour in the hours column', () => {
+    mockUseTimer.state.duration = 5400; // 1시간 30분
+
+    renderWithProvider(
+      <TimeSettingModal isOpen={true} onClose={mockOnClose} />
+    );
+
+    expect(screen.getByLabelText('시 입력')).toHaveValue(1);
+    expect(screen.getByLabelText('분 입력')).toHaveValue(30);
+    expect(screen.getByLabelText('초 입력')).toHaveValue(0);
+    expect(screen.getByText('1:30:00')).toBeInTheDocument();
+  });
+
+  it('sets a duration longer than 59:59 using the hours column', () => {
+    renderWithProvider(
+      <TimeSettingModal isOpen={true} onClose={mockOnClose} />
+    );
+
+    fireEvent.click(screen.getByLabelText('시 증가'));
+    fireEvent.click(screen.getByText('확인'));
+
+    expect(mockUseTimer.setDuration).toHaveBeenCalledWith(3720); // 1:02:00
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+
   it('updates minutes when + button is clicked', () => {
     renderWithProvider(
       <TimeSettingModal isOpen={true} onClose={mockOnClose} />
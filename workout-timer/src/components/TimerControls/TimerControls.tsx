@@ -9,9 +9,10 @@ const TimerControls: React.FC = () => {
     startTimer,
     pauseTimer,
     resetTimer,
+    recordLap,
   } = useTimer();
 
-  const { isRunning, isPaused } = state;
+  const { mode, isRunning, isPaused } = state;
 
   // 시작/정지 버튼 텍스트와 핸들러 결정
   const getStartPauseButton = () => {
@@ -66,6 +67,22 @@ const TimerControls: React.FC = () => {
         >
           초기화
         </Button>
+
+        {/* 스톱워치 모드: 랩 기록 (실행 중에만) */}
+        {mode === 'stopwatch' && (
+          <Button
+            variant="outline"
+            size="large"
+            onClick={recordLap}
+            disabled={!isRunning}
+            className={styles.controlButton}
+            aria-label="랩 기록 (L 키 또는 클릭)"
+            tabIndex={0}
+            data-testid="lap-button"
+          >
+            랩
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -15,6 +15,7 @@ const mockUseTimer = {
   startTimer: vi.fn(),
   pauseTimer: vi.fn(),
   resetTimer: vi.fn(),
+  recordLap: vi.fn(),
   incrementRepetitions: vi.fn(),
   decrementRepetitions: vi.fn(),
 };
@@ -164,4 +165,15 @@ describe('TimerControls', () => {
     const decrementButton = screen.getByRole('button', { name: /반복 횟수 감소/i });
     expect(decrementButton).not.toBeDisabled();
   });
-});
\ No newline at end of file
+
+  it('shows lap button only in stopwatch mode and records a lap while running', () => {
+    renderWithProvider(<TimerControls />);
+    expect(screen.queryByTestId('lap-button')).not.toBeInTheDocument();
+
+    mockUseTimer.state = { ...mockUseTimer.state, mode: 'stopwatch', isRunning: true } as typeof mockUseTimer.state;
+    renderWithProvider(<TimerControls />);
+
+    fireEvent.click(screen.getByTestId('lap-button'));
+    expect(mockUseTimer.recordLap).toHaveBeenCalled();
+  });
+});
@@ -1,13 +1,28 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useContext } from 'react';
 import CircularProgress from '../CircularProgress/CircularProgress';
 import TimeSettingModal from '../TimeSettingModal/TimeSettingModal';
+import IntervalSettingModal from '../IntervalSettingModal/IntervalSettingModal';
+import EmomSettingModal from '../EmomSettingModal/EmomSettingModal';
+import AmrapSummaryModal from '../AmrapSummaryModal/AmrapSummaryModal';
+import LapTable from '../LapTable/LapTable';
 import Button from '../Button/Button';
 import VoiceCountButton from '../VoiceCountButton/VoiceCountButton';
 import { useTimer } from '../../hooks';
-import { formatTimeWithMilliseconds, getTimerColor, isDangerTime, isWarningTime } from '../../utils';
+import { SettingsContext } from '../../contexts/SettingsContext';
+import { formatTimeWithMilliseconds, formatOvertime, getTimerColor, isDangerTime, isWarningTime } from '../../utils';
 import { classNames } from '../../utils';
+import type { TimerMode } from '../../types';
+import { DEFAULT_SETTINGS } from '../../types';
 import styles from './TimerDisplay.module.css';
 
+const MODE_LABELS: Record<TimerMode, string> = {
+  timer: '타이머',
+  stopwatch: '스톱워치',
+  interval: '인터벌',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+};
+
 interface TimerDisplayProps {
   className?: string;
 }
@@ -16,13 +31,28 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
   className = ''
 }) => {
   const [isTimeSettingOpen, setIsTimeSettingOpen] = useState(false);
-  const { state, incrementRepetitions, decrementRepetitions, resetRepetitions, toggleVoiceCount } = useTimer();
+  const { state, incrementRepetitions, decrementRepetitions, resetRepetitions, toggleVoiceCount, clearAmrapSummary } = useTimer();
+  
+  const settingsContext = useContext(SettingsContext);
+  // 음성 카운트 목표 반복 횟수
+  const targetReps = settingsContext?.settings.voiceCount?.targetReps ?? DEFAULT_SETTINGS.voiceCount.targetReps;
   
-  const { mode, duration, remainingTime, elapsedTime, repetitions, isRunning, isPaused, voiceCountActive } = state;
+  const { mode, duration, remainingTime, elapsedTime, repetitions, isRunning, isPaused, voiceCountActive, voiceCountNumber, interval, emom, currentRound, phase, roundSplits, amrapSummary, laps, preStartRemaining, overtime, addedTime } = state;
+  const isInterval = mode === 'interval';
+  const isEmom = mode === 'emom';
+  const isAmrap = mode === 'amrap';
+  // 설정 시간에서 0까지 카운트다운하는 모드 (타이머, AMRAP)
+  const isCountdown = mode === 'timer' || isAmrap;
+  // 시작 전 준비 카운트다운 중인지 여부
+  const isPreStart = preStartRemaining !== null;
+  const preStartSeconds = isPreStart ? Math.ceil(preStartRemaining / 1000) : 0;
+  // 0을 지나 초과 시간을 카운트 중인지 여부 (정지 후에는 상태 표시로만 남김)
+  const hasOvertime = overtime !== null;
+  const isOvertime = hasOvertime && isRunning;
 
   const handleTimeClick = useCallback(() => {
-    // 타이머 모드이고 실행 중이 아닐 때만 시간 설정 가능
-    if (mode === 'timer' && !isRunning) {
+    // 타이머/인터벌/EMOM 모드이고 실행 중이 아닐 때만 시간 설정 가능
+    if (mode !== 'stopwatch' && !isRunning) {
       setIsTimeSettingOpen(true);
     }
   }, [mode, isRunning]);
@@ -33,11 +63,24 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
 
   // 현재 시간 및 총 시간 계산 (메모화)
   const { currentTime, totalTime } = useMemo(() => {
-    if (mode === 'timer') {
+    if (isCountdown) {
       return {
         currentTime: remainingTime,
         totalTime: duration * 1000 // 초를 밀리초로 변환
       };
+    } else if (mode === 'interval') {
+      // 인터벌 모드: 현재 구간의 남은 시간과 구간 길이 (추가한 시간 포함)
+      const phaseDuration = phase === 'work' ? interval.workDuration : interval.restDuration;
+      return {
+        currentTime: remainingTime,
+        totalTime: phaseDuration * 1000 + addedTime
+      };
+    } else if (mode === 'emom') {
+      // EMOM 모드: 현재 라운드의 남은 시간과 라운드 길이 (추가한 시간 포함)
+      return {
+        currentTime: remainingTime,
+        totalTime: emom.intervalDuration * 1000 + addedTime
+      };
     } else {
       // 스톱워치 모드: 경과 시간을 표시하고, 총 시간은 임의의 큰 값 사용
       return {
@@ -45,12 +88,15 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
         totalTime: Math.max(elapsedTime, 60000) // 최소 1분 또는 경과 시간 중 큰 값
       };
     }
-  }, [mode, remainingTime, elapsedTime, duration]);
+  }, [mode, isCountdown, remainingTime, elapsedTime, duration, phase, interval, emom, addedTime]);
 
   // 진행률 계산 (메모화) - 타이머와 스톱워치 모두 동일한 UX (0에서 시작해서 증가)
   const progress = useMemo(() => {
-    if (mode === 'timer') {
-      // 타이머 모드: 경과 시간에 따른 진행률 (0에서 시작해서 시간이 지날수록 증가)
+    if (mode !== 'stopwatch') {
+      if (totalTime <= 0) {
+        return 100;
+      }
+      // 타이머/인터벌/EMOM 모드: 경과 시간에 따른 진행률 (0에서 시작해서 시간이 지날수록 증가)
       const elapsedTime = totalTime - remainingTime;
       return Math.max(0, Math.min(100, (elapsedTime / totalTime) * 100));
     } else {
@@ -58,22 +104,46 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
       return Math.min((elapsedTime / totalTime) * 100, 100);
     }
   }, [mode, remainingTime, elapsedTime, totalTime]);
+
+  // 준비 카운트다운 진행률 - 설정된 준비 시간 기준
+  const preStartProgress = useMemo(() => {
+    if (!isPreStart) {
+      return 0;
+    }
+    const preStartTotal = Math.max((settingsContext?.settings.timer?.preStartCountdown ?? 0) * 1000, preStartRemaining);
+    return preStartTotal > 0 ? Math.max(0, Math.min(100, ((preStartTotal - preStartRemaining) / preStartTotal) * 100)) : 100;
+  }, [isPreStart, preStartRemaining, settingsContext?.settings.timer?.preStartCountdown]);
+
+  // EMOM 전체 진행률 (안쪽 동심원) - 완료된 라운드 + 현재 라운드 경과 시간
+  const overallProgress = useMemo(() => {
+    if (!isEmom) {
+      return undefined;
+    }
+    const totalMs = emom.intervalDuration * emom.rounds * 1000 + addedTime;
+    const elapsedMs = (currentRound - 1) * emom.intervalDuration * 1000 + (totalTime - remainingTime);
+    return totalMs > 0 ? Math.max(0, Math.min(100, (elapsedMs / totalMs) * 100)) : 0;
+  }, [isEmom, emom, currentRound, totalTime, remainingTime, addedTime]);
   
   // 색상 결정 (메모화)
   const timerColor = useMemo(() => {
-    if (mode === 'timer') {
+    if (isCountdown) {
       return getTimerColor(remainingTime);
+    } else if (mode === 'interval') {
+      // 인터벌 모드: 운동/휴식 구간별 색상
+      return phase === 'work' ? 'var(--color-timer-normal)' : 'var(--color-info)';
+    } else if (mode === 'emom') {
+      return 'var(--color-timer-normal)';
     } else {
       // 스톱워치 모드: 항상 기본 색상
       return 'var(--color-primary)';
     }
-  }, [mode, remainingTime]);
+  }, [mode, isCountdown, remainingTime, phase]);
   
   // 상태에 따른 CSS 클래스 결정 (메모화)
   const progressClasses = useMemo(() => {
     const classes = [styles.progressCircle];
     
-    if (mode === 'timer') {
+    if (isCountdown) {
       if (remainingTime === 0) {
         classes.push(styles.completed);
       } else if (isDangerTime(remainingTime)) {
@@ -81,19 +151,23 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
       } else if (isWarningTime(remainingTime)) {
         classes.push(styles.warning);
       }
+    } else if (mode === 'interval') {
+      classes.push(phase === 'work' ? styles.work : styles.rest);
+    } else if (mode === 'emom') {
+      classes.push(styles.work);
     } else {
       // 스톱워치 모드: 기본 스타일
       classes.push(styles.stopwatch);
     }
     
     return classes.join(' ');
-  }, [mode, remainingTime]);
+  }, [mode, isCountdown, remainingTime, phase]);
 
   // 시간 표시 색상 클래스 (메모화)
   const timeDisplayClasses = useMemo(() => {
     const classes = [styles.timeDisplay];
     
-    if (mode === 'timer') {
+    if (isCountdown) {
       if (remainingTime === 0) {
         classes.push(styles.completed);
       } else if (isDangerTime(remainingTime)) {
@@ -101,32 +175,53 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
       } else if (isWarningTime(remainingTime)) {
         classes.push(styles.warning);
       }
+    } else if (mode === 'interval') {
+      classes.push(phase === 'work' ? styles.work : styles.rest);
+    } else if (mode === 'emom') {
+      classes.push(styles.work);
     } else {
       // 스톱워치 모드: 기본 스타일
       classes.push(styles.stopwatch);
     }
     
+    if (isOvertime) {
+      classes.push(styles.overtime);
+    }
+
     if (isPaused) {
       classes.push(styles.paused);
     }
     
     return classes.join(' ');
-  }, [mode, remainingTime, isPaused]);
+  }, [mode, isCountdown, remainingTime, isPaused, phase, isOvertime]);
 
-  // 포맷된 시간 (메모화) - 밀리초 포함
-  const formattedTime = useMemo(() => formatTimeWithMilliseconds(currentTime), [currentTime]);
+  // 포맷된 시간 (메모화) - 밀리초 포함, 초과 중에는 +M:SS
+  const formattedTime = useMemo(
+    () => isOvertime ? formatOvertime(overtime) : formatTimeWithMilliseconds(currentTime),
+    [isOvertime, overtime, currentTime]
+  );
 
   return (
-    <div className={classNames(styles.container, className)} role="main" aria-label={`${mode === 'timer' ? '타이머' : '스톱워치'} 표시`} data-testid="timer-display" id="timer-display">
-      {/* 상단 시간 표시 - 타이머 모드에서만 클릭 가능 */}
-      {mode === 'timer' ? (
+    <div className={classNames(styles.container, className)} role="main" aria-label={`${MODE_LABELS[mode]} 표시`} data-testid="timer-display" id="timer-display">
+      {/* 상단 시간 표시 - 준비 중에는 준비 카운트다운, 타이머/인터벌 모드에서만 클릭 가능 */}
+      {isPreStart ? (
+        <div
+          className={classNames(styles.timeDisplay, styles.preStart)}
+          role="timer"
+          aria-label={`준비, ${preStartSeconds}초 후 시작`}
+          data-testid="prestart-display"
+        >
+          <span className={styles.preStartLabel} aria-hidden="true">준비</span>
+          <span aria-hidden="true">{preStartSeconds}</span>
+        </div>
+      ) : mode !== 'stopwatch' ? (
         <button
           className={classNames(timeDisplayClasses, styles.timeButton)}
           onClick={handleTimeClick}
           disabled={isRunning}
-          aria-label={`현재 시간: ${formattedTime}. 클릭하여 시간 설정`}
+          aria-label={`현재 시간: ${formattedTime}. 클릭하여 ${isCountdown ? '시간' : MODE_LABELS[mode]} 설정`}
           aria-describedby="timer-status"
-          title={isRunning ? "타이머 실행 중에는 시간을 변경할 수 없습니다" : "클릭하여 시간 설정"}
+          title={isRunning ? "타이머 실행 중에는 시간을 변경할 수 없습니다" : `클릭하여 ${isCountdown ? '시간' : MODE_LABELS[mode]} 설정`}
           data-testid="time-display"
         >
           {formattedTime}
@@ -141,6 +236,47 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
           {formattedTime}
         </div>
       )}
+
+      {/* 인터벌 라운드/구간 표시 */}
+      {isInterval && (
+        <div
+          className={classNames(styles.statusIndicator, styles.intervalStatus, phase === 'work' ? styles.work : styles.rest)}
+          data-testid="interval-status"
+        >
+          Round {currentRound}/{interval.rounds} – {phase === 'work' ? 'WORK' : 'REST'}
+        </div>
+      )}
+
+      {/* EMOM 라운드 표시 */}
+      {isEmom && (
+        <div
+          className={classNames(styles.statusIndicator, styles.intervalStatus, styles.work)}
+          data-testid="emom-status"
+        >
+          Round {currentRound}/{emom.rounds}
+        </div>
+      )}
+
+      {/* 초과 시간 카운트 후 정지한 경우 초과 시간 표시 */}
+      {hasOvertime && !isRunning && (
+        <div
+          className={classNames(styles.statusIndicator, styles.overtime)}
+          data-testid="overtime-status"
+        >
+          초과 {formatOvertime(overtime)}
+        </div>
+      )}
+
+      {/* AMRAP 완료 라운드 및 마지막 구간 기록 표시 */}
+      {isAmrap && (
+        <div
+          className={classNames(styles.statusIndicator, styles.intervalStatus)}
+          data-testid="amrap-status"
+        >
+          Rounds {roundSplits.length}
+          {roundSplits.length > 0 && ` – ${formatTimeWithMilliseconds(roundSplits[roundSplits.length - 1].splitTime)}`}
+        </div>
+      )}
       
       {/* 스크린 리더용 타이머/스톱워치 상태 정보 */}
       <div 
@@ -149,10 +285,31 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
         aria-live="polite" 
         aria-atomic="true"
       >
-        {mode === 'timer' ? (
+        {isPreStart ? (
+          <>{`준비 중, ${preStartSeconds}초 후 ${MODE_LABELS[mode]} 시작`}</>
+        ) : mode === 'timer' ? (
           <>
             {isRunning ? '타이머 실행 중' : isPaused ? '타이머 일시정지' : '타이머 정지'}
             {remainingTime === 0 ? ', 타이머 완료' : ''}
+            {hasOvertime ? `, ${Math.floor(overtime / 1000)}초 초과` : ''}
+            {remainingTime <= 10000 && remainingTime > 0 ? `, ${Math.ceil(remainingTime / 1000)}초 남음` : ''}
+          </>
+        ) : isAmrap ? (
+          <>
+            {isRunning ? 'AMRAP 실행 중' : isPaused ? 'AMRAP 일시정지' : 'AMRAP 정지'}
+            {`, ${roundSplits.length}라운드 완료`}
+            {remainingTime <= 10000 && remainingTime > 0 ? `, ${Math.ceil(remainingTime / 1000)}초 남음` : ''}
+          </>
+        ) : isInterval ? (
+          <>
+            {isRunning ? '인터벌 실행 중' : isPaused ? '인터벌 일시정지' : '인터벌 정지'}
+            {`, 라운드 ${currentRound}/${interval.rounds} ${phase === 'work' ? '운동' : '휴식'}`}
+            {remainingTime <= 10000 && remainingTime > 0 ? `, ${Math.ceil(remainingTime / 1000)}초 남음` : ''}
+          </>
+        ) : isEmom ? (
+          <>
+            {isRunning ? 'EMOM 실행 중' : isPaused ? 'EMOM 일시정지' : 'EMOM 정지'}
+            {`, 라운드 ${currentRound}/${emom.rounds}`}
             {remainingTime <= 10000 && remainingTime > 0 ? `, ${Math.ceil(remainingTime / 1000)}초 남음` : ''}
           </>
         ) : (
@@ -167,14 +324,16 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
       <div 
         className={styles.progressContainer}
         role="img"
-        aria-label={mode === 'timer' ? `타이머 진행률, ${formattedTime} 남음` : `스톱워치 진행률, ${formattedTime} 경과`}
+        aria-label={mode === 'stopwatch' ? `스톱워치 진행률, ${formattedTime} 경과` : `${MODE_LABELS[mode]} 진행률, ${formattedTime} 남음`}
       >
         <CircularProgress
-          progress={progress}
+          progress={isPreStart ? preStartProgress : progress}
           size={280} // CSS 변수와 일치
           strokeWidth={8}
-          color={timerColor}
-          className={progressClasses}
+          color={isPreStart ? 'var(--color-timer-warning)' : timerColor}
+          className={isPreStart ? classNames(styles.progressCircle, styles.preStart) : progressClasses}
+          innerProgress={isPreStart ? undefined : overallProgress}
+          innerColor="var(--color-primary)"
         />
         {/* 중앙 원형 터치 블럭: 클릭 시 반복 횟수 증가. 음성 버튼 영역은 그대로 상단에 남아 포인터 이벤트를 우선 처리 */}
         <button
@@ -206,6 +365,13 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
             onClick={toggleVoiceCount}
             className={styles.voiceCountButton}
           />
+
+          {/* 음성 카운트 진행 (목표 반복 중 현재 반복) */}
+          {(voiceCountActive || voiceCountNumber > 0) && (
+            <div className={styles.voiceCountProgress} data-testid="voice-count-progress">
+              {voiceCountNumber}/{targetReps}
+            </div>
+          )}
         </div>
       </div>
       
@@ -237,25 +403,54 @@ const TimerDisplay: React.FC<TimerDisplayProps> = React.memo(({
           variant="outline"
           size="large"
           onClick={incrementRepetitions}
-          aria-label="반복 횟수 증가"
+          aria-label={isAmrap ? '라운드 완료 기록' : '반복 횟수 증가'}
           className={styles.repetitionButton}
           data-testid="increment-reps"
         >
           +
         </Button>
       </div>
+
+      {/* 스톱워치 랩 기록 */}
+      {mode === 'stopwatch' && (
+        <LapTable laps={laps} className={styles.lapTable} />
+      )}
       
 
       
 
 
-      {/* 시간 설정 모달 - 타이머 모드에서만 표시 */}
-      {mode === 'timer' && (
+      {/* 시간 설정 모달 - 타이머/AMRAP 모드에서만 표시 */}
+      {isCountdown && (
         <TimeSettingModal
           isOpen={isTimeSettingOpen}
           onClose={handleCloseTimeSetting}
         />
       )}
+
+      {/* 인터벌 설정 모달 - 인터벌 모드에서만 표시 */}
+      {isInterval && (
+        <IntervalSettingModal
+          isOpen={isTimeSettingOpen}
+          onClose={handleCloseTimeSetting}
+        />
+      )}
+
+      {/* AMRAP 세션 종료 요약 */}
+      {isAmrap && (
+        <AmrapSummaryModal
+          summary={amrapSummary}
+          onClose={clearAmrapSummary}
+        />
+      )}
+
+      {/* EMOM 설정 모달 - EMOM 모드에서만 표시 */}
+      {isEmom && (
+        <EmomSettingModal
+          isOpen={isTimeSettingOpen}
+          onClose={handleCloseTimeSetting}
+        />
+      )}
     </div>
   );
 });
@@ -15,6 +15,10 @@ const mockTimerContext = {
     repetitions: 0,
     isRunning: false,
     isPaused: false,
+    laps: [],
+    preStartRemaining: null,
+    overtime: null,
+    addedTime: 0,
   } as TimerState,
   dispatch: vi.fn(),
   setMode: vi.fn(),
@@ -110,6 +114,124 @@ describe('TimerDisplay', () => {
       // Modal should not be present
       expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
     });
+
+    it('shows lap table when laps are recorded', () => {
+      renderWithContext({
+        mode: 'stopwatch',
+        elapsedTime: 125000,
+        laps: [
+          { number: 1, lapTime: 62000, totalTime: 62000 },
+          { number: 2, lapTime: 58500, totalTime: 120500 },
+        ],
+      });
+
+      expect(screen.getByTestId('lap-table')).toBeInTheDocument();
+      expect(screen.getByTestId('lap-2')).toHaveTextContent('가장 빠름');
+    });
+  });
+
+  describe('Interval Mode', () => {
+    const interval = { workDuration: 20, restDuration: 10, rounds: 8 };
+
+    it('shows round and phase status', () => {
+      renderWithContext({ mode: 'interval', interval, currentRound: 3, phase: 'rest', remainingTime: 7000 });
+
+      expect(screen.getByTestId('interval-status')).toHaveTextContent('Round 3/8 – REST');
+      expect(screen.getByText('00:07.00')).toBeInTheDocument();
+    });
+
+    it('shows correct aria-label for interval mode', () => {
+      renderWithContext({ mode: 'interval', interval, currentRound: 1, phase: 'work', remainingTime: 20000 });
+
+      expect(screen.getByRole('main')).toHaveAttribute('aria-label', '인터벌 표시');
+    });
+
+    it('opens interval setting modal when time is clicked', () => {
+      renderWithContext({ mode: 'interval', interval, currentRound: 1, phase: 'work', remainingTime: 20000 });
+
+      fireEvent.click(screen.getByTestId('time-display'));
+
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+      expect(screen.getByText('인터벌 설정')).toBeInTheDocument();
+    });
+  });
+
+  describe('EMOM Mode', () => {
+    const emom = { intervalDuration: 60, rounds: 10, repBehavior: 'reset' as const };
+
+    it('shows round status and overall progress ring', () => {
+      renderWithContext({ mode: 'emom', emom, currentRound: 3, phase: 'work', remainingTime: 30000 });
+
+      expect(screen.getByTestId('emom-status')).toHaveTextContent('Round 3/10');
+      expect(screen.getByText('00:30.00')).toBeInTheDocument();
+      expect(screen.getByTestId('inner-progress')).toBeInTheDocument();
+    });
+
+    it('opens EMOM setting modal when time is clicked', () => {
+      renderWithContext({ mode: 'emom', emom, currentRound: 1, phase: 'work', remainingTime: 60000 });
+
+      fireEvent.click(screen.getByTestId('time-display'));
+
+      expect(screen.getByText('EMOM 설정')).toBeInTheDocument();
+    });
+  });
+
+  describe('AMRAP Mode', () => {
+    const roundSplits = [
+      { round: 1, timestamp: 1_000, elapsedTime: 95000, splitTime: 95000 },
+      { round: 2, timestamp: 2_000, elapsedTime: 182500, splitTime: 87500 },
+    ];
+
+    it('shows logged rounds and the last split', () => {
+      renderWithContext({ mode: 'amrap', duration: 600, remainingTime: 417500, roundSplits, amrapSummary: null, isRunning: true });
+
+      expect(screen.getByTestId('amrap-status')).toHaveTextContent('Rounds 2 – 01:27.50');
+      expect(screen.getByRole('button', { name: '라운드 완료 기록' })).toBeInTheDocument();
+    });
+
+    it('shows session summary when the AMRAP ends', () => {
+      const amrapSummary = { duration: 600, totalRounds: 2, splits: roundSplits };
+      renderWithContext({ mode: 'amrap', duration: 600, remainingTime: 600000, roundSplits, amrapSummary });
+
+      expect(screen.getByText('AMRAP 결과')).toBeInTheDocument();
+      expect(screen.getByTestId('amrap-total-rounds')).toHaveTextContent('2');
+    });
+  });
+
+  describe('Overtime', () => {
+    it('shows overtime as a red +M:SS value while counting past zero', () => {
+      renderWithContext({ mode: 'timer', remainingTime: 0, overtime: 17400, isRunning: true });
+
+      const timeDisplay = screen.getByTestId('time-display');
+      expect(timeDisplay).toHaveTextContent('+0:17');
+      expect(timeDisplay.className).toContain('overtime');
+    });
+
+    it('keeps the overtime amount visible after stopping', () => {
+      renderWithContext({ mode: 'timer', remainingTime: 60000, overtime: 17400, isRunning: false });
+
+      expect(screen.getByTestId('time-display')).toHaveTextContent('01:00.00');
+      expect(screen.getByTestId('overtime-status')).toHaveTextContent('초과 +0:17');
+    });
+  });
+
+  describe('Get Ready Countdown', () => {
+    it('shows the get-ready countdown instead of the time', () => {
+      renderWithContext({ mode: 'interval', isRunning: true, preStartRemaining: 2300, interval: { workDuration: 20, restDuration: 10, rounds: 8 }, currentRound: 1, phase: 'work' });
+
+      const preStart = screen.getByTestId('prestart-display');
+      expect(preStart).toHaveTextContent('준비3');
+      expect(preStart).toHaveAttribute('aria-label', '준비, 3초 후 시작');
+      expect(screen.queryByTestId('time-display')).not.toBeInTheDocument();
+      expect(screen.getByText('준비 중, 3초 후 인터벌 시작')).toBeInTheDocument();
+    });
+
+    it('shows the regular time when no countdown is active', () => {
+      renderWithContext({ mode: 'timer', remainingTime: 60000 });
+
+      expect(screen.queryByTestId('prestart-display')).not.toBeInTheDocument();
+      expect(screen.getByTestId('time-display')).toBeInTheDocument();
+    });
   });
 
   describe('Repetition Controls', () => {
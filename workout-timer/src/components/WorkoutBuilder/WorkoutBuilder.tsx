@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import { useWorkout } from '../../hooks';
+import Button from '../Button/Button';
+import Modal from '../Modal/Modal';
+import WheelPicker from '../WheelPicker/WheelPicker';
+import { formatClock } from '../../utils';
+import { DEFAULT_WORKOUT_EXERCISE, WORKOUT_CONSTANTS } from '../../types';
+import type { ExerciseTarget, WorkoutExercise } from '../../types';
+import styles from './WorkoutBuilder.module.css';
+
+interface WorkoutBuilderProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TARGET_OPTIONS: { value: ExerciseTarget; label: string }[] = [
+  { value: 'reps', label: '반복' },
+  { value: 'time', label: '시간' },
+];
+
+/**
+ * 종목 요약 문구 (예: "5세트 × 10회 · 휴식 1:30")
+ */
+const describeExercise = (exercise: WorkoutExercise): string => {
+  const target = exercise.target === 'reps' ? `${exercise.reps}회` : formatClock(exercise.duration);
+  const rest = exercise.restDuration > 0 ? ` · 휴식 ${formatClock(exercise.restDuration)}` : '';
+  return `${exercise.sets}세트 × ${target}${rest}`;
+};
+
+const WorkoutBuilder: React.FC<WorkoutBuilderProps> = ({ isOpen, onClose }) => {
+  const { state, addExercise, updateExercise, removeExercise, moveExercise, startWorkout, canStart } = useWorkout();
+  const { exercises } = state.program;
+  const isActive = state.status === 'active';
+
+  // 추가/수정 폼 상태 (editingId가 있으면 해당 종목 수정)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [sets, setSets] = useState<number>(DEFAULT_WORKOUT_EXERCISE.sets);
+  const [target, setTarget] = useState<ExerciseTarget>(DEFAULT_WORKOUT_EXERCISE.target);
+  const [reps, setReps] = useState<number>(DEFAULT_WORKOUT_EXERCISE.reps);
+  const [duration, setDuration] = useState<number>(DEFAULT_WORKOUT_EXERCISE.duration);
+  const [restDuration, setRestDuration] = useState<number>(DEFAULT_WORKOUT_EXERCISE.restDuration);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setSets(DEFAULT_WORKOUT_EXERCISE.sets);
+    setTarget(DEFAULT_WORKOUT_EXERCISE.target);
+    setReps(DEFAULT_WORKOUT_EXERCISE.reps);
+    setDuration(DEFAULT_WORKOUT_EXERCISE.duration);
+    setRestDuration(DEFAULT_WORKOUT_EXERCISE.restDuration);
+  };
+
+  // 모달이 닫히면 작성 중인 폼 초기화
+  useEffect(() => {
+    if (!isOpen) {
+      resetForm();
+    }
+  }, [isOpen]);
+
+  const handleSubmit = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+
+    const values = { sets, target, reps, duration, restDuration };
+    if (editingId) {
+      updateExercise(editingId, { ...values, name: trimmedName });
+    } else {
+      addExercise(trimmedName, values);
+    }
+    resetForm();
+  };
+
+  const handleEdit = (exercise: WorkoutExercise) => {
+    setEditingId(exercise.id);
+    setName(exercise.name);
+    setSets(exercise.sets);
+    setTarget(exercise.target);
+    setReps(exercise.reps);
+    setDuration(exercise.duration);
+    setRestDuration(exercise.restDuration);
+  };
+
+  const handleStart = () => {
+    startWorkout();
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="운동 프로그램"
+      className={styles.modal}
+    >
+      {isActive && (
+        <p className={styles.notice} role="status">
+          운동이 진행 중입니다. 종료한 뒤 프로그램을 수정할 수 있습니다.
+        </p>
+      )}
+      {!isActive && !canStart && (
+        <p className={styles.notice} role="status" id="workout-start-notice">
+          다른 탭에서 타이머를 실행하고 있습니다. 운동 프로그램은 그 탭에서 시작해주세요.
+        </p>
+      )}
+
+      {/* 종목 추가/수정 폼 */}
+      <fieldset className={styles.form} disabled={isActive}>
+        <legend className={styles.legend}>{editingId ? '종목 수정' : '종목 추가'}</legend>
+
+        <label htmlFor="exercise-name-input" className={styles.label}>종목 이름</label>
+        <input
+          id="exercise-name-input"
+          type="text"
+          className={styles.nameInput}
+          value={name}
+          maxLength={WORKOUT_CONSTANTS.MAX_NAME_LENGTH}
+          placeholder="예: 스쿼트"
+          onChange={(e) => setName(e.target.value)}
+        />
+
+        {/* 세트 목표 방식 */}
+        <div className={styles.targetToggle} role="group" aria-label="세트 목표">
+          {TARGET_OPTIONS.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant={target === value ? 'primary' : 'outline'}
+              size="small"
+              aria-pressed={target === value}
+              onClick={() => setTarget(value)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        <div className={styles.inputs}>
+          <div className={styles.inputGroup}>
+            <label htmlFor="exercise-sets-input" className={styles.label}>세트</label>
+            <WheelPicker
+              value={sets}
+              min={WORKOUT_CONSTANTS.MIN_SETS}
+              max={WORKOUT_CONSTANTS.MAX_SETS}
+              label="세트"
+              onChange={setSets}
+              inputId="exercise-sets-input"
+            />
+          </div>
+
+          {target === 'reps' ? (
+            <div className={styles.inputGroup}>
+              <label htmlFor="exercise-reps-input" className={styles.label}>반복(회)</label>
+              <WheelPicker
+                value={reps}
+                min={WORKOUT_CONSTANTS.MIN_REPS}
+                max={WORKOUT_CONSTANTS.MAX_REPS}
+                label="반복"
+                onChange={setReps}
+                inputId="exercise-reps-input"
+              />
+            </div>
+          ) : (
+            <div className={styles.inputGroup}>
+              <label htmlFor="exercise-duration-input" className={styles.label}>운동(초)</label>
+              <WheelPicker
+                value={duration}
+                min={WORKOUT_CONSTANTS.MIN_DURATION_SECONDS}
+                max={WORKOUT_CONSTANTS.MAX_DURATION_SECONDS}
+                step={WORKOUT_CONSTANTS.DURATION_STEP_SECONDS}
+                label="운동"
+                onChange={setDuration}
+                inputId="exercise-duration-input"
+              />
+            </div>
+          )}
+
+          <div className={styles.inputGroup}>
+            <label htmlFor="exercise-rest-input" className={styles.label}>휴식(초)</label>
+            <WheelPicker
+              value={restDuration}
+              min={0}
+              max={WORKOUT_CONSTANTS.MAX_REST_SECONDS}
+              step={WORKOUT_CONSTANTS.REST_STEP_SECONDS}
+              label="휴식"
+              onChange={setRestDuration}
+              inputId="exercise-rest-input"
+            />
+          </div>
+        </div>
+
+        <div className={styles.formActions}>
+          <Button
+            variant="primary"
+            onClick={handleSubmit}
+            disabled={!name.trim()}
+            data-testid="submit-exercise"
+          >
+            {editingId ? '수정' : '종목 추가'}
+          </Button>
+          {editingId && (
+            <Button variant="secondary" onClick={resetForm}>
+              취소
+            </Button>
+          )}
+        </div>
+      </fieldset>
+
+      {/* 종목 목록 (진행 순서) */}
+      {exercises.length === 0 ? (
+        <p className={styles.empty}>추가된 종목이 없습니다.</p>
+      ) : (
+        <ol className={styles.list} aria-label="종목 목록" data-testid="exercise-list">
+          {exercises.map((exercise, index) => (
+            <li key={exercise.id} className={styles.item}>
+              <div className={styles.itemText}>
+                <span className={styles.itemName}>{exercise.name}</span>
+                <span className={styles.itemDetail}>{describeExercise(exercise)}</span>
+              </div>
+              <div className={styles.itemActions}>
+                <Button
+                  variant="outline"
+                  size="small"
+                  onClick={() => moveExercise(exercise.id, -1)}
+                  disabled={isActive || index === 0}
+                  aria-label={`${exercise.name} 위로 이동`}
+                >
+                  ▲
+                </Button>
+                <Button
+                  variant="outline"
+                  size="small"
+                  onClick={() => moveExercise(exercise.id, 1)}
+                  disabled={isActive || index === exercises.length - 1}
+                  aria-label={`${exercise.name} 아래로 이동`}
+                >
+                  ▼
+                </Button>
+                <Button
+                  variant="outline"
+                  size="small"
+                  onClick={() => handleEdit(exercise)}
+                  disabled={isActive}
+                  aria-label={`${exercise.name} 수정`}
+                >
+                  ✎
+                </Button>
+                <Button
+                  variant="outline"
+                  size="small"
+                  onClick={() => removeExercise(exercise.id)}
+                  disabled={isActive}
+                  aria-label={`${exercise.name} 삭제`}
+                >
+                  ✕
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className={styles.actions}>
+        <Button
+          variant="primary"
+          onClick={handleStart}
+          disabled={isActive || !canStart || exercises.length === 0}
+          aria-describedby={!isActive && !canStart ? 'workout-start-notice' : undefined}
+          className={styles.actionButton}
+          data-testid="start-workout"
+        >
+          운동 시작
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={onClose}
+          className={styles.actionButton}
+        >
+          닫기
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default WorkoutBuilder;
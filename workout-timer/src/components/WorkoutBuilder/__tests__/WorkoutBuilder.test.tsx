@@ -0,0 +1,129 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import WorkoutBuilder from '../WorkoutBuilder';
+import type { WorkoutState } from '../../../types';
+
+// Mock the useWorkout hook
+const createState = (overrides: Partial<WorkoutState> = {}): WorkoutState => ({
+  program: {
+    name: '내 운동',
+    exercises: [
+      { id: 'a', name: 'Squat', sets: 5, target: 'reps', reps: 10, duration: 30, restDuration: 90 },
+      { id: 'b', name: 'Plank', sets: 3, target: 'time', reps: 10, duration: 45, restDuration: 0 },
+    ],
+  },
+  status: 'idle',
+  stepIndex: 0,
+  ...overrides,
+});
+
+const mockUseWorkout = {
+  state: createState(),
+  addExercise: vi.fn(),
+  updateExercise: vi.fn(),
+  removeExercise: vi.fn(),
+  moveExercise: vi.fn(),
+  startWorkout: vi.fn(),
+  canStart: true,
+};
+
+vi.mock('../../../hooks', () => ({
+  useWorkout: () => mockUseWorkout,
+}));
+
+describe('WorkoutBuilder', () => {
+  const mockOnClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseWorkout.state = createState();
+    mockUseWorkout.canStart = true;
+  });
+
+  it('renders exercises in order with a summary', () => {
+    render(<WorkoutBuilder isOpen={true} onClose={mockOnClose} />);
+
+    const items = screen.getByTestId('exercise-list').querySelectorAll('li');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent('Squat');
+    expect(items[0]).toHaveTextContent('5세트 × 10회 · 휴식 1:30');
+    expect(items[1]).toHaveTextContent('3세트 × 0:45');
+  });
+
+  it('adds an exercise with the selected values', () => {
+    render(<WorkoutBuilder isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByTestId('submit-exercise')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('종목 이름'), { target: { value: ' Deadlift ' } });
+    fireEvent.click(screen.getByRole('button', { name: '세트 증가' }));
+    fireEvent.click(screen.getByRole('button', { name: '휴식 증가' }));
+    fireEvent.click(screen.getByTestId('submit-exercise'));
+
+    expect(mockUseWorkout.addExercise).toHaveBeenCalledWith('Deadlift', {
+      sets: 4,
+      target: 'reps',
+      reps: 10,
+      duration: 30,
+      restDuration: 75,
+    });
+    expect(screen.getByLabelText('종목 이름')).toHaveValue('');
+  });
+
+  it('edits an existing exercise', () => {
+    render(<WorkoutBuilder isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Plank 수정' }));
+
+    expect(screen.getByLabelText('종목 이름')).toHaveValue('Plank');
+    expect(screen.getByLabelText('운동 입력')).toHaveValue(45);
+
+    fireEvent.click(screen.getByTestId('submit-exercise'));
+
+    expect(mockUseWorkout.updateExercise).toHaveBeenCalledWith('b', expect.objectContaining({
+      name: 'Plank',
+      target: 'time',
+      duration: 45,
+    }));
+  });
+
+  it('reorders and removes exercises', () => {
+    render(<WorkoutBuilder isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByRole('button', { name: 'Squat 위로 이동' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Squat 아래로 이동' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Plank 삭제' }));
+
+    expect(mockUseWorkout.moveExercise).toHaveBeenCalledWith('a', 1);
+    expect(mockUseWorkout.removeExercise).toHaveBeenCalledWith('b');
+  });
+
+  it('starts the workout and closes', () => {
+    render(<WorkoutBuilder isOpen={true} onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByTestId('start-workout'));
+
+    expect(mockUseWorkout.startWorkout).toHaveBeenCalled();
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+
+  it('explains why starting is disabled while another tab runs the timer', () => {
+    mockUseWorkout.canStart = false;
+    render(<WorkoutBuilder isOpen={true} onClose={mockOnClose} />);
+
+    const startButton = screen.getByTestId('start-workout');
+    expect(startButton).toBeDisabled();
+    expect(startButton).toHaveAccessibleDescription('다른 탭에서 타이머를 실행하고 있습니다. 운동 프로그램은 그 탭에서 시작해주세요.');
+    expect(screen.getByRole('status')).toHaveTextContent('다른 탭에서 타이머를 실행하고 있습니다');
+  });
+
+  it('locks editing while a workout is active', () => {
+    mockUseWorkout.state = createState({ status: 'active' });
+    render(<WorkoutBuilder isOpen={true} onClose={mockOnClose} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('운동이 진행 중입니다');
+    expect(screen.getByTestId('start-workout')).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Squat 삭제' })).toBeDisabled();
+  });
+});
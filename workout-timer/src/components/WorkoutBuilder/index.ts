@@ -0,0 +1,2 @@
+export { default as WorkoutBuilder } from './WorkoutBuilder';
+export { default } from './WorkoutBuilder';
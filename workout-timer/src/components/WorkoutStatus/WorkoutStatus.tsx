@@ -0,0 +1,72 @@
+import React from 'react';
+import { useTimer, useWorkout } from '../../hooks';
+import Button from '../Button/Button';
+import { classNames, formatWorkoutStep } from '../../utils';
+import styles from './WorkoutStatus.module.css';
+
+interface WorkoutStatusProps {
+  className?: string;
+}
+
+/**
+ * 운동 프로그램 진행 표시 (예: "Squat – Set 2/5 – Rest 1:30")
+ * 진행 중이거나 방금 완료된 경우에만 표시됩니다.
+ */
+const WorkoutStatus: React.FC<WorkoutStatusProps> = ({ className = '' }) => {
+  const { state: timerState } = useTimer();
+  const { state, steps, currentStep, completeSet, skipStep, stopWorkout } = useWorkout();
+
+  if (state.status === 'completed') {
+    return (
+      <div className={classNames(styles.container, className)} role="status" data-testid="workout-status">
+        <span className={styles.label}>운동 완료</span>
+        <div className={styles.actions}>
+          <Button variant="secondary" size="small" onClick={stopWorkout}>
+            닫기
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (state.status !== 'active' || !currentStep) {
+    return null;
+  }
+
+  // 타이머로 진행 중인 단계는 남은 시간을 실시간으로 표시
+  const isTimed = currentStep.duration > 0;
+  const remainingSeconds = isTimed && (timerState.isRunning || timerState.isPaused)
+    ? Math.ceil(timerState.remainingTime / 1000)
+    : currentStep.duration;
+
+  return (
+    <div
+      className={classNames(styles.container, currentStep.kind === 'rest' ? styles.rest : styles.set, className)}
+      data-testid="workout-status"
+    >
+      <span className={styles.label} data-testid="workout-step-label">
+        {formatWorkoutStep(currentStep, remainingSeconds)}
+      </span>
+      <span className={styles.progress}>
+        단계 {state.stepIndex + 1}/{steps.length}
+      </span>
+      <div className={styles.actions} role="group" aria-label="운동 진행">
+        {!isTimed && (
+          <Button variant="primary" size="small" onClick={completeSet} data-testid="complete-set">
+            세트 완료
+          </Button>
+        )}
+        {isTimed && (
+          <Button variant="outline" size="small" onClick={skipStep} data-testid="skip-step">
+            건너뛰기
+          </Button>
+        )}
+        <Button variant="secondary" size="small" onClick={stopWorkout} data-testid="stop-workout">
+          종료
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default WorkoutStatus;
@@ -0,0 +1,90 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import WorkoutStatus from '../WorkoutStatus';
+import type { WorkoutStep } from '../../../types';
+
+const restStep: WorkoutStep = {
+  kind: 'rest',
+  exerciseIndex: 0,
+  exerciseName: 'Squat',
+  set: 2,
+  totalSets: 5,
+  target: 'reps',
+  reps: 10,
+  duration: 90,
+};
+
+const setStep: WorkoutStep = { ...restStep, kind: 'set', duration: 0 };
+
+// Mock the useTimer and useWorkout hooks
+const mockUseTimer = {
+  state: { isRunning: false, isPaused: false, remainingTime: 0 },
+};
+
+const mockUseWorkout = {
+  state: { status: 'active', stepIndex: 2 },
+  steps: new Array(9).fill(setStep),
+  currentStep: restStep as WorkoutStep | null,
+  completeSet: vi.fn(),
+  skipStep: vi.fn(),
+  stopWorkout: vi.fn(),
+};
+
+vi.mock('../../../hooks', () => ({
+  useTimer: () => mockUseTimer,
+  useWorkout: () => mockUseWorkout,
+}));
+
+describe('WorkoutStatus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseTimer.state = { isRunning: false, isPaused: false, remainingTime: 0 };
+    mockUseWorkout.state = { status: 'active', stepIndex: 2 };
+    mockUseWorkout.currentStep = restStep;
+  });
+
+  it('renders nothing when no workout is running', () => {
+    mockUseWorkout.state = { status: 'idle', stepIndex: 0 };
+    mockUseWorkout.currentStep = null;
+    render(<WorkoutStatus />);
+
+    expect(screen.queryByTestId('workout-status')).not.toBeInTheDocument();
+  });
+
+  it('shows the rest step with live remaining time', () => {
+    mockUseTimer.state = { isRunning: true, isPaused: false, remainingTime: 61_200 };
+    render(<WorkoutStatus />);
+
+    expect(screen.getByTestId('workout-step-label')).toHaveTextContent('Squat – Set 2/5 – Rest 1:02');
+    expect(screen.getByText('단계 3/9')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('skip-step'));
+    expect(mockUseWorkout.skipStep).toHaveBeenCalled();
+  });
+
+  it('completes a reps set manually', () => {
+    mockUseWorkout.currentStep = setStep;
+    render(<WorkoutStatus />);
+
+    expect(screen.getByTestId('workout-step-label')).toHaveTextContent('Squat – Set 2/5 – 10 reps');
+    expect(screen.queryByTestId('skip-step')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('complete-set'));
+    expect(mockUseWorkout.completeSet).toHaveBeenCalled();
+  });
+
+  it('stops the workout', () => {
+    render(<WorkoutStatus />);
+
+    fireEvent.click(screen.getByTestId('stop-workout'));
+    expect(mockUseWorkout.stopWorkout).toHaveBeenCalled();
+  });
+
+  it('shows completion', () => {
+    mockUseWorkout.state = { status: 'completed', stepIndex: 0 };
+    mockUseWorkout.currentStep = null;
+    render(<WorkoutStatus />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('운동 완료');
+  });
+});
@@ -0,0 +1,2 @@
+export { default as WorkoutStatus } from './WorkoutStatus';
+export { default } from './WorkoutStatus';
@@ -2,6 +2,7 @@
 
 export { default as Button } from './Button/Button';
 export { default as CircularProgress } from './CircularProgress/CircularProgress';
+export { default as BarChart } from './BarChart/BarChart';
 export { default as DragTimeInput } from './DragTimeInput/DragTimeInput';
 export { default as WheelPicker } from './WheelPicker/WheelPicker';
 export { default as ModeSelector } from './ModeSelector/ModeSelector';
@@ -12,4 +13,12 @@ export { default as Header } from './Header/Header';
 export { default as Settings } from './Settings/Settings';
 export { default as VoiceCountButton } from './VoiceCountButton/VoiceCountButton';
 export { default as Modal } from './Modal/Modal';
-export { default as KeyboardShortcuts } from './KeyboardShortcuts/KeyboardShortcuts';
\ No newline at end of file
+export { default as KeyboardShortcuts } from './KeyboardShortcuts/KeyboardShortcuts';
+export { default as TemplateModal } from './TemplateModal/TemplateModal';
+export { default as WorkoutBuilder } from './WorkoutBuilder/WorkoutBuilder';
+export { default as HistoryModal } from './HistoryModal/HistoryModal';
+export { default as StatsDashboard } from './StatsDashboard/StatsDashboard';
+export { default as BackupRestore } from './BackupRestore/BackupRestore';
+export { default as WorkoutStatus } from './WorkoutStatus/WorkoutStatus';
+export { default as ResumePrompt } from './ResumePrompt/ResumePrompt';
+export { default as MetronomePanel } from './MetronomePanel/MetronomePanel';
\ No newline at end of file
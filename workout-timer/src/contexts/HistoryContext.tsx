@@ -0,0 +1,176 @@
+// History Context - 운동 세션 기록 (IndexedDB) 관리
+import { createContext, useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import type { HistoryFileFormat, HistoryImportResult, TimerMode, WorkoutSession } from '../types';
+import { IndexedDBService } from '../services/IndexedDBService';
+import { SessionHistoryService } from '../services/SessionHistoryService';
+import { HistoryTransferService } from '../services/HistoryTransferService';
+import type { SessionPauseState, SessionResult } from '../services/SessionHistoryService';
+
+interface HistoryContextType {
+  sessions: WorkoutSession[]; // 최신순
+  isLoading: boolean;
+  error: string | null;
+  beginSession: (mode: TimerMode, duration: number, startedAt?: number, pauseState?: SessionPauseState) => void;
+  getPauseState: () => SessionPauseState | null;
+  pauseSession: () => void;
+  resumeSession: () => void;
+  endSession: (result: SessionResult, completed: boolean) => void;
+  deleteSession: (id: string) => Promise<void>;
+  clearHistory: () => Promise<void>;
+  refresh: () => Promise<void>;
+  exportHistory: (format: HistoryFileFormat) => Promise<void>;
+  importHistory: (file: File) => Promise<HistoryImportResult | null>;
+}
+
+export const HistoryContext = createContext<HistoryContextType | undefined>(undefined);
+
+interface HistoryProviderProps {
+  children: ReactNode;
+}
+
+export function HistoryProvider({ children }: HistoryProviderProps) {
+  const serviceRef = useRef<SessionHistoryService | null>(null);
+  const transferServiceRef = useRef<HistoryTransferService | null>(null);
+
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!serviceRef.current) return;
+    setIsLoading(true);
+    try {
+      setSessions(await serviceRef.current.getSessions());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load workout history:', err);
+      setError('운동 기록을 불러오지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // 마운트 시 서비스 생성 및 기록 불러오기, 언마운트 시 DB 연결 정리
+  useEffect(() => {
+    // 기록 저장과 내보내기/가져오기가 같은 DB 연결 사용
+    const db = new IndexedDBService();
+    serviceRef.current = new SessionHistoryService(db);
+    transferServiceRef.current = new HistoryTransferService(db);
+    refresh();
+    return () => {
+      serviceRef.current?.destroy();
+      serviceRef.current = null;
+      transferServiceRef.current = null;
+    };
+  }, [refresh]);
+
+  // startedAt, pauseState: 새로고침 후 이어서 하는 세션의 원래 시작 시각과 일시정지 기록
+  const beginSession = useCallback((mode: TimerMode, duration: number, startedAt?: number, pauseState?: SessionPauseState) => {
+    serviceRef.current?.begin(mode, duration, startedAt, pauseState);
+  }, []);
+
+  const getPauseState = useCallback(() => serviceRef.current?.getPauseState() ?? null, []);
+
+  const pauseSession = useCallback(() => {
+    serviceRef.current?.pause();
+  }, []);
+
+  const resumeSession = useCallback(() => {
+    serviceRef.current?.resume();
+  }, []);
+
+  const endSession = useCallback((result: SessionResult, completed: boolean) => {
+    const service = serviceRef.current;
+    if (!service?.isTracking) {
+      return;
+    }
+    service.finish(result, completed)
+      .then(session => {
+        if (session) {
+          setSessions(prev => [session, ...prev]);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to save workout session:', err);
+        setError('운동 기록을 저장하지 못했습니다.');
+      });
+  }, []);
+
+  const deleteSession = useCallback(async (id: string) => {
+    try {
+      await serviceRef.current?.deleteSession(id);
+      setSessions(prev => prev.filter(session => session.id !== id));
+    } catch (err) {
+      console.error('Failed to delete workout session:', err);
+      setError('운동 기록을 삭제하지 못했습니다.');
+    }
+  }, []);
+
+  const clearHistory = useCallback(async () => {
+    try {
+      await serviceRef.current?.clearHistory();
+      setSessions([]);
+    } catch (err) {
+      console.error('Failed to clear workout history:', err);
+      setError('운동 기록을 삭제하지 못했습니다.');
+    }
+  }, []);
+
+  const exportHistory = useCallback(async (format: HistoryFileFormat) => {
+    if (!transferServiceRef.current) return;
+    try {
+      const content = await transferServiceRef.current.exportHistory(format);
+      HistoryTransferService.download(content, format);
+    } catch (err) {
+      console.error('Failed to export workout history:', err);
+      setError('운동 기록을 내보내지 못했습니다.');
+    }
+  }, []);
+
+  /**
+   * 파일에서 기록 가져오기 (형식 오류 시 error 설정 후 null 반환)
+   */
+  const importHistory = useCallback(async (file: File): Promise<HistoryImportResult | null> => {
+    const format = HistoryTransferService.detectFormat(file.name);
+    if (!transferServiceRef.current) {
+      return null;
+    }
+    if (!format) {
+      setError('CSV 또는 JSON 파일만 가져올 수 있습니다.');
+      return null;
+    }
+    try {
+      const result = await transferServiceRef.current.importHistory(await file.text(), format);
+      setError(null);
+      await refresh();
+      return result;
+    } catch (err) {
+      console.error('Failed to import workout history:', err);
+      setError(err instanceof Error ? err.message : '운동 기록을 가져오지 못했습니다.');
+      return null;
+    }
+  }, [refresh]);
+
+  const contextValue: HistoryContextType = useMemo(() => ({
+    sessions,
+    isLoading,
+    error,
+    beginSession,
+    getPauseState,
+    pauseSession,
+    resumeSession,
+    endSession,
+    deleteSession,
+    clearHistory,
+    refresh,
+    exportHistory,
+    importHistory,
+  }), [sessions, isLoading, error, beginSession, getPauseState, pauseSession, resumeSession, endSession, deleteSession, clearHistory, refresh, exportHistory, importHistory]);
+
+  return (
+    <HistoryContext.Provider value={contextValue}>
+      {children}
+    </HistoryContext.Provider>
+  );
+}
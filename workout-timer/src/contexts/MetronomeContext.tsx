@@ -0,0 +1,101 @@
+// Metronome Context - 메트로놈 실행 상태 관리 (단독 실행 또는 타이머 시작/정지에 맞춰 실행)
+import { createContext, useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { AudioNotificationService } from '../services/AudioNotificationService';
+import { useSettings } from '../hooks/useSettings';
+import { useTimer } from '../hooks/useTimer';
+
+interface MetronomeContextType {
+  isRunning: boolean;
+  beat: number; // 마지막으로 울린 박 번호 (0부터, 아직 울리지 않았으면 -1)
+  startMetronome: () => void;
+  stopMetronome: () => void;
+  toggleMetronome: () => void;
+}
+
+export const MetronomeContext = createContext<MetronomeContextType | undefined>(undefined);
+
+interface MetronomeProviderProps {
+  children: ReactNode;
+}
+
+export function MetronomeProvider({ children }: MetronomeProviderProps) {
+  const { settings } = useSettings();
+  const { events } = useTimer();
+  const [isRunning, setIsRunning] = useState(false);
+  const [beat, setBeat] = useState(-1);
+  const serviceRef = useRef<AudioNotificationService | null>(null);
+
+  // 시작할 때 최신 설정을 사용하도록 보관
+  const settingsRef = useRef(settings.metronome);
+  settingsRef.current = settings.metronome;
+
+  const startMetronome = useCallback(() => {
+    // AudioContext는 처음 시작할 때 생성 (사용자 상호작용 이후)
+    if (!serviceRef.current) {
+      serviceRef.current = new AudioNotificationService();
+    }
+    if (serviceRef.current.isMetronomeRunning()) {
+      return;
+    }
+    setBeat(-1);
+    setIsRunning(true);
+    serviceRef.current.startMetronome(settingsRef.current, setBeat);
+  }, []);
+
+  const stopMetronome = useCallback(() => {
+    serviceRef.current?.stopMetronome();
+    setIsRunning(false);
+    setBeat(-1);
+  }, []);
+
+  const toggleMetronome = useCallback(() => {
+    if (isRunning) {
+      stopMetronome();
+    } else {
+      startMetronome();
+    }
+  }, [isRunning, startMetronome, stopMetronome]);
+
+  // 실행 중 설정 변경은 다음 클릭부터 반영
+  useEffect(() => {
+    serviceRef.current?.updateMetronome(settings.metronome);
+  }, [settings.metronome]);
+
+  // 타이머 따라가기: 타이머/스톱워치가 진행되는 동안만 메트로놈 실행
+  const followTimer = settings.metronome.followTimer;
+  useEffect(() => {
+    if (!followTimer) {
+      return;
+    }
+    const unsubscribes = [
+      events.on('started', startMetronome),
+      events.on('resumed', startMetronome),
+      events.on('paused', stopMetronome),
+      events.on('completed', stopMetronome),
+      events.on('stopped', stopMetronome),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [followTimer, events, startMetronome, stopMetronome]);
+
+  useEffect(() => {
+    return () => {
+      serviceRef.current?.destroy();
+      serviceRef.current = null;
+    };
+  }, []);
+
+  const value = useMemo(() => ({
+    isRunning,
+    beat,
+    startMetronome,
+    stopMetronome,
+    toggleMetronome,
+  }), [isRunning, beat, startMetronome, stopMetronome, toggleMetronome]);
+
+  return (
+    <MetronomeContext.Provider value={value}>
+      {children}
+    </MetronomeContext.Provider>
+  );
+}
@@ -2,7 +2,7 @@
 import { createContext, useState, useEffect, useMemo, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import type { SettingsState } from '../types';
-import { DEFAULT_SETTINGS, STORAGE_KEYS } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
 import { StorageService } from '../services/StorageService';
 
 interface SettingsContextType {
@@ -11,6 +11,10 @@ interface SettingsContextType {
   updateSoundSettings: (updates: Partial<SettingsState['sound']>) => void;
   updateVibrationSettings: (updates: Partial<SettingsState['vibration']>) => void;
   updateUISettings: (updates: Partial<SettingsState['ui']>) => void;
+  updateTimerSettings: (updates: Partial<SettingsState['timer']>) => void;
+  updateSpeechSettings: (updates: Partial<SettingsState['speech']>) => void;
+  updateVoiceCountSettings: (updates: Partial<SettingsState['voiceCount']>) => void;
+  updateMetronomeSettings: (updates: Partial<SettingsState['metronome']>) => void;
   resetSettings: () => void;
 }
 
@@ -27,16 +31,11 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
   useEffect(() => {
     const loadSettings = () => {
       try {
-        const savedSettings = StorageService.getItem<SettingsState>(STORAGE_KEYS.SETTINGS);
+        // 이전 버전 형식은 마이그레이션, 잘못된 값은 기본값으로 복구됨
+        const savedSettings = StorageService.loadSettings();
         if (savedSettings) {
-          // 저장된 설정과 기본 설정을 병합 (새로운 설정 항목 대응)
-          const mergedSettings: SettingsState = {
-            sound: { ...DEFAULT_SETTINGS.sound, ...savedSettings.sound },
-            vibration: { ...DEFAULT_SETTINGS.vibration, ...savedSettings.vibration },
-            ui: { ...DEFAULT_SETTINGS.ui, ...savedSettings.ui }
-          };
-          setSettings(mergedSettings);
-          console.log('Settings loaded from storage:', mergedSettings);
+          setSettings(savedSettings);
+          console.log('Settings loaded from storage:', savedSettings);
         }
       } catch (error) {
         console.error('Failed to load settings:', error);
@@ -51,7 +50,7 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
   // 설정 저장 (메모화)
   const saveSettings = useCallback((newSettings: SettingsState) => {
     try {
-      StorageService.setItem(STORAGE_KEYS.SETTINGS, newSettings);
+      StorageService.saveSettings(newSettings);
       console.log('Settings saved to storage:', newSettings);
     } catch (error) {
       console.error('Failed to save settings:', error);
@@ -67,7 +66,11 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
         // 중첩된 객체는 개별적으로 병합
         sound: updates.sound ? { ...prev.sound, ...updates.sound } : prev.sound,
         vibration: updates.vibration ? { ...prev.vibration, ...updates.vibration } : prev.vibration,
-        ui: updates.ui ? { ...prev.ui, ...updates.ui } : prev.ui
+        ui: updates.ui ? { ...prev.ui, ...updates.ui } : prev.ui,
+        timer: updates.timer ? { ...prev.timer, ...updates.timer } : prev.timer,
+        speech: updates.speech ? { ...prev.speech, ...updates.speech } : prev.speech,
+        voiceCount: updates.voiceCount ? { ...prev.voiceCount, ...updates.voiceCount } : prev.voiceCount,
+        metronome: updates.metronome ? { ...prev.metronome, ...updates.metronome } : prev.metronome
       };
       
       saveSettings(newSettings);
@@ -114,6 +117,58 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     });
   }, [saveSettings]);
 
+  // 타이머 설정 업데이트 (메모화)
+  const updateTimerSettings = useCallback((updates: Partial<SettingsState['timer']>) => {
+    setSettings(prev => {
+      const newSettings = {
+        ...prev,
+        timer: { ...prev.timer, ...updates }
+      };
+      
+      saveSettings(newSettings);
+      return newSettings;
+    });
+  }, [saveSettings]);
+
+  // 음성 안내 설정 업데이트 (메모화)
+  const updateSpeechSettings = useCallback((updates: Partial<SettingsState['speech']>) => {
+    setSettings(prev => {
+      const newSettings = {
+        ...prev,
+        speech: { ...prev.speech, ...updates }
+      };
+      
+      saveSettings(newSettings);
+      return newSettings;
+    });
+  }, [saveSettings]);
+
+  // 음성 카운트 설정 업데이트 (메모화)
+  const updateVoiceCountSettings = useCallback((updates: Partial<SettingsState['voiceCount']>) => {
+    setSettings(prev => {
+      const newSettings = {
+        ...prev,
+        voiceCount: { ...prev.voiceCount, ...updates }
+      };
+      
+      saveSettings(newSettings);
+      return newSettings;
+    });
+  }, [saveSettings]);
+
+  // 메트로놈 설정 업데이트 (메모화)
+  const updateMetronomeSettings = useCallback((updates: Partial<SettingsState['metronome']>) => {
+    setSettings(prev => {
+      const newSettings = {
+        ...prev,
+        metronome: { ...prev.metronome, ...updates }
+      };
+      
+      saveSettings(newSettings);
+      return newSettings;
+    });
+  }, [saveSettings]);
+
   // 설정 초기화 (메모화)
   const resetSettings = useCallback(() => {
     setSettings(DEFAULT_SETTINGS);
@@ -127,8 +182,12 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     updateSoundSettings,
     updateVibrationSettings,
     updateUISettings,
+    updateTimerSettings,
+    updateSpeechSettings,
+    updateVoiceCountSettings,
+    updateMetronomeSettings,
     resetSettings
-  }), [settings, updateSettings, updateSoundSettings, updateVibrationSettings, updateUISettings, resetSettings]);
+  }), [settings, updateSettings, updateSoundSettings, updateVibrationSettings, updateUISettings, updateTimerSettings, updateSpeechSettings, updateVoiceCountSettings, updateMetronomeSettings, resetSettings]);
 
   return (
     <SettingsContext.Provider value={contextValue}>
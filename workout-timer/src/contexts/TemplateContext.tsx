@@ -0,0 +1,244 @@
+// Template Context - 타이머 시간 프리셋(템플릿) 목록 관리 및 저장
+import { createContext, useReducer, useRef, useEffect, useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import type { Template, TemplateState, TemplateAction } from '../types';
+import { DEFAULT_TEMPLATES, DEFAULT_TEMPLATE_IDS, TIME_CONSTANTS } from '../types';
+import { StorageService } from '../services/StorageService';
+import { generateId, isValidTemplateName } from '../utils';
+
+interface TemplateContextType {
+  state: TemplateState;
+  addTemplate: (name: string, duration: number) => boolean;
+  updateTemplate: (id: string, updates: Partial<Pick<Template, 'name' | 'duration'>>) => boolean;
+  deleteTemplate: (id: string) => boolean;
+  moveTemplate: (id: string, direction: -1 | 1) => void;
+  selectTemplate: (template: Template) => void;
+  clearError: () => void;
+}
+
+export const TemplateContext = createContext<TemplateContextType | undefined>(undefined);
+
+const initialState: TemplateState = {
+  templates: [],
+  isLoading: false,
+  error: null,
+};
+
+/**
+ * 기본 템플릿 (30초/1분/3분) 생성
+ */
+function createDefaultTemplates(): Template[] {
+  const ids = Object.values(DEFAULT_TEMPLATE_IDS);
+  return DEFAULT_TEMPLATES.map((template, index) => ({
+    ...template,
+    id: ids[index],
+    createdAt: new Date(0),
+  }));
+}
+
+/**
+ * 저장된 목록과 기본 템플릿 병합
+ * 저장된 순서를 유지하고, 저장 목록에 없는 기본 템플릿은 맨 앞에 추가합니다.
+ */
+function mergeWithDefaults(saved: Template[]): Template[] {
+  const defaults = createDefaultTemplates();
+  const savedIds = new Set(saved.map(template => template.id));
+  const missingDefaults = defaults.filter(template => !savedIds.has(template.id));
+  const restored = saved.flatMap(template => {
+    if (!template.isDefault) {
+      return [template];
+    }
+    // 기본 템플릿의 이름/시간은 항상 코드 기준으로 사용
+    const builtIn = defaults.find(defaultTemplate => defaultTemplate.id === template.id);
+    return builtIn ? [builtIn] : [];
+  });
+  return [...missingDefaults, ...restored];
+}
+
+function loadInitialState(state: TemplateState): TemplateState {
+  try {
+    return { ...state, templates: mergeWithDefaults(StorageService.loadTemplates()) };
+  } catch (error) {
+    console.error('Failed to load templates:', error);
+    return { ...state, templates: createDefaultTemplates(), error: '템플릿을 불러오는데 실패했습니다.' };
+  }
+}
+
+function templateReducer(state: TemplateState, action: TemplateAction): TemplateState {
+  switch (action.type) {
+    case 'LOAD_TEMPLATES':
+      return {
+        ...state,
+        templates: action.payload,
+        isLoading: false,
+      };
+
+    case 'ADD_TEMPLATE':
+      return {
+        ...state,
+        templates: [...state.templates, action.payload],
+        error: null,
+      };
+
+    case 'UPDATE_TEMPLATE':
+      return {
+        ...state,
+        templates: state.templates.map(template =>
+          template.id === action.payload.id ? { ...template, ...action.payload.updates } : template
+        ),
+        error: null,
+      };
+
+    case 'DELETE_TEMPLATE':
+      return {
+        ...state,
+        templates: state.templates.filter(template => template.id !== action.payload.id),
+        error: null,
+      };
+
+    case 'MOVE_TEMPLATE': {
+      const templates = [...state.templates];
+      const index = templates.findIndex(template => template.id === action.payload.id);
+      const target = index + action.payload.direction;
+      if (index < 0 || target < 0 || target >= templates.length) {
+        return state;
+      }
+      [templates[index], templates[target]] = [templates[target], templates[index]];
+      return {
+        ...state,
+        templates,
+      };
+    }
+
+    case 'SET_ERROR':
+      return {
+        ...state,
+        error: action.payload,
+      };
+
+    default:
+      return state;
+  }
+}
+
+interface TemplateProviderProps {
+  children: ReactNode;
+  onTemplateSelect?: (template: Template) => void; // 템플릿 선택 시 타이머에 적용
+}
+
+export function TemplateProvider({ children, onTemplateSelect }: TemplateProviderProps) {
+  const [state, dispatch] = useReducer(templateReducer, initialState, loadInitialState);
+  // 불러온 직후의 목록은 다시 저장하지 않음 (읽기 실패 시 저장된 데이터를 덮어쓰지 않도록)
+  const skipSaveRef = useRef(true);
+
+  // 템플릿 목록 변경 시 저장
+  useEffect(() => {
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false;
+      return;
+    }
+    try {
+      StorageService.saveTemplates(state.templates);
+    } catch (error) {
+      console.error('Failed to save templates:', error);
+      dispatch({ type: 'SET_ERROR', payload: '템플릿을 저장하는데 실패했습니다.' });
+    }
+  }, [state.templates]);
+
+  /**
+   * 이름/시간 검사 (오류 메시지 반환, 문제 없으면 null)
+   */
+  const validate = useCallback((name: string, duration: number, excludeId?: string): string | null => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      return '템플릿 이름을 입력해주세요.';
+    }
+    if (!isValidTemplateName(trimmedName)) {
+      return '템플릿 이름은 50자 이하로 입력해주세요.';
+    }
+    if (state.templates.some(template => template.id !== excludeId && template.name === trimmedName)) {
+      return '이미 존재하는 템플릿 이름입니다.';
+    }
+    if (!Number.isInteger(duration) || duration < TIME_CONSTANTS.MIN_SECONDS || duration > TIME_CONSTANTS.MAX_SECONDS) {
+      return `시간은 1초 이상 ${TIME_CONSTANTS.MAX_HOURS}시간 59분 59초 이하로 설정해주세요.`;
+    }
+    return null;
+  }, [state.templates]);
+
+  const addTemplate = useCallback((name: string, duration: number): boolean => {
+    const error = validate(name, duration);
+    if (error) {
+      dispatch({ type: 'SET_ERROR', payload: error });
+      return false;
+    }
+    dispatch({
+      type: 'ADD_TEMPLATE',
+      payload: { id: generateId(), name: name.trim(), duration, isDefault: false, createdAt: new Date() },
+    });
+    return true;
+  }, [validate]);
+
+  const updateTemplate = useCallback((id: string, updates: Partial<Pick<Template, 'name' | 'duration'>>): boolean => {
+    const template = state.templates.find(item => item.id === id);
+    if (!template) {
+      dispatch({ type: 'SET_ERROR', payload: '템플릿을 찾을 수 없습니다.' });
+      return false;
+    }
+    if (template.isDefault) {
+      dispatch({ type: 'SET_ERROR', payload: '기본 템플릿은 수정할 수 없습니다.' });
+      return false;
+    }
+
+    const name = updates.name ?? template.name;
+    const duration = updates.duration ?? template.duration;
+    const error = validate(name, duration, id);
+    if (error) {
+      dispatch({ type: 'SET_ERROR', payload: error });
+      return false;
+    }
+    dispatch({ type: 'UPDATE_TEMPLATE', payload: { id, updates: { name: name.trim(), duration } } });
+    return true;
+  }, [state.templates, validate]);
+
+  const deleteTemplate = useCallback((id: string): boolean => {
+    const template = state.templates.find(item => item.id === id);
+    if (!template) {
+      dispatch({ type: 'SET_ERROR', payload: '템플릿을 찾을 수 없습니다.' });
+      return false;
+    }
+    if (template.isDefault) {
+      dispatch({ type: 'SET_ERROR', payload: '기본 템플릿은 삭제할 수 없습니다.' });
+      return false;
+    }
+    dispatch({ type: 'DELETE_TEMPLATE', payload: { id } });
+    return true;
+  }, [state.templates]);
+
+  const moveTemplate = useCallback((id: string, direction: -1 | 1) => {
+    dispatch({ type: 'MOVE_TEMPLATE', payload: { id, direction } });
+  }, []);
+
+  const selectTemplate = useCallback((template: Template) => {
+    onTemplateSelect?.(template);
+  }, [onTemplateSelect]);
+
+  const clearError = useCallback(() => {
+    dispatch({ type: 'SET_ERROR', payload: null });
+  }, []);
+
+  const contextValue: TemplateContextType = useMemo(() => ({
+    state,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+    moveTemplate,
+    selectTemplate,
+    clearError,
+  }), [state, addTemplate, updateTemplate, deleteTemplate, moveTemplate, selectTemplate, clearError]);
+
+  return (
+    <TemplateContext.Provider value={contextValue}>
+      {children}
+    </TemplateContext.Provider>
+  );
+}
@@ -1,31 +1,55 @@
 // Timer Context - useReducer를 사용한 타이머 상태 관리
-import { createContext, useReducer, useRef, useEffect, useContext, useMemo, useCallback } from 'react';
+import { createContext, useReducer, useRef, useState, useEffect, useContext, useMemo, useCallback } from 'react';
 import type { ReactNode } from 'react';
-import type { TimerState, TimerAction, TimerCallbacks } from '../types';
+import type { TimerState, TimerAction, TimerCallbacks, TimerMode, IntervalConfig, EmomConfig, SavedTimerSession, TabSyncCommand, AddedSegmentTime } from '../types';
+import { DEFAULT_INTERVAL_CONFIG, DEFAULT_EMOM_CONFIG, DEFAULT_SETTINGS } from '../types';
 import { Timer } from '../services/Timer';
 import { NotificationService } from '../services/NotificationService';
-import { BackgroundSyncService } from '../services/BackgroundSyncService';
+import { BackgroundSyncService, getSessionSchedule } from '../services/BackgroundSyncService';
+import type { RestoredTimerSession } from '../services/BackgroundSyncService';
 import { WakeLockService } from '../services/WakeLockService';
+import { TimerEventBus } from '../services/TimerEventBus';
+import { TabSyncService } from '../services/TabSyncService';
+import { SystemNotificationService, getCountdownAlert } from '../services/SystemNotificationService';
+import type { SystemNotificationAction } from '../services/SystemNotificationService';
+import { MediaSessionService } from '../services/MediaSessionService';
+import type { MediaSessionControl } from '../services/MediaSessionService';
+import { SpeechCueService } from '../services/SpeechCueService';
+import type { SpeechCue } from '../services/SpeechCueService';
 import type { VoiceCountService } from '../services/VoiceCountService';
+import type { SessionResult } from '../services/SessionHistoryService';
 import { SettingsContext } from './SettingsContext';
+import { HistoryContext } from './HistoryContext';
 import { useScreenReader } from '../hooks/useScreenReader';
+import { buildIntervalSchedule, buildEmomSchedule, getScheduleDuration } from '../utils';
 
 interface TimerContextType {
   state: TimerState;
   dispatch: React.Dispatch<TimerAction>;
-  setMode: (mode: 'timer' | 'stopwatch') => void;
+  setMode: (mode: TimerMode) => void;
   startTimer: () => void;
   pauseTimer: () => void;
   resumeTimer: () => void;
   resetTimer: () => void;
   resetRepetitions: () => void;
   setDuration: (duration: number) => void;
+  setIntervalConfig: (config: Partial<IntervalConfig>) => void;
+  setEmomConfig: (config: Partial<EmomConfig>) => void;
+  clearAmrapSummary: () => void;
+  recordLap: () => void;
+  startCountdown: (duration: number, onComplete?: () => void) => void;
   incrementRepetitions: () => void;
   decrementRepetitions: () => void;
   toggleVoiceCount: () => void;
   notificationService: NotificationService;
   voiceCountService: VoiceCountService;
   testNotification: (type: 'countdown' | 'completion') => Promise<void>;
+  speakCue: (cue: SpeechCue) => void; // 음성 안내 (설정에서 켠 안내만 읽음)
+  events: TimerEventBus; // 타이머 수명 주기 이벤트 구독 및 스냅샷 (useSyncExternalStore용)
+  pendingResume: SavedTimerSession | null; // 이어서 할지 확인을 기다리는 이전 세션
+  continueSavedSession: () => void;
+  discardSavedSession: () => void;
+  isLeaderTab: boolean; // 이 탭이 타이머와 알림음을 실행하는지 (false: 다른 탭의 상태를 따라감)
 }
 
 export const TimerContext = createContext<TimerContextType | undefined>(undefined);
@@ -40,8 +64,35 @@ const initialState: TimerState = {
   isPaused: false,
   voiceCountActive: false,
   voiceCountNumber: 0,
+  interval: DEFAULT_INTERVAL_CONFIG, // 기본 20초 운동 / 10초 휴식 / 8라운드
+  emom: DEFAULT_EMOM_CONFIG, // 기본 1분 × 10라운드
+  currentRound: 1,
+  phase: 'work',
+  roundSplits: [],
+  amrapSummary: null,
+  laps: [],
+  preStartRemaining: null,
+  overtime: null,
+  addedTime: 0,
 };
 
+/**
+ * 초기화/완료 시 돌아갈 남은 시간 (밀리초)
+ * 타이머/AMRAP 모드는 설정 시간, 인터벌 모드는 첫 운동 구간 시간, EMOM은 한 라운드 시간, 스톱워치는 현재 값 유지
+ */
+function getInitialRemainingTime(state: TimerState, mode: TimerMode = state.mode): number {
+  if (mode === 'timer' || mode === 'amrap') {
+    return state.duration * 1000;
+  }
+  if (mode === 'interval') {
+    return state.interval.workDuration * 1000;
+  }
+  if (mode === 'emom') {
+    return state.emom.intervalDuration * 1000;
+  }
+  return state.remainingTime;
+}
+
 function timerReducer(state: TimerState, action: TimerAction): TimerState {
   switch (action.type) {
     case 'SET_MODE':
@@ -49,8 +100,18 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
       return {
         ...state,
         mode: action.payload.mode,
-        remainingTime: state.duration * 1000,
+        remainingTime: action.payload.mode === 'stopwatch'
+          ? state.duration * 1000
+          : getInitialRemainingTime(state, action.payload.mode),
         elapsedTime: 0,
+        currentRound: 1,
+        phase: 'work',
+        roundSplits: [],
+        amrapSummary: null,
+        laps: [],
+        preStartRemaining: null,
+        overtime: null,
+        addedTime: 0,
         isRunning: false,
         isPaused: false,
         voiceCountActive: false,
@@ -60,6 +121,12 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
     case 'START_TIMER':
       return {
         ...state,
+        // 새 세션 시작 시 AMRAP 라운드/랩 기록 초기화 (일시정지 후 재개는 유지)
+        roundSplits: state.isPaused ? state.roundSplits : [],
+        amrapSummary: state.isPaused ? state.amrapSummary : null,
+        laps: state.isPaused ? state.laps : [],
+        overtime: state.isPaused ? state.overtime : null,
+        addedTime: state.isPaused ? state.addedTime : 0,
         isRunning: true,
         isPaused: false,
       };
@@ -74,8 +141,15 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
     case 'RESET_TIMER':
       return {
         ...state,
-        remainingTime: state.mode === 'timer' ? state.duration * 1000 : state.remainingTime,
+        remainingTime: getInitialRemainingTime(state),
         elapsedTime: state.mode === 'stopwatch' ? 0 : state.elapsedTime,
+        currentRound: 1,
+        phase: 'work',
+        roundSplits: [],
+        laps: [],
+        preStartRemaining: null,
+        overtime: null,
+        addedTime: 0,
         isRunning: false,
         isPaused: false,
         voiceCountActive: false,
@@ -91,22 +165,53 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
     case 'COMPLETE_TIMER':
       return {
         ...state,
-        remainingTime: state.mode === 'timer' ? state.duration * 1000 : state.remainingTime,
+        remainingTime: getInitialRemainingTime(state),
         elapsedTime: state.mode === 'stopwatch' ? 0 : state.elapsedTime,
+        currentRound: 1,
+        phase: 'work',
+        // AMRAP 모드는 세션 요약을 남김 (라운드 기록은 다음 시작 전까지 유지)
+        amrapSummary: state.mode === 'amrap'
+          ? { duration: state.duration, totalRounds: state.roundSplits.length, splits: state.roundSplits }
+          : state.amrapSummary,
+        // 초과 카운트 후 정지한 경우 초과 시간을 남김 (다음 시작/초기화 전까지 유지)
+        overtime: action.payload?.overtime ?? null,
+        addedTime: 0,
         isRunning: false,
         isPaused: false,
         // repetitions는 그대로 유지 (자동 증가 제거)
       };
 
+    case 'OVERTIME_TICK':
+      return {
+        ...state,
+        remainingTime: 0,
+        overtime: action.payload.overtime,
+      };
+
     case 'SET_DURATION':
       return {
         ...state,
         duration: action.payload.duration,
         remainingTime: action.payload.duration * 1000, // 초를 밀리초로 변환
+        overtime: null,
+        addedTime: 0,
         isRunning: false,
         isPaused: false,
       };
 
+    case 'ADD_TIME':
+      // 타이머/AMRAP은 전체 시간을 늘리고, 인터벌/EMOM은 현재 구간에 추가한 시간을 따로 기록 (남은 시간은 타이머 틱으로 갱신)
+      if (state.mode === 'timer' || state.mode === 'amrap') {
+        return {
+          ...state,
+          duration: state.duration + action.payload.seconds,
+        };
+      }
+      return {
+        ...state,
+        addedTime: state.addedTime + action.payload.seconds * 1000,
+      };
+
     case 'INCREMENT_REPETITIONS':
       return {
         ...state,
@@ -117,18 +222,87 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
       return {
         ...state,
         repetitions: Math.max(0, state.repetitions - 1),
+        // AMRAP 모드: 잘못 탭한 마지막 라운드 기록도 함께 취소
+        roundSplits: state.mode === 'amrap' && state.repetitions > 0
+          ? state.roundSplits.slice(0, -1)
+          : state.roundSplits,
+      };
+
+    case 'RECORD_ROUND': {
+      const previous = state.roundSplits[state.roundSplits.length - 1];
+      const { elapsedTime, timestamp } = action.payload;
+      return {
+        ...state,
+        repetitions: state.repetitions + 1,
+        roundSplits: [
+          ...state.roundSplits,
+          {
+            round: state.roundSplits.length + 1,
+            timestamp,
+            elapsedTime,
+            splitTime: elapsedTime - (previous?.elapsedTime ?? 0),
+          },
+        ],
+      };
+    }
+
+    case 'CLEAR_AMRAP_SUMMARY':
+      return {
+        ...state,
+        amrapSummary: null,
       };
 
+    case 'LAP': {
+      const previous = state.laps[state.laps.length - 1];
+      const { elapsedTime } = action.payload;
+      return {
+        ...state,
+        laps: [
+          ...state.laps,
+          {
+            number: state.laps.length + 1,
+            lapTime: elapsedTime - (previous?.totalTime ?? 0),
+            totalTime: elapsedTime,
+          },
+        ],
+      };
+    }
+
+    case 'CLEAR_LAPS':
+      return {
+        ...state,
+        laps: [],
+      };
+
+    case 'PRE_START':
+      return {
+        ...state,
+        preStartRemaining: action.payload.remainingTime,
+      };
+
+    case 'PRE_START_END':
+      return {
+        ...state,
+        preStartRemaining: null,
+      };
+
+    case 'RESTORE_STATE':
+      return action.payload.state;
+
+    case 'SYNC_STATE':
+      return action.payload.state;
+
     case 'TICK':
-      if (state.mode === 'timer') {
+      if (state.mode === 'stopwatch') {
         return {
           ...state,
-          remainingTime: action.payload?.remainingTime ?? state.remainingTime,
+          elapsedTime: action.payload?.elapsedTime ?? state.elapsedTime,
         };
       } else {
+        // 타이머 모드는 전체 남은 시간, 인터벌 모드는 현재 구간 남은 시간
         return {
           ...state,
-          elapsedTime: action.payload?.elapsedTime ?? state.elapsedTime,
+          remainingTime: action.payload?.remainingTime ?? state.remainingTime,
         };
       }
 
@@ -145,6 +319,57 @@ function timerReducer(state: TimerState, action: TimerAction): TimerState {
         voiceCountNumber: state.voiceCountNumber + 1,
       };
 
+    case 'FINISH_VOICE_COUNT':
+      // 목표 반복을 마치면 마지막 반복 번호는 다음 시작 전까지 표시
+      return {
+        ...state,
+        voiceCountActive: false,
+      };
+
+    case 'SET_INTERVAL_CONFIG': {
+      const interval = { ...state.interval, ...action.payload };
+      return {
+        ...state,
+        interval,
+        remainingTime: state.mode === 'interval' ? interval.workDuration * 1000 : state.remainingTime,
+        currentRound: 1,
+        phase: 'work',
+        addedTime: 0,
+        isRunning: false,
+        isPaused: false,
+      };
+    }
+
+    case 'SET_EMOM_CONFIG': {
+      const emom = { ...state.emom, ...action.payload };
+      return {
+        ...state,
+        emom,
+        remainingTime: state.mode === 'emom' ? emom.intervalDuration * 1000 : state.remainingTime,
+        currentRound: 1,
+        phase: 'work',
+        addedTime: 0,
+        isRunning: false,
+        isPaused: false,
+      };
+    }
+
+    case 'PHASE_CHANGE': {
+      // EMOM 라운드 경계에서는 설정에 따라 반복 횟수를 초기화하거나 1 증가
+      let repetitions = state.repetitions;
+      if (state.mode === 'emom') {
+        repetitions = state.emom.repBehavior === 'reset' ? 0 : state.repetitions + 1;
+      }
+      return {
+        ...state,
+        phase: action.payload.phase,
+        currentRound: action.payload.round,
+        remainingTime: action.payload.remainingTime,
+        addedTime: 0,
+        repetitions,
+      };
+    }
+
     default:
       return state;
   }
@@ -156,25 +381,77 @@ interface TimerProviderProps {
 
 export function TimerProvider({ children }: TimerProviderProps) {
   const [state, dispatch] = useReducer(timerReducer, initialState);
+  const stateRef = useRef(state);
+  stateRef.current = state;
   const timerRef = useRef<Timer | null>(null);
+  // 시작 전 준비 카운트다운 전용 타이머 (준비 중이 아니면 null)
+  const preStartTimerRef = useRef<Timer | null>(null);
+  // 이번 세션에서 0 도달(초과 시작) 알림을 이미 보냈는지 여부
+  const overtimeNotifiedRef = useRef(false);
+  // startCountdown으로 시작한 카운트다운이 끝났을 때 한 번 호출할 핸들러 (운동 프로그램 진행용)
+  const completionHandlerRef = useRef<(() => void) | null>(null);
   const notificationServiceRef = useRef<NotificationService | null>(null);
   const backgroundSyncRef = useRef<BackgroundSyncService | null>(null);
+  // 진행 중인 세션의 시작 시각, 초과 카운트 사용 여부, 구간별 추가 시간 (새로고침 후 복원용으로 저장)
+  const sessionInfoRef = useRef<{ startedAt: number; overtime: boolean; addedTime: AddedSegmentTime[] } | null>(null);
+  // 저장된 세션 확인이 끝나기 전에는 초기 상태로 저장된 세션을 덮어쓰지 않음
+  const restoreCheckedRef = useRef(false);
+  // 앱 시작 시 불러온 이전 세션 (설정 로드 후 이어하기 여부 결정)
+  const [savedSession, setSavedSession] = useState<SavedTimerSession | null>(null);
+  const [pendingResume, setPendingResume] = useState<SavedTimerSession | null>(null);
+  // 타이머 서비스를 다시 만든 뒤 이어서 실행할 세션
+  const [restoreRequest, setRestoreRequest] = useState<{ session: SavedTimerSession; restored: RestoredTimerSession } | null>(null);
   const wakeLockServiceRef = useRef<WakeLockService | null>(null);
+  // 타이머 이벤트 버스 (Provider 수명 동안 하나만 사용)
+  const [eventBus] = useState(() => new TimerEventBus());
+  // 여러 탭 중 타이머와 알림음을 실행하는 리더 탭인지 여부 (팔로워 탭은 리더 상태를 따라감)
+  const tabSyncRef = useRef<TabSyncService | null>(null);
+  const [isLeaderTab, setIsLeaderTab] = useState(true);
+  const wasLeaderTabRef = useRef(true);
+  // 팔로워 탭에서 전달된 명령 실행 (렌더마다 최신 액션 함수로 갱신)
+  const tabCommandRef = useRef<(command: TabSyncCommand) => void>(() => {});
+  // 시스템 알림 버튼 동작 실행 (렌더마다 최신 액션 함수로 갱신)
+  const notificationActionRef = useRef<(action: SystemNotificationAction) => void>(() => {});
+  // 잠금 화면 미디어 컨트롤 실행 (렌더마다 최신 액션 함수로 갱신)
+  const mediaControlRef = useRef<(control: MediaSessionControl) => void>(() => {});
   const voiceCountServiceRef = useRef<VoiceCountService | null>(null);
+  // 음성 카운트 세트 완료 처리 (렌더마다 최신 액션 함수로 갱신)
+  const voiceCountCompleteRef = useRef<() => void>(() => {});
+  const speechCueServiceRef = useRef<SpeechCueService | null>(null);
+  // 구간 전환 콜백에서 사용할 총 라운드 수 (인터벌/EMOM)
+  const totalRoundsRef = useRef(state.interval.rounds);
+  totalRoundsRef.current = state.mode === 'emom' ? state.emom.rounds : state.interval.rounds;
   const settingsContext = useContext(SettingsContext);
+  // 운동 기록 (HistoryProvider가 없으면 기록하지 않음)
+  const historyContext = useContext(HistoryContext);
+  const historyRef = useRef(historyContext);
+  historyRef.current = historyContext;
+  // 화면 켜두기 설정 (Wake Lock 이벤트 구독에서 최신 값 사용)
+  const keepScreenOn = settingsContext?.settings.ui?.keepScreenOn ?? false;
+  const keepScreenOnRef = useRef(keepScreenOn);
+  keepScreenOnRef.current = keepScreenOn;
+  // 세션 종료 시 기록할 최신 반복 횟수/랩/초과 시간 (타이머 콜백은 모드 변경 시에만 갱신됨)
+  const sessionResultRef = useRef<SessionResult>({ repetitions: state.repetitions, laps: state.laps, overtime: state.overtime });
+  sessionResultRef.current = { repetitions: state.repetitions, laps: state.laps, overtime: state.overtime };
 
   // 스크린 리더 지원
-  const { announceTimerState, announceRepetitionChange } = useScreenReader();
+  const { announceTimerState, announceRepetitionChange, announcePhaseChange, announceRoundStart, announcePreStart, announceOvertime } = useScreenReader();
+  // 타이머 콜백에서 사용할 스크린 리더 알림 (렌더마다 최신 함수로 갱신)
+  const announcersRef = useRef({ announceTimerState, announcePhaseChange, announceRoundStart, announceOvertime });
+  announcersRef.current = { announceTimerState, announcePhaseChange, announceRoundStart, announceOvertime };
 
   // NotificationService 및 VoiceCountService 초기화
   useEffect(() => {
     notificationServiceRef.current = new NotificationService();
-    // VoiceCountService는 동적 임포트로 로드하여 테스트 환경에서 정적 자산 해석 문제를 회피
+    // VoiceCountService는 음성 카운트를 쓸 때만 필요하므로 동적 임포트로 로드
     (async () => {
       try {
         const module = await import('../services/VoiceCountService');
         const ServiceCtor = module.VoiceCountService;
-        voiceCountServiceRef.current = new ServiceCtor();
+        voiceCountServiceRef.current = new ServiceCtor(
+          () => dispatch({ type: 'INCREMENT_VOICE_COUNT' }),
+          () => voiceCountCompleteRef.current()
+        );
       } catch (error) {
         console.warn('VoiceCountService failed to load:', error);
       }
@@ -190,65 +467,111 @@ export function TimerProvider({ children }: TimerProviderProps) {
     };
   }, []);
 
-  // BackgroundSyncService 및 WakeLockService 초기화
+  // SpeechCueService 초기화 (음성 합성을 쓸 수 없으면 카운트다운 비프음으로 대신)
   useEffect(() => {
-    backgroundSyncRef.current = new BackgroundSyncService();
-    wakeLockServiceRef.current = new WakeLockService();
-
-    // Wake Lock 가시성 핸들러 설정
-    wakeLockServiceRef.current.setupVisibilityHandler();
+    const speechCueService = new SpeechCueService(() => {
+      notificationServiceRef.current?.notifyCountdown();
+    });
+    speechCueServiceRef.current = speechCueService;
+    // 남은 시간/절반 안내 기준이 되는 현재 카운트다운 길이
+    const disconnect = speechCueService.connect(eventBus, () => {
+      const current = timerRef.current?.getCurrentSegment();
+      if (current) {
+        return current.segment.duration * 1000;
+      }
+      const { mode, duration } = stateRef.current;
+      return mode === 'timer' || mode === 'amrap' ? duration * 1000 : null;
+    });
 
-    // 타이머 상태 요청 이벤트 리스너
-    const handleGetTimerState = (event: Event) => {
-      (event as any).detail = state;
+    return () => {
+      disconnect();
+      speechCueService.destroy();
+      speechCueServiceRef.current = null;
     };
+  }, [eventBus]);
 
-    // 타이머 상태 복원 이벤트 리스너
-    const handleRestoreTimerState = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      const restoredState = customEvent.detail;
+  // BackgroundSyncService, WakeLockService, TabSyncService, SystemNotificationService 및 MediaSessionService 초기화
+  useEffect(() => {
+    backgroundSyncRef.current = new BackgroundSyncService();
+    wakeLockServiceRef.current = new WakeLockService();
+    tabSyncRef.current = new TabSyncService({
+      onRoleChange: setIsLeaderTab,
+      onState: (syncedState) => dispatch({ type: 'SYNC_STATE', payload: { state: syncedState } }),
+      onCommand: (command) => tabCommandRef.current(command),
+      onStateRequest: () => tabSyncRef.current?.broadcastState(stateRef.current),
+    });
+    setIsLeaderTab(tabSyncRef.current.isLeader);
 
-      // 상태 복원
-      dispatch({ type: 'SET_DURATION', payload: { duration: restoredState.duration } });
-      dispatch({ type: 'TICK', payload: { remainingTime: restoredState.remainingTime } });
+    // Wake Lock 가시성 핸들러 설정 및 타이머 이벤트 구독
+    wakeLockServiceRef.current.setupVisibilityHandler();
+    const disconnectWakeLock = wakeLockServiceRef.current.connect(eventBus, () => keepScreenOnRef.current);
 
-      // 반복 횟수 복원
-      for (let i = 0; i < restoredState.repetitions; i++) {
-        dispatch({ type: 'INCREMENT_REPETITIONS' });
+    // 화면이 잠겨도 현재 카운트다운이 끝날 때 시스템 알림 (타이머 이벤트는 리더 탭에서만 발생)
+    const systemNotificationService = new SystemNotificationService((action) => notificationActionRef.current(action));
+    const disconnectSystemNotification = systemNotificationService.connect(eventBus, () => {
+      const timer = timerRef.current;
+      if (!timer) {
+        return null;
       }
+      const { mode, remainingTime } = timer.getState();
+      return getCountdownAlert(mode, timer.getCurrentSegment()?.segment.phase ?? null, remainingTime);
+    });
 
-      // 타이머 상태 복원
-      if (restoredState.isRunning && !restoredState.isPaused) {
-        if (timerRef.current) {
-          timerRef.current.start(restoredState.remainingTime);
-        }
-        dispatch({ type: 'START_TIMER' });
-      } else if (restoredState.isPaused) {
-        dispatch({ type: 'PAUSE_TIMER' });
-      }
-    };
+    // 잠금 화면 미디어 컨트롤 (무음 재생으로 컨트롤 유지, 알림음 서비스는 먼저 초기화됨)
+    const mediaSessionService = new MediaSessionService(
+      (control) => mediaControlRef.current(control),
+      notificationServiceRef.current?.getAudioService() ?? null
+    );
+    const disconnectMediaSession = mediaSessionService.connect(eventBus);
 
-    document.addEventListener('get-timer-state', handleGetTimerState);
-    document.addEventListener('restore-timer-state', handleRestoreTimerState);
+    // 새로고침/탭 종료 전에 진행 중이던 세션 불러오기 (다른 탭이 리더면 그 탭이 이어서 실행 중)
+    const session = tabSyncRef.current.isLeader ? backgroundSyncRef.current.loadSession() : null;
+    if (session) {
+      setSavedSession(session);
+    } else {
+      restoreCheckedRef.current = true;
+    }
 
     return () => {
-      if (backgroundSyncRef.current) {
-        backgroundSyncRef.current.destroy();
-      }
+      tabSyncRef.current?.destroy();
+      tabSyncRef.current = null;
+      disconnectWakeLock();
       if (wakeLockServiceRef.current) {
         wakeLockServiceRef.current.destroy();
       }
-      document.removeEventListener('get-timer-state', handleGetTimerState);
-      document.removeEventListener('restore-timer-state', handleRestoreTimerState);
+      disconnectSystemNotification();
+      systemNotificationService.destroy();
+      disconnectMediaSession();
     };
-  }, [state]);
+  }, [eventBus]);
+
+  /**
+   * 저장된 세션을 현재 시각 기준으로 복원 (타이머 서비스 재시작은 아래 effect에서 처리)
+   */
+  const restoreSession = useCallback((session: SavedTimerSession) => {
+    const restored = BackgroundSyncService.calculateRestoredState(session);
+    dispatch({ type: 'RESTORE_STATE', payload: { state: restored.state } });
+    setRestoreRequest({ session, restored });
+  }, []);
 
-  // Wake Lock 상태 관리 (타이머 상태 변경 시)
+  // 이전 세션 이어하기 여부 결정 (설정한 시간보다 오래된 세션은 사용자에게 확인)
+  const resumePromptMinutes = settingsContext?.settings.timer?.resumePromptMinutes ?? DEFAULT_SETTINGS.timer.resumePromptMinutes;
   useEffect(() => {
-    if (wakeLockServiceRef.current && settingsContext?.settings.ui?.keepScreenOn) {
-      wakeLockServiceRef.current.handleTimerStateChange(state.isRunning && !state.isPaused);
+    if (!savedSession) {
+      return;
     }
-  }, [state.isRunning, state.isPaused, settingsContext?.settings.ui?.keepScreenOn]);
+    setSavedSession(null);
+    if (Date.now() - savedSession.startedAt > resumePromptMinutes * 60 * 1000) {
+      setPendingResume(savedSession);
+    } else {
+      restoreSession(savedSession);
+    }
+  }, [savedSession, resumePromptMinutes, restoreSession]);
+
+  // 화면 켜두기 설정 변경 시 현재 타이머 상태에 맞춰 Wake Lock 갱신 (이후에는 타이머 이벤트로 관리)
+  useEffect(() => {
+    wakeLockServiceRef.current?.handleTimerStateChange(keepScreenOn && eventBus.getSnapshot().status === 'running');
+  }, [keepScreenOn, eventBus]);
 
   // 설정 변경 시 알림 서비스 업데이트
   useEffect(() => {
@@ -256,37 +579,93 @@ export function TimerProvider({ children }: TimerProviderProps) {
       const { sound, vibration } = settingsContext.settings;
       notificationServiceRef.current.updateSettings(sound, vibration);
     }
+    if (speechCueServiceRef.current && settingsContext) {
+      speechCueServiceRef.current.updateSettings(settingsContext.settings.speech);
+    }
   }, [settingsContext?.settings]);
 
   // Timer 서비스 초기화
   useEffect(() => {
     const callbacks: TimerCallbacks = {
       onTick: (timeMs: number) => {
-        if (state.mode === 'timer') {
-          dispatch({ type: 'TICK', payload: { remainingTime: timeMs } });
-        } else {
+        eventBus.emit('tick', { mode: state.mode, timeMs });
+        if (state.mode === 'stopwatch') {
           dispatch({ type: 'TICK', payload: { elapsedTime: timeMs } });
+        } else {
+          dispatch({ type: 'TICK', payload: { remainingTime: timeMs } });
         }
       },
       onComplete: async () => {
-        // 완료 알림 실행 (타이머 모드에서만)
-        if (notificationServiceRef.current && state.mode === 'timer') {
+        // 완료 알림 실행 (스톱워치 제외)
+        if (notificationServiceRef.current && state.mode !== 'stopwatch') {
           await notificationServiceRef.current.notifyCompletion();
         }
 
         // 타이머 완료 처리 (반복 횟수 증가 포함)
         dispatch({ type: 'COMPLETE_TIMER' });
+        historyRef.current?.endSession({ ...sessionResultRef.current, overtime: null }, true);
+        eventBus.emit('completed', { mode: state.mode, overtime: null });
 
         // 스크린 리더 알림
-        announceTimerState(false, false, 0, state.repetitions);
+        announcersRef.current.announceTimerState(false, false, 0, stateRef.current.repetitions);
+
+        // 외부에서 시작한 카운트다운의 완료 핸들러 실행
+        const handler = completionHandlerRef.current;
+        completionHandlerRef.current = null;
+        handler?.();
+      },
+      onOvertime: async (overtimeMs: number) => {
+        dispatch({ type: 'OVERTIME_TICK', payload: { overtime: overtimeMs } });
+
+        // 0에 도달한 순간 한 번만 완료 알림 (정지할 때까지 초과 시간 카운트 계속)
+        if (!overtimeNotifiedRef.current) {
+          overtimeNotifiedRef.current = true;
+          announcersRef.current.announceOvertime(overtimeMs, false);
+          if (notificationServiceRef.current) {
+            await notificationServiceRef.current.notifyCompletion();
+          }
+        }
       },
       onCountdown: async (seconds: number) => {
-        // 카운트다운 알림 실행 (타이머 모드에서만)
-        if (notificationServiceRef.current && state.mode === 'timer') {
+        // 카운트다운 알림 실행 (타이머/EMOM/AMRAP 모드: 기본 알림, 인터벌 모드: 구간별 알림)
+        if (notificationServiceRef.current && state.mode !== 'interval' && state.mode !== 'stopwatch') {
           await notificationServiceRef.current.notifyCountdown();
+        } else if (notificationServiceRef.current && state.mode === 'interval') {
+          const current = timerRef.current?.getCurrentSegment();
+          await notificationServiceRef.current.notifyPhaseCountdown(current?.segment.phase ?? 'work');
         }
         console.log(`Countdown: ${seconds} seconds remaining`);
       },
+      onPhaseChange: async (segment) => {
+        const segmentMs = segment.duration * 1000;
+        dispatch({
+          type: 'PHASE_CHANGE',
+          payload: { phase: segment.phase, round: segment.round, remainingTime: segmentMs },
+        });
+        eventBus.emit('phase-changed', {
+          mode: state.mode,
+          phase: segment.phase,
+          round: segment.round,
+          totalRounds: totalRoundsRef.current,
+        });
+
+        if (state.mode === 'emom') {
+          // EMOM: 매 라운드(분) 시작 알림
+          announcersRef.current.announceRoundStart(segment.round, totalRoundsRef.current);
+          if (notificationServiceRef.current) {
+            await notificationServiceRef.current.notifyRoundStart();
+          }
+          return;
+        }
+
+        // 스크린 리더 알림
+        announcersRef.current.announcePhaseChange(segment.phase, segment.round, totalRoundsRef.current);
+
+        // 구간 시작 알림 (직전 구간 완료 알림 겸용)
+        if (notificationServiceRef.current) {
+          await notificationServiceRef.current.notifyPhaseStart(segment.phase);
+        }
+      },
     };
 
     timerRef.current = new Timer(callbacks);
@@ -296,52 +675,290 @@ export function TimerProvider({ children }: TimerProviderProps) {
         timerRef.current.destroy();
       }
     };
-  }, [state.mode]);
+  }, [state.mode, eventBus]);
+
+  // 복원한 세션을 (모드 변경으로 새로 만든) 타이머 서비스에서 이어서 실행
+  useEffect(() => {
+    if (!restoreRequest || !timerRef.current || state.mode !== restoreRequest.session.mode) {
+      return;
+    }
+    const { session, restored } = restoreRequest;
+    setRestoreRequest(null);
+
+    const schedule = getSessionSchedule(session);
+    sessionInfoRef.current = { startedAt: session.startedAt, overtime: session.overtime, addedTime: session.addedTime };
+    // 새로고침 전에 이미 0을 지났다면 완료 알림은 보낸 것으로 봄
+    overtimeNotifiedRef.current = session.overtime && session.elapsedTime > session.duration * 1000;
+
+    // 완료된 채로 복원되어도 기록되도록 타이머보다 먼저 기록 시작
+    const historyDuration = schedule.length > 0
+      ? getScheduleDuration(schedule)
+      : session.mode === 'stopwatch' ? 0 : session.duration;
+    // 새로고침 전의 일시정지 구간과 진행 중이던 일시정지를 이어받아 운동 시간에서 제외 (시작 시각을 모르면 저장 시각부터)
+    historyRef.current?.beginSession(session.mode, historyDuration, session.startedAt, {
+      pauses: session.pauses,
+      pausedAt: session.isPaused ? session.pausedAt ?? session.savedAt : null,
+    });
+
+    timerRef.current.restore(session.duration, session.mode, schedule, session.overtime, restored.elapsedTime, session.isPaused);
+    restoreCheckedRef.current = true;
+    if (session.isPaused) {
+      const timeMs = session.mode === 'stopwatch' ? restored.state.elapsedTime : restored.state.remainingTime;
+      eventBus.emit('paused', { mode: session.mode, timeMs });
+    } else {
+      eventBus.emit('started', { mode: session.mode, startedAt: session.startedAt, restored: true });
+    }
+  }, [state.mode, restoreRequest, eventBus]);
+
+  // 진행 중인 세션 저장 (새로고침/탭 종료 후 이어서 하기용, 시간은 벽시계 기준으로 다시 계산하므로 틱마다 저장하지 않음)
+  useEffect(() => {
+    const backgroundSync = backgroundSyncRef.current;
+    // 팔로워 탭은 리더 탭이 저장한 세션을 건드리지 않음
+    if (!backgroundSync || !restoreCheckedRef.current || tabSyncRef.current?.isLeader === false) {
+      return;
+    }
+
+    const sessionInfo = sessionInfoRef.current;
+    const isActive = (state.isRunning || state.isPaused) && state.preStartRemaining === null;
+    if (!isActive) {
+      backgroundSync.clearSession();
+      return;
+    }
+    // 리더 탭을 이어받은 직후처럼 이 탭에서 시작하지 않은 세션은 복원이 끝난 뒤 저장
+    if (!timerRef.current || !sessionInfo) {
+      return;
+    }
+
+    const pauseState = historyRef.current?.getPauseState();
+    backgroundSync.saveSession({
+      mode: state.mode,
+      duration: state.duration,
+      interval: state.interval,
+      emom: state.emom,
+      overtime: sessionInfo.overtime,
+      repetitions: state.repetitions,
+      laps: state.laps,
+      roundSplits: state.roundSplits,
+      isPaused: state.isPaused,
+      startedAt: sessionInfo.startedAt,
+      elapsedTime: timerRef.current.getElapsedTime(),
+      savedAt: Date.now(),
+      pauses: pauseState?.pauses ?? [],
+      pausedAt: pauseState?.pausedAt ?? null,
+      addedTime: sessionInfo.addedTime,
+    });
+  }, [state.mode, state.duration, state.interval, state.emom, state.isRunning, state.isPaused, state.preStartRemaining, state.repetitions, state.laps, state.roundSplits, state.addedTime, isLeaderTab]);
+
+  // 언마운트 시 준비 카운트다운 정리
+  useEffect(() => {
+    return () => {
+      preStartTimerRef.current?.destroy();
+      preStartTimerRef.current = null;
+    };
+  }, []);
+
+  /**
+   * 진행 중인 준비 카운트다운 취소
+   * @returns 취소할 카운트다운이 있었는지 여부
+   */
+  const cancelPreStart = useCallback((): boolean => {
+    if (!preStartTimerRef.current) {
+      return false;
+    }
+    preStartTimerRef.current.destroy();
+    preStartTimerRef.current = null;
+    return true;
+  }, []);
+
+  // 리더 탭의 상태를 팔로워 탭에 전달
+  useEffect(() => {
+    if (isLeaderTab) {
+      tabSyncRef.current?.broadcastState(state);
+    }
+  }, [state, isLeaderTab]);
+
+  // 리더 역할이 바뀌면 타이머 실행 주체 전환
+  useEffect(() => {
+    if (wasLeaderTabRef.current === isLeaderTab) {
+      return;
+    }
+    wasLeaderTabRef.current = isLeaderTab;
+
+    if (!isLeaderTab) {
+      // 다른 탭이 리더가 되면 이 탭의 타이머는 멈추고 리더 상태를 따라감
+      cancelPreStart();
+      timerRef.current?.reset();
+      return;
+    }
+
+    // 리더 탭이 닫히면 리더가 저장해 둔 세션을 이어서 실행
+    const current = stateRef.current;
+    // 닫힌 탭에서 재생하던 음성 카운트는 이 탭에서 이어갈 수 없으므로 종료
+    if (current.voiceCountActive) {
+      dispatch({ type: 'FINISH_VOICE_COUNT' });
+    }
+    if (current.isRunning || current.isPaused) {
+      const session = backgroundSyncRef.current?.loadSession();
+      if (session) {
+        restoreSession(session);
+      } else {
+        dispatch({ type: 'RESET_TIMER' });
+      }
+    }
+  }, [isLeaderTab, cancelPreStart, restoreSession]);
+
+  /**
+   * 팔로워 탭이면 명령을 리더 탭에 전달
+   * @returns 전달했는지 여부 (전달했으면 이 탭에서는 실행하지 않음)
+   */
+  const forwardToLeader = useCallback((command: TabSyncCommand): boolean => {
+    const tabSync = tabSyncRef.current;
+    if (!tabSync || tabSync.isLeader) {
+      return false;
+    }
+    tabSync.sendCommand(command);
+    return true;
+  }, []);
 
   // 타이머 액션 함수들 (메모화)
   const startTimer = useCallback(async () => {
+    if (forwardToLeader({ name: 'start' })) {
+      return;
+    }
     if (timerRef.current && !state.isRunning) {
       // 사용자 상호작용 후 알림 서비스 초기화
       if (notificationServiceRef.current && !notificationServiceRef.current.isReady()) {
         await notificationServiceRef.current.initializeAfterUserInteraction();
       }
 
+      const preStartSeconds = settingsContext?.settings.timer?.preStartCountdown ?? 0;
+      const overtimeEnabled = settingsContext?.settings.timer?.overtime ?? false;
+      if (!state.isPaused) {
+        overtimeNotifiedRef.current = false;
+      }
+
+      // 실제 운동 구간 시작 (준비 카운트다운이 있으면 끝난 뒤 호출)
+      const beginPeriod = () => {
+        if (!timerRef.current) return;
+        const startedAt = Date.now();
+        sessionInfoRef.current = { startedAt, overtime: overtimeEnabled, addedTime: [] };
+        if (state.mode === 'interval') {
+          // 인터벌 모드: 운동/휴식 구간 목록으로 시작
+          const schedule = buildIntervalSchedule(state.interval);
+          timerRef.current.start(0, 'interval', schedule);
+          historyRef.current?.beginSession('interval', getScheduleDuration(schedule));
+        } else if (state.mode === 'emom') {
+          // EMOM 모드: 같은 길이의 라운드를 쉬지 않고 연속 실행, 첫 라운드 시작 알림
+          const schedule = buildEmomSchedule(state.emom);
+          timerRef.current.start(0, 'emom', schedule);
+          historyRef.current?.beginSession('emom', getScheduleDuration(schedule));
+          notificationServiceRef.current?.notifyRoundStart();
+        } else {
+          // 새로 시작 (타이머 모드는 설정에 따라 0 이후 초과 시간 카운트)
+          timerRef.current.start(state.duration, state.mode, [], overtimeEnabled);
+          historyRef.current?.beginSession(state.mode, state.mode === 'stopwatch' ? 0 : state.duration);
+        }
+        eventBus.emit('started', { mode: state.mode, startedAt, restored: false });
+      };
+
       if (state.isPaused) {
-        // 일시정지 상태에서 재개
+        // 일시정지 상태에서 재개 (준비 카운트다운 없음)
         timerRef.current.resume();
+        historyRef.current?.resumeSession();
+        eventBus.emit('resumed', { mode: state.mode });
+      } else if (preStartSeconds > 0) {
+        // 준비 카운트다운: 별도 타이머로 진행 후 실제 구간 시작
+        let lastSecond: number | null = null;
+        cancelPreStart();
+        preStartTimerRef.current = new Timer({
+          onTick: (remainingMs: number) => {
+            dispatch({ type: 'PRE_START', payload: { remainingTime: remainingMs } });
+            const second = Math.ceil(remainingMs / 1000);
+            if (second > 0 && second !== lastSecond) {
+              lastSecond = second;
+              notificationServiceRef.current?.notifyPreStartTick();
+            }
+          },
+          onCountdown: () => {
+            // 준비 틱은 onTick에서 매 초 처리
+          },
+          onComplete: () => {
+            preStartTimerRef.current = null;
+            dispatch({ type: 'PRE_START_END' });
+            notificationServiceRef.current?.notifyPreStartEnd();
+            beginPeriod();
+          },
+        });
+        preStartTimerRef.current.start(preStartSeconds, 'timer');
+        announcePreStart(preStartSeconds);
       } else {
-        // 새로 시작
-        timerRef.current.start(state.duration, state.mode);
+        beginPeriod();
       }
       dispatch({ type: 'START_TIMER' });
 
-      // 스크린 리더 알림
-      const currentTime = state.mode === 'timer' ? state.remainingTime : state.elapsedTime;
-      announceTimerState(true, false, currentTime, state.repetitions);
+      // 스크린 리더 알림 (준비 카운트다운 중에는 준비 안내로 대신함)
+      if (state.isPaused || preStartSeconds <= 0) {
+        const currentTime = state.mode === 'stopwatch' ? state.elapsedTime : state.remainingTime;
+        announceTimerState(true, false, currentTime, state.repetitions);
+      }
     }
-  }, [state.isRunning, state.isPaused, state.duration, state.mode, state.remainingTime, state.elapsedTime, state.repetitions, announceTimerState]);
+  }, [state.isRunning, state.isPaused, state.duration, state.mode, state.interval, state.emom, state.remainingTime, state.elapsedTime, state.repetitions, settingsContext?.settings.timer, cancelPreStart, announceTimerState, announcePreStart, eventBus, forwardToLeader]);
 
   const pauseTimer = useCallback(() => {
+    if (forwardToLeader({ name: 'pause' })) {
+      return;
+    }
+    // 준비 카운트다운 중 일시정지하면 시작 자체를 취소
+    if (cancelPreStart()) {
+      dispatch({ type: 'RESET_TIMER' });
+      return;
+    }
+
+    // 초과 카운트 중 정지하면 초과 시간을 남기고 세션 완료
+    if (timerRef.current && state.isRunning && state.overtime !== null) {
+      const overtime = timerRef.current.getOvertime();
+      timerRef.current.reset();
+      dispatch({ type: 'COMPLETE_TIMER', payload: { overtime } });
+      historyRef.current?.endSession({ ...sessionResultRef.current, overtime }, true);
+      eventBus.emit('completed', { mode: state.mode, overtime });
+      announceOvertime(overtime, true);
+      return;
+    }
+
     if (timerRef.current && state.isRunning) {
       timerRef.current.pause();
       dispatch({ type: 'PAUSE_TIMER' });
+      historyRef.current?.pauseSession();
+      const currentTime = state.mode === 'stopwatch' ? state.elapsedTime : state.remainingTime;
+      eventBus.emit('paused', { mode: state.mode, timeMs: currentTime });
 
       // 스크린 리더 알림
-      const currentTime = state.mode === 'timer' ? state.remainingTime : state.elapsedTime;
       announceTimerState(false, true, currentTime, state.repetitions);
     }
-  }, [state.isRunning, state.mode, state.remainingTime, state.elapsedTime, state.repetitions, announceTimerState]);
+  }, [state.isRunning, state.overtime, state.mode, state.remainingTime, state.elapsedTime, state.repetitions, cancelPreStart, announceTimerState, announceOvertime, eventBus, forwardToLeader]);
 
   const resumeTimer = useCallback(() => {
+    if (forwardToLeader({ name: 'resume' })) {
+      return;
+    }
     if (timerRef.current && state.isPaused) {
       timerRef.current.resume();
       dispatch({ type: 'START_TIMER' });
+      historyRef.current?.resumeSession();
+      eventBus.emit('resumed', { mode: state.mode });
     }
-  }, [state.isPaused]);
+  }, [state.isPaused, state.mode, eventBus, forwardToLeader]);
 
   const resetTimer = useCallback(() => {
+    if (forwardToLeader({ name: 'reset' })) {
+      return;
+    }
     if (timerRef.current) {
+      cancelPreStart();
+      completionHandlerRef.current = null;
       timerRef.current.reset();
+      // 완료 전에 정지한 세션은 중단으로 기록
+      historyRef.current?.endSession(sessionResultRef.current, false);
       
       // 음성 카운트 중지
       if (voiceCountServiceRef.current && state.voiceCountActive) {
@@ -349,48 +966,145 @@ export function TimerProvider({ children }: TimerProviderProps) {
       }
       
       dispatch({ type: 'RESET_TIMER' });
+      eventBus.emit('stopped', { mode: state.mode });
 
       // 스크린 리더 알림 (카운터는 유지)
-      const resetTime = state.mode === 'timer' ? state.duration : 0;
+      const resetTime = state.mode === 'timer' || state.mode === 'amrap'
+        ? state.duration
+        : state.mode === 'interval' ? state.interval.workDuration
+        : state.mode === 'emom' ? state.emom.intervalDuration : 0;
       announceTimerState(false, false, resetTime, state.repetitions);
     }
-  }, [state.mode, state.duration, state.repetitions, state.voiceCountActive, announceTimerState]);
+  }, [state.mode, state.duration, state.interval.workDuration, state.emom.intervalDuration, state.repetitions, state.voiceCountActive, cancelPreStart, announceTimerState, eventBus, forwardToLeader]);
 
   const resetRepetitions = useCallback(() => {
+    if (forwardToLeader({ name: 'resetRepetitions' })) {
+      return;
+    }
     dispatch({ type: 'RESET_REPETITIONS' });
 
     // 스크린 리더 알림
     announceRepetitionChange(0, 'reset');
-  }, [announceRepetitionChange]);
+  }, [announceRepetitionChange, forwardToLeader]);
 
   const setDuration = useCallback((duration: number) => {
+    if (forwardToLeader({ name: 'setDuration', duration })) {
+      return;
+    }
     if (timerRef.current) {
       timerRef.current.reset();
+      completionHandlerRef.current = null;
+      historyRef.current?.endSession(sessionResultRef.current, false);
       dispatch({ type: 'SET_DURATION', payload: { duration } });
+      eventBus.emit('stopped', { mode: state.mode });
     }
-  }, []);
+  }, [state.mode, eventBus, forwardToLeader]);
+
+  const setIntervalConfig = useCallback((config: Partial<IntervalConfig>) => {
+    if (forwardToLeader({ name: 'setIntervalConfig', config })) {
+      return;
+    }
+    if (timerRef.current) {
+      timerRef.current.reset();
+      dispatch({ type: 'SET_INTERVAL_CONFIG', payload: config });
+      eventBus.emit('stopped', { mode: state.mode });
+    }
+  }, [state.mode, eventBus, forwardToLeader]);
+
+  const setEmomConfig = useCallback((config: Partial<EmomConfig>) => {
+    if (forwardToLeader({ name: 'setEmomConfig', config })) {
+      return;
+    }
+    if (timerRef.current) {
+      timerRef.current.reset();
+      dispatch({ type: 'SET_EMOM_CONFIG', payload: config });
+      eventBus.emit('stopped', { mode: state.mode });
+    }
+  }, [state.mode, eventBus, forwardToLeader]);
 
   const incrementRepetitions = useCallback(() => {
-    dispatch({ type: 'INCREMENT_REPETITIONS' });
+    if (forwardToLeader({ name: 'incrementRepetitions' })) {
+      return;
+    }
+    if (state.mode === 'amrap' && (state.isRunning || state.isPaused) && state.preStartRemaining === null && timerRef.current) {
+      // AMRAP 세션 중에는 탭마다 라운드 완료 시각을 기록
+      const elapsedTime = state.duration * 1000 - timerRef.current.getState().remainingTime;
+      dispatch({ type: 'RECORD_ROUND', payload: { elapsedTime, timestamp: Date.now() } });
+    } else {
+      dispatch({ type: 'INCREMENT_REPETITIONS' });
+    }
 
     // 스크린 리더 알림
     announceRepetitionChange(state.repetitions + 1, 'increase');
-  }, [state.repetitions, announceRepetitionChange]);
+  }, [state.mode, state.isRunning, state.isPaused, state.preStartRemaining, state.duration, state.repetitions, announceRepetitionChange, forwardToLeader]);
 
   const decrementRepetitions = useCallback(() => {
+    if (forwardToLeader({ name: 'decrementRepetitions' })) {
+      return;
+    }
     if (state.repetitions > 0) {
       dispatch({ type: 'DECREMENT_REPETITIONS' });
 
       // 스크린 리더 알림
       announceRepetitionChange(state.repetitions - 1, 'decrease');
     }
-  }, [state.repetitions, announceRepetitionChange]);
+  }, [state.repetitions, announceRepetitionChange, forwardToLeader]);
+
+  const clearAmrapSummary = useCallback(() => {
+    if (forwardToLeader({ name: 'clearAmrapSummary' })) {
+      return;
+    }
+    dispatch({ type: 'CLEAR_AMRAP_SUMMARY' });
+  }, [forwardToLeader]);
+
+  // 스톱워치 랩 기록 (실행 중일 때만)
+  const recordLap = useCallback(() => {
+    if (forwardToLeader({ name: 'recordLap' })) {
+      return;
+    }
+    if (state.mode === 'stopwatch' && state.isRunning && state.preStartRemaining === null && timerRef.current) {
+      dispatch({ type: 'LAP', payload: { elapsedTime: timerRef.current.getState().elapsedTime } });
+    }
+  }, [state.mode, state.isRunning, state.preStartRemaining, forwardToLeader]);
+
+  /**
+   * 타이머 모드에서 지정한 시간으로 즉시 카운트다운 시작 (준비 카운트다운/초과 카운트 없음)
+   * 운동 프로그램처럼 외부에서 단계별로 타이머를 진행할 때 사용
+   */
+  const startCountdown = useCallback(async (duration: number, onComplete?: () => void) => {
+    // 완료 핸들러는 다른 탭에 전달할 수 없으므로 운동 프로그램은 리더 탭에서만 진행
+    if (!timerRef.current || state.mode !== 'timer' || tabSyncRef.current?.isLeader === false) {
+      return;
+    }
+
+    // 사용자 상호작용 후 알림 서비스 초기화
+    if (notificationServiceRef.current && !notificationServiceRef.current.isReady()) {
+      await notificationServiceRef.current.initializeAfterUserInteraction();
+    }
+
+    cancelPreStart();
+    timerRef.current.reset();
+    historyRef.current?.endSession(sessionResultRef.current, false);
+    completionHandlerRef.current = onComplete ?? null;
+    const startedAt = Date.now();
+    sessionInfoRef.current = { startedAt, overtime: false, addedTime: [] };
+    dispatch({ type: 'SET_DURATION', payload: { duration } });
+    timerRef.current.start(duration, 'timer');
+    dispatch({ type: 'START_TIMER' });
+    eventBus.emit('started', { mode: 'timer', startedAt, restored: false });
+  }, [state.mode, cancelPreStart, eventBus]);
 
   // 모드 설정 함수
-  const setMode = useCallback((mode: 'timer' | 'stopwatch') => {
+  const setMode = useCallback((mode: TimerMode) => {
+    if (forwardToLeader({ name: 'setMode', mode })) {
+      return;
+    }
+    cancelPreStart();
+    completionHandlerRef.current = null;
     if (timerRef.current) {
       timerRef.current.reset();
     }
+    historyRef.current?.endSession(sessionResultRef.current, false);
     
     // 음성 카운트 중지
     if (voiceCountServiceRef.current && state.voiceCountActive) {
@@ -398,10 +1112,14 @@ export function TimerProvider({ children }: TimerProviderProps) {
     }
     
     dispatch({ type: 'SET_MODE', payload: { mode } });
-  }, [state.voiceCountActive]);
+    eventBus.emit('stopped', { mode });
+  }, [state.voiceCountActive, cancelPreStart, eventBus, forwardToLeader]);
 
-  // 음성 카운트 토글 함수
+  // 음성 카운트 토글 함수 (음성과 구간 시작음은 리더 탭에서만 재생)
   const toggleVoiceCount = useCallback(async () => {
+    if (forwardToLeader({ name: 'toggleVoiceCount' })) {
+      return;
+    }
     if (voiceCountServiceRef.current) {
       try {
         // 사용자 상호작용 후 초기화
@@ -412,6 +1130,10 @@ export function TimerProvider({ children }: TimerProviderProps) {
         if (state.voiceCountActive) {
           voiceCountServiceRef.current.stopVoiceCount();
         } else {
+          voiceCountServiceRef.current.configure(
+            settingsContext?.settings.voiceCount ?? DEFAULT_SETTINGS.voiceCount,
+            settingsContext?.settings.speech?.lang ?? DEFAULT_SETTINGS.speech.lang
+          );
           voiceCountServiceRef.current.startVoiceCount();
         }
       } catch (error) {
@@ -420,7 +1142,7 @@ export function TimerProvider({ children }: TimerProviderProps) {
       
       dispatch({ type: 'TOGGLE_VOICE_COUNT' });
     }
-  }, [state.voiceCountActive]);
+  }, [state.voiceCountActive, settingsContext?.settings, forwardToLeader]);
 
   // 알림 테스트 함수 (설정 화면에서 사용)
   const testNotification = useCallback(async (type: 'countdown' | 'completion') => {
@@ -429,6 +1151,145 @@ export function TimerProvider({ children }: TimerProviderProps) {
     }
   }, []);
 
+  /**
+   * 진행 중인 카운트다운에 시간 추가 (시스템 알림의 +30초 버튼)
+   * 저장되는 세션, 진행률 표시, AMRAP 라운드 기록, 음성 안내가 늘어난 시간을 기준으로 하도록 상태에도 반영
+   */
+  const addTime = useCallback((seconds: number) => {
+    if (!timerRef.current || !state.isRunning || !timerRef.current.addTime(seconds)) {
+      return;
+    }
+
+    // 인터벌/EMOM은 새로고침 후에도 늘어난 구간으로 복원되도록 구간별로 기록
+    const current = timerRef.current.getCurrentSegment();
+    const sessionInfo = sessionInfoRef.current;
+    if (current && sessionInfo) {
+      const previousMs = sessionInfo.addedTime.find(item => item.index === current.index)?.ms ?? 0;
+      sessionInfo.addedTime = [
+        ...sessionInfo.addedTime.filter(item => item.index !== current.index),
+        { index: current.index, ms: previousMs + seconds * 1000 },
+      ];
+    }
+    dispatch({ type: 'ADD_TIME', payload: { seconds } });
+    eventBus.emit('time-added', { mode: state.mode, seconds });
+  }, [state.isRunning, state.mode, eventBus]);
+
+  /**
+   * 현재 구간 건너뛰기 (인터벌/EMOM: 다음 구간, 타이머/AMRAP: 완료)
+   */
+  const skipPhase = useCallback(() => {
+    if (timerRef.current && state.isRunning && !state.isPaused) {
+      timerRef.current.skip();
+    }
+  }, [state.isRunning, state.isPaused]);
+
+  notificationActionRef.current = (action: SystemNotificationAction) => {
+    // 알림 버튼은 모든 탭에 전달되므로 타이머를 실행하는 리더 탭만 처리
+    if (tabSyncRef.current?.isLeader === false) {
+      return;
+    }
+    switch (action) {
+      case 'pause':
+        pauseTimer();
+        break;
+      case 'add-30':
+        addTime(30);
+        break;
+      case 'skip':
+        skipPhase();
+        break;
+    }
+  };
+
+  mediaControlRef.current = (control: MediaSessionControl) => {
+    switch (control) {
+      case 'play':
+        startTimer(); // 일시정지 중이면 재개
+        break;
+      case 'pause':
+        pauseTimer();
+        break;
+      case 'nexttrack':
+        skipPhase();
+        break;
+      case 'previoustrack':
+        resetTimer();
+        break;
+    }
+  };
+
+  // 음성 카운트로 목표 반복을 마치면 반복 횟수 1 증가
+  voiceCountCompleteRef.current = () => {
+    dispatch({ type: 'FINISH_VOICE_COUNT' });
+    incrementRepetitions();
+  };
+
+  const speakCue = useCallback((cue: SpeechCue) => {
+    speechCueServiceRef.current?.cue(cue);
+  }, []);
+
+  tabCommandRef.current = (command: TabSyncCommand) => {
+    switch (command.name) {
+      case 'start':
+        startTimer();
+        break;
+      case 'pause':
+        pauseTimer();
+        break;
+      case 'resume':
+        resumeTimer();
+        break;
+      case 'reset':
+        resetTimer();
+        break;
+      case 'setMode':
+        setMode(command.mode);
+        break;
+      case 'setDuration':
+        setDuration(command.duration);
+        break;
+      case 'setIntervalConfig':
+        setIntervalConfig(command.config);
+        break;
+      case 'setEmomConfig':
+        setEmomConfig(command.config);
+        break;
+      case 'incrementRepetitions':
+        incrementRepetitions();
+        break;
+      case 'decrementRepetitions':
+        decrementRepetitions();
+        break;
+      case 'resetRepetitions':
+        resetRepetitions();
+        break;
+      case 'recordLap':
+        recordLap();
+        break;
+      case 'toggleVoiceCount':
+        toggleVoiceCount();
+        break;
+      case 'clearAmrapSummary':
+        clearAmrapSummary();
+        break;
+    }
+  };
+
+  // 오래된 이전 세션 이어서 하기
+  const continueSavedSession = useCallback(() => {
+    if (pendingResume) {
+      setPendingResume(null);
+      restoreSession(pendingResume);
+    }
+  }, [pendingResume, restoreSession]);
+
+  // 오래된 이전 세션 버리고 새로 시작
+  const discardSavedSession = useCallback(() => {
+    setPendingResume(null);
+    backgroundSyncRef.current?.clearSession();
+    restoreCheckedRef.current = true;
+  }, []);
+
   const contextValue: TimerContextType = useMemo(() => ({
     state,
     dispatch,
@@ -439,12 +1300,23 @@ export function TimerProvider({ children }: TimerProviderProps) {
     resetTimer,
     resetRepetitions,
     setDuration,
+    setIntervalConfig,
+    setEmomConfig,
+    clearAmrapSummary,
+    recordLap,
+    startCountdown,
     incrementRepetitions,
     decrementRepetitions,
     toggleVoiceCount,
     notificationService: notificationServiceRef.current!,
     voiceCountService: voiceCountServiceRef.current!,
     testNotification,
+    speakCue,
+    events: eventBus,
+    pendingResume,
+    continueSavedSession,
+    discardSavedSession,
+    isLeaderTab,
   }), [
     state,
     dispatch,
@@ -455,10 +1327,21 @@ export function TimerProvider({ children }: TimerProviderProps) {
     resetTimer,
     resetRepetitions,
     setDuration,
+    setIntervalConfig,
+    setEmomConfig,
+    clearAmrapSummary,
+    recordLap,
+    startCountdown,
     incrementRepetitions,
     decrementRepetitions,
     toggleVoiceCount,
-    testNotification
+    testNotification,
+    speakCue,
+    eventBus,
+    pendingResume,
+    continueSavedSession,
+    discardSavedSession,
+    isLeaderTab
   ]);
 
   return (
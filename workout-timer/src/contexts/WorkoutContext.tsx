@@ -0,0 +1,276 @@
+// Workout Context - 종목/세트/휴식으로 구성된 운동 프로그램 상태 관리 및 타이머 단계 진행
+import { createContext, useReducer, useRef, useEffect, useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import type { WorkoutState, WorkoutAction, WorkoutExercise, WorkoutProgram, WorkoutStep } from '../types';
+import { DEFAULT_WORKOUT_EXERCISE, STORAGE_KEYS } from '../types';
+import { StorageService } from '../services/StorageService';
+import { useTimer } from '../hooks/useTimer';
+import { useScreenReader } from '../hooks/useScreenReader';
+import { buildWorkoutSteps, formatWorkoutStep, generateId } from '../utils';
+
+interface WorkoutContextType {
+  state: WorkoutState;
+  steps: WorkoutStep[];
+  currentStep: WorkoutStep | null;
+  addExercise: (name: string, options?: Partial<Omit<WorkoutExercise, 'id' | 'name'>>) => void;
+  updateExercise: (id: string, updates: Partial<Omit<WorkoutExercise, 'id'>>) => void;
+  removeExercise: (id: string) => void;
+  moveExercise: (id: string, direction: -1 | 1) => void;
+  startWorkout: () => void;
+  canStart: boolean; // 이 탭에서 시작할 수 있는지 (다른 탭이 타이머를 실행 중이면 false)
+  completeSet: () => void;
+  skipStep: () => void;
+  stopWorkout: () => void;
+}
+
+export const WorkoutContext = createContext<WorkoutContextType | undefined>(undefined);
+
+const initialState: WorkoutState = {
+  program: { name: '내 운동', exercises: [] },
+  status: 'idle',
+  stepIndex: 0,
+};
+
+/**
+ * 저장된 프로그램으로 초기 상태 구성 (저장된 값이 없거나 읽기 실패 시 빈 프로그램)
+ */
+function loadInitialState(state: WorkoutState): WorkoutState {
+  const savedProgram = StorageService.getItem<WorkoutProgram>(STORAGE_KEYS.WORKOUT_PROGRAM);
+  if (savedProgram && Array.isArray(savedProgram.exercises)) {
+    return { ...state, program: savedProgram };
+  }
+  return state;
+}
+
+function workoutReducer(state: WorkoutState, action: WorkoutAction): WorkoutState {
+  switch (action.type) {
+    case 'SET_PROGRAM':
+      return {
+        ...state,
+        program: action.payload,
+        status: 'idle',
+        stepIndex: 0,
+      };
+
+    case 'ADD_EXERCISE':
+      return {
+        ...state,
+        program: {
+          ...state.program,
+          exercises: [...state.program.exercises, action.payload],
+        },
+      };
+
+    case 'UPDATE_EXERCISE':
+      return {
+        ...state,
+        program: {
+          ...state.program,
+          exercises: state.program.exercises.map(exercise =>
+            exercise.id === action.payload.id ? { ...exercise, ...action.payload.updates } : exercise
+          ),
+        },
+      };
+
+    case 'REMOVE_EXERCISE':
+      return {
+        ...state,
+        program: {
+          ...state.program,
+          exercises: state.program.exercises.filter(exercise => exercise.id !== action.payload.id),
+        },
+      };
+
+    case 'MOVE_EXERCISE': {
+      const exercises = [...state.program.exercises];
+      const index = exercises.findIndex(exercise => exercise.id === action.payload.id);
+      const target = index + action.payload.direction;
+      if (index < 0 || target < 0 || target >= exercises.length) {
+        return state;
+      }
+      [exercises[index], exercises[target]] = [exercises[target], exercises[index]];
+      return {
+        ...state,
+        program: { ...state.program, exercises },
+      };
+    }
+
+    case 'START_WORKOUT':
+      // 종목이 없으면 시작하지 않음
+      if (state.program.exercises.length === 0) {
+        return state;
+      }
+      return {
+        ...state,
+        status: 'active',
+        stepIndex: 0,
+      };
+
+    case 'NEXT_STEP': {
+      if (state.status !== 'active') {
+        return state;
+      }
+      const nextIndex = state.stepIndex + 1;
+      // 마지막 단계를 마치면 운동 완료
+      if (nextIndex >= buildWorkoutSteps(state.program).length) {
+        return {
+          ...state,
+          status: 'completed',
+          stepIndex: 0,
+        };
+      }
+      return {
+        ...state,
+        stepIndex: nextIndex,
+      };
+    }
+
+    case 'STOP_WORKOUT':
+      return {
+        ...state,
+        status: 'idle',
+        stepIndex: 0,
+      };
+
+    default:
+      return state;
+  }
+}
+
+interface WorkoutProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * 운동 프로그램 Provider - TimerProvider 안에 두어야 합니다
+ * 시간이 있는 단계(휴식, 시간 세트)는 타이머 모드 카운트다운으로 진행하고, 끝나면 자동으로 다음 단계로 넘어갑니다.
+ */
+export function WorkoutProvider({ children }: WorkoutProviderProps) {
+  const [state, dispatch] = useReducer(workoutReducer, initialState, loadInitialState);
+  const { state: timerState, setMode, startCountdown, resetTimer, resetRepetitions, speakCue, isLeaderTab } = useTimer();
+  const { announce } = useScreenReader();
+  // 타이머 진행을 이미 시작한 단계 인덱스 (같은 단계를 중복 시작하지 않도록)
+  const startedStepRef = useRef<number | null>(null);
+
+  const steps = useMemo(() => buildWorkoutSteps(state.program), [state.program]);
+  const currentStep = state.status === 'active' ? steps[state.stepIndex] ?? null : null;
+
+  // 프로그램 변경 시 저장
+  useEffect(() => {
+    try {
+      StorageService.setItem(STORAGE_KEYS.WORKOUT_PROGRAM, state.program);
+    } catch (error) {
+      console.error('Failed to save workout program:', error);
+    }
+  }, [state.program]);
+
+  // 현재 단계에 맞춰 타이머 진행
+  useEffect(() => {
+    if (state.status !== 'active' || !currentStep) {
+      startedStepRef.current = null;
+      return;
+    }
+    if (startedStepRef.current === state.stepIndex) {
+      return;
+    }
+
+    if (currentStep.duration > 0) {
+      // 타이머 모드로 전환된 뒤 다음 렌더에서 카운트다운 시작
+      if (timerState.mode !== 'timer') {
+        setMode('timer');
+        return;
+      }
+      startedStepRef.current = state.stepIndex;
+      startCountdown(currentStep.duration, () => dispatch({ type: 'NEXT_STEP' }));
+    } else {
+      // 반복 횟수 세트: 카운터를 비우고 사용자가 세트 완료를 누를 때까지 대기
+      startedStepRef.current = state.stepIndex;
+    }
+
+    if (currentStep.kind === 'set') {
+      resetRepetitions();
+    }
+    announce(formatWorkoutStep(currentStep));
+    // 휴식 단계의 종목은 휴식 뒤에 이어질 종목
+    speakCue({ type: 'exercise', name: currentStep.exerciseName, upcoming: currentStep.kind === 'rest' });
+  }, [state.status, state.stepIndex, currentStep, timerState.mode, setMode, startCountdown, resetRepetitions, announce, speakCue]);
+
+  // 운동 완료 알림
+  useEffect(() => {
+    if (state.status === 'completed') {
+      announce('운동 완료');
+    }
+  }, [state.status, announce]);
+
+  const addExercise = useCallback((name: string, options: Partial<Omit<WorkoutExercise, 'id' | 'name'>> = {}) => {
+    dispatch({
+      type: 'ADD_EXERCISE',
+      payload: { ...DEFAULT_WORKOUT_EXERCISE, ...options, id: generateId(), name: name.trim() },
+    });
+  }, []);
+
+  const updateExercise = useCallback((id: string, updates: Partial<Omit<WorkoutExercise, 'id'>>) => {
+    dispatch({ type: 'UPDATE_EXERCISE', payload: { id, updates } });
+  }, []);
+
+  const removeExercise = useCallback((id: string) => {
+    dispatch({ type: 'REMOVE_EXERCISE', payload: { id } });
+  }, []);
+
+  const moveExercise = useCallback((id: string, direction: -1 | 1) => {
+    dispatch({ type: 'MOVE_EXERCISE', payload: { id, direction } });
+  }, []);
+
+  // 단계 완료 처리를 다른 탭에 전달할 수 없으므로 타이머를 실행하는 탭에서만 시작
+  const startWorkout = useCallback(() => {
+    if (isLeaderTab) {
+      dispatch({ type: 'START_WORKOUT' });
+    }
+  }, [isLeaderTab]);
+
+  // 반복 횟수 세트 완료 (시간 단계는 타이머 완료 시 자동 진행)
+  const completeSet = useCallback(() => {
+    if (currentStep?.kind === 'set' && currentStep.duration === 0) {
+      dispatch({ type: 'NEXT_STEP' });
+    }
+  }, [currentStep]);
+
+  // 현재 단계 건너뛰기 (진행 중인 카운트다운은 취소)
+  const skipStep = useCallback(() => {
+    if (state.status !== 'active') {
+      return;
+    }
+    if (currentStep && currentStep.duration > 0) {
+      resetTimer();
+    }
+    dispatch({ type: 'NEXT_STEP' });
+  }, [state.status, currentStep, resetTimer]);
+
+  const stopWorkout = useCallback(() => {
+    if (state.status === 'active' && currentStep && currentStep.duration > 0) {
+      resetTimer();
+    }
+    dispatch({ type: 'STOP_WORKOUT' });
+  }, [state.status, currentStep, resetTimer]);
+
+  const contextValue: WorkoutContextType = useMemo(() => ({
+    state,
+    steps,
+    currentStep,
+    addExercise,
+    updateExercise,
+    removeExercise,
+    moveExercise,
+    startWorkout,
+    canStart: isLeaderTab,
+    completeSet,
+    skipStep,
+    stopWorkout,
+  }), [state, steps, currentStep, addExercise, updateExercise, removeExercise, moveExercise, startWorkout, isLeaderTab, completeSet, skipStep, stopWorkout]);
+
+  return (
+    <WorkoutContext.Provider value={contextValue}>
+      {children}
+    </WorkoutContext.Provider>
+  );
+}
@@ -5,15 +5,16 @@ import { useSettings } from '../../hooks/useSettings';
 import { DEFAULT_SETTINGS, STORAGE_KEYS } from '../../types';
 import { StorageService } from '../../services/StorageService';
 
-// Mock StorageService
-vi.mock('../../services/StorageService', () => ({
-  StorageService: {
-    getItem: vi.fn(),
-    setItem: vi.fn(),
-    removeItem: vi.fn(),
-    clear: vi.fn()
+// Mock StorageService (localStorage 접근만 모킹하고 설정 마이그레이션은 실제 구현 사용)
+vi.mock('../../services/StorageService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/StorageService')>();
+  class MockStorageService extends actual.StorageService {
+    static getItem = vi.fn();
+    static setItem = vi.fn();
+    static removeItem = vi.fn();
   }
-}));
+  return { StorageService: MockStorageService };
+});
 
 // Test component that uses the settings context
 function TestComponent() {
@@ -200,11 +201,14 @@ describe('SettingsContext', () => {
     expect(screen.getByTestId('sound-enabled')).toHaveTextContent('false');
     expect(mockStorageService.setItem).toHaveBeenCalledWith(
       STORAGE_KEYS.SETTINGS,
-      expect.objectContaining({
-        sound: expect.objectContaining({
-          enabled: false
+      {
+        version: StorageService.SETTINGS_VERSION,
+        settings: expect.objectContaining({
+          sound: expect.objectContaining({
+            enabled: false
+          })
         })
-      })
+      }
     );
   });
 
@@ -224,11 +228,14 @@ describe('SettingsContext', () => {
     expect(screen.getByTestId('vibration-enabled')).toHaveTextContent('false');
     expect(mockStorageService.setItem).toHaveBeenCalledWith(
       STORAGE_KEYS.SETTINGS,
-      expect.objectContaining({
-        vibration: expect.objectContaining({
-          enabled: false
+      {
+        version: StorageService.SETTINGS_VERSION,
+        settings: expect.objectContaining({
+          vibration: expect.objectContaining({
+            enabled: false
+          })
         })
-      })
+      }
     );
   });
 
@@ -248,11 +255,14 @@ describe('SettingsContext', () => {
     expect(screen.getByTestId('theme')).toHaveTextContent('dark');
     expect(mockStorageService.setItem).toHaveBeenCalledWith(
       STORAGE_KEYS.SETTINGS,
-      expect.objectContaining({
-        ui: expect.objectContaining({
-          theme: 'dark'
+      {
+        version: StorageService.SETTINGS_VERSION,
+        settings: expect.objectContaining({
+          ui: expect.objectContaining({
+            theme: 'dark'
+          })
         })
-      })
+      }
     );
   });
 
@@ -273,14 +283,17 @@ describe('SettingsContext', () => {
     expect(screen.getByTestId('keep-screen-on')).toHaveTextContent('true');
     expect(mockStorageService.setItem).toHaveBeenCalledWith(
       STORAGE_KEYS.SETTINGS,
-      expect.objectContaining({
-        sound: expect.objectContaining({
-          countdownSound: 'chime'
-        }),
-        ui: expect.objectContaining({
-          keepScreenOn: true
+      {
+        version: StorageService.SETTINGS_VERSION,
+        settings: expect.objectContaining({
+          sound: expect.objectContaining({
+            countdownSound: 'chime'
+          }),
+          ui: expect.objectContaining({
+            keepScreenOn: true
+          })
         })
-      })
+      }
     );
   });
 
@@ -330,7 +343,10 @@ describe('SettingsContext', () => {
 
     expect(mockStorageService.setItem).toHaveBeenCalledWith(
       STORAGE_KEYS.SETTINGS,
-      DEFAULT_SETTINGS
+      {
+        version: StorageService.SETTINGS_VERSION,
+        settings: DEFAULT_SETTINGS
+      }
     );
   });
 
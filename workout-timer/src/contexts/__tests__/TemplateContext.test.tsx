@@ -1,8 +1,9 @@
-import { render, screen, act, waitFor } from '@testing-library/react';
+import { render, renderHook, screen, act, waitFor } from '@testing-library/react';
 import { useContext } from 'react';
 import { vi } from 'vitest';
 import { TemplateProvider, TemplateContext } from '../TemplateContext';
 import { StorageService } from '../../services/StorageService';
+import type { ReactNode } from 'react';
 import type { Template } from '../../types';
 
 // Mock StorageService
@@ -344,4 +345,79 @@ describe('TemplateContext', () => {
       expect(screen.getByTestId('error')).toHaveTextContent('템플릿을 불러오는데 실패했습니다.');
     });
   });
+  describe('ordering and persistence', () => {
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <TemplateProvider>{children}</TemplateProvider>
+    );
+
+    it('should keep saved order and add missing default templates first', () => {
+      mockStorageService.loadTemplates = vi.fn().mockReturnValue([
+        mockCustomTemplates[0],
+        { id: 'default-3m', name: '3분', duration: 180, isDefault: true, createdAt: new Date(0) }
+      ]);
+
+      const { result } = renderHook(() => useContext(TemplateContext), { wrapper });
+
+      expect(result.current?.state.templates.map(template => template.id)).toEqual([
+        'default-30s',
+        'default-1m',
+        'custom-1',
+        'default-3m'
+      ]);
+      expect(mockStorageService.saveTemplates).not.toHaveBeenCalled();
+    });
+
+    it('should move templates and save the new order', () => {
+      mockStorageService.loadTemplates = vi.fn().mockReturnValue(mockCustomTemplates);
+
+      const { result } = renderHook(() => useContext(TemplateContext), { wrapper });
+
+      act(() => {
+        result.current?.moveTemplate('custom-1', -1);
+      });
+
+      const ids = result.current?.state.templates.map(template => template.id);
+      expect(ids).toEqual(['default-30s', 'default-1m', 'custom-1', 'default-3m', 'custom-2']);
+      expect(mockStorageService.saveTemplates).toHaveBeenLastCalledWith(result.current?.state.templates);
+    });
+
+    it('should update and delete custom templates', () => {
+      mockStorageService.loadTemplates = vi.fn().mockReturnValue(mockCustomTemplates);
+
+      const { result } = renderHook(() => useContext(TemplateContext), { wrapper });
+
+      act(() => {
+        expect(result.current?.updateTemplate('custom-1', { name: '  Plank ', duration: 45 })).toBe(true);
+      });
+
+      expect(result.current?.state.templates.find(template => template.id === 'custom-1')).toMatchObject({
+        name: 'Plank',
+        duration: 45
+      });
+
+      act(() => {
+        expect(result.current?.updateTemplate('custom-2', { name: 'Plank' })).toBe(false);
+      });
+
+      expect(result.current?.state.error).toBe('이미 존재하는 템플릿 이름입니다.');
+
+      act(() => {
+        expect(result.current?.deleteTemplate('custom-2')).toBe(true);
+      });
+
+      expect(result.current?.state.templates).toHaveLength(4);
+      expect(result.current?.state.error).toBeNull();
+    });
+
+    it('should reject durations outside the supported range', () => {
+      const { result } = renderHook(() => useContext(TemplateContext), { wrapper });
+
+      act(() => {
+        expect(result.current?.addTemplate('Too long', 36000)).toBe(false);
+      });
+
+      expect(result.current?.state.error).toBe('시간은 1초 이상 9시간 59분 59초 이하로 설정해주세요.');
+      expect(result.current?.state.templates).toHaveLength(3);
+    });
+  });
 });
\ No newline at end of file
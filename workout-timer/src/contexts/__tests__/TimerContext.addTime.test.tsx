@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, screen } from '@testing-library/react';
+import { TimerProvider, TimerContext } from '../TimerContext';
+import TimerDisplay from '../../components/TimerDisplay/TimerDisplay';
+import { useContext } from 'react';
+import type { ReactNode } from 'react';
+import type { SystemNotificationAction } from '../../services/SystemNotificationService';
+import type { SavedTimerSession } from '../../types';
+
+const mockTimer = vi.hoisted(() => ({
+  start: vi.fn(),
+  pause: vi.fn(),
+  resume: vi.fn(),
+  reset: vi.fn(),
+  restore: vi.fn(),
+  destroy: vi.fn(),
+  addTime: vi.fn(() => true),
+  getElapsedTime: vi.fn(() => 0),
+  getOvertime: vi.fn(() => 0),
+  getCurrentSegment: vi.fn((): { segment: { phase: 'work'; round: number; duration: number }; index: number } | null => null),
+  getState: vi.fn(() => ({ remainingTime: 0, isRunning: false, isPaused: false })),
+}));
+
+// 시스템 알림 버튼 동작을 테스트에서 직접 실행
+const notification = vi.hoisted(() => ({
+  onAction: null as ((action: SystemNotificationAction) => void) | null,
+}));
+
+vi.mock('../../services/Timer', () => ({
+  Timer: vi.fn(() => mockTimer),
+}));
+
+vi.mock('../../services/SystemNotificationService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/SystemNotificationService')>()),
+  SystemNotificationService: vi.fn((onAction: (action: SystemNotificationAction) => void) => {
+    notification.onAction = onAction;
+    return { connect: vi.fn(() => () => {}), destroy: vi.fn() };
+  }),
+}));
+
+// 진행률 원은 전달받은 진행률만 표시
+vi.mock('../../components/CircularProgress/CircularProgress', () => ({
+  default: ({ progress }: { progress: number }) => <div data-testid="progress" data-progress={progress.toFixed(1)} />,
+}));
+
+const STORAGE_KEY = 'workout-timer-background-state';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <TimerProvider>
+    <TimerDisplay />
+    {children}
+  </TimerProvider>
+);
+
+const loadSavedSession = (): SavedTimerSession => JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+
+describe('TimerContext - Add Time', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('extends an AMRAP session everywhere the duration is used', async () => {
+    const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+    act(() => {
+      result.current!.setMode('amrap');
+    });
+    await act(async () => {
+      await result.current!.startTimer();
+    });
+
+    // 20초 경과 후 +30초 (타이머 서비스는 늘어난 남은 시간으로 틱)
+    act(() => {
+      notification.onAction?.('add-30');
+      result.current!.dispatch({ type: 'TICK', payload: { remainingTime: 70_000 } });
+    });
+
+    expect(mockTimer.addTime).toHaveBeenCalledWith(30);
+    expect(result.current!.state.duration).toBe(90);
+    expect(loadSavedSession().duration).toBe(90);
+    expect(screen.getByTestId('progress')).toHaveAttribute('data-progress', '22.2');
+
+    // 25초에 첫 라운드 완료
+    mockTimer.getState.mockReturnValue({ remainingTime: 65_000, isRunning: true, isPaused: false });
+    act(() => {
+      result.current!.incrementRepetitions();
+    });
+
+    expect(result.current!.state.roundSplits[0]).toMatchObject({ round: 1, elapsedTime: 25_000, splitTime: 25_000 });
+  });
+
+  it('keeps the time added to an interval phase for the display and the saved session', async () => {
+    const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+    act(() => {
+      result.current!.setMode('interval');
+    });
+    await act(async () => {
+      await result.current!.startTimer();
+    });
+
+    // 기본 20초 운동 구간에서 10초 경과 후 +30초
+    mockTimer.getCurrentSegment.mockReturnValue({ segment: { phase: 'work', round: 1, duration: 50 }, index: 0 });
+    act(() => {
+      notification.onAction?.('add-30');
+      result.current!.dispatch({ type: 'TICK', payload: { remainingTime: 40_000 } });
+    });
+
+    expect(result.current!.state.addedTime).toBe(30_000);
+    expect(result.current!.state.interval.workDuration).toBe(20);
+    expect(screen.getByTestId('progress')).toHaveAttribute('data-progress', '20.0');
+    expect(loadSavedSession().addedTime).toEqual([{ index: 0, ms: 30_000 }]);
+
+    // 다음 구간으로 넘어가면 구간 길이는 설정대로
+    act(() => {
+      result.current!.dispatch({ type: 'PHASE_CHANGE', payload: { phase: 'rest', round: 1, remainingTime: 10_000 } });
+    });
+
+    expect(result.current!.state.addedTime).toBe(0);
+    expect(loadSavedSession().addedTime).toEqual([{ index: 0, ms: 30_000 }]);
+  });
+
+  it('does not change the state when the timer cannot add time', async () => {
+    mockTimer.addTime.mockReturnValueOnce(false);
+    const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+    await act(async () => {
+      await result.current!.startTimer();
+    });
+
+    act(() => {
+      notification.onAction?.('add-30');
+    });
+
+    expect(result.current!.state.duration).toBe(60);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { TimerProvider, TimerContext } from '../TimerContext';
+import { HistoryProvider } from '../HistoryContext';
+import { useContext } from 'react';
+import type { ReactNode } from 'react';
+import { DEFAULT_EMOM_CONFIG, DEFAULT_INTERVAL_CONFIG } from '../../types';
+import type { SavedTimerSession } from '../../types';
+
+const mockTimer = vi.hoisted(() => ({
+  start: vi.fn(),
+  pause: vi.fn(),
+  resume: vi.fn(),
+  reset: vi.fn(),
+  restore: vi.fn(),
+  destroy: vi.fn(),
+  getElapsedTime: vi.fn(() => 0),
+  getOvertime: vi.fn(() => 0),
+  getCurrentSegment: vi.fn(() => null),
+  getState: vi.fn(() => ({ remainingTime: 0, isRunning: false, isPaused: false })),
+}));
+
+// IndexedDB 대신 저장한 기록만 보관하는 DB 모킹
+const mockDB = vi.hoisted(() => ({
+  saveSession: vi.fn().mockResolvedValue(undefined),
+  getSessions: vi.fn().mockResolvedValue([]),
+  destroy: vi.fn(),
+}));
+
+vi.mock('../../services/Timer', () => ({
+  Timer: vi.fn(() => mockTimer),
+}));
+
+vi.mock('../../services/IndexedDBService', () => ({
+  IndexedDBService: vi.fn(() => mockDB),
+}));
+
+vi.mock('../../services/NotificationService', () => ({
+  NotificationService: vi.fn().mockImplementation(() => ({
+    updateSettings: vi.fn(),
+    notifyCompletion: vi.fn(),
+    notifyCountdown: vi.fn(),
+    destroy: vi.fn(),
+    isReady: vi.fn().mockReturnValue(true),
+    initializeAfterUserInteraction: vi.fn(),
+    getAudioService: vi.fn(() => null),
+  })),
+}));
+
+const NOW = 1_700_000_000_000;
+const STORAGE_KEY = 'workout-timer-background-state';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <HistoryProvider>
+    <TimerProvider>{children}</TimerProvider>
+  </HistoryProvider>
+);
+
+describe('TimerContext - Session History', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('stores the overtime when an overtime run is stopped', async () => {
+    const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+
+    await act(async () => {
+      await result.current!.startTimer();
+    });
+    act(() => {
+      result.current!.dispatch({ type: 'OVERTIME_TICK', payload: { overtime: 14_000 } });
+    });
+
+    vi.setSystemTime(NOW + 75_000);
+    mockTimer.getOvertime.mockReturnValue(15_000);
+    act(() => {
+      result.current!.pauseTimer();
+    });
+
+    await waitFor(() => expect(mockDB.saveSession).toHaveBeenCalledTimes(1));
+    expect(mockDB.saveSession.mock.calls[0][0]).toMatchObject({
+      mode: 'timer',
+      duration: 60,
+      elapsedTime: 75_000,
+      overtime: 15_000,
+      completed: true,
+    });
+    expect(result.current!.state.overtime).toBe(15_000);
+  });
+
+  it('keeps pauses from before a reload in the saved record', async () => {
+    // 10초 일시정지 후 다시 운동하다 20초 전에 일시정지한 채로 새로고침
+    const saved: SavedTimerSession = {
+      mode: 'timer',
+      duration: 300,
+      interval: DEFAULT_INTERVAL_CONFIG,
+      emom: DEFAULT_EMOM_CONFIG,
+      overtime: false,
+      repetitions: 0,
+      laps: [],
+      roundSplits: [],
+      isPaused: true,
+      startedAt: NOW - 100_000,
+      elapsedTime: 70_000,
+      savedAt: NOW - 20_000,
+      pauses: [{ startedAt: NOW - 50_000, endedAt: NOW - 40_000 }],
+      pausedAt: NOW - 20_000,
+      addedTime: [],
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+
+    const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+    await waitFor(() => expect(mockTimer.restore).toHaveBeenCalledWith(300, 'timer', [], false, 70_000, true));
+
+    act(() => {
+      result.current!.resumeTimer();
+    });
+    // 다시 새로고침해도 이어지도록 일시정지 기록을 함께 저장
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toMatchObject({
+      pauses: [
+        { startedAt: NOW - 50_000, endedAt: NOW - 40_000 },
+        { startedAt: NOW - 20_000, endedAt: NOW },
+      ],
+      pausedAt: null,
+    });
+    vi.setSystemTime(NOW + 5_000);
+    act(() => {
+      result.current!.resetTimer();
+    });
+
+    await waitFor(() => expect(mockDB.saveSession).toHaveBeenCalledTimes(1));
+    expect(mockDB.saveSession.mock.calls[0][0]).toMatchObject({
+      startedAt: NOW - 100_000,
+      elapsedTime: 75_000,
+      pauses: [
+        { startedAt: NOW - 50_000, endedAt: NOW - 40_000 },
+        { startedAt: NOW - 20_000, endedAt: NOW },
+      ],
+      completed: false,
+    });
+  });
+});
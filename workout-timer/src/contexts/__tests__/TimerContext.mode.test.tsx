@@ -13,6 +13,7 @@ vi.mock('../../services/Timer', () => ({
     resume: vi.fn(),
     reset: vi.fn(),
     destroy: vi.fn(),
+    getElapsedTime: vi.fn(() => 0),
     running: false,
     paused: false,
   })),
@@ -27,12 +28,15 @@ vi.mock('../../services/NotificationService', () => ({
     destroy: vi.fn(),
     isReady: vi.fn().mockReturnValue(true),
     initializeAfterUserInteraction: vi.fn(),
+    getAudioService: vi.fn(() => null),
   })),
 }));
 
 vi.mock('../../services/BackgroundSyncService', () => ({
   BackgroundSyncService: vi.fn().mockImplementation(() => ({
-    destroy: vi.fn(),
+    loadSession: vi.fn().mockReturnValue(null),
+    saveSession: vi.fn(),
+    clearSession: vi.fn(),
   })),
 }));
 
@@ -40,6 +44,7 @@ vi.mock('../../services/WakeLockService', () => ({
   WakeLockService: vi.fn().mockImplementation(() => ({
     setupVisibilityHandler: vi.fn(),
     handleTimerStateChange: vi.fn(),
+    connect: vi.fn(() => vi.fn()),
     destroy: vi.fn(),
   })),
 }));
@@ -243,6 +248,184 @@ describe('TimerContext - Mode Selection', () => {
       expect(result.current?.state.elapsedTime).toBe(0);
       expect(result.current?.state.duration).toBe(300); // Duration still updated for when switching back
     });
+
+    it('should use one EMOM round as remaining time', () => {
+      const { result } = renderHook(
+        () => useContext(TimerContext),
+        { wrapper }
+      );
+
+      act(() => {
+        result.current?.setMode('emom');
+      });
+
+      expect(result.current?.state.remainingTime).toBe(60000);
+
+      act(() => {
+        result.current?.setEmomConfig({ intervalDuration: 45, rounds: 12 });
+      });
+
+      expect(result.current?.state.emom).toEqual({ intervalDuration: 45, rounds: 12, repBehavior: 'reset' });
+      expect(result.current?.state.remainingTime).toBe(45000);
+    });
+
+    it('should reset or bump repetitions at each EMOM round boundary', () => {
+      const { result } = renderHook(
+        () => useContext(TimerContext),
+        { wrapper }
+      );
+      const nextRound = (round: number) => act(() => {
+        result.current?.dispatch({
+          type: 'PHASE_CHANGE',
+          payload: { phase: 'work', round, remainingTime: 60000 },
+        });
+      });
+
+      act(() => {
+        result.current?.setMode('emom');
+        result.current?.incrementRepetitions();
+        result.current?.incrementRepetitions();
+      });
+
+      nextRound(2);
+      expect(result.current?.state.currentRound).toBe(2);
+      expect(result.current?.state.repetitions).toBe(0);
+
+      act(() => {
+        result.current?.setEmomConfig({ repBehavior: 'increment' });
+      });
+
+      nextRound(2);
+      expect(result.current?.state.repetitions).toBe(1);
+    });
+
+    it('should record AMRAP round splits and summarize them on completion', () => {
+      const { result } = renderHook(
+        () => useContext(TimerContext),
+        { wrapper }
+      );
+      const recordRound = (elapsedTime: number) => act(() => {
+        result.current?.dispatch({ type: 'RECORD_ROUND', payload: { elapsedTime, timestamp: 1_000 + elapsedTime } });
+      });
+
+      act(() => {
+        result.current?.setMode('amrap');
+        result.current?.setDuration(600);
+      });
+
+      recordRound(90000);
+      recordRound(170000);
+      recordRound(171000); // 잘못 탭한 라운드
+
+      act(() => {
+        result.current?.decrementRepetitions();
+      });
+
+      expect(result.current?.state.repetitions).toBe(2);
+      expect(result.current?.state.roundSplits.map(split => split.splitTime)).toEqual([90000, 80000]);
+
+      act(() => {
+        result.current?.dispatch({ type: 'COMPLETE_TIMER' });
+      });
+
+      expect(result.current?.state.amrapSummary).toEqual({
+        duration: 600,
+        totalRounds: 2,
+        splits: result.current?.state.roundSplits,
+      });
+
+      act(() => {
+        result.current?.clearAmrapSummary();
+      });
+
+      expect(result.current?.state.amrapSummary).toBeNull();
+    });
+
+    it('should record stopwatch laps and clear them on reset', () => {
+      const { result } = renderHook(
+        () => useContext(TimerContext),
+        { wrapper }
+      );
+
+      act(() => {
+        result.current?.setMode('stopwatch');
+      });
+
+      act(() => {
+        result.current?.dispatch({ type: 'LAP', payload: { elapsedTime: 62000 } });
+        result.current?.dispatch({ type: 'LAP', payload: { elapsedTime: 120500 } });
+      });
+
+      expect(result.current?.state.laps).toEqual([
+        { number: 1, lapTime: 62000, totalTime: 62000 },
+        { number: 2, lapTime: 58500, totalTime: 120500 },
+      ]);
+
+      act(() => {
+        result.current?.resetTimer();
+      });
+
+      expect(result.current?.state.laps).toEqual([]);
+    });
+
+    it('should keep the overtime amount in the completion event', () => {
+      const { result } = renderHook(
+        () => useContext(TimerContext),
+        { wrapper }
+      );
+
+      act(() => {
+        result.current?.dispatch({ type: 'START_TIMER' });
+        result.current?.dispatch({ type: 'OVERTIME_TICK', payload: { overtime: 12000 } });
+      });
+
+      expect(result.current?.state.remainingTime).toBe(0);
+      expect(result.current?.state.overtime).toBe(12000);
+
+      act(() => {
+        result.current?.dispatch({ type: 'COMPLETE_TIMER', payload: { overtime: 17000 } });
+      });
+
+      expect(result.current?.state.isRunning).toBe(false);
+      expect(result.current?.state.remainingTime).toBe(60000);
+      expect(result.current?.state.overtime).toBe(17000);
+
+      act(() => {
+        result.current?.dispatch({ type: 'START_TIMER' });
+      });
+
+      expect(result.current?.state.overtime).toBeNull();
+    });
+
+    it('should track and clear the get-ready countdown', () => {
+      const { result } = renderHook(
+        () => useContext(TimerContext),
+        { wrapper }
+      );
+
+      expect(result.current?.state.preStartRemaining).toBeNull();
+
+      act(() => {
+        result.current?.dispatch({ type: 'PRE_START', payload: { remainingTime: 2400 } });
+      });
+
+      expect(result.current?.state.preStartRemaining).toBe(2400);
+
+      act(() => {
+        result.current?.dispatch({ type: 'PRE_START_END' });
+      });
+
+      expect(result.current?.state.preStartRemaining).toBeNull();
+
+      act(() => {
+        result.current?.dispatch({ type: 'PRE_START', payload: { remainingTime: 1000 } });
+      });
+      act(() => {
+        result.current?.resetTimer();
+      });
+
+      expect(result.current?.state.preStartRemaining).toBeNull();
+    });
   });
 
   describe('mode switching edge cases', () => {
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { TimerProvider, TimerContext } from '../TimerContext';
+import { useContext } from 'react';
+import type { ReactNode } from 'react';
+import { DEFAULT_EMOM_CONFIG, DEFAULT_INTERVAL_CONFIG } from '../../types';
+import type { SavedTimerSession } from '../../types';
+
+const mockTimer = vi.hoisted(() => ({
+  start: vi.fn(),
+  pause: vi.fn(),
+  resume: vi.fn(),
+  reset: vi.fn(),
+  restore: vi.fn(),
+  destroy: vi.fn(),
+  getElapsedTime: vi.fn(() => 0),
+  getState: vi.fn(() => ({ remainingTime: 0, isRunning: false, isPaused: false })),
+  running: false,
+  paused: false,
+}));
+
+// Mock the Timer service
+vi.mock('../../services/Timer', () => ({
+  Timer: vi.fn(() => mockTimer),
+}));
+
+const STORAGE_KEY = 'workout-timer-background-state';
+const NOW = 1_700_000_000_000;
+
+const saveSession = (overrides: Partial<SavedTimerSession> = {}) => {
+  const session: SavedTimerSession = {
+    mode: 'timer',
+    duration: 300,
+    interval: DEFAULT_INTERVAL_CONFIG,
+    emom: DEFAULT_EMOM_CONFIG,
+    overtime: false,
+    repetitions: 7,
+    laps: [],
+    roundSplits: [],
+    isPaused: false,
+    startedAt: NOW - 70_000,
+    elapsedTime: 60_000,
+    savedAt: NOW - 10_000,
+    pauses: [],
+    pausedAt: null,
+    addedTime: [],
+    ...overrides,
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <TimerProvider>{children}</TimerProvider>
+);
+
+describe('TimerContext - Session Resume', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('restores a recent session without asking', () => {
+    saveSession();
+
+    const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+
+    expect(result.current!.pendingResume).toBeNull();
+    expect(result.current!.state.isRunning).toBe(true);
+    expect(result.current!.state.remainingTime).toBe(230_000);
+    expect(result.current!.state.repetitions).toBe(7);
+    // 초가 아닌 밀리초 경과 시간으로 한 번만 복원
+    expect(mockTimer.restore).toHaveBeenCalledTimes(1);
+    expect(mockTimer.restore).toHaveBeenCalledWith(300, 'timer', [], false, 70_000, false);
+  });
+
+  it('asks before resuming a session older than the configured limit', () => {
+    saveSession({ startedAt: NOW - 31 * 60_000 });
+
+    const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+
+    expect(result.current!.pendingResume).toEqual(expect.objectContaining({ repetitions: 7 }));
+    expect(mockTimer.restore).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current!.continueSavedSession();
+    });
+
+    expect(result.current!.pendingResume).toBeNull();
+    expect(mockTimer.restore).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the saved session when discarded', () => {
+    saveSession({ startedAt: NOW - 31 * 60_000 });
+
+    const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+
+    act(() => {
+      result.current!.discardSavedSession();
+    });
+
+    expect(result.current!.pendingResume).toBeNull();
+    expect(result.current!.state.isRunning).toBe(false);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(mockTimer.restore).not.toHaveBeenCalled();
+  });
+});
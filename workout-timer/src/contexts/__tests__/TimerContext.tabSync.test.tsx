@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { TimerProvider, TimerContext } from '../TimerContext';
+import { VoiceCountService } from '../../services/VoiceCountService';
+import { useContext } from 'react';
+import type { ReactNode } from 'react';
+
+// 같은 프로세스 안의 탭들을 잇는 메모리 BroadcastChannel
+class FakeBroadcastChannel {
+  static channels = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  readonly name: string;
+
+  constructor(name: string) {
+    this.name = name;
+    FakeBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels.forEach(channel => {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data: structuredClone(data) });
+      }
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.channels.delete(this);
+  }
+}
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <TimerProvider>{children}</TimerProvider>
+);
+
+/**
+ * 탭 하나 열기 (각 탭은 독립된 TimerProvider)
+ */
+const openTab = () => renderHook(() => useContext(TimerContext)!, { wrapper });
+
+describe('TimerContext - Tab Sync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('runs the timer only in the leader tab and mirrors it in the follower', async () => {
+    const leader = openTab();
+    const follower = openTab();
+
+    // 팔로워 탭의 시작 버튼은 리더 탭의 타이머를 시작
+    await act(async () => {
+      await follower.result.current.startTimer();
+    });
+    expect(leader.result.current.state.isRunning).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+    expect(leader.result.current.state.remainingTime).toBe(55_000);
+    expect(follower.result.current.state).toEqual(leader.result.current.state);
+
+    act(() => {
+      follower.result.current.pauseTimer();
+    });
+    expect(leader.result.current.state.isPaused).toBe(true);
+    expect(follower.result.current.state.isPaused).toBe(true);
+
+    // 음성 카운트도 리더 탭에서만 재생
+    const startVoiceCount = vi.spyOn(VoiceCountService.prototype, 'startVoiceCount').mockImplementation(() => {});
+    await act(async () => {
+      await follower.result.current.toggleVoiceCount();
+    });
+    expect(startVoiceCount).toHaveBeenCalledTimes(1);
+    expect(leader.result.current.state.voiceCountActive).toBe(true);
+    expect(follower.result.current.state.voiceCountActive).toBe(true);
+
+    // AMRAP 결과 닫기도 리더 탭 상태에 반영
+    act(() => {
+      leader.result.current.dispatch({ type: 'SET_MODE', payload: { mode: 'amrap' } });
+      leader.result.current.dispatch({ type: 'START_TIMER' });
+      leader.result.current.dispatch({ type: 'COMPLETE_TIMER' });
+    });
+    expect(follower.result.current.state.amrapSummary).not.toBeNull();
+    act(() => {
+      follower.result.current.clearAmrapSummary();
+    });
+    expect(leader.result.current.state.amrapSummary).toBeNull();
+    expect(follower.result.current.state.amrapSummary).toBeNull();
+
+    leader.unmount();
+    follower.unmount();
+  });
+
+  it('hands the running timer over when the leader tab closes', async () => {
+    const leader = openTab();
+    const follower = openTab();
+
+    await act(async () => {
+      await leader.result.current.startTimer();
+    });
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+
+    leader.unmount();
+
+    // 팔로워가 리더가 되어 같은 세션을 이어서 실행
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+    expect(follower.result.current.state.isRunning).toBe(true);
+    expect(follower.result.current.state.remainingTime).toBe(45_000);
+
+    act(() => {
+      follower.result.current.pauseTimer();
+    });
+    expect(follower.result.current.state.isPaused).toBe(true);
+
+    follower.unmount();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, renderHook, act } from '@testing-library/react';
 import { TimerProvider, TimerContext } from '../TimerContext';
+import { Timer } from '../../services/Timer';
 import { useContext } from 'react';
 import type { ReactNode } from 'react';
 
@@ -12,6 +13,8 @@ vi.mock('../../services/Timer', () => {
     resume: vi.fn(),
     reset: vi.fn(),
     destroy: vi.fn(),
+    getElapsedTime: vi.fn(() => 0),
+    getOvertime: vi.fn(() => 9000),
     getState: vi.fn(() => ({ remainingTime: 60, isRunning: false, isPaused: false })),
     running: false,
     paused: false,
@@ -92,6 +95,55 @@ describe('TimerContext', () => {
       expect(result.current!.state.isPaused).toBe(true);
     });
 
+    it('should publish lifecycle events to the event bus', async () => {
+      const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+      const events: string[] = [];
+      (['started', 'paused', 'resumed', 'stopped'] as const).forEach(type => {
+        result.current!.events.on(type, () => events.push(type));
+      });
+
+      await act(async () => {
+        await result.current!.startTimer();
+      });
+      act(() => {
+        result.current!.pauseTimer();
+      });
+      act(() => {
+        result.current!.resumeTimer();
+      });
+      act(() => {
+        result.current!.resetTimer();
+      });
+
+      expect(events).toEqual(['started', 'paused', 'resumed', 'stopped']);
+      expect(result.current!.events.getSnapshot().status).toBe('idle');
+    });
+
+    it('should include the overtime in the completion event', async () => {
+      const { result } = renderHook(() => useContext(TimerContext), { wrapper });
+      const onCompleted = vi.fn();
+      result.current!.events.on('completed', onCompleted);
+
+      await act(async () => {
+        await result.current!.startTimer();
+      });
+      await act(async () => {
+        await vi.mocked(Timer).mock.calls.at(-1)![0].onComplete();
+      });
+      expect(onCompleted).toHaveBeenLastCalledWith({ mode: 'timer', overtime: null });
+
+      await act(async () => {
+        await result.current!.startTimer();
+      });
+      act(() => {
+        result.current!.dispatch({ type: 'OVERTIME_TICK', payload: { overtime: 8000 } });
+      });
+      act(() => {
+        result.current!.pauseTimer();
+      });
+      expect(onCompleted).toHaveBeenLastCalledWith({ mode: 'timer', overtime: 9000 });
+    });
+
     it('should resume paused timer', () => {
       const { result } = renderHook(() => useContext(TimerContext), { wrapper });
 
@@ -1,12 +1,14 @@
-import { renderHook, act } from '@testing-library/react';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TimerProvider, TimerContext } from '../TimerContext';
 import { SettingsProvider } from '../SettingsContext';
+import { VoiceCountService } from '../../services/VoiceCountService';
 import { useContext } from 'react';
 import type { ReactNode } from 'react';
 
 // Mock services with proper implementations
 const mockVoiceCountService = {
+  configure: vi.fn(),
   startVoiceCount: vi.fn(),
   stopVoiceCount: vi.fn(),
   destroy: vi.fn(),
@@ -25,6 +27,7 @@ vi.mock('../../services/Timer', () => ({
     resume: vi.fn(),
     reset: vi.fn(),
     destroy: vi.fn(),
+    getElapsedTime: vi.fn(() => 0),
     running: false,
     paused: false,
   })),
@@ -39,12 +42,15 @@ vi.mock('../../services/NotificationService', () => ({
     destroy: vi.fn(),
     isReady: vi.fn().mockReturnValue(true),
     initializeAfterUserInteraction: vi.fn(),
+    getAudioService: vi.fn(() => null),
   })),
 }));
 
 vi.mock('../../services/BackgroundSyncService', () => ({
   BackgroundSyncService: vi.fn().mockImplementation(() => ({
-    destroy: vi.fn(),
+    loadSession: vi.fn().mockReturnValue(null),
+    saveSession: vi.fn(),
+    clearSession: vi.fn(),
   })),
 }));
 
@@ -52,6 +58,7 @@ vi.mock('../../services/WakeLockService', () => ({
   WakeLockService: vi.fn().mockImplementation(() => ({
     setupVisibilityHandler: vi.fn(),
     handleTimerStateChange: vi.fn(),
+    connect: vi.fn(() => vi.fn()),
     destroy: vi.fn(),
   })),
 }));
@@ -315,6 +322,34 @@ describe('TimerContext - Voice Count Integration', () => {
     });
   });
 
+  describe('tempo rep counter', () => {
+    it('should update the count live and bump repetitions when the set finishes', async () => {
+      const { result } = renderHook(
+        () => useContext(TimerContext),
+        { wrapper }
+      );
+
+      // 동적 임포트로 생성된 서비스의 반복/세트 완료 콜백
+      await waitFor(() => expect(VoiceCountService).toHaveBeenCalled());
+      const [onCount, onComplete] = vi.mocked(VoiceCountService).mock.calls.at(-1) as [() => void, () => void];
+
+      act(() => {
+        result.current?.dispatch({ type: 'TOGGLE_VOICE_COUNT' });
+        onCount();
+        onCount();
+      });
+      expect(result.current?.state.voiceCountNumber).toBe(2);
+
+      act(() => {
+        onComplete();
+      });
+
+      expect(result.current?.state.voiceCountActive).toBe(false);
+      expect(result.current?.state.voiceCountNumber).toBe(2);
+      expect(result.current?.state.repetitions).toBe(1);
+    });
+  });
+
   describe('voice count service integration', () => {
     it('should provide voice count service in context', () => {
       const { result } = renderHook(
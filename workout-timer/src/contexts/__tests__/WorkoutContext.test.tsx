@@ -0,0 +1,204 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ReactNode } from 'react';
+import { WorkoutProvider } from '../WorkoutContext';
+import { useWorkout } from '../../hooks/useWorkout';
+import { STORAGE_KEYS } from '../../types';
+
+// 타이머 컨텍스트 모킹 - 카운트다운 완료 콜백을 직접 호출해 단계 진행 확인
+const mockTimer = vi.hoisted(() => ({
+  state: { mode: 'timer' as string },
+  setMode: vi.fn(),
+  startCountdown: vi.fn(),
+  resetTimer: vi.fn(),
+  resetRepetitions: vi.fn(),
+  speakCue: vi.fn(),
+  isLeaderTab: true,
+}));
+
+const mockAnnounce = vi.hoisted(() => vi.fn());
+
+vi.mock('../../hooks/useTimer', () => ({
+  useTimer: () => mockTimer,
+}));
+
+vi.mock('../../hooks/useScreenReader', () => ({
+  useScreenReader: () => ({ announce: mockAnnounce }),
+}));
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <WorkoutProvider>{children}</WorkoutProvider>
+);
+
+// 마지막 startCountdown 호출의 완료 콜백 실행
+const completeCountdown = () => {
+  const calls = mockTimer.startCountdown.mock.calls;
+  const onComplete = calls[calls.length - 1][1] as () => void;
+  act(() => {
+    onComplete();
+  });
+};
+
+describe('WorkoutContext', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    mockTimer.state = { mode: 'timer' };
+    mockTimer.isLeaderTab = true;
+  });
+
+  it('throws when used outside of WorkoutProvider', () => {
+    expect(() => renderHook(() => useWorkout())).toThrow('useWorkout must be used within a WorkoutProvider');
+  });
+
+  it('adds, updates, moves and removes exercises', () => {
+    const { result } = renderHook(() => useWorkout(), { wrapper });
+
+    act(() => {
+      result.current.addExercise('Squat', { sets: 5 });
+      result.current.addExercise('Lunge');
+    });
+
+    const [squat, lunge] = result.current.state.program.exercises;
+    expect(squat).toMatchObject({ name: 'Squat', sets: 5, target: 'reps', reps: 10, restDuration: 60 });
+
+    act(() => {
+      result.current.updateExercise(squat.id, { restDuration: 90 });
+      result.current.moveExercise(lunge.id, -1);
+    });
+
+    expect(result.current.state.program.exercises.map(exercise => exercise.name)).toEqual(['Lunge', 'Squat']);
+    expect(result.current.state.program.exercises[1].restDuration).toBe(90);
+
+    act(() => {
+      result.current.removeExercise(lunge.id);
+    });
+
+    expect(result.current.state.program.exercises.map(exercise => exercise.name)).toEqual(['Squat']);
+  });
+
+  it('persists the program and restores it on mount', () => {
+    const { result, unmount } = renderHook(() => useWorkout(), { wrapper });
+
+    act(() => {
+      result.current.addExercise('Squat');
+    });
+    unmount();
+
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.WORKOUT_PROGRAM)!).exercises).toHaveLength(1);
+
+    const { result: restored } = renderHook(() => useWorkout(), { wrapper });
+    expect(restored.current.state.program.exercises[0].name).toBe('Squat');
+  });
+
+  it('does not start an empty program', () => {
+    const { result } = renderHook(() => useWorkout(), { wrapper });
+
+    act(() => {
+      result.current.startWorkout();
+    });
+
+    expect(result.current.state.status).toBe('idle');
+  });
+
+  it('does not start in a tab that follows the leader tab', () => {
+    mockTimer.isLeaderTab = false;
+    const { result } = renderHook(() => useWorkout(), { wrapper });
+
+    act(() => {
+      result.current.addExercise('Squat');
+    });
+    act(() => {
+      result.current.startWorkout();
+    });
+
+    expect(result.current.canStart).toBe(false);
+    expect(result.current.state.status).toBe('idle');
+    expect(mockTimer.startCountdown).not.toHaveBeenCalled();
+  });
+
+  it('waits for a reps set and auto-advances from rest to the next set', () => {
+    const { result } = renderHook(() => useWorkout(), { wrapper });
+
+    act(() => {
+      result.current.addExercise('Squat', { sets: 2, reps: 8, restDuration: 90 });
+    });
+    act(() => {
+      result.current.startWorkout();
+    });
+
+    // 반복 세트는 타이머 없이 대기
+    expect(result.current.currentStep).toMatchObject({ kind: 'set', set: 1 });
+    expect(mockTimer.startCountdown).not.toHaveBeenCalled();
+    expect(mockTimer.resetRepetitions).toHaveBeenCalled();
+    expect(mockAnnounce).toHaveBeenCalledWith('Squat – Set 1/2 – 8 reps');
+    expect(mockTimer.speakCue).toHaveBeenCalledWith({ type: 'exercise', name: 'Squat', upcoming: false });
+
+    act(() => {
+      result.current.completeSet();
+    });
+
+    // 휴식은 타이머 카운트다운으로 진행
+    expect(result.current.currentStep).toMatchObject({ kind: 'rest', set: 2 });
+    expect(mockTimer.startCountdown).toHaveBeenCalledTimes(1);
+    expect(mockTimer.startCountdown).toHaveBeenCalledWith(90, expect.any(Function));
+    expect(mockAnnounce).toHaveBeenCalledWith('Squat – Set 2/2 – Rest 1:30');
+    // 휴식 중에는 이어질 종목 안내
+    expect(mockTimer.speakCue).toHaveBeenLastCalledWith({ type: 'exercise', name: 'Squat', upcoming: true });
+
+    completeCountdown();
+
+    expect(result.current.currentStep).toMatchObject({ kind: 'set', set: 2 });
+
+    act(() => {
+      result.current.completeSet();
+    });
+
+    expect(result.current.state.status).toBe('completed');
+    expect(mockAnnounce).toHaveBeenCalledWith('운동 완료');
+  });
+
+  it('switches to timer mode before starting a timed step', () => {
+    mockTimer.state = { mode: 'stopwatch' };
+    const { result } = renderHook(() => useWorkout(), { wrapper });
+
+    act(() => {
+      result.current.addExercise('Plank', { sets: 1, target: 'time', duration: 45 });
+    });
+    act(() => {
+      result.current.startWorkout();
+    });
+
+    expect(mockTimer.setMode).toHaveBeenCalledWith('timer');
+    expect(mockTimer.startCountdown).not.toHaveBeenCalled();
+  });
+
+  it('skips and stops a timed step by resetting the timer', () => {
+    const { result } = renderHook(() => useWorkout(), { wrapper });
+
+    act(() => {
+      result.current.addExercise('Plank', { sets: 3, target: 'time', duration: 45, restDuration: 0 });
+    });
+    act(() => {
+      result.current.startWorkout();
+    });
+
+    expect(mockTimer.startCountdown).toHaveBeenCalledWith(45, expect.any(Function));
+
+    act(() => {
+      result.current.skipStep();
+    });
+
+    expect(mockTimer.resetTimer).toHaveBeenCalledTimes(1);
+    expect(result.current.currentStep).toMatchObject({ set: 2 });
+    expect(mockTimer.startCountdown).toHaveBeenCalledTimes(2);
+
+    act(() => {
+      result.current.stopWorkout();
+    });
+
+    expect(mockTimer.resetTimer).toHaveBeenCalledTimes(2);
+    expect(result.current.state.status).toBe('idle');
+    expect(result.current.currentStep).toBeNull();
+  });
+});
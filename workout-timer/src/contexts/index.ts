@@ -2,4 +2,8 @@
 
 export { TimerProvider } from './TimerContext';
 export { SettingsProvider } from './SettingsContext';
+export { TemplateProvider } from './TemplateContext';
+export { WorkoutProvider } from './WorkoutContext';
+export { HistoryProvider } from './HistoryContext';
+export { MetronomeProvider } from './MetronomeContext';
 export { PWAProvider, usePWA } from './PWAContext';
\ No newline at end of file
@@ -74,6 +74,32 @@ describe('useSettings', () => {
       ui: {
         theme: 'light',
         keepScreenOn: false
+      },
+      timer: {
+        preStartCountdown: 0,
+        overtime: false,
+        resumePromptMinutes: 30
+      },
+      speech: {
+        enabled: false,
+        lang: 'ko-KR',
+        voiceURI: '',
+        rate: 1,
+        timeLeftCue: true,
+        halfwayCue: true,
+        phaseCue: true,
+        roundCue: true,
+        exerciseCue: true
+      },
+      voiceCount: {
+        targetReps: 10,
+        tempo: [3, 1, 2, 0]
+      },
+      metronome: {
+        bpm: 120,
+        accentEvery: 4,
+        subdivision: 1,
+        followTimer: false
       }
     });
   });
@@ -25,7 +25,7 @@ describe('useTemplate', () => {
         state: expect.objectContaining({
           templates: expect.any(Array),
           isLoading: expect.any(Boolean),
-          error: expect.any(String)
+          error: null
         }),
         addTemplate: expect.any(Function),
         updateTemplate: expect.any(Function),
@@ -12,6 +12,7 @@ vi.mock('../../services/Timer', () => {
     resume: vi.fn(),
     reset: vi.fn(),
     destroy: vi.fn(),
+    getElapsedTime: vi.fn(() => 0),
     getState: vi.fn(() => ({ remainingTime: 60, isRunning: false, isPaused: false })),
     running: false,
     paused: false,
@@ -1,6 +1,12 @@
 // Custom Hooks exports
 export { useTimer } from './useTimer';
+export { useTimerSnapshot } from './useTimerSnapshot';
+export { useWorkout } from './useWorkout';
+export { useTemplate } from './useTemplate';
+export { useHistory } from './useHistory';
+export { useMetronome } from './useMetronome';
 
 export { useSettings } from './useSettings';
+export { useCustomSounds } from './useCustomSounds';
 export { useKeyboardNavigation } from './useKeyboardNavigation';
 export { useScreenReader } from './useScreenReader';
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { CustomSound, SoundType } from '../types';
+import { CustomSoundService } from '../services/CustomSoundService';
+import { AudioNotificationService } from '../services/AudioNotificationService';
+import { isCustomSoundId } from '../utils';
+
+/**
+ * 사용자 지정 알림음 목록 관리 (가져오기, 미리 듣기, 삭제)
+ * DB 연결과 미리 듣기용 AudioContext는 처음 필요할 때 만들고 언마운트 시 정리합니다.
+ */
+export function useCustomSounds() {
+  const [sounds, setSounds] = useState<CustomSound[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const serviceRef = useRef<CustomSoundService | null>(null);
+  const audioRef = useRef<AudioNotificationService | null>(null);
+
+  const getService = useCallback(() => {
+    serviceRef.current ??= new CustomSoundService();
+    return serviceRef.current;
+  }, []);
+
+  const getAudio = useCallback(() => {
+    audioRef.current ??= new AudioNotificationService();
+    return audioRef.current;
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getService().getSounds()
+      .then(saved => {
+        if (!cancelled) {
+          setSounds(saved);
+        }
+      })
+      .catch(err => console.error('Failed to load custom sounds:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getService]);
+
+  useEffect(() => {
+    return () => {
+      serviceRef.current?.destroy();
+      serviceRef.current = null;
+      audioRef.current?.destroy();
+      audioRef.current = null;
+    };
+  }, []);
+
+  /**
+   * 오디오 파일 가져오기 (실패하면 오류 메시지를 남기고 null 반환)
+   */
+  const importSound = useCallback(async (file: File): Promise<CustomSound | null> => {
+    setError(null);
+    setIsImporting(true);
+    try {
+      const sound = await getService().importFile(file, data => getAudio().decodeSound(data));
+      setSounds(prev => [...prev, sound]);
+      return sound;
+    } catch (err) {
+      console.error('Failed to import custom sound:', err);
+      setError(err instanceof Error ? err.message : '알림음을 추가하지 못했습니다.');
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  }, [getService, getAudio]);
+
+  const deleteSound = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      await getService().deleteSound(id);
+      audioRef.current?.removeCustomSound(id);
+      setSounds(prev => prev.filter(sound => sound.id !== id));
+    } catch (err) {
+      console.error('Failed to delete custom sound:', err);
+      setError('알림음을 삭제하지 못했습니다.');
+    }
+  }, [getService]);
+
+  /**
+   * 알림음 미리 듣기 (기본 알림음과 사용자 지정 알림음 모두)
+   */
+  const previewSound = useCallback(async (id: SoundType) => {
+    const audio = getAudio();
+    try {
+      await audio.initializeAfterUserInteraction();
+      const sound = isCustomSoundId(id) ? sounds.find(item => item.id === id) : undefined;
+      if (sound && !audio.hasSound(sound.id)) {
+        await audio.addCustomSound(sound);
+      }
+      await audio.playSoundType(id);
+    } catch (err) {
+      console.error('Failed to preview sound:', err);
+    }
+  }, [getAudio, sounds]);
+
+  return {
+    sounds,
+    error,
+    isImporting,
+    importSound,
+    deleteSound,
+    previewSound,
+  };
+}
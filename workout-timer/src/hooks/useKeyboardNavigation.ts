@@ -1,5 +1,6 @@
 import { useEffect, useCallback } from 'react';
 import { useTimer } from './useTimer';
+import { useTemplate } from './useTemplate';
 
 interface KeyboardNavigationOptions {
   enableSpacebarToggle?: boolean;
@@ -24,7 +25,9 @@ export const useKeyboardNavigation = (options: KeyboardNavigationOptions = {}) =
     resetTimer,
     incrementRepetitions,
     decrementRepetitions,
+    recordLap,
   } = useTimer();
+  const { state: templateState, selectTemplate } = useTemplate();
 
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     // 모달이나 입력 필드가 활성화된 경우 단축키 비활성화
@@ -65,7 +68,16 @@ export const useKeyboardNavigation = (options: KeyboardNavigationOptions = {}) =
       }
     }
 
-    // 숫자 키 단축키: 템플릿 기능 제거로 비활성화
+    // 숫자 키 1-9로 목록 순서의 템플릿 선택 (실행 중에는 무시)
+    if (enableNumberKeys && !state.isRunning) {
+      const match = /^(?:Digit|Numpad)([1-9])$/.exec(event.code);
+      const template = match ? templateState.templates[Number(match[1]) - 1] : undefined;
+      if (template) {
+        event.preventDefault();
+        selectTemplate(template);
+        return;
+      }
+    }
 
     // R 키로 리셋
     if (event.code === 'KeyR' && !state.isRunning) {
@@ -74,6 +86,13 @@ export const useKeyboardNavigation = (options: KeyboardNavigationOptions = {}) =
       return;
     }
 
+    // L 키로 스톱워치 랩 기록
+    if (event.code === 'KeyL' && state.mode === 'stopwatch' && state.isRunning) {
+      event.preventDefault();
+      recordLap();
+      return;
+    }
+
     // Escape 키로 모달 닫기 (전역적으로 처리)
     if (event.code === 'Escape') {
       // 모달 닫기 이벤트 발생
@@ -88,6 +107,9 @@ export const useKeyboardNavigation = (options: KeyboardNavigationOptions = {}) =
     resetTimer,
     incrementRepetitions,
     decrementRepetitions,
+    recordLap,
+    templateState.templates,
+    selectTemplate,
     enableSpacebarToggle,
     enableArrowKeys,
     enableNumberKeys,
@@ -106,8 +128,9 @@ export const useKeyboardNavigation = (options: KeyboardNavigationOptions = {}) =
     spacebar: enableSpacebarToggle ? '스페이스바: 시작/정지' : null,
     arrowUp: enableArrowKeys ? '↑: 반복 횟수 증가' : null,
     arrowDown: enableArrowKeys ? '↓: 반복 횟수 감소' : null,
-    numbers: enableNumberKeys ? '1-3: 빠른 템플릿 선택' : null,
+    numbers: enableNumberKeys ? '1-9: 템플릿 선택' : null,
     reset: 'R: 초기화',
+    lap: 'L: 랩 기록 (스톱워치)',
     escape: 'ESC: 모달 닫기',
   };
 
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { MetronomeContext } from '../contexts/MetronomeContext';
+
+export function useMetronome() {
+  const context = useContext(MetronomeContext);
+  if (context === undefined) {
+    throw new Error('useMetronome must be used within a MetronomeProvider');
+  }
+  return context;
+}
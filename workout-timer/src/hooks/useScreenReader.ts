@@ -1,4 +1,5 @@
 import { useEffect, useRef, useCallback } from 'react';
+import type { IntervalPhase } from '../types';
 
 interface ScreenReaderOptions {
   politeness?: 'polite' | 'assertive';
@@ -105,6 +106,28 @@ export const useScreenReader = (options: ScreenReaderOptions = {}) => {
     announce(`반복 횟수 ${actionText}. 현재 ${repetitions}회`);
   }, [announce]);
 
+  // 인터벌 구간 전환 알림
+  const announcePhaseChange = useCallback((phase: IntervalPhase, round: number, totalRounds: number) => {
+    const phaseText = phase === 'work' ? '운동' : '휴식';
+    announce(`라운드 ${round}/${totalRounds} ${phaseText} 시작`);
+  }, [announce]);
+
+  // EMOM 라운드 시작 알림
+  const announceRoundStart = useCallback((round: number, totalRounds: number) => {
+    announce(`라운드 ${round}/${totalRounds} 시작`);
+  }, [announce]);
+
+  // 시작 전 준비 카운트다운 알림
+  const announcePreStart = useCallback((seconds: number) => {
+    announce(`준비. ${seconds}초 후 시작`);
+  }, [announce]);
+
+  // 시간 초과 알림 (0 도달 시 및 초과 카운트 정지 시)
+  const announceOvertime = useCallback((overtimeMs: number, stopped: boolean) => {
+    const seconds = Math.floor(overtimeMs / 1000);
+    announce(stopped ? `타이머 정지. ${seconds}초 초과했습니다.` : '시간 종료. 초과 시간을 기록합니다.');
+  }, [announce]);
+
   // 템플릿 선택 알림
   const announceTemplateSelection = useCallback((templateName: string, duration: number) => {
     const minutes = Math.floor(duration / 60);
@@ -138,6 +161,10 @@ export const useScreenReader = (options: ScreenReaderOptions = {}) => {
     announce,
     announceTimerState,
     announceRepetitionChange,
+    announcePhaseChange,
+    announceRoundStart,
+    announcePreStart,
+    announceOvertime,
     announceTemplateSelection,
     announceSettingChange,
     announceError,
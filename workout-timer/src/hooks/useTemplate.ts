@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { TemplateContext } from '../contexts/TemplateContext';
+
+export function useTemplate() {
+  const context = useContext(TemplateContext);
+  if (context === undefined) {
+    throw new Error('useTemplate must be used within a TemplateProvider');
+  }
+  return context;
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { useTimer } from './useTimer';
+import type { TimerSnapshot } from '../types';
+
+/**
+ * 타이머 이벤트 버스의 최신 스냅샷 구독
+ * 타이머 상태 전체 대신 실행 상태/시간/구간만 필요한 컴포넌트에서 사용
+ */
+export function useTimerSnapshot(): TimerSnapshot {
+  const { events } = useTimer();
+  return useSyncExternalStore(events.subscribe, events.getSnapshot);
+}
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { WorkoutContext } from '../contexts/WorkoutContext';
+
+export function useWorkout() {
+  const context = useContext(WorkoutContext);
+  if (context === undefined) {
+    throw new Error('useWorkout must be used within a WorkoutProvider');
+  }
+  return context;
+}
@@ -1,4 +1,26 @@
-import { AUDIO_CONSTANTS, type SoundType } from '../types';
+import { AUDIO_CONSTANTS, METRONOME_CONSTANTS, type SoundType, type PhaseCueType, type IntervalPhase, type SettingsState, type CustomSound } from '../types';
+
+// 메트로놈 설정 (박자 속도, 강박 간격, 박 나누기)
+export type MetronomeConfig = Pick<SettingsState['metronome'], 'bpm' | 'accentEvery' | 'subdivision'>;
+
+// 메트로놈 클릭음 종류별 주파수(Hz)와 상대 음량
+const METRONOME_CLICKS = {
+  accent: { frequency: 1500, gain: 1 },
+  beat: { frequency: 1000, gain: 0.7 },
+  subdivision: { frequency: 800, gain: 0.35 },
+} as const;
+const METRONOME_CLICK_DURATION = 0.03; // 초
+
+// 진행 중인 메트로놈 예약 상태
+interface MetronomeSchedule {
+  config: MetronomeConfig;
+  nextTime: number;    // 다음 클릭 시각 (AudioContext 시계, 초)
+  beat: number;        // 다음 클릭이 속한 박 번호 (0부터)
+  subTick: number;     // 박 안에서 다음 클릭 위치 (0이면 박의 첫 클릭)
+  schedulerId: number;
+  beatTimeoutIds: Set<number>;
+  onBeat: (beat: number) => void;
+}
 
 /**
  * AudioNotificationService - Web Audio API를 사용한 오디오 알림 서비스
@@ -9,6 +31,9 @@ export class AudioNotificationService {
   private sounds: Map<string, AudioBuffer> = new Map();
   private volume: number = AUDIO_CONSTANTS.DEFAULT_VOLUME;
   private isInitialized: boolean = false;
+  private keepAliveSource: AudioBufferSourceNode | null = null;
+  private metronome: MetronomeSchedule | null = null;
+  private metronomeSession: number = 0; // 시작/정지가 겹칠 때 오래된 시작을 무시하기 위한 번호
 
   constructor() {
     this.initializeAudioContext();
@@ -60,6 +85,9 @@ export class AudioNotificationService {
       await this.generateBeepSound();
       await this.generateBellSound();
       await this.generateChimeSound();
+      await this.generateWorkStartSound();
+      await this.generateRestStartSound();
+      await this.generateGetReadySound();
       
       this.isInitialized = true;
       console.log('Audio sounds loaded successfully');
@@ -140,10 +168,80 @@ export class AudioNotificationService {
     this.sounds.set(AUDIO_CONSTANTS.SOUNDS.CHIME, buffer);
   }
 
+  /**
+   * 운동 구간 시작음 생성 (인터벌 모드) - 짧게 두 번 올라가는 고음
+   */
+  private async generateWorkStartSound(): Promise<void> {
+    if (!this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = 0.4; // 400ms
+    
+    const buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+    const channelData = buffer.getChannelData(0);
+
+    for (let i = 0; i < channelData.length; i++) {
+      const t = i / sampleRate;
+      // 0~150ms: 880Hz, 200~350ms: 1175Hz, 사이는 무음
+      const frequency = t < 0.2 ? 880 : 1175;
+      const localT = t < 0.2 ? t : t - 0.2;
+      const gate = localT < 0.15 ? 1 : 0;
+      const envelope = Math.exp(-localT * 8);
+      channelData[i] = Math.sin(2 * Math.PI * frequency * t) * envelope * gate * 0.3;
+    }
+
+    this.sounds.set(AUDIO_CONSTANTS.PHASE_CUES.WORK_START, buffer);
+  }
+
+  /**
+   * 휴식 구간 시작음 생성 (인터벌 모드) - 부드럽게 내려가는 저음
+   */
+  private async generateRestStartSound(): Promise<void> {
+    if (!this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = 0.7; // 700ms
+    
+    const buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+    const channelData = buffer.getChannelData(0);
+
+    for (let i = 0; i < channelData.length; i++) {
+      const t = i / sampleRate;
+      // 하강하는 톤으로 휴식 시작 표현
+      const frequency = 523 - (t * 200); // 523Hz에서 383Hz로 하강
+      const envelope = Math.exp(-t * 2.5);
+      channelData[i] = Math.sin(2 * Math.PI * frequency * t) * envelope * 0.25;
+    }
+
+    this.sounds.set(AUDIO_CONSTANTS.PHASE_CUES.REST_START, buffer);
+  }
+
+  /**
+   * 준비 카운트다운 틱 생성 - 짧고 높은 우드블록 느낌의 소리
+   */
+  private async generateGetReadySound(): Promise<void> {
+    if (!this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = 0.08; // 80ms
+    const frequency = 1400; // 1400Hz
+
+    const buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+    const channelData = buffer.getChannelData(0);
+
+    for (let i = 0; i < channelData.length; i++) {
+      const t = i / sampleRate;
+      const envelope = Math.exp(-t * 40); // 매우 빠른 감쇠
+      channelData[i] = Math.sin(2 * Math.PI * frequency * t) * envelope * 0.35;
+    }
+
+    this.sounds.set(AUDIO_CONSTANTS.PHASE_CUES.GET_READY, buffer);
+  }
+
   /**
    * 사운드 재생
    */
-  private async playSound(soundType: SoundType, volume: number = this.volume): Promise<void> {
+  private async playSound(soundType: SoundType | PhaseCueType, volume: number = this.volume): Promise<void> {
     if (!this.audioContext || !this.isInitialized) {
       console.warn('AudioNotificationService is not initialized');
       return;
@@ -179,16 +277,80 @@ export class AudioNotificationService {
 
   /**
    * 카운트다운 알림음 재생 (3, 2, 1초)
+   * @param sound 선택한 알림음 (아직 불러오지 않은 사용자 지정 알림음이면 기본음)
    */
-  async playCountdown(): Promise<void> {
-    await this.playSound(AUDIO_CONSTANTS.SOUNDS.BEEP, AUDIO_CONSTANTS.COUNTDOWN_VOLUME);
+  async playCountdown(sound: SoundType = AUDIO_CONSTANTS.SOUNDS.BEEP): Promise<void> {
+    await this.playSound(this.withFallback(sound, AUDIO_CONSTANTS.SOUNDS.BEEP), AUDIO_CONSTANTS.COUNTDOWN_VOLUME);
   }
 
   /**
    * 완료 알림음 재생
+   * @param sound 선택한 알림음 (아직 불러오지 않은 사용자 지정 알림음이면 벨소리)
+   */
+  async playCompletion(sound: SoundType = AUDIO_CONSTANTS.SOUNDS.BELL): Promise<void> {
+    await this.playSound(this.withFallback(sound, AUDIO_CONSTANTS.SOUNDS.BELL), AUDIO_CONSTANTS.COMPLETION_VOLUME);
+  }
+
+  /**
+   * 불러온 알림음이면 그대로, 아니면 대체 알림음 (내부 메서드)
+   */
+  private withFallback(sound: SoundType, fallback: SoundType): SoundType {
+    return this.sounds.has(sound) ? sound : fallback;
+  }
+
+  /**
+   * 오디오 파일 디코딩 (지원하지 않는 형식이거나 손상된 파일이면 오류 발생)
+   */
+  async decodeSound(data: ArrayBuffer): Promise<AudioBuffer> {
+    if (!this.audioContext) {
+      throw new Error('AudioContext is not available');
+    }
+    return this.audioContext.decodeAudioData(data);
+  }
+
+  /**
+   * 사용자 지정 알림음 등록 (디코딩한 뒤 기본 알림음과 같은 방식으로 재생)
+   */
+  async addCustomSound(sound: CustomSound): Promise<void> {
+    this.sounds.set(sound.id, await this.decodeSound(await sound.blob.arrayBuffer()));
+  }
+
+  /**
+   * 사용자 지정 알림음 등록 해제
+   */
+  removeCustomSound(id: string): void {
+    this.sounds.delete(id);
+  }
+
+  /**
+   * 알림음을 불러왔는지 확인
+   */
+  hasSound(sound: SoundType): boolean {
+    return this.sounds.has(sound);
+  }
+
+  /**
+   * 인터벌 구간별 카운트다운 알림음 재생
+   * 운동 구간은 기본 비프음, 휴식 구간은 차임으로 구분합니다.
+   */
+  async playPhaseCountdown(phase: IntervalPhase): Promise<void> {
+    const sound = phase === 'work' ? AUDIO_CONSTANTS.SOUNDS.BEEP : AUDIO_CONSTANTS.SOUNDS.CHIME;
+    await this.playSound(sound, AUDIO_CONSTANTS.COUNTDOWN_VOLUME);
+  }
+
+  /**
+   * 인터벌 구간 시작음 재생
+   */
+  async playPhaseStart(phase: IntervalPhase): Promise<void> {
+    const cue = phase === 'work' ? AUDIO_CONSTANTS.PHASE_CUES.WORK_START : AUDIO_CONSTANTS.PHASE_CUES.REST_START;
+    await this.playSound(cue, AUDIO_CONSTANTS.COMPLETION_VOLUME);
+  }
+
+  /**
+   * 시작 전 준비 카운트다운 틱 재생
    */
-  async playCompletion(): Promise<void> {
-    await this.playSound(AUDIO_CONSTANTS.SOUNDS.BELL, AUDIO_CONSTANTS.COMPLETION_VOLUME);
+  async playPreStartTick(): Promise<void> {
+    await this.playSound(AUDIO_CONSTANTS.PHASE_CUES.GET_READY, AUDIO_CONSTANTS.COUNTDOWN_VOLUME);
   }
 
   /**
@@ -198,6 +360,172 @@ export class AudioNotificationService {
     await this.playSound(soundType, this.volume);
   }
 
+  /**
+   * 무음 반복 재생 시작 (재생 중인 오디오가 있어야 잠금 화면에 미디어 컨트롤이 표시됨)
+   */
+  async startKeepAlive(): Promise<void> {
+    if (!this.audioContext || this.keepAliveSource) {
+      return;
+    }
+
+    try {
+      await this.resumeAudioContext();
+      // 재개를 기다리는 동안 이미 시작되었거나 정리되었으면 무시
+      if (!this.audioContext || this.keepAliveSource) {
+        return;
+      }
+
+      const sampleRate = this.audioContext.sampleRate;
+      const source = this.audioContext.createBufferSource();
+      source.buffer = this.audioContext.createBuffer(1, sampleRate, sampleRate); // 1초 무음
+      source.loop = true;
+      source.connect(this.audioContext.destination);
+      source.start();
+      this.keepAliveSource = source;
+    } catch (error) {
+      console.error('Failed to start audio keep-alive:', error);
+    }
+  }
+
+  /**
+   * 무음 반복 재생 중지
+   */
+  stopKeepAlive(): void {
+    if (!this.keepAliveSource) {
+      return;
+    }
+
+    try {
+      this.keepAliveSource.stop();
+      this.keepAliveSource.disconnect();
+    } catch (error) {
+      console.error('Failed to stop audio keep-alive:', error);
+    }
+    this.keepAliveSource = null;
+  }
+
+  /**
+   * 메트로놈 시작 (이미 실행 중이면 무시)
+   * 클릭음을 AudioContext 시계에 미리 예약하여 페이지 타이머가 밀려도 박자가 흔들리지 않음
+   * @param onBeat 박이 울리는 시점에 호출 (0부터 센 박 번호)
+   */
+  async startMetronome(config: MetronomeConfig, onBeat: (beat: number) => void = () => {}): Promise<void> {
+    if (!this.audioContext || this.metronome) {
+      return;
+    }
+
+    const session = ++this.metronomeSession;
+    await this.resumeAudioContext();
+    // 재개를 기다리는 동안 정지되었거나 다시 시작되었으면 무시
+    if (!this.audioContext || this.metronome || session !== this.metronomeSession) {
+      return;
+    }
+
+    this.metronome = {
+      config,
+      nextTime: this.audioContext.currentTime + METRONOME_CONSTANTS.SCHEDULE_AHEAD_SECONDS,
+      beat: 0,
+      subTick: 0,
+      schedulerId: window.setInterval(() => this.scheduleMetronome(), METRONOME_CONSTANTS.LOOKAHEAD_MS),
+      beatTimeoutIds: new Set(),
+      onBeat,
+    };
+    this.scheduleMetronome();
+  }
+
+  /**
+   * 실행 중인 메트로놈 설정 변경 (다음 클릭부터 적용)
+   */
+  updateMetronome(config: MetronomeConfig): void {
+    if (this.metronome) {
+      this.metronome.config = config;
+    }
+  }
+
+  /**
+   * 메트로놈 정지
+   */
+  stopMetronome(): void {
+    this.metronomeSession++;
+    if (!this.metronome) {
+      return;
+    }
+
+    window.clearInterval(this.metronome.schedulerId);
+    this.metronome.beatTimeoutIds.forEach(timeoutId => window.clearTimeout(timeoutId));
+    this.metronome = null;
+  }
+
+  /**
+   * 메트로놈 실행 여부
+   */
+  isMetronomeRunning(): boolean {
+    return this.metronome !== null;
+  }
+
+  /**
+   * 곧 울릴 클릭음을 예약 (lookahead 스케줄러)
+   */
+  private scheduleMetronome(): void {
+    const metronome = this.metronome;
+    if (!metronome || !this.audioContext) {
+      return;
+    }
+
+    const now = this.audioContext.currentTime;
+    // 백그라운드 탭에서 스케줄러가 늦게 실행되면 밀린 클릭을 한꺼번에 울리지 않고 지금부터 이어서 예약
+    if (metronome.nextTime < now) {
+      metronome.nextTime = now;
+    }
+
+    while (metronome.nextTime < now + METRONOME_CONSTANTS.SCHEDULE_AHEAD_SECONDS) {
+      const { config, nextTime, beat } = metronome;
+      const isBeat = metronome.subTick === 0;
+      const click = !isBeat
+        ? METRONOME_CLICKS.subdivision
+        : config.accentEvery > 0 && beat % config.accentEvery === 0 ? METRONOME_CLICKS.accent : METRONOME_CLICKS.beat;
+      this.playClick(nextTime, click.frequency, click.gain);
+
+      if (isBeat) {
+        const timeoutId = window.setTimeout(() => {
+          metronome.beatTimeoutIds.delete(timeoutId);
+          metronome.onBeat(beat);
+        }, Math.max(0, (nextTime - now) * 1000));
+        metronome.beatTimeoutIds.add(timeoutId);
+      }
+
+      metronome.nextTime += 60 / config.bpm / config.subdivision;
+      metronome.subTick++;
+      if (metronome.subTick >= config.subdivision) {
+        metronome.subTick = 0;
+        metronome.beat++;
+      }
+    }
+  }
+
+  /**
+   * 짧은 클릭음을 지정한 시각에 재생 (내부 메서드)
+   */
+  private playClick(time: number, frequency: number, gain: number): void {
+    if (!this.audioContext) {
+      return;
+    }
+
+    try {
+      const oscillator = this.audioContext.createOscillator();
+      const gainNode = this.audioContext.createGain();
+      oscillator.frequency.value = frequency;
+      gainNode.gain.setValueAtTime(Math.max(0.001, this.volume * gain), time);
+      gainNode.gain.exponentialRampToValueAtTime(0.001, time + METRONOME_CLICK_DURATION);
+      oscillator.connect(gainNode);
+      gainNode.connect(this.audioContext.destination);
+      oscillator.start(time);
+      oscillator.stop(time + METRONOME_CLICK_DURATION);
+    } catch (error) {
+      console.error('Failed to schedule metronome click:', error);
+    }
+  }
+
   /**
    * 볼륨 설정 (0.0 ~ 1.0)
    */
@@ -230,6 +558,8 @@ export class AudioNotificationService {
    * 리소스 정리
    */
   destroy(): void {
+    this.stopKeepAlive();
+    this.stopMetronome();
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
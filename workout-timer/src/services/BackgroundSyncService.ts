@@ -1,158 +1,105 @@
-// Background Sync Service - 백그라운드 타이머 상태 동기화
-import type { TimerState } from '../types';
-import { IndexedDBService } from './IndexedDBService';
-
-export interface BackgroundTimerState {
-  mode: 'timer' | 'stopwatch';
-  duration: number;
-  remainingTime: number;
-  elapsedTime: number;
-  repetitions: number;
-  isRunning: boolean;
-  isPaused: boolean;
-  voiceCountActive: boolean;
-  voiceCountNumber: number;
-  startTime: number; // 타이머 시작 시점의 timestamp
-  lastUpdateTime: number; // 마지막 업데이트 시점의 timestamp
+// Background Sync Service - 진행 중인 타이머 세션 저장 및 복원 (새로고침/탭 종료 대비)
+import type { TimerState, SavedTimerSession, IntervalSegment, TimerMode } from '../types';
+import { buildIntervalSchedule, buildEmomSchedule } from '../utils';
+
+// 저장된 세션을 현재 시각 기준으로 다시 계산한 결과
+export interface RestoredTimerSession {
+  state: TimerState;
+  elapsedTime: number; // 지금까지 운동한 시간 (밀리초, Timer.restore에 전달)
 }
 
-export class BackgroundSyncService {
-  private static readonly STORAGE_KEY = 'workout-timer-background-state';
-  private static readonly SYNC_INTERVAL = 1000; // 1초마다 동기화
-  private syncIntervalId: number | null = null;
-  private isVisible: boolean = true;
-  private indexedDBService: IndexedDBService;
-
-  constructor() {
-    this.indexedDBService = new IndexedDBService();
-    this.setupVisibilityHandlers();
-  }
-
-  /**
-   * 페이지 가시성 변경 이벤트 핸들러 설정
-   */
-  private setupVisibilityHandlers(): void {
-    document.addEventListener('visibilitychange', () => {
-      this.isVisible = !document.hidden;
-      
-      if (this.isVisible) {
-        // 포그라운드로 복귀 시 상태 복원
-        this.handleForegroundReturn();
-      } else {
-        // 백그라운드로 전환 시 상태 저장
-        this.handleBackgroundTransition();
-      }
-    });
+const TIMER_MODES: TimerMode[] = ['timer', 'stopwatch', 'interval', 'emom', 'amrap'];
 
-    // 페이지 언로드 시에도 상태 저장
-    window.addEventListener('beforeunload', () => {
-      this.handleBackgroundTransition();
-    });
-  }
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
 
-  /**
-   * 백그라운드 전환 시 처리
-   */
-  private async handleBackgroundTransition(): Promise<void> {
-    // 현재 실행 중인 타이머가 있다면 상태 저장
-    const currentState = this.getCurrentTimerState();
-    if (currentState && currentState.isRunning && !currentState.isPaused) {
-      await this.saveBackgroundState(currentState);
-      this.startBackgroundSync();
-    }
+/**
+ * 저장된 세션 형식 검사 (손상되었거나 이전 형식이면 복원하지 않음)
+ */
+const isValidSavedSession = (value: unknown): value is SavedTimerSession => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
   }
-
-  /**
-   * 포그라운드 복귀 시 처리
-   */
-  private async handleForegroundReturn(): Promise<void> {
-    this.stopBackgroundSync();
-    
-    // 저장된 백그라운드 상태가 있다면 복원
-    const backgroundState = await this.getBackgroundState();
-    if (backgroundState) {
-      const restoredState = this.calculateRestoredState(backgroundState);
-      await this.clearBackgroundState();
-      
-      // 상태 복원 이벤트 발생
-      this.dispatchStateRestoreEvent(restoredState);
+  const session = value as SavedTimerSession;
+  return TIMER_MODES.includes(session.mode)
+    && isFiniteNumber(session.duration)
+    && typeof session.interval === 'object' && session.interval !== null
+    && typeof session.emom === 'object' && session.emom !== null
+    && typeof session.overtime === 'boolean'
+    && isFiniteNumber(session.repetitions)
+    && Array.isArray(session.laps)
+    && Array.isArray(session.roundSplits)
+    && typeof session.isPaused === 'boolean'
+    && isFiniteNumber(session.startedAt)
+    && isFiniteNumber(session.elapsedTime)
+    && isFiniteNumber(session.savedAt);
+};
+
+/**
+ * 모드별 구간 목록 (인터벌/EMOM 외에는 빈 목록, 진행 중에 시간을 추가한 구간은 늘어난 길이)
+ */
+export const getSessionSchedule = (session: Pick<SavedTimerSession, 'mode' | 'interval' | 'emom' | 'addedTime'>): IntervalSegment[] => {
+  const schedule = session.mode === 'interval'
+    ? buildIntervalSchedule(session.interval)
+    : session.mode === 'emom' ? buildEmomSchedule(session.emom) : [];
+  return schedule.map((segment, index) => {
+    const added = session.addedTime.find(item => item.index === index);
+    return added ? { ...segment, duration: segment.duration + added.ms / 1000 } : segment;
+  });
+};
+
+/**
+ * 경과 시간에 해당하는 구간과 그 구간의 남은 시간 (밀리초)
+ */
+const locateSegment = (segments: IntervalSegment[], elapsedMs: number): { segment: IntervalSegment; index: number; remainingMs: number } => {
+  let segmentEnd = 0;
+  for (const [index, segment] of segments.entries()) {
+    segmentEnd += segment.duration * 1000;
+    if (elapsedMs < segmentEnd) {
+      return { segment, index, remainingMs: segmentEnd - elapsedMs };
     }
   }
+  return { segment: segments[segments.length - 1], index: segments.length - 1, remainingMs: 0 };
+};
 
-  /**
-   * 현재 타이머 상태를 가져오는 함수 (외부에서 설정)
-   */
-  private getCurrentTimerState(): TimerState | null {
-    // TimerContext에서 현재 상태를 가져오는 콜백
-    // 실제 구현에서는 Context를 통해 상태를 가져옴
-    const event = new CustomEvent('get-timer-state');
-    document.dispatchEvent(event);
-    return (event as any).detail || null;
-  }
+export class BackgroundSyncService {
+  private static readonly STORAGE_KEY = 'workout-timer-background-state';
 
   /**
-   * 백그라운드 상태를 저장 (IndexedDB 우선, localStorage 백업)
+   * 진행 중인 세션 저장
+   * 모바일 브라우저가 탭을 종료하면 unload 이벤트가 오지 않으므로 상태가 바뀔 때마다 동기적으로 저장
    */
-  private async saveBackgroundState(timerState: TimerState): Promise<void> {
-    const backgroundState: BackgroundTimerState = {
-      mode: timerState.mode,
-      duration: timerState.duration,
-      remainingTime: timerState.remainingTime,
-      elapsedTime: timerState.elapsedTime,
-      repetitions: timerState.repetitions,
-      isRunning: timerState.isRunning,
-      isPaused: timerState.isPaused,
-      voiceCountActive: timerState.voiceCountActive,
-      voiceCountNumber: timerState.voiceCountNumber,
-      startTime: Date.now() - (timerState.duration - timerState.remainingTime) * 1000,
-      lastUpdateTime: Date.now()
-    };
-
-    // IndexedDB에 저장 시도
-    try {
-      if (this.indexedDBService.ready) {
-        await this.indexedDBService.saveCurrentState(timerState);
-      }
-    } catch (error) {
-      console.error('Failed to save to IndexedDB:', error);
-    }
-
-    // localStorage에 백업 저장
+  saveSession(session: SavedTimerSession): void {
     try {
-      localStorage.setItem(
-        BackgroundSyncService.STORAGE_KEY,
-        JSON.stringify(backgroundState)
-      );
+      localStorage.setItem(BackgroundSyncService.STORAGE_KEY, JSON.stringify(session));
     } catch (error) {
       console.error('Failed to save background timer state to localStorage:', error);
     }
   }
 
   /**
-   * 백그라운드 상태 가져오기 (IndexedDB 우선, localStorage 백업)
+   * 저장된 세션 불러오기 (없거나 형식이 잘못되었으면 null)
    */
-  private async getBackgroundState(): Promise<BackgroundTimerState | null> {
-    // IndexedDB에서 먼저 시도
-    try {
-      if (this.indexedDBService.ready) {
-        const timerState = await this.indexedDBService.loadCurrentState();
-        if (timerState) {
-          // TimerState를 BackgroundTimerState로 변환
-          return {
-            ...timerState,
-            startTime: Date.now() - (timerState.duration - timerState.remainingTime) * 1000,
-            lastUpdateTime: Date.now()
-          };
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load from IndexedDB:', error);
-    }
-
-    // localStorage에서 백업 로드
+  loadSession(): SavedTimerSession | null {
     try {
       const stored = localStorage.getItem(BackgroundSyncService.STORAGE_KEY);
-      return stored ? JSON.parse(stored) : null;
+      if (!stored) {
+        return null;
+      }
+      const session: unknown = JSON.parse(stored);
+      if (!isValidSavedSession(session)) {
+        console.warn('Ignoring invalid background timer state');
+        this.clearSession();
+        return null;
+      }
+      // 일시정지 기록 항목이 생기기 전에 저장한 세션은 기록 없음으로 읽음
+      return {
+        ...session,
+        pauses: Array.isArray(session.pauses) ? session.pauses : [],
+        pausedAt: isFiniteNumber(session.pausedAt) ? session.pausedAt : null,
+        // 구간 추가 시간 항목이 생기기 전에 저장한 세션은 추가한 시간 없음으로 읽음
+        addedTime: Array.isArray(session.addedTime) ? session.addedTime : [],
+      };
     } catch (error) {
       console.error('Failed to load background timer state from localStorage:', error);
       return null;
@@ -160,19 +107,9 @@ export class BackgroundSyncService {
   }
 
   /**
-   * 백그라운드 상태 삭제
+   * 저장된 세션 삭제
    */
-  private async clearBackgroundState(): Promise<void> {
-    // IndexedDB에서 삭제
-    try {
-      if (this.indexedDBService.ready) {
-        await this.indexedDBService.clearCurrentState();
-      }
-    } catch (error) {
-      console.error('Failed to clear IndexedDB state:', error);
-    }
-
-    // localStorage에서 삭제
+  clearSession(): void {
     try {
       localStorage.removeItem(BackgroundSyncService.STORAGE_KEY);
     } catch (error) {
@@ -181,105 +118,65 @@ export class BackgroundSyncService {
   }
 
   /**
-   * 백그라운드에서 경과된 시간을 계산하여 상태 복원
+   * 저장된 세션을 현재 시각 기준으로 다시 계산
+   * 실행 중이던 세션은 저장 이후 흐른 벽시계 시간만큼 진행된 것으로 봄
    */
-  private calculateRestoredState(backgroundState: BackgroundTimerState): TimerState {
-    const now = Date.now();
-    const elapsedSeconds = Math.floor((now - backgroundState.lastUpdateTime) / 1000);
-    
-    let remainingTime = backgroundState.remainingTime - elapsedSeconds;
-    let repetitions = backgroundState.repetitions;
-    let isRunning = backgroundState.isRunning;
-    let isPaused = backgroundState.isPaused;
-
-    // 시간이 0 이하로 떨어졌다면 완료 처리
-    if (remainingTime <= 0 && isRunning && !isPaused) {
-      remainingTime = backgroundState.duration;
-      repetitions += 1;
-      isRunning = false;
-      isPaused = false;
+  static calculateRestoredState(session: SavedTimerSession, now: number = Date.now()): RestoredTimerSession {
+    const elapsedTime = session.elapsedTime + (session.isPaused ? 0 : Math.max(0, now - session.savedAt));
+    const schedule = getSessionSchedule(session);
+
+    let remainingTime = session.duration * 1000;
+    let overtime: number | null = null;
+    let currentRound = 1;
+    let phase: TimerState['phase'] = 'work';
+    let repetitions = session.repetitions;
+    let addedTime = 0;
+
+    if (schedule.length > 0) {
+      const current = locateSegment(schedule, elapsedTime);
+      remainingTime = current.remainingMs;
+      currentRound = current.segment.round;
+      phase = current.segment.phase;
+      addedTime = session.addedTime.find(item => item.index === current.index)?.ms ?? 0;
+
+      // EMOM: 저장 이후 지나간 라운드 경계만큼 반복 횟수 처리 (PHASE_CHANGE와 동일한 규칙)
+      if (session.mode === 'emom') {
+        const roundsPassed = currentRound - locateSegment(schedule, session.elapsedTime).segment.round;
+        if (roundsPassed > 0) {
+          repetitions = session.emom.repBehavior === 'reset' ? 0 : repetitions + roundsPassed;
+        }
+      }
+    } else if (session.mode !== 'stopwatch') {
+      const durationMs = session.duration * 1000;
+      remainingTime = Math.max(0, durationMs - elapsedTime);
+      if (session.overtime && elapsedTime > durationMs) {
+        overtime = elapsedTime - durationMs;
+      }
     }
 
     return {
-      mode: backgroundState.mode || 'timer',
-      duration: backgroundState.duration,
-      remainingTime: Math.max(0, remainingTime),
-      elapsedTime: backgroundState.elapsedTime || 0,
-      repetitions,
-      isRunning,
-      isPaused,
-      voiceCountActive: backgroundState.voiceCountActive || false,
-      voiceCountNumber: backgroundState.voiceCountNumber || 0
+      elapsedTime,
+      state: {
+        mode: session.mode,
+        duration: session.duration,
+        remainingTime,
+        elapsedTime: session.mode === 'stopwatch' ? elapsedTime : 0,
+        repetitions,
+        isRunning: !session.isPaused,
+        isPaused: session.isPaused,
+        voiceCountActive: false,
+        voiceCountNumber: 0,
+        interval: session.interval,
+        emom: session.emom,
+        currentRound,
+        phase,
+        roundSplits: session.roundSplits,
+        amrapSummary: null,
+        laps: session.laps,
+        preStartRemaining: null,
+        overtime,
+        addedTime,
+      },
     };
   }
-
-  /**
-   * 백그라운드 동기화 시작
-   */
-  private startBackgroundSync(): void {
-    if (this.syncIntervalId) {
-      return;
-    }
-
-    this.syncIntervalId = window.setInterval(async () => {
-      const backgroundState = await this.getBackgroundState();
-      if (backgroundState && backgroundState.isRunning && !backgroundState.isPaused) {
-        // 상태 업데이트
-        backgroundState.lastUpdateTime = Date.now();
-        await this.saveBackgroundState({
-          mode: backgroundState.mode || 'timer',
-          duration: backgroundState.duration,
-          remainingTime: backgroundState.remainingTime,
-          elapsedTime: backgroundState.elapsedTime || 0,
-          repetitions: backgroundState.repetitions,
-          isRunning: backgroundState.isRunning,
-          isPaused: backgroundState.isPaused,
-          voiceCountActive: backgroundState.voiceCountActive || false,
-          voiceCountNumber: backgroundState.voiceCountNumber || 0
-        });
-      }
-    }, BackgroundSyncService.SYNC_INTERVAL);
-  }
-
-  /**
-   * 백그라운드 동기화 중지
-   */
-  private stopBackgroundSync(): void {
-    if (this.syncIntervalId) {
-      clearInterval(this.syncIntervalId);
-      this.syncIntervalId = null;
-    }
-  }
-
-  /**
-   * 상태 복원 이벤트 발생
-   */
-  private dispatchStateRestoreEvent(restoredState: TimerState): void {
-    const event = new CustomEvent('restore-timer-state', {
-      detail: restoredState
-    });
-    document.dispatchEvent(event);
-  }
-
-  /**
-   * 서비스 정리
-   */
-  async destroy(): Promise<void> {
-    this.stopBackgroundSync();
-    await this.clearBackgroundState();
-    
-    if (this.indexedDBService) {
-      this.indexedDBService.destroy();
-    }
-    
-    document.removeEventListener('visibilitychange', this.handleForegroundReturn);
-    window.removeEventListener('beforeunload', this.handleBackgroundTransition);
-  }
-
-  /**
-   * 현재 백그라운드 상태 확인 (디버깅용)
-   */
-  async getDebugInfo(): Promise<BackgroundTimerState | null> {
-    return await this.getBackgroundState();
-  }
-}
\ No newline at end of file
+}
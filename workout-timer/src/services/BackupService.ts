@@ -0,0 +1,237 @@
+// Backup Service - 설정/템플릿/운동 프로그램/기록/알림음 전체 백업 및 복원
+import type { BackupData, BackupFile, BackupPreview, BackupRestoreMode, BackupSound, CustomSound, Template, WorkoutProgram, WorkoutSession } from '../types';
+import { STORAGE_KEYS } from '../types';
+import { StorageService } from './StorageService';
+import { IndexedDBService } from './IndexedDBService';
+import { isValidSession, normalizeSession } from './HistoryTransferService';
+import { isCustomSoundId } from '../utils';
+
+// CRC-32 계산용 테이블
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * 문자열(UTF-8)의 CRC-32 체크섬 (8자리 16진수)
+ */
+export const calculateChecksum = (text: string): string => {
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(text)) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidBackupSound = (value: unknown): value is BackupSound =>
+  isObject(value)
+  && isCustomSoundId(value.id)
+  && typeof value.name === 'string'
+  && typeof value.mimeType === 'string'
+  && typeof value.duration === 'number'
+  && typeof value.createdAt === 'number'
+  && typeof value.data === 'string';
+
+/**
+ * 알림음 파일을 백업용 base64 문자열로 변환
+ */
+const toBackupSound = async ({ id, name, mimeType, duration, createdAt, blob }: CustomSound): Promise<BackupSound> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // 한 번에 펼치면 인자 수 제한을 넘을 수 있어 나눠서 변환
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return { id, name, mimeType, duration, createdAt, data: btoa(binary) };
+};
+
+/**
+ * 백업의 base64 문자열을 알림음 파일로 복원
+ */
+const fromBackupSound = ({ data, ...sound }: BackupSound): CustomSound => {
+  const blob = new Blob([Uint8Array.from(atob(data), char => char.charCodeAt(0))], { type: sound.mimeType });
+  return { ...sound, size: blob.size, blob };
+};
+
+export class BackupService {
+  static readonly FORMAT = 'timergym-backup';
+  static readonly VERSION = 1;
+
+  private db: IndexedDBService;
+
+  constructor(db: IndexedDBService = new IndexedDBService()) {
+    this.db = db;
+  }
+
+  /**
+   * 현재 앱 데이터를 백업 파일 문자열로 생성
+   */
+  async createBackup(now: Date = new Date()): Promise<string> {
+    const data: BackupData = {
+      settings: StorageService.loadSettings(),
+      templates: StorageService.loadTemplates(),
+      workoutProgram: StorageService.getItem<WorkoutProgram>(STORAGE_KEYS.WORKOUT_PROGRAM),
+      sessions: await this.db.getSessions(),
+      sounds: await Promise.all((await this.db.getSounds()).map(toBackupSound)),
+    };
+
+    const file: BackupFile = {
+      format: BackupService.FORMAT,
+      version: BackupService.VERSION,
+      createdAt: now.toISOString(),
+      checksum: calculateChecksum(JSON.stringify(data)),
+      data,
+    };
+    return JSON.stringify(file);
+  }
+
+  /**
+   * 백업 파일 검증 및 읽기
+   * 손상되었거나 더 새로운 버전의 파일이면 사용자에게 보여줄 메시지로 오류 발생
+   */
+  static parseBackup(text: string): BackupFile {
+    let file: BackupFile;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new Error('백업 파일을 읽을 수 없습니다. 파일이 손상되었을 수 있습니다.');
+    }
+
+    if (!isObject(file) || file.format !== BackupService.FORMAT) {
+      throw new Error('운동 타이머 백업 파일이 아닙니다.');
+    }
+    if (!Number.isInteger(file.version) || file.version < 1) {
+      throw new Error('백업 파일의 버전 정보가 올바르지 않습니다.');
+    }
+    if (file.version > BackupService.VERSION) {
+      throw new Error(`더 새로운 버전의 앱에서 만든 백업(v${file.version})입니다. 앱을 업데이트한 뒤 다시 시도해주세요.`);
+    }
+    if (!isObject(file.data) || typeof file.checksum !== 'string' || calculateChecksum(JSON.stringify(file.data)) !== file.checksum) {
+      throw new Error('백업 파일이 손상되었습니다. (체크섬 불일치)');
+    }
+
+    if (Array.isArray(file.data.sessions)) {
+      file.data.sessions = (file.data.sessions as unknown[]).map(normalizeSession) as WorkoutSession[];
+    }
+    const { settings, templates, workoutProgram, sessions, sounds } = file.data;
+    const isValid = (settings === null || isObject(settings))
+      && Array.isArray(templates)
+      && (workoutProgram === null || (isObject(workoutProgram) && Array.isArray(workoutProgram.exercises)))
+      && Array.isArray(sessions) && sessions.every(isValidSession)
+      && Array.isArray(sounds) && sounds.every(isValidBackupSound);
+    if (!isValid) {
+      throw new Error('백업 파일의 데이터 형식이 올바르지 않습니다.');
+    }
+
+    return file;
+  }
+
+  /**
+   * 복원 전 확인용 요약
+   */
+  static getPreview(backup: BackupFile): BackupPreview {
+    const { data } = backup;
+    return {
+      createdAt: new Date(backup.createdAt),
+      hasSettings: data.settings !== null,
+      templates: data.templates.filter(template => !template.isDefault).length,
+      exercises: data.workoutProgram?.exercises.length ?? 0,
+      sessions: data.sessions.length,
+      sounds: data.sounds.length,
+    };
+  }
+
+  /**
+   * 백업 복원
+   * merge: 기존 설정/프로그램은 유지하고 없는 템플릿/기록/알림음만 추가
+   * replace: 모든 데이터를 백업 내용으로 교체
+   */
+  async restore(backup: BackupFile, mode: BackupRestoreMode): Promise<void> {
+    const { settings, templates, workoutProgram, sessions, sounds } = backup.data;
+
+    if (mode === 'replace') {
+      if (settings) {
+        StorageService.saveSettings(settings);
+      } else {
+        StorageService.removeItem(STORAGE_KEYS.SETTINGS);
+      }
+      StorageService.saveTemplates(templates);
+      this.replaceItem(STORAGE_KEYS.WORKOUT_PROGRAM, workoutProgram);
+      await this.db.clearSessions();
+      if (sessions.length > 0) {
+        await this.db.saveSessions(sessions);
+      }
+      await this.db.clearSounds();
+      for (const sound of sounds) {
+        await this.db.saveSound(fromBackupSound(sound));
+      }
+      return;
+    }
+
+    if (settings && !StorageService.loadSettings()) {
+      StorageService.saveSettings(settings);
+    }
+
+    const currentProgram = StorageService.getItem<WorkoutProgram>(STORAGE_KEYS.WORKOUT_PROGRAM);
+    if (workoutProgram && !currentProgram?.exercises?.length) {
+      StorageService.setItem(STORAGE_KEYS.WORKOUT_PROGRAM, workoutProgram);
+    }
+
+    // 같은 id나 같은 이름의 템플릿은 기존 것을 유지
+    const currentTemplates = StorageService.loadTemplates();
+    const isKnown = (template: Template) => currentTemplates.some(
+      current => current.id === template.id || current.name === template.name
+    );
+    StorageService.saveTemplates([...currentTemplates, ...templates.filter(template => !isKnown(template))]);
+
+    const knownIds = new Set((await this.db.getSessions()).map(session => session.id));
+    const newSessions = sessions.filter(session => !knownIds.has(session.id));
+    if (newSessions.length > 0) {
+      await this.db.saveSessions(newSessions);
+    }
+
+    const knownSoundIds = new Set((await this.db.getSounds()).map(sound => sound.id));
+    for (const sound of sounds.filter(sound => !knownSoundIds.has(sound.id))) {
+      await this.db.saveSound(fromBackupSound(sound));
+    }
+  }
+
+  /**
+   * 값이 있으면 저장, 없으면 삭제 (내부 메서드)
+   */
+  private replaceItem<T>(key: string, value: T | null): void {
+    if (value === null) {
+      StorageService.removeItem(key);
+    } else {
+      StorageService.setItem(key, value);
+    }
+  }
+
+  /**
+   * 백업 파일 다운로드
+   */
+  static download(content: string, now: Date = new Date()): void {
+    const blob = new Blob([content], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `workout-timer-backup-${now.toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * 서비스 정리
+   */
+  destroy(): void {
+    this.db.destroy();
+  }
+}
@@ -0,0 +1,90 @@
+// Custom Sound Service - 사용자 지정 알림음 가져오기/보관/삭제 (원본 파일을 IndexedDB에 저장해 오프라인에서도 사용)
+import type { CustomSound } from '../types';
+import { CUSTOM_SOUND_CONSTANTS } from '../types';
+import { IndexedDBService } from './IndexedDBService';
+import { generateId } from '../utils';
+
+/**
+ * 파일 이름에서 확장자를 뺀 표시 이름 (비어 있으면 기본 이름)
+ */
+const toSoundName = (fileName: string): string =>
+  fileName.replace(/\.[^./]+$/, '').trim() || '내 알림음';
+
+export class CustomSoundService {
+  private db: IndexedDBService;
+
+  constructor(db: IndexedDBService = new IndexedDBService()) {
+    this.db = db;
+  }
+
+  /**
+   * 저장된 사용자 지정 알림음 목록 (추가한 순서)
+   */
+  getSounds(): Promise<CustomSound[]> {
+    return this.db.getSounds();
+  }
+
+  /**
+   * 사용자 지정 알림음 하나 (없으면 null)
+   */
+  getSound(id: string): Promise<CustomSound | null> {
+    return this.db.getSound(id);
+  }
+
+  /**
+   * 오디오 파일을 확인하고 디코딩해 본 뒤 저장
+   * 너무 크거나 길거나 읽을 수 없는 파일이면 사용자에게 보여줄 메시지로 오류 발생
+   * @param decode 재생에 사용할 AudioContext의 decodeAudioData
+   */
+  async importFile(file: File, decode: (data: ArrayBuffer) => Promise<AudioBuffer>): Promise<CustomSound> {
+    if (file.size > CUSTOM_SOUND_CONSTANTS.MAX_FILE_BYTES) {
+      throw new Error(`파일이 너무 큽니다. ${CUSTOM_SOUND_CONSTANTS.MAX_FILE_BYTES / 1024 / 1024}MB 이하의 파일을 선택해주세요.`);
+    }
+    if (file.type && !file.type.startsWith('audio/')) {
+      throw new Error('오디오 파일만 추가할 수 있습니다.');
+    }
+
+    const data = await file.arrayBuffer();
+    let buffer: AudioBuffer;
+    try {
+      // decodeAudioData는 전달한 버퍼를 비우므로 복사본으로 디코딩
+      buffer = await decode(data.slice(0));
+    } catch {
+      throw new Error('오디오 파일을 읽을 수 없습니다. 파일이 손상되었거나 지원하지 않는 형식입니다.');
+    }
+    if (buffer.duration > CUSTOM_SOUND_CONSTANTS.MAX_DURATION_SECONDS) {
+      throw new Error(`알림음은 ${CUSTOM_SOUND_CONSTANTS.MAX_DURATION_SECONDS}초 이하여야 합니다.`);
+    }
+
+    const sound: CustomSound = {
+      id: `${CUSTOM_SOUND_CONSTANTS.ID_PREFIX}${generateId()}`,
+      name: toSoundName(file.name),
+      mimeType: file.type,
+      size: file.size,
+      duration: buffer.duration,
+      createdAt: Date.now(),
+      blob: new Blob([data], { type: file.type }),
+    };
+    try {
+      await this.db.saveSound(sound);
+    } catch (error) {
+      console.error('Failed to save custom sound:', error);
+      throw new Error('알림음을 저장하지 못했습니다. 저장 공간을 확인해주세요.');
+    }
+    return sound;
+  }
+
+  /**
+   * 사용자 지정 알림음 삭제
+   */
+  deleteSound(id: string): Promise<void> {
+    return this.db.deleteSound(id);
+  }
+
+  /**
+   * 서비스 정리
+   */
+  destroy(): void {
+    this.db.destroy();
+  }
+}
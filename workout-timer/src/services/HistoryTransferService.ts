@@ -0,0 +1,327 @@
+// History Transfer Service - 운동 기록 CSV/JSON 내보내기 및 가져오기
+import type { HistoryFileFormat, HistoryImportResult, Lap, SessionPause, TimerMode, WorkoutSession } from '../types';
+import { IndexedDBService } from './IndexedDBService';
+
+// JSON 내보내기 파일 구조
+interface HistoryExportFile {
+  format: string;
+  version: number;
+  exportedAt: string;
+  sessions: unknown[];
+}
+
+// 파일에서 읽은 기록 (검증을 통과한 기록과 제외한 행 수)
+interface ParsedHistory {
+  sessions: WorkoutSession[];
+  rejected: number;
+}
+
+const TIMER_MODES: TimerMode[] = ['timer', 'stopwatch', 'interval', 'emom', 'amrap'];
+
+const CSV_COLUMNS = [
+  'id',
+  'mode',
+  'started_at',
+  'ended_at',
+  'duration_seconds',
+  'elapsed_ms',
+  'repetitions',
+  'completed',
+  'pauses',
+  'laps_ms',
+  'overtime_ms',
+] as const;
+
+// 초과 시간 열이 생기기 전에 내보낸 파일도 가져올 수 있도록 없어도 되는 열
+const OPTIONAL_CSV_COLUMNS: readonly string[] = ['overtime_ms'];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isValidPause = (value: unknown): value is SessionPause => {
+  const pause = value as SessionPause;
+  return typeof value === 'object' && value !== null
+    && isFiniteNumber(pause.startedAt) && isFiniteNumber(pause.endedAt) && pause.endedAt >= pause.startedAt;
+};
+
+const isValidLap = (value: unknown): value is Lap => {
+  const lap = value as Lap;
+  return typeof value === 'object' && value !== null
+    && Number.isInteger(lap.number) && lap.number > 0
+    && isFiniteNumber(lap.lapTime) && lap.lapTime >= 0
+    && isFiniteNumber(lap.totalTime) && lap.totalTime >= 0;
+};
+
+/**
+ * 운동 기록 스키마 검증
+ */
+export const isValidSession = (value: unknown): value is WorkoutSession => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const session = value as WorkoutSession;
+  return typeof session.id === 'string' && session.id.length > 0
+    && TIMER_MODES.includes(session.mode)
+    && isFiniteNumber(session.duration) && session.duration >= 0
+    && isFiniteNumber(session.elapsedTime) && session.elapsedTime >= 0
+    && Number.isInteger(session.repetitions) && session.repetitions >= 0
+    && isFiniteNumber(session.startedAt)
+    && isFiniteNumber(session.endedAt) && session.endedAt >= session.startedAt
+    && typeof session.completed === 'boolean'
+    && (session.overtime === null || (isFiniteNumber(session.overtime) && session.overtime >= 0))
+    && Array.isArray(session.pauses) && session.pauses.every(isValidPause)
+    && Array.isArray(session.laps) && session.laps.every(isValidLap);
+};
+
+/**
+ * 초과 시간 항목이 생기기 전에 저장한 기록은 초과 시간 없음으로 보정 (검증 전에 사용)
+ */
+export const normalizeSession = (value: unknown): unknown =>
+  typeof value === 'object' && value !== null && !('overtime' in value) ? { ...value, overtime: null } : value;
+
+/**
+ * CSV 값 이스케이프 (쉼표/따옴표/줄바꿈이 있으면 따옴표로 감쌈)
+ */
+const escapeCSV = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV 텍스트를 행/열로 분리 (따옴표로 감싼 값 지원)
+ */
+const parseCSVRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // 빈 줄 제외
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * 숫자 칸 변환 (빈 칸이나 숫자가 아니면 NaN)
+ */
+const toNumber = (value: string): number => (value.trim() === '' ? NaN : Number(value));
+
+export class HistoryTransferService {
+  static readonly FORMAT = 'timergym-history';
+  static readonly VERSION = 1;
+
+  private db: IndexedDBService;
+
+  constructor(db: IndexedDBService = new IndexedDBService()) {
+    this.db = db;
+  }
+
+  /**
+   * 기록을 버전이 있는 JSON 문자열로 변환
+   */
+  static toJSON(sessions: WorkoutSession[], now: Date = new Date()): string {
+    const file: HistoryExportFile = {
+      format: HistoryTransferService.FORMAT,
+      version: HistoryTransferService.VERSION,
+      exportedAt: now.toISOString(),
+      sessions,
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * JSON 문자열에서 기록 읽기
+   * 파일 구조가 잘못되면 오류, 잘못된 기록은 제외 후 개수만 반환
+   */
+  static fromJSON(text: string): ParsedHistory {
+    let file: HistoryExportFile;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new Error('JSON 파일을 읽을 수 없습니다.');
+    }
+
+    if (typeof file !== 'object' || file === null || file.format !== HistoryTransferService.FORMAT || !Array.isArray(file.sessions)) {
+      throw new Error('운동 기록 파일 형식이 아닙니다.');
+    }
+    if (!Number.isInteger(file.version) || file.version > HistoryTransferService.VERSION) {
+      throw new Error(`지원하지 않는 파일 버전입니다. (v${file.version})`);
+    }
+
+    const sessions = file.sessions.map(normalizeSession).filter(isValidSession);
+    return { sessions, rejected: file.sessions.length - sessions.length };
+  }
+
+  /**
+   * 기록을 CSV 문자열로 변환 (한 행에 한 세션, 일시정지/랩은 세미콜론으로 구분)
+   */
+  static toCSV(sessions: WorkoutSession[]): string {
+    const rows = sessions.map(session => [
+      session.id,
+      session.mode,
+      new Date(session.startedAt).toISOString(),
+      new Date(session.endedAt).toISOString(),
+      String(session.duration),
+      String(session.elapsedTime),
+      String(session.repetitions),
+      String(session.completed),
+      session.pauses.map(pause => `${pause.startedAt}-${pause.endedAt}`).join(';'),
+      session.laps.map(lap => String(lap.lapTime)).join(';'),
+      session.overtime === null ? '' : String(session.overtime),
+    ].map(escapeCSV).join(','));
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * CSV 문자열에서 기록 읽기
+   * 헤더가 맞지 않으면 오류, 잘못된 행은 제외 후 개수만 반환
+   */
+  static fromCSV(text: string): ParsedHistory {
+    // 스프레드시트가 붙이는 BOM 제거
+    const [header, ...rows] = parseCSVRows(text.replace(/^\uFEFF/, ''));
+    const columns = header?.map(column => column.trim());
+    if (!columns || CSV_COLUMNS.some(column => !columns.includes(column) && !OPTIONAL_CSV_COLUMNS.includes(column))) {
+      throw new Error('운동 기록 CSV 형식이 아닙니다.');
+    }
+
+    const sessions: WorkoutSession[] = [];
+    rows.forEach(cells => {
+      const get = (column: typeof CSV_COLUMNS[number]) => cells[columns.indexOf(column)] ?? '';
+
+      const pauses = get('pauses').split(';').filter(Boolean).map(pair => {
+        const [startedAt, endedAt] = pair.split('-').map(toNumber);
+        return { startedAt, endedAt };
+      });
+
+      // 랩 번호와 누적 시간은 랩 시간으로 다시 계산
+      let totalTime = 0;
+      const laps = get('laps_ms').split(';').filter(Boolean).map((value, index) => {
+        const lapTime = toNumber(value);
+        totalTime += lapTime;
+        return { number: index + 1, lapTime, totalTime };
+      });
+
+      const completed = get('completed').trim().toLowerCase();
+      const overtime = get('overtime_ms').trim();
+      const session = {
+        id: get('id').trim(),
+        mode: get('mode').trim() as TimerMode,
+        duration: toNumber(get('duration_seconds')),
+        elapsedTime: toNumber(get('elapsed_ms')),
+        pauses,
+        repetitions: toNumber(get('repetitions')),
+        laps,
+        overtime: overtime === '' ? null : toNumber(overtime),
+        startedAt: Date.parse(get('started_at')),
+        endedAt: Date.parse(get('ended_at')),
+        completed: completed === 'true' ? true : completed === 'false' ? false : undefined,
+      };
+
+      if (isValidSession(session)) {
+        sessions.push(session);
+      }
+    });
+
+    return { sessions, rejected: rows.length - sessions.length };
+  }
+
+  /**
+   * 저장된 모든 기록 내보내기
+   */
+  async exportHistory(format: HistoryFileFormat): Promise<string> {
+    // 스프레드시트에서 보기 쉽도록 오래된 순으로 정렬
+    const sessions = (await this.db.getSessions()).reverse();
+    return format === 'csv' ? HistoryTransferService.toCSV(sessions) : HistoryTransferService.toJSON(sessions);
+  }
+
+  /**
+   * 파일 내용에서 기록 가져오기 (이미 있는 id나 파일 안의 중복 id는 건너뜀)
+   */
+  async importHistory(text: string, format: HistoryFileFormat): Promise<HistoryImportResult> {
+    const parsed = format === 'csv' ? HistoryTransferService.fromCSV(text) : HistoryTransferService.fromJSON(text);
+    const knownIds = new Set((await this.db.getSessions()).map(session => session.id));
+
+    const newSessions = parsed.sessions.filter(session => {
+      if (knownIds.has(session.id)) {
+        return false;
+      }
+      knownIds.add(session.id);
+      return true;
+    });
+
+    if (newSessions.length > 0) {
+      await this.db.saveSessions(newSessions);
+    }
+
+    return {
+      imported: newSessions.length,
+      duplicates: parsed.sessions.length - newSessions.length,
+      rejected: parsed.rejected,
+    };
+  }
+
+  /**
+   * 내보낸 내용을 파일로 다운로드
+   */
+  static download(content: string, format: HistoryFileFormat, now: Date = new Date()): void {
+    const date = now.toISOString().slice(0, 10);
+    // 엑셀에서 한글이 깨지지 않도록 CSV에는 BOM 추가
+    const blob = format === 'csv'
+      ? new Blob(['\uFEFF', content], { type: 'text/csv;charset=utf-8' })
+      : new Blob([content], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `workout-history-${date}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * 파일 확장자로 형식 판별 (지원하지 않으면 null)
+   */
+  static detectFormat(fileName: string): HistoryFileFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    return extension === 'csv' || extension === 'json' ? extension : null;
+  }
+
+  /**
+   * 서비스 정리
+   */
+  destroy(): void {
+    this.db.destroy();
+  }
+}
@@ -1,23 +1,105 @@
 // IndexedDB Service - 타이머 상태 영구 저장
-import type { TimerState } from '../types';
+import type { CustomSound, TimerState, WorkoutSession } from '../types';
+import { DEFAULT_EMOM_CONFIG, DEFAULT_INTERVAL_CONFIG } from '../types';
 
 export interface StoredTimerState extends TimerState {
   id: string;
   timestamp: number;
-  version: number;
+  version: number; // 레코드를 저장한 DB 스키마 버전
 }
 
+const DB_NAME = 'WorkoutTimerDB';
+const DB_VERSION = 3;
+const STORE_NAME = 'timerStates';
+const SESSIONS_STORE_NAME = 'sessions';
+const SOUNDS_STORE_NAME = 'sounds';
+
+// 스키마 마이그레이션 (upgrade 트랜잭션 안에서 실행)
+type SchemaMigration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// 레코드 마이그레이션 (이전 버전에서 저장한 레코드를 다음 버전 형식으로 변환)
+type RecordMigration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * 타이머 상태 레코드 마이그레이션 (인덱스 n은 v(n+1) → v(n+2))
+ */
+const TIMER_STATE_MIGRATIONS: RecordMigration[] = [
+  // v1 → v2: 인터벌/EMOM/AMRAP/랩/준비 카운트다운/초과 시간 항목 추가 (없는 항목만 기본값으로 채움)
+  record => ({
+    interval: DEFAULT_INTERVAL_CONFIG,
+    emom: DEFAULT_EMOM_CONFIG,
+    currentRound: 1,
+    phase: 'work',
+    roundSplits: [],
+    amrapSummary: null,
+    laps: [],
+    preStartRemaining: null,
+    overtime: null,
+    ...record,
+  }),
+  // v2 → v3: 타이머 상태 형식은 그대로 (알림음 저장소만 추가)
+  record => record,
+];
+
+/**
+ * 저장된 타이머 상태를 현재 스키마 버전으로 단계별 변환
+ * 버전 정보가 없는 레코드는 v1로 취급, 더 새로운 버전이면 변환하지 않음
+ */
+export function migrateStoredTimerState(record: StoredTimerState): StoredTimerState {
+  let version = Number.isInteger(record.version) && record.version >= 1 ? record.version : 1;
+  let migrated: Record<string, unknown> = { ...record };
+
+  while (version < DB_VERSION) {
+    migrated = TIMER_STATE_MIGRATIONS[version - 1](migrated);
+    version++;
+  }
+
+  return { ...migrated, version } as StoredTimerState;
+}
+
+/**
+ * 업그레이드 시 저장소의 모든 타이머 상태 레코드 변환
+ */
+const migrateTimerStateRecords = (transaction: IDBTransaction): void => {
+  const request = transaction.objectStore(STORE_NAME).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(migrateStoredTimerState(cursor.value));
+    cursor.continue();
+  };
+};
+
+/**
+ * DB 스키마 마이그레이션 (인덱스 n은 v(n) → v(n+1), 이전 버전부터 순서대로 실행)
+ */
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  // v0 → v1: 타이머 상태 저장소 생성
+  db => {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp', { unique: false });
+  },
+  // v1 → v2: 운동 기록 저장소 생성, 기존 타이머 상태 레코드 변환
+  (db, transaction) => {
+    const sessions = db.createObjectStore(SESSIONS_STORE_NAME, { keyPath: 'id' });
+    sessions.createIndex('startedAt', 'startedAt', { unique: false });
+    migrateTimerStateRecords(transaction);
+  },
+  // v2 → v3: 사용자 지정 알림음 저장소 생성
+  db => {
+    db.createObjectStore(SOUNDS_STORE_NAME, { keyPath: 'id' });
+  },
+];
+
 export class IndexedDBService {
-  private static readonly DB_NAME = 'WorkoutTimerDB';
-  private static readonly DB_VERSION = 1;
-  private static readonly STORE_NAME = 'timerStates';
   private static readonly CURRENT_STATE_ID = 'current';
   
   private db: IDBDatabase | null = null;
   private isInitialized: boolean = false;
+  private readonly initPromise: Promise<void>;
 
   constructor() {
-    this.initializeDB();
+    this.initPromise = this.initializeDB();
   }
 
   /**
@@ -43,7 +125,7 @@ export class IndexedDBService {
    */
   private openDatabase(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(IndexedDBService.DB_NAME, IndexedDBService.DB_VERSION);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
 
       request.onerror = () => {
         reject(new Error('Failed to open IndexedDB'));
@@ -54,12 +136,12 @@ export class IndexedDBService {
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // 타이머 상태 저장소 생성
-        if (!db.objectStoreNames.contains(IndexedDBService.STORE_NAME)) {
-          const store = db.createObjectStore(IndexedDBService.STORE_NAME, { keyPath: 'id' });
-          store.createIndex('timestamp', 'timestamp', { unique: false });
+        const db = request.result;
+        const transaction = request.transaction!;
+
+        // 저장된 버전부터 최신 버전까지 단계별로 실행 (데이터 유지)
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          SCHEMA_MIGRATIONS[version](db, transaction);
         }
       };
     });
@@ -78,7 +160,7 @@ export class IndexedDBService {
       ...timerState,
       id: IndexedDBService.CURRENT_STATE_ID,
       timestamp: Date.now(),
-      version: IndexedDBService.DB_VERSION
+      version: DB_VERSION
     };
 
     try {
@@ -101,16 +183,16 @@ export class IndexedDBService {
       const storedState = await this.getData(IndexedDBService.CURRENT_STATE_ID);
       
       if (storedState) {
-        // 버전 호환성 확인
-        if (storedState.version !== IndexedDBService.DB_VERSION) {
+        // 더 새로운 버전의 앱에서 저장한 상태는 해석할 수 없으므로 무시 (삭제하지 않음)
+        if (storedState.version > DB_VERSION) {
           console.warn('Stored state version mismatch, ignoring stored state');
-          await this.clearCurrentState();
           return null;
         }
 
-        // StoredTimerState에서 TimerState로 변환
-        const { id, timestamp, version, ...timerState } = storedState;
-        return timerState;
+        // StoredTimerState에서 TimerState로 변환 (이전 버전 레코드는 마이그레이션)
+        const { id, timestamp, version, ...timerState } = migrateStoredTimerState(storedState);
+        // 구간 추가 시간 항목이 생기기 전에 저장한 상태는 추가한 시간 없음으로 읽음
+        return { ...timerState, addedTime: timerState.addedTime ?? 0 };
       }
 
       return null;
@@ -145,8 +227,8 @@ export class IndexedDBService {
         return;
       }
 
-      const transaction = this.db.transaction([IndexedDBService.STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(IndexedDBService.STORE_NAME);
+      const transaction = this.db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
       const request = store.put(data);
 
       request.onerror = () => {
@@ -169,8 +251,8 @@ export class IndexedDBService {
         return;
       }
 
-      const transaction = this.db.transaction([IndexedDBService.STORE_NAME], 'readonly');
-      const store = transaction.objectStore(IndexedDBService.STORE_NAME);
+      const transaction = this.db.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
       const request = store.get(id);
 
       request.onerror = () => {
@@ -193,8 +275,8 @@ export class IndexedDBService {
         return;
       }
 
-      const transaction = this.db.transaction([IndexedDBService.STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(IndexedDBService.STORE_NAME);
+      const transaction = this.db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
       const request = store.delete(id);
 
       request.onerror = () => {
@@ -220,7 +302,7 @@ export class IndexedDBService {
       ...timerState,
       id,
       timestamp: Date.now(),
-      version: IndexedDBService.DB_VERSION
+      version: DB_VERSION
     };
 
     await this.putData(storedState);
@@ -239,8 +321,9 @@ export class IndexedDBService {
       const storedState = await this.getData(backupId);
       
       if (storedState) {
-        const { id, timestamp, version, ...timerState } = storedState;
-        return timerState;
+        const { id, timestamp, version, ...timerState } = migrateStoredTimerState(storedState);
+        // 구간 추가 시간 항목이 생기기 전에 저장한 상태는 추가한 시간 없음으로 읽음
+        return { ...timerState, addedTime: timerState.addedTime ?? 0 };
       }
 
       return null;
@@ -259,8 +342,8 @@ export class IndexedDBService {
     }
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([IndexedDBService.STORE_NAME], 'readonly');
-      const store = transaction.objectStore(IndexedDBService.STORE_NAME);
+      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
       const request = store.getAll();
 
       request.onerror = () => {
@@ -306,6 +389,149 @@ export class IndexedDBService {
     }
   }
 
+  /**
+   * 운동 기록 저장 (같은 id가 있으면 덮어씀)
+   */
+  async saveSession(session: WorkoutSession): Promise<void> {
+    await this.initPromise;
+    await this.runStoreRequest(SESSIONS_STORE_NAME, 'readwrite', store => store.put(session));
+  }
+
+  /**
+   * 여러 운동 기록을 한 트랜잭션으로 저장 (하나라도 실패하면 모두 취소)
+   */
+  async saveSessions(sessions: WorkoutSession[]): Promise<void> {
+    await this.initPromise;
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction([SESSIONS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SESSIONS_STORE_NAME);
+      sessions.forEach(session => store.put(session));
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to save sessions'));
+      };
+    });
+  }
+
+  /**
+   * 모든 운동 기록 (최신순)
+   */
+  async getSessions(): Promise<WorkoutSession[]> {
+    await this.initPromise;
+    if (!this.db) {
+      return [];
+    }
+
+    const sessions = await this.runStoreRequest<WorkoutSession[]>(SESSIONS_STORE_NAME, 'readonly', store => store.getAll());
+    // 초과 시간 항목이 생기기 전에 저장한 기록은 초과 시간 없음으로 읽음
+    return sessions
+      .map(session => ({ ...session, overtime: session.overtime ?? null }))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * 운동 기록 삭제
+   */
+  async deleteSession(id: string): Promise<void> {
+    await this.initPromise;
+    await this.runStoreRequest(SESSIONS_STORE_NAME, 'readwrite', store => store.delete(id));
+  }
+
+  /**
+   * 모든 운동 기록 삭제
+   */
+  async clearSessions(): Promise<void> {
+    await this.initPromise;
+    await this.runStoreRequest(SESSIONS_STORE_NAME, 'readwrite', store => store.clear());
+  }
+
+  /**
+   * 사용자 지정 알림음 저장 (같은 id가 있으면 덮어씀)
+   */
+  async saveSound(sound: CustomSound): Promise<void> {
+    await this.initPromise;
+    await this.runStoreRequest(SOUNDS_STORE_NAME, 'readwrite', store => store.put(sound));
+  }
+
+  /**
+   * 사용자 지정 알림음 하나 (없으면 null)
+   */
+  async getSound(id: string): Promise<CustomSound | null> {
+    await this.initPromise;
+    if (!this.db) {
+      return null;
+    }
+
+    const sound = await this.runStoreRequest<CustomSound | undefined>(SOUNDS_STORE_NAME, 'readonly', store => store.get(id));
+    return sound ?? null;
+  }
+
+  /**
+   * 모든 사용자 지정 알림음 (추가한 순서)
+   */
+  async getSounds(): Promise<CustomSound[]> {
+    await this.initPromise;
+    if (!this.db) {
+      return [];
+    }
+
+    const sounds = await this.runStoreRequest<CustomSound[]>(SOUNDS_STORE_NAME, 'readonly', store => store.getAll());
+    return sounds.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * 사용자 지정 알림음 삭제
+   */
+  async deleteSound(id: string): Promise<void> {
+    await this.initPromise;
+    await this.runStoreRequest(SOUNDS_STORE_NAME, 'readwrite', store => store.delete(id));
+  }
+
+  /**
+   * 모든 사용자 지정 알림음 삭제
+   */
+  async clearSounds(): Promise<void> {
+    await this.initPromise;
+    await this.runStoreRequest(SOUNDS_STORE_NAME, 'readwrite', store => store.clear());
+  }
+
+  /**
+   * 운동 기록/알림음 저장소 요청 실행 (내부 메서드)
+   */
+  private runStoreRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction([storeName], mode);
+      const store = transaction.objectStore(storeName);
+      const request = operation(store);
+
+      request.onerror = () => {
+        reject(new Error(`Failed to access ${storeName}`));
+      };
+
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+    });
+  }
+
   /**
    * 데이터베이스 상태 확인
    */
@@ -0,0 +1,154 @@
+// Media Session Service - 잠금 화면/알림 영역의 미디어 컨트롤로 타이머 조작 (Media Session API)
+import type { TimerMode, TimerSnapshot } from '../types';
+import { formatClock } from '../utils';
+import type { TimerEventBus } from './TimerEventBus';
+
+// 미디어 컨트롤 버튼 (재생: 시작/재개, 일시정지, 다음 트랙: 구간 건너뛰기, 이전 트랙: 초기화)
+export type MediaSessionControl = 'play' | 'pause' | 'nexttrack' | 'previoustrack';
+
+// 잠금 화면에 컨트롤을 띄우기 위한 무음 재생 (AudioNotificationService)
+export interface AudioKeepAlive {
+  startKeepAlive(): Promise<void>;
+  stopKeepAlive(): void;
+}
+
+const CONTROLS: MediaSessionControl[] = ['play', 'pause', 'nexttrack', 'previoustrack'];
+
+const MODE_LABELS: Record<TimerMode, string> = {
+  timer: '타이머',
+  stopwatch: '스톱워치',
+  interval: '인터벌',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+};
+
+/**
+ * 잠금 화면에 표시할 제목(남은 시간)과 설명(모드, 구간, 라운드)
+ */
+export const getMediaSessionText = (snapshot: TimerSnapshot): { title: string; artist: string } => {
+  const { mode, timeMs, phase, round, totalRounds } = snapshot;
+  // 카운트다운은 올림, 스톱워치는 내림 (화면 표시와 동일)
+  const seconds = mode === 'stopwatch' ? Math.floor(timeMs / 1000) : Math.ceil(timeMs / 1000);
+  const time = formatClock(seconds);
+
+  switch (mode) {
+    case 'interval':
+      return {
+        title: `${time} ${phase === 'work' ? '운동' : '휴식'}`,
+        artist: `${MODE_LABELS[mode]} · 라운드 ${round}/${totalRounds}`,
+      };
+    case 'emom':
+      return { title: `${time} 남음`, artist: `${MODE_LABELS[mode]} · 라운드 ${round}/${totalRounds}` };
+    case 'stopwatch':
+      return { title: `${time} 경과`, artist: MODE_LABELS[mode] };
+    default:
+      return { title: `${time} 남음`, artist: MODE_LABELS[mode] };
+  }
+};
+
+export class MediaSessionService {
+  private onControl: (control: MediaSessionControl) => void;
+  private audio: AudioKeepAlive | null;
+  private active = false;
+  private lastTitle: string | null = null;
+
+  /**
+   * @param onControl 미디어 컨트롤 버튼 처리
+   * @param audio 무음 재생 (없으면 미디어 세션만 등록)
+   */
+  constructor(onControl: (control: MediaSessionControl) => void, audio: AudioKeepAlive | null = null) {
+    this.onControl = onControl;
+    this.audio = audio;
+  }
+
+  /**
+   * Media Session API 지원 여부
+   */
+  static get supported(): boolean {
+    return typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+  }
+
+  /**
+   * 타이머 이벤트 구독 (시작하면 미디어 세션 등록, 완료/초기화하면 해제)
+   * @returns 구독 해제 함수
+   */
+  connect(events: TimerEventBus): () => void {
+    const update = () => this.update(events.getSnapshot());
+    const unsubscribers = [
+      // 시작 직후 스냅샷에는 아직 남은 시간이 없으므로 첫 틱에서 표시
+      events.on('started', () => this.update(events.getSnapshot(), false)),
+      events.on('resumed', update),
+      events.on('paused', update),
+      events.on('tick', update),
+      events.on('phase-changed', update),
+      events.on('completed', () => this.deactivate()),
+      events.on('stopped', () => this.deactivate()),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      this.deactivate();
+    };
+  }
+
+  /**
+   * 재생 상태와 표시 정보 갱신 (표시되는 초가 바뀔 때만 메타데이터 변경)
+   */
+  private update(snapshot: TimerSnapshot, updateMetadata = true): void {
+    if (!MediaSessionService.supported || snapshot.status === 'idle' || snapshot.status === 'completed') {
+      return;
+    }
+    if (!this.active) {
+      this.activate();
+    }
+
+    navigator.mediaSession.playbackState = snapshot.status === 'running' ? 'playing' : 'paused';
+
+    if (!updateMetadata) {
+      return;
+    }
+    const { title, artist } = getMediaSessionText(snapshot);
+    if (title === this.lastTitle || typeof MediaMetadata === 'undefined') {
+      return;
+    }
+    this.lastTitle = title;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title,
+      artist,
+      album: '운동 타이머',
+      artwork: [{ src: '/pwa-512x512.svg', sizes: '512x512', type: 'image/svg+xml' }],
+    });
+  }
+
+  /**
+   * 미디어 컨트롤 버튼 등록 및 무음 재생 시작 (내부 메서드)
+   */
+  private activate(): void {
+    this.active = true;
+    CONTROLS.forEach(control => this.setActionHandler(control, () => this.onControl(control)));
+    this.audio?.startKeepAlive();
+  }
+
+  /**
+   * 미디어 세션 해제 (잠금 화면 컨트롤 제거)
+   */
+  private deactivate(): void {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+    this.lastTitle = null;
+    this.audio?.stopKeepAlive();
+    CONTROLS.forEach(control => this.setActionHandler(control, null));
+    navigator.mediaSession.metadata = null;
+    navigator.mediaSession.playbackState = 'none';
+  }
+
+  private setActionHandler(control: MediaSessionControl, handler: MediaSessionActionHandler | null): void {
+    try {
+      navigator.mediaSession.setActionHandler(control, handler);
+    } catch {
+      // 브라우저가 지원하지 않는 동작은 무시
+    }
+  }
+}
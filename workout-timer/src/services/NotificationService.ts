@@ -1,6 +1,9 @@
 import { AudioNotificationService } from './AudioNotificationService';
 import { VibrationService } from './VibrationService';
-import type { SettingsState, NotificationOptions } from '../types';
+import { CustomSoundService } from './CustomSoundService';
+import { VIBRATION_PATTERNS } from '../types';
+import type { SettingsState, NotificationOptions, IntervalPhase, SoundType } from '../types';
+import { isCustomSoundId } from '../utils';
 
 /**
  * NotificationService - 오디오 및 진동 알림을 통합 관리하는 서비스
@@ -11,6 +14,7 @@ export class NotificationService {
   private vibrationService: VibrationService;
   private settings: SettingsState['sound'] & SettingsState['vibration'];
   private isInitialized: boolean = false;
+  private customSoundService: CustomSoundService | null = null; // 사용자 지정 알림음을 고를 때 생성
 
   constructor() {
     this.audioService = new AudioNotificationService();
@@ -63,10 +67,35 @@ export class NotificationService {
     if (this.vibrationService && typeof this.vibrationService.setEnabled === 'function') {
       this.vibrationService.setEnabled(vibrationSettings.enabled);
     }
+
+    this.loadSelectedCustomSounds();
     
     console.log('NotificationService settings updated:', this.settings);
   }
 
+  /**
+   * 선택한 사용자 지정 알림음을 IndexedDB에서 불러와 등록 (이미 불러온 알림음은 건너뜀)
+   * 불러오기 전이나 실패한 경우에는 기본 알림음으로 재생됩니다.
+   */
+  private async loadSelectedCustomSounds(): Promise<void> {
+    const selected = new Set([this.settings.countdownSound, this.settings.completionSound]);
+    for (const id of selected) {
+      if (!isCustomSoundId(id) || this.audioService.hasSound(id)) {
+        continue;
+      }
+
+      try {
+        this.customSoundService ??= new CustomSoundService();
+        const sound = await this.customSoundService.getSound(id);
+        if (sound) {
+          await this.audioService.addCustomSound(sound);
+        }
+      } catch (error) {
+        console.error('Failed to load custom sound:', error);
+      }
+    }
+  }
+
   /**
    * 카운트다운 알림 (3, 2, 1초)
    * 설정에 따라 사운드와 진동을 실행합니다.
@@ -81,7 +110,7 @@ export class NotificationService {
 
     // 사운드 알림
     if (this.settings.enabled && this.audioService.isReady()) {
-      promises.push(this.audioService.playCountdown());
+      promises.push(this.audioService.playCountdown(this.settings.countdownSound as SoundType));
     }
 
     // 진동 알림
@@ -111,7 +140,7 @@ export class NotificationService {
 
     // 사운드 알림
     if (this.settings.enabled && this.audioService.isReady()) {
-      promises.push(this.audioService.playCompletion());
+      promises.push(this.audioService.playCompletion(this.settings.completionSound as SoundType));
     }
 
     // 진동 알림
@@ -127,6 +156,130 @@ export class NotificationService {
     }
   }
 
+  /**
+   * 인터벌 구간 카운트다운 알림 (3, 2, 1초)
+   * 운동/휴식 구간에 따라 다른 알림음을 사용합니다.
+   */
+  async notifyPhaseCountdown(phase: IntervalPhase): Promise<void> {
+    if (!this.isInitialized) {
+      console.warn('NotificationService is not initialized');
+      return;
+    }
+
+    const promises: Promise<void>[] = [];
+
+    // 사운드 알림
+    if (this.settings.enabled && this.audioService.isReady()) {
+      promises.push(this.audioService.playPhaseCountdown(phase));
+    }
+
+    // 진동 알림
+    if (this.vibrationService.isVibrationEnabled() && this.vibrationService.isVibrationSupported()) {
+      this.vibrationService.vibrateCountdown();
+    }
+
+    try {
+      await Promise.all(promises);
+    } catch (error) {
+      console.error('Error during phase countdown notification:', error);
+    }
+  }
+
+  /**
+   * 인터벌 구간 시작 알림
+   * 직전 구간의 완료 알림을 겸하며, 운동/휴식 시작마다 다른 사운드와 진동 패턴을 사용합니다.
+   */
+  async notifyPhaseStart(phase: IntervalPhase): Promise<void> {
+    if (!this.isInitialized) {
+      console.warn('NotificationService is not initialized');
+      return;
+    }
+
+    const promises: Promise<void>[] = [];
+
+    // 사운드 알림
+    if (this.settings.enabled && this.audioService.isReady()) {
+      promises.push(this.audioService.playPhaseStart(phase));
+    }
+
+    // 진동 알림
+    if (this.vibrationService.isVibrationEnabled() && this.vibrationService.isVibrationSupported()) {
+      this.vibrationService.vibrate(
+        phase === 'work' ? VIBRATION_PATTERNS.WORK_START : VIBRATION_PATTERNS.REST_START
+      );
+    }
+
+    try {
+      await Promise.all(promises);
+    } catch (error) {
+      console.error('Error during phase start notification:', error);
+    }
+  }
+
+  /**
+   * EMOM 라운드 시작 알림 (매 분 시작)
+   * 운동 구간 시작과 같은 사운드/진동을 사용합니다.
+   */
+  async notifyRoundStart(): Promise<void> {
+    await this.notifyPhaseStart('work');
+  }
+
+  /**
+   * 시작 전 준비 카운트다운 알림 (매 초)
+   */
+  async notifyPreStartTick(): Promise<void> {
+    if (!this.isInitialized) {
+      console.warn('NotificationService is not initialized');
+      return;
+    }
+
+    const promises: Promise<void>[] = [];
+
+    // 사운드 알림
+    if (this.settings.enabled && this.audioService.isReady()) {
+      promises.push(this.audioService.playPreStartTick());
+    }
+
+    // 진동 알림
+    if (this.vibrationService.isVibrationEnabled() && this.vibrationService.isVibrationSupported()) {
+      this.vibrationService.vibrate(VIBRATION_PATTERNS.PRE_START_TICK);
+    }
+
+    try {
+      await Promise.all(promises);
+    } catch (error) {
+      console.error('Error during pre-start notification:', error);
+    }
+  }
+
+  /**
+   * 준비 카운트다운 종료 알림 - 실제 운동 시작
+   */
+  async notifyPreStartEnd(): Promise<void> {
+    if (!this.isInitialized) {
+      console.warn('NotificationService is not initialized');
+      return;
+    }
+
+    const promises: Promise<void>[] = [];
+
+    // 사운드 알림
+    if (this.settings.enabled && this.audioService.isReady()) {
+      promises.push(this.audioService.playPhaseStart('work'));
+    }
+
+    // 진동 알림
+    if (this.vibrationService.isVibrationEnabled() && this.vibrationService.isVibrationSupported()) {
+      this.vibrationService.vibrate(VIBRATION_PATTERNS.PRE_START_END);
+    }
+
+    try {
+      await Promise.all(promises);
+    } catch (error) {
+      console.error('Error during pre-start notification:', error);
+    }
+  }
+
   /**
    * 알림 테스트 (설정 화면에서 사용)
    * @param type 테스트할 알림 타입
@@ -237,6 +390,8 @@ export class NotificationService {
     if (this.vibrationService && typeof this.vibrationService.stopVibration === 'function') {
       this.vibrationService.stopVibration();
     }
+    this.customSoundService?.destroy();
+    this.customSoundService = null;
     this.isInitialized = false;
   }
 
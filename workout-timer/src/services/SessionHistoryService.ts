@@ -0,0 +1,159 @@
+// Session History Service - 타이머 세션 추적 및 운동 기록 저장
+import type { Lap, SessionPause, TimerMode, WorkoutSession } from '../types';
+import { IndexedDBService } from './IndexedDBService';
+import { generateId } from '../utils';
+
+// 세션 종료 시 타이머 상태에서 가져오는 값
+export interface SessionResult {
+  repetitions: number;
+  laps: Lap[];
+  overtime: number | null;
+}
+
+// 진행 중인 세션의 일시정지 기록 (새로고침 후 이어서 할 때 넘겨받음)
+export interface SessionPauseState {
+  pauses: SessionPause[];
+  pausedAt: number | null;
+}
+
+interface ActiveSession {
+  id: string;
+  mode: TimerMode;
+  duration: number;
+  startedAt: number;
+  pauses: SessionPause[];
+  pausedAt: number | null;
+}
+
+export class SessionHistoryService {
+  // 실수로 시작 후 바로 정지한 세션은 기록하지 않음
+  private static readonly MIN_SESSION_MS = 1000;
+
+  private db: IndexedDBService;
+  private active: ActiveSession | null = null;
+
+  constructor(db: IndexedDBService = new IndexedDBService()) {
+    this.db = db;
+  }
+
+  /**
+   * 세션 시작 (진행 중인 세션이 있으면 기록하지 않고 버림)
+   * @param duration 설정 시간 (초)
+   * @param pauseState 새로고침 전까지의 일시정지 기록 (이어서 하는 세션)
+   */
+  begin(mode: TimerMode, duration: number, now: number = Date.now(), pauseState?: SessionPauseState): void {
+    this.active = {
+      id: generateId(),
+      mode,
+      duration,
+      startedAt: now,
+      pauses: pauseState ? [...pauseState.pauses] : [],
+      pausedAt: pauseState?.pausedAt ?? null,
+    };
+  }
+
+  /**
+   * 진행 중인 세션의 일시정지 기록 (진행 중인 세션이 없으면 null)
+   */
+  getPauseState(): SessionPauseState | null {
+    if (!this.active) {
+      return null;
+    }
+    return { pauses: [...this.active.pauses], pausedAt: this.active.pausedAt };
+  }
+
+  /**
+   * 일시정지 시작 시각 기록
+   */
+  pause(now: number = Date.now()): void {
+    if (this.active && this.active.pausedAt === null) {
+      this.active.pausedAt = now;
+    }
+  }
+
+  /**
+   * 재개 시 일시정지 구간 기록
+   */
+  resume(now: number = Date.now()): void {
+    if (this.active && this.active.pausedAt !== null) {
+      this.active.pauses.push({ startedAt: this.active.pausedAt, endedAt: now });
+      this.active.pausedAt = null;
+    }
+  }
+
+  /**
+   * 세션 종료 및 기록 저장
+   * @param completed 끝까지 완료했는지 여부 (false: 수동 정지)
+   * @returns 저장한 기록 (진행 중인 세션이 없거나 너무 짧으면 null)
+   */
+  async finish(result: SessionResult, completed: boolean, now: number = Date.now()): Promise<WorkoutSession | null> {
+    if (!this.active) {
+      return null;
+    }
+
+    // 일시정지 상태에서 정지하면 정지 시각까지를 일시정지 구간으로 기록
+    this.resume(now);
+    const { id, mode, duration, startedAt, pauses } = this.active;
+    this.active = null;
+
+    const pausedTime = pauses.reduce((total, pause) => total + (pause.endedAt - pause.startedAt), 0);
+    const elapsedTime = Math.max(0, now - startedAt - pausedTime);
+    if (elapsedTime < SessionHistoryService.MIN_SESSION_MS) {
+      return null;
+    }
+
+    const session: WorkoutSession = {
+      id,
+      mode,
+      duration,
+      elapsedTime,
+      pauses,
+      repetitions: result.repetitions,
+      laps: result.laps,
+      overtime: result.overtime,
+      startedAt,
+      endedAt: now,
+      completed,
+    };
+
+    await this.db.saveSession(session);
+    return session;
+  }
+
+  /**
+   * 진행 중인 세션을 기록하지 않고 버림
+   */
+  discard(): void {
+    this.active = null;
+  }
+
+  /**
+   * 진행 중인 세션이 있는지 여부
+   */
+  get isTracking(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * 저장된 운동 기록 (최신순)
+   */
+  getSessions(): Promise<WorkoutSession[]> {
+    return this.db.getSessions();
+  }
+
+  deleteSession(id: string): Promise<void> {
+    return this.db.deleteSession(id);
+  }
+
+  clearHistory(): Promise<void> {
+    return this.db.clearSessions();
+  }
+
+  /**
+   * 서비스 정리
+   */
+  destroy(): void {
+    this.active = null;
+    this.db.destroy();
+  }
+}
@@ -0,0 +1,228 @@
+// Speech Cue Service - 음성 합성(speechSynthesis)으로 남은 시간, 구간, 라운드, 다음 종목 안내
+import type { IntervalPhase, SettingsState } from '../types';
+import { DEFAULT_SETTINGS, SPEECH_CONSTANTS } from '../types';
+import type { TimerEventBus } from './TimerEventBus';
+
+export type SpeechSettings = SettingsState['speech'];
+// 안내 종류별 켜기/끄기 설정 항목 (timeLeftCue 등)
+export type SpeechCueSetting = Extract<keyof SpeechSettings, `${string}Cue`>;
+
+// 음성 안내 종류
+export type SpeechCue =
+  | { type: 'time-left'; seconds: number }
+  | { type: 'halfway' }
+  | { type: 'phase'; phase: IntervalPhase }
+  | { type: 'round'; round: number; totalRounds: number }
+  | { type: 'exercise'; name: string; upcoming: boolean }; // upcoming: 휴식 뒤에 이어질 종목
+
+// 안내 종류별 설정 항목
+const CUE_SETTINGS: Record<SpeechCue['type'], SpeechCueSetting> = {
+  'time-left': 'timeLeftCue',
+  halfway: 'halfwayCue',
+  phase: 'phaseCue',
+  round: 'roundCue',
+  exercise: 'exerciseCue',
+};
+
+// 언어별 안내 문구
+const CUE_TEXTS: Record<string, (cue: SpeechCue) => string> = {
+  'ko-KR': cue => {
+    switch (cue.type) {
+      case 'time-left':
+        return `${cue.seconds}초 남았습니다`;
+      case 'halfway':
+        return '절반 지났습니다';
+      case 'phase':
+        return cue.phase === 'work' ? '운동' : '휴식';
+      case 'round':
+        return `${cue.totalRounds}라운드 중 ${cue.round}라운드`;
+      case 'exercise':
+        return cue.upcoming ? `다음 종목, ${cue.name}` : cue.name;
+    }
+  },
+  'en-US': cue => {
+    switch (cue.type) {
+      case 'time-left':
+        return `${cue.seconds} seconds left`;
+      case 'halfway':
+        return 'Halfway';
+      case 'phase':
+        return cue.phase === 'work' ? 'Work' : 'Rest';
+      case 'round':
+        return `Round ${cue.round} of ${cue.totalRounds}`;
+      case 'exercise':
+        return cue.upcoming ? `Next up, ${cue.name}` : cue.name;
+    }
+  },
+};
+
+/**
+ * 안내 문구 (지원하지 않는 언어는 한국어)
+ */
+export const getSpeechCueText = (cue: SpeechCue, lang: string): string =>
+  (CUE_TEXTS[lang] ?? CUE_TEXTS['ko-KR'])(cue);
+
+export class SpeechCueService {
+  private settings: SpeechSettings = DEFAULT_SETTINGS.speech;
+  private fallback: () => void;
+  // 현재 구간의 직전 틱 남은 시간 (경계를 넘을 때 한 번만 안내하기 위해 사용)
+  private lastRemainingMs: number | null = null;
+  // 이 서비스가 대기열에 넣고 아직 끝나지 않은 안내 (음성 카운트와 대기열을 함께 씀)
+  private pending: Set<SpeechSynthesisUtterance> = new Set();
+
+  /**
+   * @param fallback 음성 합성을 사용할 수 없을 때 남은 시간/절반 안내 대신 재생할 비프음
+   */
+  constructor(fallback: () => void) {
+    this.fallback = fallback;
+  }
+
+  /**
+   * 음성 합성 지원 여부
+   */
+  static get supported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+  }
+
+  /**
+   * 언어에 맞는 음성 목록 (브라우저가 음성을 불러오기 전에는 빈 배열)
+   */
+  static getVoices(lang: string): SpeechSynthesisVoice[] {
+    if (!SpeechCueService.supported) {
+      return [];
+    }
+    const prefix = lang.split('-')[0];
+    return window.speechSynthesis.getVoices().filter(voice => voice.lang.replace('_', '-').startsWith(prefix));
+  }
+
+  /**
+   * 음성 안내 설정 업데이트 (음성 안내를 끌 때만 남은 안내 취소)
+   */
+  updateSettings(settings: SpeechSettings): void {
+    const wasEnabled = this.settings.enabled;
+    this.settings = settings;
+    if (wasEnabled && !settings.enabled) {
+      this.cancel();
+    }
+  }
+
+  /**
+   * 타이머 이벤트 구독 (카운트다운 틱마다 남은 시간/절반 확인, 구간 전환 시 구간/라운드 안내)
+   * @param getSegmentMs 현재 카운트다운 구간의 전체 길이 (밀리초, 스톱워치/알 수 없으면 null)
+   * @returns 구독 해제 함수
+   */
+  connect(events: TimerEventBus, getSegmentMs: () => number | null): () => void {
+    const resetSegment = () => {
+      this.lastRemainingMs = null;
+    };
+    const unsubscribers = [
+      events.on('started', resetSegment),
+      events.on('time-added', resetSegment),
+      events.on('tick', ({ mode, timeMs }) => {
+        if (mode !== 'stopwatch' && events.getSnapshot().status === 'running') {
+          this.checkRemaining(timeMs, getSegmentMs());
+        }
+      }),
+      events.on('phase-changed', ({ mode, phase, round, totalRounds }) => {
+        resetSegment();
+        if (mode === 'interval') {
+          this.cue({ type: 'phase', phase });
+        }
+        // 인터벌은 운동 구간이 시작될 때만 라운드 안내
+        if (mode === 'emom' || phase === 'work') {
+          this.cue({ type: 'round', round, totalRounds });
+        }
+      }),
+      events.on('stopped', () => {
+        resetSegment();
+        this.cancel();
+      }),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * 남은 시간이 안내 시점을 지나면 한 번 안내 (내부 메서드)
+   */
+  private checkRemaining(remainingMs: number, segmentMs: number | null): void {
+    const previous = this.lastRemainingMs;
+    this.lastRemainingMs = remainingMs;
+    if (previous === null || segmentMs === null) {
+      return;
+    }
+
+    const timeLeftMs = SPEECH_CONSTANTS.TIME_LEFT_SECONDS * 1000;
+    const halfMs = segmentMs / 2;
+    const crossed = (thresholdMs: number) => previous > thresholdMs && remainingMs <= thresholdMs;
+
+    // 짧은 구간은 절반과 남은 시간 안내가 겹치므로 남은 시간만 안내
+    if (halfMs > timeLeftMs && crossed(halfMs)) {
+      this.cue({ type: 'halfway' });
+    }
+    if (segmentMs > timeLeftMs && crossed(timeLeftMs)) {
+      this.cue({ type: 'time-left', seconds: SPEECH_CONSTANTS.TIME_LEFT_SECONDS });
+    }
+  }
+
+  /**
+   * 음성 안내 (설정에서 끈 안내는 무시)
+   * 음성 합성을 사용할 수 없으면 남은 시간/절반 안내만 비프음으로 대신 (구간 전환은 기존 구간 시작음 유지)
+   */
+  cue(cue: SpeechCue): void {
+    if (!this.settings.enabled || !this.settings[CUE_SETTINGS[cue.type]]) {
+      return;
+    }
+    if (!this.speak(getSpeechCueText(cue, this.settings.lang)) && (cue.type === 'time-left' || cue.type === 'halfway')) {
+      this.fallback();
+    }
+  }
+
+  /**
+   * 문구 읽기 (성공하면 true)
+   */
+  private speak(text: string): boolean {
+    if (!SpeechCueService.supported) {
+      return false;
+    }
+
+    try {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = this.settings.lang;
+      utterance.rate = this.settings.rate;
+      const voice = window.speechSynthesis.getVoices().find(item => item.voiceURI === this.settings.voiceURI);
+      if (voice) {
+        utterance.voice = voice;
+      }
+      utterance.onend = () => this.pending.delete(utterance);
+      utterance.onerror = () => this.pending.delete(utterance);
+      this.pending.add(utterance);
+      window.speechSynthesis.speak(utterance);
+      return true;
+    } catch (error) {
+      console.error('Failed to speak cue:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 읽고 있거나 대기 중인 안내 취소
+   * 음성 합성은 안내별로 취소할 수 없으므로 이 서비스의 안내가 남아 있을 때만 대기열을 비움
+   */
+  cancel(): void {
+    if (this.pending.size === 0) {
+      return;
+    }
+    this.pending.clear();
+    if (SpeechCueService.supported) {
+      window.speechSynthesis.cancel();
+    }
+  }
+
+  /**
+   * 서비스 정리
+   */
+  destroy(): void {
+    this.cancel();
+  }
+}
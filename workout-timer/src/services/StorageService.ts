@@ -1,8 +1,13 @@
 // Storage Service - localStorage wrapper with error handling
-import type { SettingsState } from '../types';
+import type { SettingsState, StoredSettings, Template } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
+import { repairSettings, validateSettings } from '../utils';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
 
 export class StorageService {
-  // 템플릿 키 제거
+  private static readonly TEMPLATES_KEY = 'workout-timer-templates';
   private static readonly SETTINGS_KEY = 'workout-timer-settings';
 
   /**
@@ -59,14 +64,110 @@ export class StorageService {
     }
   }
 
-  // 템플릿 관련 메서드 제거
+  // Template-specific methods
+  static saveTemplates(templates: Template[]): void {
+    this.setItem(this.TEMPLATES_KEY, templates);
+  }
+
+  /**
+   * 저장된 템플릿 목록 (JSON으로 직렬화된 createdAt은 Date로 복원)
+   */
+  static loadTemplates(): Template[] {
+    const templates = this.getItem<Template[]>(this.TEMPLATES_KEY);
+    if (!Array.isArray(templates)) {
+      return [];
+    }
+    return templates.map(template => ({
+      ...template,
+      createdAt: new Date(template.createdAt),
+    }));
+  }
 
   // Settings-specific methods
+  static readonly SETTINGS_VERSION = 6;
+
+  /**
+   * 설정 마이그레이션 목록 (인덱스 n은 v(n+1) → v(n+2), 순서대로 적용)
+   * v1: 버전 정보 없이 설정 객체를 그대로 저장하던 형식
+   */
+  private static readonly SETTINGS_MIGRATIONS: Array<(settings: Record<string, unknown>) => Record<string, unknown>> = [
+    // v1 → v2: 준비 카운트다운/초과 시간 설정(timer) 추가
+    settings => ({
+      ...settings,
+      timer: {
+        ...DEFAULT_SETTINGS.timer,
+        ...(isRecord(settings.timer) ? settings.timer : {})
+      }
+    }),
+    // v2 → v3: 이어하기 확인 기준 시간 추가
+    settings => ({
+      ...settings,
+      timer: {
+        resumePromptMinutes: DEFAULT_SETTINGS.timer.resumePromptMinutes,
+        ...(isRecord(settings.timer) ? settings.timer : {})
+      }
+    }),
+    // v3 → v4: 음성 안내 설정(speech) 추가
+    settings => ({
+      ...settings,
+      speech: {
+        ...DEFAULT_SETTINGS.speech,
+        ...(isRecord(settings.speech) ? settings.speech : {})
+      }
+    }),
+    // v4 → v5: 음성 카운트 목표 반복 횟수/템포(voiceCount) 추가
+    settings => ({
+      ...settings,
+      voiceCount: {
+        ...DEFAULT_SETTINGS.voiceCount,
+        ...(isRecord(settings.voiceCount) ? settings.voiceCount : {})
+      }
+    }),
+    // v5 → v6: 메트로놈 설정(metronome) 추가
+    settings => ({
+      ...settings,
+      metronome: {
+        ...DEFAULT_SETTINGS.metronome,
+        ...(isRecord(settings.metronome) ? settings.metronome : {})
+      }
+    })
+  ];
+
   static saveSettings(settings: SettingsState): void {
-    this.setItem(this.SETTINGS_KEY, settings);
+    const stored: StoredSettings = { version: this.SETTINGS_VERSION, settings };
+    this.setItem(this.SETTINGS_KEY, stored);
   }
 
   static loadSettings(): SettingsState | null {
-    return this.getItem<SettingsState>(this.SETTINGS_KEY);
+    const stored = this.getItem<unknown>(this.SETTINGS_KEY);
+    if (stored === null) {
+      return null;
+    }
+    return this.migrateSettings(stored);
+  }
+
+  /**
+   * 저장된 설정을 현재 버전으로 마이그레이션한 뒤 잘못된 값 복구
+   */
+  static migrateSettings(stored: unknown): SettingsState {
+    const isVersioned = isRecord(stored) && Number.isInteger(stored.version) && (stored.version as number) >= 1
+      && 'settings' in stored;
+    let version = isVersioned ? stored.version as number : 1;
+    let settings = isVersioned ? stored.settings : stored;
+
+    if (version > this.SETTINGS_VERSION) {
+      console.warn(`Settings were saved by a newer version (v${version}), keeping compatible values only`);
+    }
+
+    while (version < this.SETTINGS_VERSION && isRecord(settings)) {
+      settings = this.SETTINGS_MIGRATIONS[version - 1](settings);
+      version++;
+    }
+
+    const { errors } = validateSettings(isRecord(settings) ? settings : {});
+    if (errors.length > 0) {
+      console.warn('Invalid settings repaired with defaults:', errors);
+    }
+    return repairSettings(settings);
   }
-}
\ No newline at end of file
+}
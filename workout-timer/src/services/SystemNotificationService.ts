@@ -0,0 +1,276 @@
+// System Notification Service - 화면이 잠겨도 보이는 시스템 알림 (Notification API + Service Worker)
+import type { IntervalPhase, TimerMode } from '../types';
+import type { TimerEventBus } from './TimerEventBus';
+
+// 알림 버튼 동작 (open: 알림 본문 클릭)
+export type SystemNotificationAction = 'pause' | 'add-30' | 'skip' | 'open';
+
+export type SystemNotificationPermission = NotificationPermission | 'unsupported';
+
+// 현재 카운트다운이 끝날 때 보낼 알림
+export interface CountdownAlert {
+  at: number; // 알림 시각 (epoch 밀리초)
+  title: string;
+  body: string;
+}
+
+// Notification Triggers API (일부 Chromium 브라우저만 지원하여 표준 타입 정의 없음)
+type TimestampTriggerConstructor = new (timestamp: number) => object;
+// 예약 알림의 timestamp는 표시 예정 시각 (TypeScript DOM 타입에서 빠진 속성)
+type TimestampedNotification = Notification & { timestamp?: number };
+
+// 서비스 워커에서 앱 창으로 보내는 메시지 (public/notification-sw.js와 동일한 형식)
+interface NotificationActionMessage {
+  type: 'timer-notification-action';
+  action: SystemNotificationAction;
+}
+
+const ACTION_BUTTONS: { action: SystemNotificationAction; title: string }[] = [
+  { action: 'pause', title: '일시정지' },
+  { action: 'add-30', title: '+30초' },
+  { action: 'skip', title: '건너뛰기' },
+];
+
+/**
+ * 모드/구간별 카운트다운 종료 알림 (스톱워치는 알림 없음)
+ * @param remainingMs 현재 카운트다운의 남은 시간 (밀리초)
+ */
+export const getCountdownAlert = (
+  mode: TimerMode,
+  phase: IntervalPhase | null,
+  remainingMs: number,
+  now: number = Date.now()
+): CountdownAlert | null => {
+  if (mode === 'stopwatch' || remainingMs <= 0) {
+    return null;
+  }
+  const at = now + remainingMs;
+  switch (mode) {
+    case 'interval':
+      return phase === 'rest'
+        ? { at, title: '휴식 끝 – 다음 세트', body: '운동 구간을 시작하세요.' }
+        : { at, title: '운동 구간 끝', body: '휴식 구간이 시작됩니다.' };
+    case 'emom':
+      return { at, title: '다음 라운드 시작', body: '새 라운드를 시작하세요.' };
+    case 'amrap':
+      return { at, title: 'AMRAP 종료', body: '운동 시간이 끝났습니다.' };
+    default:
+      return { at, title: '휴식 끝 – 다음 세트', body: '설정한 시간이 끝났습니다. 다음 세트를 시작하세요.' };
+  }
+};
+
+export class SystemNotificationService {
+  private static readonly TAG = 'workout-timer-countdown';
+
+  private onAction: (action: SystemNotificationAction) => void;
+  private alert: CountdownAlert | null = null;
+  private fallbackTimeoutId: number | null = null;
+  private version = 0; // 예약/취소가 겹칠 때 오래된 예약을 무시하기 위한 번호
+
+  constructor(onAction: (action: SystemNotificationAction) => void) {
+    this.onAction = onAction;
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', this.handleMessage);
+    }
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  /**
+   * 시스템 알림 지원 여부
+   */
+  static get supported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  /**
+   * 현재 알림 권한
+   */
+  static getPermission(): SystemNotificationPermission {
+    return SystemNotificationService.supported ? Notification.permission : 'unsupported';
+  }
+
+  /**
+   * 알림 권한 요청 (설정 화면에서 사용자 상호작용으로 호출)
+   */
+  static async requestPermission(): Promise<SystemNotificationPermission> {
+    if (!SystemNotificationService.supported) {
+      return 'unsupported';
+    }
+    try {
+      return await Notification.requestPermission();
+    } catch (error) {
+      console.error('Failed to request notification permission:', error);
+      return Notification.permission;
+    }
+  }
+
+  /**
+   * 타이머 이벤트 구독 (시작/재개/구간 전환 시 예약, 일시정지/초기화 시 취소)
+   * @param getAlert 현재 카운트다운의 종료 알림
+   * @returns 구독 해제 함수
+   */
+  connect(events: TimerEventBus, getAlert: () => CountdownAlert | null): () => void {
+    const schedule = () => {
+      this.schedule(getAlert());
+    };
+    const unsubscribers = [
+      events.on('started', schedule),
+      events.on('resumed', schedule),
+      events.on('phase-changed', schedule),
+      events.on('time-added', schedule),
+      events.on('paused', () => this.cancel()),
+      events.on('stopped', () => this.cancel()),
+      events.on('completed', () => this.flush()),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * 카운트다운 종료 알림 예약 (이전 예약은 취소)
+   * 알림 예약(TimestampTrigger)을 지원하지 않으면 페이지 타이머로 대신 표시
+   */
+  async schedule(alert: CountdownAlert | null): Promise<void> {
+    const version = ++this.version;
+    // 구간 전환과 동시에 끝난 이전 구간의 알림은 먼저 표시하고, 아직 울리지 않은 예약만 취소
+    if (this.alert && this.alert.at <= Date.now()) {
+      this.flush();
+    }
+    this.clearFallback();
+    await this.closeNotifications(true);
+    if (!alert || SystemNotificationService.getPermission() !== 'granted') {
+      return;
+    }
+
+    const TimestampTrigger = (globalThis as { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger;
+    const registration = await this.getRegistration();
+    // 기다리는 동안 다시 예약되거나 취소되었으면 무시
+    if (version !== this.version) {
+      return;
+    }
+    if (TimestampTrigger && registration) {
+      await this.show(alert.title, alert.body, { showTrigger: new TimestampTrigger(alert.at) });
+      return;
+    }
+
+    this.alert = alert;
+    this.fallbackTimeoutId = window.setTimeout(() => this.flush(), Math.max(0, alert.at - Date.now()));
+  }
+
+  /**
+   * 예약한 알림과 표시 중인 알림 취소
+   */
+  async cancel(): Promise<void> {
+    this.version++;
+    this.clearFallback();
+    await this.closeNotifications(false);
+  }
+
+  /**
+   * 페이지 타이머로 예약한 알림을 바로 표시 (예약 시각이 되었거나 타이머가 완료되었을 때)
+   * 알림 예약(TimestampTrigger)으로 등록한 알림은 브라우저가 표시
+   */
+  private flush(): void {
+    const alert = this.alert;
+    this.clearFallback();
+    if (alert) {
+      this.show(alert.title, alert.body);
+    }
+  }
+
+  private clearFallback(): void {
+    this.alert = null;
+    if (this.fallbackTimeoutId !== null) {
+      window.clearTimeout(this.fallbackTimeoutId);
+      this.fallbackTimeoutId = null;
+    }
+  }
+
+  /**
+   * 서비스 워커 알림 닫기 (pendingOnly: 아직 표시되지 않은 예약 알림만)
+   */
+  private async closeNotifications(pendingOnly: boolean): Promise<void> {
+    const registration = await this.getRegistration();
+    if (!registration) {
+      return;
+    }
+    try {
+      const notifications = await registration.getNotifications({
+        tag: SystemNotificationService.TAG,
+        includeTriggered: true,
+      } as GetNotificationOptions);
+      const now = Date.now();
+      notifications
+        .filter((notification: TimestampedNotification) => !pendingOnly || (notification.timestamp ?? 0) > now)
+        .forEach(notification => notification.close());
+    } catch (error) {
+      console.error('Failed to cancel scheduled notifications:', error);
+    }
+  }
+
+  /**
+   * 알림 표시 (서비스 워커가 없으면 버튼 없이 페이지에서 표시)
+   */
+  private async show(title: string, body: string, extra: Record<string, unknown> = {}): Promise<void> {
+    const options = {
+      body,
+      tag: SystemNotificationService.TAG,
+      renotify: true,
+      icon: '/pwa-192x192.svg',
+      actions: ACTION_BUTTONS,
+      ...extra,
+    } as NotificationOptions;
+
+    try {
+      const registration = await this.getRegistration();
+      if (registration) {
+        await registration.showNotification(title, options);
+      } else {
+        new Notification(title, { body, tag: SystemNotificationService.TAG });
+      }
+    } catch (error) {
+      console.error('Failed to show system notification:', error);
+    }
+  }
+
+  /**
+   * 등록된 서비스 워커 (개발 환경처럼 등록되지 않았으면 null)
+   */
+  private async getRegistration(): Promise<ServiceWorkerRegistration | null> {
+    if (!('serviceWorker' in navigator)) {
+      return null;
+    }
+    try {
+      return (await navigator.serviceWorker.getRegistration()) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private handleMessage = (event: MessageEvent<NotificationActionMessage>): void => {
+    if (event.data?.type === 'timer-notification-action') {
+      this.onAction(event.data.action);
+    }
+  };
+
+  // 화면이 꺼지거나 다른 앱으로 전환되면 알림 버튼을 쓸 수 있도록 진행 중 알림을 바로 표시
+  private handleVisibilityChange = (): void => {
+    const alert = this.alert;
+    if (document.visibilityState !== 'hidden' || !alert || this.fallbackTimeoutId === null) {
+      return;
+    }
+    const endsAt = new Date(alert.at).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' });
+    this.show('운동 타이머 진행 중', `${endsAt}에 알림: ${alert.title}`, { silent: true, renotify: false });
+  };
+
+  /**
+   * 서비스 정리 (예약한 알림 취소)
+   */
+  destroy(): void {
+    this.cancel();
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', this.handleMessage);
+    }
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+}
@@ -0,0 +1,215 @@
+// Tab Sync Service - 여러 탭/창 사이 타이머 동기화 (BroadcastChannel + 리더 탭 선출)
+import type { TabSyncCommand, TimerState } from '../types';
+import { generateId } from '../utils';
+
+export interface TabSyncCallbacks {
+  onRoleChange: (isLeader: boolean) => void;
+  onState: (state: TimerState) => void; // 팔로워: 리더 탭의 최신 상태
+  onCommand: (command: TabSyncCommand) => void; // 리더: 팔로워 탭에서 보낸 명령
+  onStateRequest: () => void; // 리더: 새로 열린 탭이 현재 상태를 요청
+}
+
+type TabSyncMessage =
+  | { type: 'hello'; from: string }
+  | { type: 'state'; from: string; state: TimerState }
+  | { type: 'command'; from: string; command: TabSyncCommand }
+  | { type: 'resign'; from: string };
+
+// 리더 탭 임대 정보 (리더가 주기적으로 갱신, 만료되면 다른 탭이 인계)
+interface LeaderLease {
+  id: string;
+  expiresAt: number;
+}
+
+/**
+ * 하나의 리더 탭만 타이머와 알림음을 실행하고, 나머지 탭은 상태를 따라가며 조작 명령을 리더에게 전달
+ * 리더는 localStorage 임대로 정하므로 새 탭도 생성 즉시 자기 역할을 알 수 있음
+ */
+export class TabSyncService {
+  private static readonly CHANNEL_NAME = 'workout-timer-sync';
+  private static readonly LEASE_KEY = 'workout-timer-tab-leader';
+  private static readonly HEARTBEAT_INTERVAL = 1000;
+  private static readonly LEASE_DURATION = 3000;
+
+  readonly id = generateId();
+  private callbacks: TabSyncCallbacks;
+  private channel: BroadcastChannel | null = null;
+  private heartbeatId: number | null = null;
+  private leader = true;
+
+  constructor(callbacks: TabSyncCallbacks) {
+    this.callbacks = callbacks;
+
+    // 탭 간 통신을 지원하지 않으면 단독 리더로 동작
+    if (typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    this.channel = new BroadcastChannel(TabSyncService.CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabSyncMessage>) => this.handleMessage(event.data);
+    this.leader = this.tryClaim();
+    this.heartbeatId = window.setInterval(() => this.heartbeat(), TabSyncService.HEARTBEAT_INTERVAL);
+    window.addEventListener('pagehide', this.handlePageHide);
+
+    if (!this.leader) {
+      this.post({ type: 'hello', from: this.id });
+    }
+  }
+
+  /**
+   * 이 탭이 타이머를 실행하는 리더인지 여부
+   */
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * 리더 탭의 상태를 팔로워 탭에 전달
+   */
+  broadcastState(state: TimerState): void {
+    if (this.leader) {
+      this.post({ type: 'state', from: this.id, state });
+    }
+  }
+
+  /**
+   * 팔로워 탭의 조작 명령을 리더 탭에 전달
+   */
+  sendCommand(command: TabSyncCommand): void {
+    if (!this.leader) {
+      this.post({ type: 'command', from: this.id, command });
+    }
+  }
+
+  /**
+   * 탭 간 메시지 처리 (내부 메서드)
+   */
+  private handleMessage(message: TabSyncMessage): void {
+    switch (message.type) {
+      case 'hello':
+        if (this.leader) {
+          this.callbacks.onStateRequest();
+        }
+        break;
+      case 'state':
+        if (!this.leader) {
+          this.callbacks.onState(message.state);
+        }
+        break;
+      case 'command':
+        if (this.leader) {
+          this.callbacks.onCommand(message.command);
+        }
+        break;
+      case 'resign':
+        // 리더 탭이 닫히면 임대 만료를 기다리지 않고 바로 인계
+        if (!this.leader && this.tryClaim()) {
+          this.setLeader(true);
+        }
+        break;
+    }
+  }
+
+  /**
+   * 리더는 임대를 갱신하고, 팔로워는 임대가 만료되었는지 확인 (내부 메서드)
+   */
+  private heartbeat(): void {
+    if (this.leader) {
+      // 두 탭이 동시에 리더가 되었으면 임대를 나중에 기록한 탭에 양보
+      if (this.hasOtherLeader()) {
+        this.setLeader(false);
+        return;
+      }
+      this.writeLease();
+    } else if (this.tryClaim()) {
+      // 리더 탭이 알림 없이 사라진 경우 (탭 강제 종료 등)
+      this.setLeader(true);
+    }
+  }
+
+  /**
+   * 다른 리더가 없으면 임대를 기록하고 리더가 됨 (내부 메서드)
+   */
+  private tryClaim(): boolean {
+    if (this.hasOtherLeader()) {
+      return false;
+    }
+    this.writeLease();
+    return true;
+  }
+
+  private hasOtherLeader(): boolean {
+    const lease = this.readLease();
+    return lease !== null && lease.id !== this.id && lease.expiresAt > Date.now();
+  }
+
+  private setLeader(leader: boolean): void {
+    if (this.leader !== leader) {
+      this.leader = leader;
+      this.callbacks.onRoleChange(leader);
+    }
+  }
+
+  private readLease(): LeaderLease | null {
+    try {
+      const stored = localStorage.getItem(TabSyncService.LEASE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Failed to read tab leader lease:', error);
+      return null;
+    }
+  }
+
+  private writeLease(): void {
+    try {
+      const lease: LeaderLease = { id: this.id, expiresAt: Date.now() + TabSyncService.LEASE_DURATION };
+      localStorage.setItem(TabSyncService.LEASE_KEY, JSON.stringify(lease));
+    } catch (error) {
+      console.error('Failed to write tab leader lease:', error);
+    }
+  }
+
+  /**
+   * 리더 역할을 내려놓고 다른 탭에 알림 (내부 메서드)
+   */
+  private resign(): void {
+    if (!this.leader || !this.channel) {
+      return;
+    }
+    if (this.readLease()?.id === this.id) {
+      localStorage.removeItem(TabSyncService.LEASE_KEY);
+    }
+    this.post({ type: 'resign', from: this.id });
+  }
+
+  // 탭을 닫거나 다른 페이지로 이동할 때 (bfcache에서 돌아오면 다음 하트비트에서 다시 선출)
+  private handlePageHide = (): void => {
+    this.resign();
+    this.setLeader(false);
+  };
+
+  private post(message: TabSyncMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.error('Failed to post tab sync message:', error);
+    }
+  }
+
+  /**
+   * 서비스 정리 (리더였다면 다른 탭에 인계)
+   */
+  destroy(): void {
+    this.resign();
+    if (this.heartbeatId !== null) {
+      window.clearInterval(this.heartbeatId);
+      this.heartbeatId = null;
+    }
+    window.removeEventListener('pagehide', this.handlePageHide);
+    if (this.channel) {
+      this.channel.onmessage = null;
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+}
@@ -1,60 +1,136 @@
-// Timer Service Class - setInterval 기반 타이머/스톱워치 로직
-import type { TimerCallbacks } from '../types';
+// Timer Service Class - 벽시계(monotonic clock) 기반 타이머/스톱워치/인터벌/EMOM/AMRAP 로직
+import type { TimerCallbacks, TimerMode, IntervalSegment } from '../types';
 import { TIME_CONSTANTS } from '../types';
 
+/**
+ * 단조 증가 시계 함수 (밀리초)
+ * 기본값은 performance.now()이며, 테스트에서는 가짜 시계를 주입할 수 있습니다.
+ */
+export type TimerClock = () => number;
+
+const defaultClock: TimerClock = () => performance.now();
+
+/**
+ * 구간 목록으로 진행되는 모드인지 확인 (인터벌, EMOM)
+ */
+const isSegmentedMode = (mode: TimerMode): boolean => mode === 'interval' || mode === 'emom';
+
+/**
+ * 설정 시간에서 0까지 카운트다운하는 모드인지 확인 (타이머, AMRAP)
+ */
+const isCountdownMode = (mode: TimerMode): boolean => mode === 'timer' || mode === 'amrap';
+
 export class Timer {
+  private static readonly TICK_INTERVAL = 100; // UI 갱신 주기 (밀리초)
+
   private intervalId: number | null = null;
   private callbacks: TimerCallbacks;
-  private remainingTime: number = 0; // 밀리초 단위 (타이머 모드)
-  private elapsedTime: number = 0; // 밀리초 단위 (스톱워치 모드)
-  private mode: 'timer' | 'stopwatch' = 'timer';
+  private now: TimerClock;
+  private durationMs: number = 0; // 설정된 총 시간 (밀리초, 타이머 모드)
+  private segmentStart: number | null = null; // 현재 실행 구간의 시작 시각 (일시정지 중이면 null)
+  private accumulatedMs: number = 0; // 이전 실행 구간들에서 누적된 경과 시간 (밀리초)
+  private lastCountdownSecond: number | null = null; // 마지막으로 알린 카운트다운 초
+  private segments: IntervalSegment[] = []; // 인터벌/EMOM 모드 구간 목록
+  private segmentIndex: number = 0; // 현재 구간 인덱스
+  private mode: TimerMode = 'timer';
+  private allowOvertime: boolean = false; // 0 이후에도 초과 시간을 카운트할지 여부 (타이머 모드)
+  private inOvertime: boolean = false; // 0을 지나 초과 카운트 중인지 여부
   private isRunning: boolean = false;
   private isPaused: boolean = false;
 
-  constructor(callbacks: TimerCallbacks) {
+  constructor(callbacks: TimerCallbacks, now: TimerClock = defaultClock) {
     this.callbacks = callbacks;
+    this.now = now;
   }
 
   /**
-   * 타이머/스톱워치를 시작합니다
-   * @param duration 타이머 지속 시간 (초) - 타이머 모드에서만 사용
-   * @param mode 타이머 모드 ('timer' | 'stopwatch')
+   * 타이머/스톱워치/인터벌/EMOM을 시작합니다
+   * @param duration 타이머 지속 시간 (초) - 타이머/AMRAP 모드에서만 사용 (인터벌/EMOM 모드는 구간 합계)
+   * @param mode 타이머 모드 ('timer' | 'stopwatch' | 'interval' | 'emom' | 'amrap')
+   * @param segments 구간 목록 - 인터벌/EMOM 모드에서만 사용
+   * @param overtime 0 이후에도 멈출 때까지 초과 시간을 카운트 - 타이머 모드에서만 사용
    */
-  start(duration: number, mode: 'timer' | 'stopwatch' = 'timer'): void {
+  start(duration: number, mode: TimerMode = 'timer', segments: IntervalSegment[] = [], overtime: boolean = false): void {
     // 이미 실행 중이면 중지하고 새로 시작
     if (this.intervalId) {
       this.stop();
     }
 
-    this.mode = mode;
+    this.configure(duration, mode, segments, overtime);
 
-    if (mode === 'timer') {
-      this.remainingTime = duration * 1000; // 초를 밀리초로 변환
-      
-      // 0 이하의 시간이면 즉시 완료 처리
-      if (duration <= 0) {
-        this.handleComplete();
-        return;
-      }
-    } else {
-      // 스톱워치 모드
-      this.elapsedTime = 0;
+    // 0 이하의 시간이면 즉시 완료 처리
+    if (mode !== 'stopwatch' && this.durationMs <= 0) {
+      this.durationMs = 0;
+      this.handleComplete();
+      return;
     }
 
+    // 시작 시점의 초는 카운트다운으로 알리지 않음
+    this.lastCountdownSecond = Math.ceil(this.getCountdownBaseMs() / 1000);
+    this.segmentStart = this.now();
     this.isRunning = true;
     this.isPaused = false;
 
     // 즉시 첫 번째 틱 실행
-    if (mode === 'timer') {
-      this.callbacks.onTick(this.remainingTime);
-    } else {
-      this.callbacks.onTick(this.elapsedTime);
+    this.callbacks.onTick(this.getCurrentTime());
+
+    this.startInterval();
+  }
+
+  /**
+   * 이미 경과한 시간부터 이어서 시작합니다 (새로고침/탭 종료 후 복원용)
+   * 경과 시간이 설정 시간을 넘었으면 첫 틱에서 완료(또는 초과 카운트) 처리됩니다.
+   * @param elapsedMs 이미 경과한 시간 (밀리초, 일시정지 구간 제외)
+   * @param paused 일시정지 상태로 복원할지 여부
+   */
+  restore(
+    duration: number,
+    mode: TimerMode,
+    segments: IntervalSegment[],
+    overtime: boolean,
+    elapsedMs: number,
+    paused: boolean
+  ): void {
+    if (this.intervalId) {
+      this.stop();
     }
 
-    // 100ms마다 틱 실행 (더 정확한 밀리초 표시)
-    this.intervalId = window.setInterval(() => {
-      this.tick();
-    }, 100);
+    this.configure(duration, mode, segments, overtime);
+    this.accumulatedMs = Math.max(0, elapsedMs);
+    // 복원 시점의 구간은 전환 알림 없이 이어감
+    this.segmentIndex = this.locateSegment(this.accumulatedMs).index;
+    this.lastCountdownSecond = Math.ceil(this.getCountdownBaseMs() / 1000);
+    this.isRunning = true;
+
+    if (paused) {
+      this.segmentStart = null;
+      this.isPaused = true;
+      this.callbacks.onTick(this.getCurrentTime());
+      return;
+    }
+
+    this.segmentStart = this.now();
+    this.isPaused = false;
+    this.startInterval();
+    this.tick();
+  }
+
+  /**
+   * 모드별 실행 설정 (내부 메서드)
+   */
+  private configure(duration: number, mode: TimerMode, segments: IntervalSegment[], overtime: boolean): void {
+    this.mode = mode;
+    this.accumulatedMs = 0;
+    this.segments = isSegmentedMode(mode) ? segments : [];
+    this.segmentIndex = 0;
+    this.allowOvertime = overtime && mode === 'timer';
+    this.inOvertime = false;
+
+    if (isSegmentedMode(mode)) {
+      this.durationMs = segments.reduce((total, segment) => total + segment.duration * 1000, 0);
+    } else {
+      this.durationMs = isCountdownMode(mode) ? duration * 1000 : 0;
+    }
   }
 
   /**
@@ -65,12 +141,12 @@ export class Timer {
       return;
     }
 
+    // 현재 구간의 경과 시간을 누적하고 구간 종료
+    this.accumulatedMs = this.getElapsedMs();
+    this.segmentStart = null;
     this.isPaused = true;
-    
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
+
+    this.clearInterval();
   }
 
   /**
@@ -81,18 +157,55 @@ export class Timer {
       return;
     }
 
-    // 타이머 모드에서 시간이 0 이하면 재개하지 않음
-    if (this.mode === 'timer' && this.remainingTime <= 0) {
+    // 타이머/인터벌/EMOM 모드에서 시간이 0 이하면 재개하지 않음 (초과 카운트 중이면 계속)
+    if (this.mode !== 'stopwatch' && !this.allowOvertime && this.getRemainingMs() <= 0) {
       return;
     }
 
+    this.segmentStart = this.now();
     this.isRunning = true;
     this.isPaused = false;
-    
-    // 100ms마다 틱 실행 (start()와 동일한 간격)
-    this.intervalId = window.setInterval(() => {
-      this.tick();
-    }, 100);
+
+    this.startInterval();
+  }
+
+  /**
+   * 진행 중인 카운트다운에 시간을 추가합니다 (타이머/AMRAP: 전체 시간, 인터벌/EMOM: 현재 구간)
+   * @param seconds 추가할 시간 (초)
+   * @returns 시간을 추가했는지 여부 (실행 중인 카운트다운이 아니면 추가하지 않음)
+   */
+  addTime(seconds: number): boolean {
+    if (!this.isRunning || this.mode === 'stopwatch' || this.inOvertime) {
+      return false;
+    }
+
+    if (isSegmentedMode(this.mode)) {
+      this.segments = this.segments.map((segment, index) =>
+        index === this.segmentIndex ? { ...segment, duration: segment.duration + seconds } : segment
+      );
+    }
+    this.durationMs += seconds * 1000;
+    // 늘어난 시간의 마지막 3초도 다시 카운트다운
+    this.lastCountdownSecond = Math.ceil(this.getCountdownBaseMs() / 1000);
+    this.callbacks.onTick(this.getCurrentTime());
+    return true;
+  }
+
+  /**
+   * 현재 카운트다운을 바로 끝냅니다 (인터벌/EMOM: 다음 구간으로 이동, 타이머/AMRAP: 완료)
+   */
+  skip(): void {
+    if (!this.isRunning || this.mode === 'stopwatch' || this.inOvertime) {
+      return;
+    }
+
+    if (!isSegmentedMode(this.mode)) {
+      this.handleComplete();
+      return;
+    }
+
+    this.accumulatedMs += this.getCountdownBaseMs();
+    this.tick();
   }
 
   /**
@@ -100,52 +213,212 @@ export class Timer {
    */
   reset(): void {
     this.stop();
-    this.remainingTime = 0;
-    this.elapsedTime = 0;
-    this.isRunning = false;
-    this.isPaused = false;
+    this.durationMs = 0;
+    this.accumulatedMs = 0;
+    this.lastCountdownSecond = null;
+    this.segments = [];
+    this.segmentIndex = 0;
+    this.allowOvertime = false;
+    this.inOvertime = false;
   }
 
   /**
    * 타이머를 완전히 정지합니다 (내부 메서드)
+   * 정지 시점까지의 경과 시간은 보존됩니다.
    */
   private stop(): void {
+    this.accumulatedMs = this.getElapsedMs();
+    this.segmentStart = null;
+    this.clearInterval();
+    this.isRunning = false;
+    this.isPaused = false;
+  }
+
+  /**
+   * 틱 인터벌 및 가시성 핸들러 등록
+   */
+  private startInterval(): void {
+    this.clearInterval();
+
+    // 100ms마다 틱 실행. 콜백 지연/스로틀링과 무관하게 시간은 시계에서 계산됨
+    this.intervalId = window.setInterval(() => {
+      this.tick();
+    }, Timer.TICK_INTERVAL);
+
+    // 백그라운드에서 복귀하면 다음 인터벌을 기다리지 않고 즉시 동기화
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  /**
+   * 틱 인터벌 및 가시성 핸들러 해제
+   */
+  private clearInterval(): void {
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
-    this.isRunning = false;
-    this.isPaused = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
   }
 
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible' && this.running) {
+      this.tick();
+    }
+  };
+
   /**
-   * 100ms마다 실행되는 틱 메서드
+   * 누적 경과 시간 계산 (밀리초)
+   */
+  private getElapsedMs(): number {
+    const segmentElapsed = this.segmentStart !== null
+      ? Math.max(0, this.now() - this.segmentStart)
+      : 0;
+    return Math.floor(this.accumulatedMs + segmentElapsed);
+  }
+
+  /**
+   * 남은 시간 계산 (밀리초, 타이머 모드)
+   */
+  private getRemainingMs(): number {
+    return Math.max(0, this.durationMs - this.getElapsedMs());
+  }
+
+  /**
+   * 0을 지나 초과한 시간 계산 (밀리초, 초과 카운트를 사용하지 않으면 항상 0)
+   */
+  private getOvertimeMs(): number {
+    if (!this.allowOvertime) {
+      return 0;
+    }
+    return Math.max(0, this.getElapsedMs() - this.durationMs);
+  }
+
+  /**
+   * 경과 시간에 해당하는 구간 위치
+   * @returns 구간 인덱스와 해당 구간의 남은 시간 (밀리초)
+   */
+  private locateSegment(elapsedMs: number): { index: number; remainingMs: number } {
+    let segmentEnd = 0;
+    for (let index = 0; index < this.segments.length; index++) {
+      segmentEnd += this.segments[index].duration * 1000;
+      if (elapsedMs < segmentEnd) {
+        return { index, remainingMs: segmentEnd - elapsedMs };
+      }
+    }
+    return { index: Math.max(0, this.segments.length - 1), remainingMs: 0 };
+  }
+
+  /**
+   * 카운트다운 기준 시간 (타이머: 전체 남은 시간, 인터벌/EMOM: 현재 구간 남은 시간)
+   */
+  private getCountdownBaseMs(): number {
+    if (isSegmentedMode(this.mode)) {
+      return this.locateSegment(this.getElapsedMs()).remainingMs;
+    }
+    return this.getRemainingMs();
+  }
+
+  /**
+   * 현재 모드에 맞는 표시 시간 (타이머: 남은 시간, 스톱워치: 경과 시간, 인터벌/EMOM: 구간 남은 시간)
+   */
+  private getCurrentTime(): number {
+    if (this.mode === 'stopwatch') {
+      return this.getElapsedMs();
+    }
+    return this.getCountdownBaseMs();
+  }
+
+  /**
+   * 카운트다운 알림 (3, 2, 1초) - 초 경계를 넘을 때마다 한 번씩
+   */
+  private checkCountdown(remainingMs: number): void {
+    const remainingSeconds = Math.ceil(remainingMs / 1000);
+    if (
+      remainingSeconds <= TIME_CONSTANTS.COUNTDOWN_THRESHOLD &&
+      remainingSeconds > 0 &&
+      remainingSeconds !== this.lastCountdownSecond
+    ) {
+      this.lastCountdownSecond = remainingSeconds;
+      this.callbacks.onCountdown(remainingSeconds);
+    }
+  }
+
+  /**
+   * 인터벌마다 실행되는 틱 메서드
+   * 고정 간격을 빼는 대신 시계에서 시간을 다시 계산하므로 드리프트가 누적되지 않습니다.
    */
   private tick(): void {
-    if (this.mode === 'timer') {
-      // 타이머 모드: 시간 감소
-      this.remainingTime -= 100;
-
-      // 카운트다운 알림 (3, 2, 1초) - 시간 감소 후에 체크
-      const remainingSeconds = Math.ceil(this.remainingTime / 1000);
-      if (remainingSeconds <= TIME_CONSTANTS.COUNTDOWN_THRESHOLD && remainingSeconds > 0 && this.remainingTime % 1000 < 100) {
-        this.callbacks.onCountdown(remainingSeconds);
+    if (isSegmentedMode(this.mode)) {
+      this.tickSegments();
+    } else if (isCountdownMode(this.mode)) {
+      const remainingTime = this.getRemainingMs();
+
+      // 초과 카운트: 0에서 멈추지 않고 정지할 때까지 초과 시간을 알림
+      if (this.allowOvertime && remainingTime <= 0) {
+        this.tickOvertime();
+        return;
       }
 
+      this.checkCountdown(remainingTime);
+
       // 틱 콜백 실행
-      this.callbacks.onTick(this.remainingTime);
+      this.callbacks.onTick(remainingTime);
 
       // 시간이 0이 되면 완료 처리
-      if (this.remainingTime <= 0) {
+      if (remainingTime <= 0) {
         this.handleComplete();
       }
     } else {
-      // 스톱워치 모드: 시간 증가
-      this.elapsedTime += 100;
+      // 스톱워치 모드: 경과 시간 콜백
+      this.callbacks.onTick(this.getElapsedMs());
+    }
+  }
 
-      // 틱 콜백 실행
-      this.callbacks.onTick(this.elapsedTime);
+  /**
+   * 인터벌/EMOM 모드 틱 - 구간 전환, 구간별 카운트다운, 전체 완료 처리
+   * 스로틀링으로 여러 구간을 건너뛴 경우 마지막 구간만 알립니다.
+   */
+  private tickSegments(): void {
+    const elapsedMs = this.getElapsedMs();
+
+    if (elapsedMs >= this.durationMs) {
+      this.callbacks.onTick(0);
+      this.handleComplete();
+      return;
+    }
+
+    const { index, remainingMs } = this.locateSegment(elapsedMs);
+
+    if (index !== this.segmentIndex) {
+      this.segmentIndex = index;
+      // 새 구간의 시작 초는 카운트다운으로 알리지 않음
+      this.lastCountdownSecond = this.segments[index].duration;
+      this.callbacks.onPhaseChange?.(this.segments[index], index);
+    }
+
+    this.checkCountdown(remainingMs);
+    this.callbacks.onTick(remainingMs);
+  }
+
+  /**
+   * 초과 카운트 틱 - 0에 도달한 첫 틱에서 남은 시간 0을 한 번 알린 뒤 매 틱 초과 시간 알림
+   */
+  private tickOvertime(): void {
+    if (!this.inOvertime) {
+      this.inOvertime = true;
+      this.callbacks.onTick(0);
+    }
+    this.callbacks.onOvertime?.(this.getOvertimeMs());
+  }
+
+  /**
+   * 현재 구간 정보 반환 (인터벌/EMOM 모드가 아니면 null)
+   */
+  getCurrentSegment(): { segment: IntervalSegment; index: number } | null {
+    if (!isSegmentedMode(this.mode) || this.segments.length === 0) {
+      return null;
     }
+    return { segment: this.segments[this.segmentIndex], index: this.segmentIndex };
   }
 
   /**
@@ -153,6 +426,8 @@ export class Timer {
    */
   private handleComplete(): void {
     this.stop();
+    // 완료 시점에는 정확히 설정 시간만큼 경과한 것으로 고정
+    this.accumulatedMs = this.durationMs;
     this.callbacks.onComplete();
   }
 
@@ -161,8 +436,8 @@ export class Timer {
    */
   destroy(): void {
     this.stop();
-    this.remainingTime = 0;
-    this.elapsedTime = 0;
+    this.durationMs = 0;
+    this.accumulatedMs = 0;
   }
 
   /**
@@ -171,13 +446,27 @@ export class Timer {
   getState() {
     return {
       mode: this.mode,
-      remainingTime: this.remainingTime,
-      elapsedTime: this.elapsedTime,
+      remainingTime: this.mode === 'stopwatch' ? 0 : this.getCurrentTime(),
+      elapsedTime: this.mode === 'stopwatch' ? this.getElapsedMs() : 0,
       isRunning: this.isRunning,
       isPaused: this.isPaused
     };
   }
 
+  /**
+   * 세션 시작 후 경과한 시간 반환 (밀리초, 일시정지 구간 제외, 모든 모드 공통)
+   */
+  getElapsedTime(): number {
+    return this.getElapsedMs();
+  }
+
+  /**
+   * 0을 지나 초과한 시간 반환 (밀리초, 초과 카운트 중이 아니면 0)
+   */
+  getOvertime(): number {
+    return this.inOvertime ? this.getOvertimeMs() : 0;
+  }
+
   /**
    * 타이머가 실행 중인지 확인
    */
@@ -191,4 +480,4 @@ export class Timer {
   get paused(): boolean {
     return this.isPaused;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,111 @@
+// Timer Event Bus - 타이머 수명 주기 이벤트 전달 및 최신 상태 스냅샷 보관 (메모리 내)
+import type { TimerEventListener, TimerEventMap, TimerEventType, TimerSnapshot } from '../types';
+
+const INITIAL_SNAPSHOT: TimerSnapshot = {
+  status: 'idle',
+  mode: 'timer',
+  timeMs: 0,
+  phase: 'work',
+  round: 1,
+  totalRounds: 0,
+};
+
+// 이벤트 이름과 전달 값의 쌍 (이벤트 종류별로 좁혀지는 유니온)
+type TimerEvent = { [K in TimerEventType]: { type: K; payload: TimerEventMap[K] } }[TimerEventType];
+
+/**
+ * 이벤트를 반영한 다음 스냅샷 (바뀐 것이 없으면 이전 스냅샷을 그대로 반환)
+ */
+const reduceSnapshot = (snapshot: TimerSnapshot, event: TimerEvent): TimerSnapshot => {
+  switch (event.type) {
+    case 'started':
+      return { ...INITIAL_SNAPSHOT, status: 'running', mode: event.payload.mode };
+    case 'paused':
+      return { ...snapshot, status: 'paused', mode: event.payload.mode, timeMs: event.payload.timeMs };
+    case 'resumed':
+      return { ...snapshot, status: 'running', mode: event.payload.mode };
+    case 'tick':
+      return snapshot.timeMs === event.payload.timeMs && snapshot.mode === event.payload.mode
+        ? snapshot
+        : { ...snapshot, mode: event.payload.mode, timeMs: event.payload.timeMs };
+    case 'phase-changed':
+      return {
+        ...snapshot,
+        mode: event.payload.mode,
+        phase: event.payload.phase,
+        round: event.payload.round,
+        totalRounds: event.payload.totalRounds,
+      };
+    case 'time-added':
+      return snapshot;
+    case 'completed':
+      return { ...snapshot, status: 'completed', mode: event.payload.mode };
+    case 'stopped':
+      return { ...INITIAL_SNAPSHOT, mode: event.payload.mode };
+  }
+};
+
+export class TimerEventBus {
+  private listeners = new Map<TimerEventType, Set<(payload: unknown) => void>>();
+  private storeListeners = new Set<() => void>();
+  private snapshot: TimerSnapshot = INITIAL_SNAPSHOT;
+
+  /**
+   * 특정 이벤트 구독
+   * @returns 구독 해제 함수
+   */
+  on<K extends TimerEventType>(type: K, listener: TimerEventListener<K>): () => void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    this.listeners.set(type, listeners);
+    listeners.add(listener as (payload: unknown) => void);
+    return () => {
+      listeners.delete(listener as (payload: unknown) => void);
+    };
+  }
+
+  /**
+   * 이벤트 발행
+   * 스냅샷을 먼저 갱신한 뒤 이벤트 구독자, 스냅샷 구독자 순으로 알림
+   * 구독자 하나의 오류가 타이머 진행을 막지 않도록 오류는 기록만 함
+   */
+  emit<K extends TimerEventType>(type: K, payload: TimerEventMap[K]): void {
+    const previous = this.snapshot;
+    this.snapshot = reduceSnapshot(previous, { type, payload } as TimerEvent);
+
+    this.listeners.get(type)?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Timer event listener failed (${type}):`, error);
+      }
+    });
+
+    if (this.snapshot !== previous) {
+      this.storeListeners.forEach(listener => listener());
+    }
+  }
+
+  /**
+   * 스냅샷 변경 구독 (useSyncExternalStore용, 메서드를 그대로 넘길 수 있도록 화살표 함수)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.storeListeners.add(listener);
+    return () => {
+      this.storeListeners.delete(listener);
+    };
+  };
+
+  /**
+   * 최신 스냅샷 반환 (변경이 없으면 같은 객체)
+   */
+  getSnapshot = (): TimerSnapshot => this.snapshot;
+
+  /**
+   * 모든 구독 해제 및 스냅샷 초기화
+   */
+  clear(): void {
+    this.listeners.clear();
+    this.storeListeners.clear();
+    this.snapshot = INITIAL_SNAPSHOT;
+  }
+}
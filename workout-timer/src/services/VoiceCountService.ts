@@ -1,116 +1,283 @@
 /**
- * VoiceCountService - 음성 카운트 MP3 재생 서비스
- * 버튼 토글 동작으로 count-ko.mp3를 재생/정지합니다.
+ * VoiceCountService - 템포에 맞춘 음성 반복 카운트 서비스
+ * 목표 반복 횟수와 템포(예: 3-1-2-0)에 따라 AudioContext 시계로 구간 시작음을 예약하고,
+ * 반복 번호와 구간(내리고/멈춤/올리고)을 음성으로 안내합니다.
  */
-import countKoUrl from '../assets/count-ko.mp3?url';
+import type { SettingsState } from '../types';
+import { AUDIO_CONSTANTS, DEFAULT_SETTINGS, VOICE_COUNT_CONSTANTS } from '../types';
+
+export type VoiceCountSettings = SettingsState['voiceCount'];
+
+// 템포 구간 (tempo 배열 순서와 동일)
+export type TempoPhase = 'eccentric' | 'bottom-pause' | 'concentric' | 'top-pause';
+
+// 예약된 카운트 안내
+export interface RepCountCue {
+  time: number;          // 안내 시각 (스케줄 시계 기준, 초)
+  rep: number;           // 반복 번호 (1부터)
+  phase: TempoPhase | 'complete';
+  repStart: boolean;     // 반복의 첫 구간 (반복 번호를 안내)
+}
+
+const TEMPO_PHASES: TempoPhase[] = ['eccentric', 'bottom-pause', 'concentric', 'top-pause'];
+
+// 언어별 구간 안내 문구
+const PHASE_TEXTS: Record<string, Record<RepCountCue['phase'], string>> = {
+  'ko-KR': { eccentric: '내리고', 'bottom-pause': '멈춤', concentric: '올리고', 'top-pause': '멈춤', complete: '세트 완료' },
+  'en-US': { eccentric: 'Down', 'bottom-pause': 'Hold', concentric: 'Up', 'top-pause': 'Hold', complete: 'Set complete' },
+};
+
+const KOREAN_ONES = ['', '하나', '둘', '셋', '넷', '다섯', '여섯', '일곱', '여덟', '아홉'];
+const KOREAN_TENS = ['', '열', '스물', '서른', '마흔', '쉰', '예순', '일흔', '여든', '아흔'];
+
+// 구간 시작음 (반복 시작은 높은 음, 세트 완료는 가장 높은 음)
+const TICK_FREQUENCIES = { repStart: 880, phase: 660, complete: 1320 };
+const TICK_DURATION = 0.08; // 초
+
+/**
+ * 반복 번호를 고유어 수사로 변환 (1~99, 그 외는 숫자 그대로)
+ */
+export const toKoreanCount = (count: number): string =>
+  Number.isInteger(count) && count >= 1 && count < 100
+    ? KOREAN_TENS[Math.floor(count / 10)] + KOREAN_ONES[count % 10]
+    : String(count);
+
+/**
+ * 안내 문구 (반복 시작은 반복 번호, 나머지는 구간 이름, 지원하지 않는 언어는 한국어)
+ */
+export const getRepCountText = (cue: RepCountCue, lang: string): string => {
+  if (cue.repStart && cue.phase !== 'complete') {
+    return lang === 'en-US' ? String(cue.rep) : toKoreanCount(cue.rep);
+  }
+  return (PHASE_TEXTS[lang] ?? PHASE_TEXTS['ko-KR'])[cue.phase];
+};
+
+/**
+ * 한 세트의 카운트 안내 일정 (0초 구간은 건너뜀, 마지막에 세트 완료)
+ * @param startTime 첫 반복 시작 시각 (초)
+ */
+export const buildRepCountSchedule = (config: VoiceCountSettings, startTime: number): RepCountCue[] => {
+  const cues: RepCountCue[] = [];
+  let time = startTime;
+
+  for (let rep = 1; rep <= config.targetReps; rep++) {
+    let repStart = true;
+    TEMPO_PHASES.forEach((phase, index) => {
+      const seconds = config.tempo[index] ?? 0;
+      if (seconds <= 0) {
+        return;
+      }
+      cues.push({ time, rep, phase, repStart });
+      repStart = false;
+      time += seconds;
+    });
+  }
+
+  cues.push({ time, rep: config.targetReps, phase: 'complete', repStart: false });
+  return cues;
+};
+
 export class VoiceCountService {
   private currentCount: number = 0;
   private isActive: boolean = false;
-  private volume: number = 0.8;
-  private mp3Audio: HTMLAudioElement | null = null;
-  private isMp3Playing: boolean = false;
+  private volume: number = AUDIO_CONSTANTS.DEFAULT_VOLUME;
+  private config: VoiceCountSettings = DEFAULT_SETTINGS.voiceCount;
+  private lang: string = 'ko-KR';
+  private audioContext: AudioContext | null = null;
+  // 실행 중인 AudioContext가 없으면 performance 시계로 안내만 진행 (구간 시작음 없음)
+  private useAudioClock: boolean = false;
+  private cues: RepCountCue[] = [];
+  private nextCueIndex: number = 0;
+  private schedulerId: number | null = null;
+  private cueTimeoutIds: Set<number> = new Set();
+  private session: number = 0; // 시작/중지가 겹칠 때 오래된 시작을 무시하기 위한 번호
+  private onCount: (count: number) => void;
+  private onComplete: () => void;
+
+  /**
+   * @param onCount 새 반복이 시작될 때 (반복 번호)
+   * @param onComplete 목표 반복 횟수를 마쳤을 때
+   */
+  constructor(onCount: (count: number) => void = () => {}, onComplete: () => void = () => {}) {
+    this.onCount = onCount;
+    this.onComplete = onComplete;
+  }
 
-  constructor() {}
+  /**
+   * 목표 반복 횟수, 템포, 안내 언어 설정 (다음 시작부터 적용)
+   */
+  configure(config: VoiceCountSettings, lang: string = this.lang): void {
+    this.config = config;
+    this.lang = lang;
+  }
 
   /**
-   * 음성 카운트 MP3 파일 재생 시작
-   * - 첫 클릭: 재생 시작
-   * - 다시 클릭: 정지 및 초기화
-   * - 재시작 시 항상 처음부터 재생
+   * 음성 카운트 시작 (준비 시간 뒤 첫 반복부터 안내)
    */
   startVoiceCount(): void {
-    // 상태 플래그
+    if (this.isActive) {
+      return;
+    }
     this.isActive = true;
+    this.currentCount = 0;
+    const session = ++this.session;
 
-    // 기존 인터벌/합성은 사용하지 않음
-
-    // MP3 재생 준비 및 시작
-    if (!this.mp3Audio) {
-      try {
-        // Vite 에셋 URL로 오디오 생성 (테스트/개발/빌드 환경 모두 안전)
-        this.mp3Audio = new Audio(countKoUrl);
-        this.mp3Audio.preload = 'auto';
-      } catch (error) {
-        console.error('Failed to create audio element for count-ko.mp3', error);
+    this.resumeAudioContext().then(() => {
+      // 기다리는 동안 중지되었거나 다시 시작되었으면 무시
+      if (!this.isActive || session !== this.session) {
         return;
       }
-    }
-
-    try {
-      this.mp3Audio.currentTime = 0; // 항상 처음부터
-      this.mp3Audio.volume = this.volume;
-      
-      // 재생 시작
-      const playPromise = this.mp3Audio.play();
-      if (playPromise !== undefined) {
-        playPromise
-          .then(() => {
-            this.isMp3Playing = true;
-          })
-          .catch((error) => {
-            console.error('Failed to play count-ko.mp3', error);
-            this.isActive = false;
-            this.isMp3Playing = false;
-          });
-      }
-      
-      // 재생이 끝나면 상태 초기화
-      this.mp3Audio.onended = () => {
-        this.isMp3Playing = false;
-        this.isActive = false;
-        this.currentCount = 0;
-      };
-      
-      // 에러 처리
-      this.mp3Audio.onerror = () => {
-        console.error('Audio playback error');
-        this.isMp3Playing = false;
-        this.isActive = false;
-        this.currentCount = 0;
-      };
-      
-    } catch (error) {
-      console.error('Failed to play count-ko.mp3', error);
-      this.isActive = false;
-      this.isMp3Playing = false;
-    }
+      this.useAudioClock = this.audioContext?.state === 'running' && typeof this.audioContext.currentTime === 'number';
+      this.cues = buildRepCountSchedule(this.config, this.now() + VOICE_COUNT_CONSTANTS.LEAD_IN_SECONDS);
+      this.nextCueIndex = 0;
+      this.scheduleAhead();
+      this.schedulerId = window.setInterval(() => this.scheduleAhead(), VOICE_COUNT_CONSTANTS.LOOKAHEAD_MS);
+    });
   }
 
   /**
-   * 음성 카운트 중지
+   * 음성 카운트 중지 (예약한 안내만 취소)
+   * 음성 합성 대기열은 음성 안내(SpeechCueService)와 함께 쓰므로 비우지 않고,
+   * 이미 넘긴 짧은 카운트 문구는 끝까지 읽도록 둠
    */
   stopVoiceCount(): void {
+    this.session++;
     this.isActive = false;
-
-    // 인터벌/음성 합성 사용 안 함
-
-    // MP3 재생 중지 및 초기화
-    if (this.mp3Audio) {
-      try {
-        this.mp3Audio.pause();
-        this.mp3Audio.currentTime = 0;
-      } catch (error) {
-        console.warn('Failed to stop audio playback', error);
-      }
-      this.isMp3Playing = false;
-    }
-
     this.currentCount = 0;
+    this.clearSchedule();
   }
 
   /**
    * 음성 카운트 토글
-   * - 재생 중이면 정지 및 초기화
-   * - 정지 상태면 처음부터 재생
+   * - 진행 중이면 정지 및 초기화
+   * - 정지 상태면 처음부터 시작
    */
   toggleVoiceCount(): void {
-    if (this.isActive || this.isMp3Playing) {
+    if (this.isActive) {
       this.stopVoiceCount();
     } else {
       this.startVoiceCount();
     }
   }
 
+  /**
+   * 곧 시작할 안내를 AudioContext 시계에 예약 (lookahead 스케줄러)
+   * 구간 시작음은 정확한 시각에 재생하고, 음성과 반복 번호 갱신은 같은 시각에 맞춰 실행
+   */
+  private scheduleAhead(): void {
+    const now = this.now();
+    const horizon = now + VOICE_COUNT_CONSTANTS.SCHEDULE_AHEAD_SECONDS;
+
+    while (this.nextCueIndex < this.cues.length && this.cues[this.nextCueIndex].time < horizon) {
+      const cue = this.cues[this.nextCueIndex++];
+      this.playTick(cue);
+      const timeoutId = window.setTimeout(() => {
+        this.cueTimeoutIds.delete(timeoutId);
+        this.announce(cue);
+      }, Math.max(0, (cue.time - now) * 1000));
+      this.cueTimeoutIds.add(timeoutId);
+    }
+  }
+
+  /**
+   * 안내 실행 (반복 번호 갱신, 음성 안내, 세트 완료 처리)
+   */
+  private announce(cue: RepCountCue): void {
+    if (cue.repStart) {
+      this.currentCount = cue.rep;
+      this.onCount(cue.rep);
+    }
+    this.speak(getRepCountText(cue, this.lang));
+
+    if (cue.phase === 'complete') {
+      this.isActive = false;
+      this.clearSchedule();
+      this.onComplete();
+    }
+  }
+
+  /**
+   * 구간 시작음 예약 재생 (AudioContext 시계를 사용할 때만)
+   */
+  private playTick(cue: RepCountCue): void {
+    if (!this.useAudioClock || !this.audioContext) {
+      return;
+    }
+
+    try {
+      const oscillator = this.audioContext.createOscillator();
+      const gainNode = this.audioContext.createGain();
+      oscillator.frequency.value = cue.phase === 'complete'
+        ? TICK_FREQUENCIES.complete
+        : cue.repStart ? TICK_FREQUENCIES.repStart : TICK_FREQUENCIES.phase;
+      gainNode.gain.setValueAtTime(this.volume * 0.3, cue.time);
+      gainNode.gain.exponentialRampToValueAtTime(0.001, cue.time + TICK_DURATION);
+      oscillator.connect(gainNode);
+      gainNode.connect(this.audioContext.destination);
+      oscillator.start(cue.time);
+      oscillator.stop(cue.time + TICK_DURATION);
+    } catch (error) {
+      console.warn('Failed to schedule voice count tick:', error);
+    }
+  }
+
+  /**
+   * 문구 읽기 (음성 합성을 지원하지 않으면 구간 시작음만 사용)
+   */
+  private speak(text: string): void {
+    if (typeof window === 'undefined' || !('speechSynthesis' in window) || typeof SpeechSynthesisUtterance === 'undefined') {
+      return;
+    }
+
+    try {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = this.lang;
+      utterance.volume = this.volume;
+      window.speechSynthesis.speak(utterance);
+    } catch (error) {
+      console.warn('Failed to speak voice count:', error);
+    }
+  }
+
+  /**
+   * 스케줄 시계 현재 시각 (초)
+   */
+  private now(): number {
+    return this.useAudioClock && this.audioContext ? this.audioContext.currentTime : performance.now() / 1000;
+  }
+
+  private clearSchedule(): void {
+    if (this.schedulerId !== null) {
+      window.clearInterval(this.schedulerId);
+      this.schedulerId = null;
+    }
+    this.cueTimeoutIds.forEach(timeoutId => window.clearTimeout(timeoutId));
+    this.cueTimeoutIds.clear();
+    this.cues = [];
+    this.nextCueIndex = 0;
+  }
+
+  /**
+   * AudioContext 생성 및 재개 (실패하면 음성 안내만 사용)
+   */
+  private async resumeAudioContext(): Promise<void> {
+    try {
+      if (!this.audioContext) {
+        const AudioContextClass = window.AudioContext
+          || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+        if (!AudioContextClass) {
+          return;
+        }
+        this.audioContext = new AudioContextClass();
+      }
+      if (this.audioContext.state === 'suspended') {
+        await this.audioContext.resume();
+      }
+    } catch (error) {
+      console.warn('Failed to resume AudioContext for voice count:', error);
+    }
+  }
+
   /**
    * 현재 카운트 숫자 반환
    */
@@ -119,10 +286,10 @@ export class VoiceCountService {
   }
 
   /**
-   * 활성 상태 확인 (재생 중인지 확인)
+   * 활성 상태 확인 (세트 진행 중인지 확인)
    */
   isVoiceCountActive(): boolean {
-    return this.isActive || this.isMp3Playing;
+    return this.isActive;
   }
 
   /**
@@ -140,31 +307,28 @@ export class VoiceCountService {
   }
 
   /**
-   * 서비스 사용 가능 여부 확인
+   * 서비스 사용 가능 여부 확인 (AudioContext가 준비되었거나 음성 합성 지원)
    */
   isAvailable(): boolean {
-    // HTMLAudioElement 사용 가능 여부 기준
-    return typeof Audio !== 'undefined';
+    return this.audioContext !== null || (typeof window !== 'undefined' && 'speechSynthesis' in window);
   }
 
   /**
    * 사용자 상호작용 후 초기화 (브라우저 정책 준수)
    */
-  async initializeAfterUserInteraction(): Promise<void> { /* no-op */ }
+  async initializeAfterUserInteraction(): Promise<void> {
+    await this.resumeAudioContext();
+  }
 
   /**
    * 리소스 정리
    */
   destroy(): void {
     this.stopVoiceCount();
-    
-    // 오디오 컨텍스트/합성 사용 안 함
-    if (this.mp3Audio) {
-      try {
-        this.mp3Audio.pause();
-      } catch {}
-      this.mp3Audio.src = '';
-      this.mp3Audio = null;
+
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
     }
   }
-}
\ No newline at end of file
+}
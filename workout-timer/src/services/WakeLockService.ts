@@ -1,4 +1,6 @@
 // Wake Lock Service - 화면 켜두기 기능
+import type { TimerEventBus } from './TimerEventBus';
+
 export class WakeLockService {
   private wakeLock: WakeLockSentinel | null = null;
   private isSupported: boolean = false;
@@ -111,6 +113,21 @@ export class WakeLockService {
     }
   }
 
+  /**
+   * 타이머 이벤트 구독 (실행 중에만 화면 켜두기)
+   * @param isAutoEnabled 화면 켜두기 설정 확인 함수
+   * @returns 구독 해제 함수
+   */
+  connect(events: TimerEventBus, isAutoEnabled: () => boolean): () => void {
+    const update = () => {
+      this.handleTimerStateChange(isAutoEnabled() && events.getSnapshot().status === 'running');
+    };
+    const unsubscribers = (['started', 'paused', 'resumed', 'completed', 'stopped'] as const)
+      .map(type => events.on(type, update));
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
   /**
    * Wake Lock 상태 확인
    */
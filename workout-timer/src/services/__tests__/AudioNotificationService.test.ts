@@ -76,7 +76,7 @@ describe('AudioNotificationService', () => {
     it('사운드를 성공적으로 로드해야 한다', async () => {
       await service.loadSounds();
       
-      expect(mockAudioContext.createBuffer).toHaveBeenCalledTimes(3); // beep, bell, chime
+      expect(mockAudioContext.createBuffer).toHaveBeenCalledTimes(6); // beep, bell, chime, work-start, rest-start, get-ready
       expect(service.isReady()).toBe(true);
     });
 
@@ -209,6 +209,123 @@ describe('AudioNotificationService', () => {
     });
   });
 
+  describe('메트로놈', () => {
+    // currentTime을 직접 진행시킬 수 있는 AudioContext (예약된 클릭음의 주파수와 시각 기록)
+    class ClockAudioContext {
+      static instance: ClockAudioContext;
+      state = 'running';
+      currentTime = 0;
+      destination = {};
+      clicks: { frequency: number; time: number }[] = [];
+      resume = vi.fn();
+      close = vi.fn();
+
+      constructor() {
+        ClockAudioContext.instance = this;
+      }
+
+      createOscillator() {
+        const oscillator = {
+          frequency: { value: 0 },
+          connect: vi.fn(),
+          start: (time: number) => this.clicks.push({ frequency: oscillator.frequency.value, time }),
+          stop: vi.fn(),
+        };
+        return oscillator;
+      }
+
+      createGain() {
+        return { gain: { setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() }, connect: vi.fn() };
+      }
+    }
+
+    let originalAudioContext: typeof AudioContext;
+    let metronome: AudioNotificationService;
+    let context: ClockAudioContext;
+
+    // 오디오 시계와 페이지 타이머를 함께 진행
+    const advance = async (seconds: number) => {
+      for (let elapsed = 0; elapsed < seconds; elapsed += 0.025) {
+        context.currentTime += 0.025;
+        await vi.advanceTimersByTimeAsync(25);
+      }
+    };
+
+    const frequencies = () => context.clicks.map(click => click.frequency);
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      originalAudioContext = window.AudioContext;
+      window.AudioContext = ClockAudioContext as unknown as typeof AudioContext;
+      metronome = new AudioNotificationService();
+      context = ClockAudioContext.instance;
+    });
+
+    afterEach(() => {
+      metronome.destroy();
+      window.AudioContext = originalAudioContext;
+      vi.useRealTimers();
+    });
+
+    it('BPM 간격으로 강박과 박을 예약하고 박마다 알려야 한다', async () => {
+      const onBeat = vi.fn();
+      await metronome.startMetronome({ bpm: 120, accentEvery: 4, subdivision: 1 }, onBeat);
+      await advance(2.5);
+
+      expect(frequencies().slice(0, 5)).toEqual([1500, 1000, 1000, 1000, 1500]);
+      const [first, second] = context.clicks;
+      expect(second.time - first.time).toBeCloseTo(0.5);
+      expect(onBeat.mock.calls.slice(0, 5).map(([beat]) => beat)).toEqual([0, 1, 2, 3, 4]);
+      expect(metronome.isMetronomeRunning()).toBe(true);
+    });
+
+    it('박을 나누면 사이에 약한 클릭을 넣고 박에서만 알려야 한다', async () => {
+      const onBeat = vi.fn();
+      await metronome.startMetronome({ bpm: 60, accentEvery: 0, subdivision: 2 }, onBeat);
+      await advance(2);
+
+      expect(frequencies().slice(0, 4)).toEqual([1000, 800, 1000, 800]);
+      expect(context.clicks[1].time - context.clicks[0].time).toBeCloseTo(0.5);
+      expect(onBeat).toHaveBeenCalledTimes(2);
+    });
+
+    it('실행 중 BPM을 바꾸면 다음 클릭부터 적용해야 한다', async () => {
+      await metronome.startMetronome({ bpm: 60, accentEvery: 4, subdivision: 1 });
+      await advance(1.2);
+      metronome.updateMetronome({ bpm: 120, accentEvery: 4, subdivision: 1 });
+      const scheduled = context.clicks.length;
+      await advance(1.5);
+
+      const [previous, next] = context.clicks.slice(scheduled);
+      expect(next.time - previous.time).toBeCloseTo(0.5);
+    });
+
+    it('정지하면 더 이상 예약하지 않아야 한다', async () => {
+      const onBeat = vi.fn();
+      await metronome.startMetronome({ bpm: 120, accentEvery: 4, subdivision: 1 }, onBeat);
+      await advance(0.15);
+      metronome.stopMetronome();
+      const scheduled = context.clicks.length;
+      const notified = onBeat.mock.calls.length;
+      await advance(2);
+
+      expect(context.clicks).toHaveLength(scheduled);
+      expect(onBeat).toHaveBeenCalledTimes(notified);
+      expect(metronome.isMetronomeRunning()).toBe(false);
+    });
+
+    it('AudioContext 재개를 기다리는 동안 정지하면 시작하지 않아야 한다', async () => {
+      context.state = 'suspended';
+      const starting = metronome.startMetronome({ bpm: 120, accentEvery: 4, subdivision: 1 });
+      metronome.stopMetronome();
+      await starting;
+      await advance(1);
+
+      expect(context.clicks).toHaveLength(0);
+      expect(metronome.isMetronomeRunning()).toBe(false);
+    });
+  });
+
   describe('에러 처리', () => {
     it('사운드 재생 중 에러가 발생해도 예외를 던지지 않아야 한다', async () => {
       await service.loadSounds();
@@ -1,419 +1,204 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { BackgroundSyncService } from '../BackgroundSyncService';
-import type { TimerState } from '../../types';
-
-// Mock IndexedDBService
-vi.mock('../IndexedDBService', () => ({
-  IndexedDBService: vi.fn().mockImplementation(() => ({
-    ready: true,
-    saveCurrentState: vi.fn().mockResolvedValue(undefined),
-    loadCurrentState: vi.fn().mockResolvedValue(null),
-    clearCurrentState: vi.fn().mockResolvedValue(undefined),
-    saveBackupState: vi.fn().mockResolvedValue('backup_123'),
-    destroy: vi.fn()
-  }))
-}));
-
-// Mock document visibility API
-Object.defineProperty(document, 'hidden', {
-  writable: true,
-  value: false
-});
-
-Object.defineProperty(document, 'visibilityState', {
-  writable: true,
-  value: 'visible'
+import { DEFAULT_EMOM_CONFIG, DEFAULT_INTERVAL_CONFIG } from '../../types';
+import type { SavedTimerSession } from '../../types';
+
+const STORAGE_KEY = 'workout-timer-background-state';
+const SAVED_AT = 1_700_000_000_000;
+
+const createSession = (overrides: Partial<SavedTimerSession> = {}): SavedTimerSession => ({
+  mode: 'timer',
+  duration: 300,
+  interval: DEFAULT_INTERVAL_CONFIG,
+  emom: DEFAULT_EMOM_CONFIG,
+  overtime: false,
+  repetitions: 4,
+  laps: [],
+  roundSplits: [],
+  isPaused: false,
+  startedAt: SAVED_AT - 60_000,
+  elapsedTime: 60_000,
+  savedAt: SAVED_AT,
+  pauses: [],
+  pausedAt: null,
+  addedTime: [],
+  ...overrides,
 });
 
 describe('BackgroundSyncService', () => {
   let service: BackgroundSyncService;
-  let mockTimerState: TimerState;
 
   beforeEach(() => {
-    vi.clearAllMocks();
-    vi.useFakeTimers();
-    
-    mockTimerState = {
-      duration: 60,
-      remainingTime: 30,
-      repetitions: 5,
-      isRunning: true,
-      isPaused: false
-    };
-
+    localStorage.clear();
     service = new BackgroundSyncService();
   });
 
   afterEach(() => {
-    if (service) {
-      service.destroy();
-    }
-    vi.useRealTimers();
+    vi.restoreAllMocks();
   });
 
-  describe('initialization', () => {
-    it('should create BackgroundSyncService instance', () => {
-      expect(service).toBeInstanceOf(BackgroundSyncService);
-      expect(service.isInitialized()).toBe(false);
-    });
+  describe('session storage', () => {
+    it('should save and load a session', () => {
+      const session = createSession();
 
-    it('should initialize successfully', async () => {
-      await service.initialize();
-      
-      expect(service.isInitialized()).toBe(true);
-    });
+      service.saveSession(session);
 
-    it('should handle initialization failure gracefully', async () => {
-      const mockIndexedDBService = (service as any).indexedDBService;
-      mockIndexedDBService.ready = false;
-      
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-      
-      await service.initialize();
-      
-      expect(service.isInitialized()).toBe(false);
-      expect(consoleSpy).toHaveBeenCalledWith('Failed to initialize BackgroundSyncService: IndexedDB not ready');
-      
-      consoleSpy.mockRestore();
+      expect(service.loadSession()).toEqual(session);
     });
-  });
 
-  describe('timer state synchronization', () => {
-    beforeEach(async () => {
-      await service.initialize();
-    });
+    it('should load sessions saved before pauses were recorded without pauses', () => {
+      const { pauses, pausedAt, ...legacy } = createSession({ isPaused: true });
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(legacy));
 
-    it('should save timer state', async () => {
-      const mockIndexedDBService = (service as any).indexedDBService;
-      
-      await service.saveTimerState(mockTimerState);
-      
-      expect(mockIndexedDBService.saveCurrentState).toHaveBeenCalledWith(mockTimerState);
+      expect(pauses).toEqual([]);
+      expect(pausedAt).toBeNull();
+      expect(service.loadSession()).toEqual(createSession({ isPaused: true }));
     });
 
-    it('should load timer state', async () => {
-      const mockIndexedDBService = (service as any).indexedDBService;
-      mockIndexedDBService.loadCurrentState.mockResolvedValue(mockTimerState);
-      
-      const result = await service.loadTimerState();
-      
-      expect(result).toEqual(mockTimerState);
-      expect(mockIndexedDBService.loadCurrentState).toHaveBeenCalled();
-    });
+    it('should load sessions saved before added time was recorded without added time', () => {
+      const { addedTime, ...legacy } = createSession({ mode: 'interval' });
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(legacy));
 
-    it('should clear timer state', async () => {
-      const mockIndexedDBService = (service as any).indexedDBService;
-      
-      await service.clearTimerState();
-      
-      expect(mockIndexedDBService.clearCurrentState).toHaveBeenCalled();
+      expect(addedTime).toEqual([]);
+      expect(service.loadSession()).toEqual(createSession({ mode: 'interval' }));
     });
 
-    it('should handle save errors gracefully', async () => {
-      const mockIndexedDBService = (service as any).indexedDBService;
-      mockIndexedDBService.saveCurrentState.mockRejectedValue(new Error('Save failed'));
-      
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-      
-      await service.saveTimerState(mockTimerState);
-      
-      expect(consoleSpy).toHaveBeenCalledWith('Failed to save timer state:', expect.any(Error));
-      
-      consoleSpy.mockRestore();
+    it('should return null when nothing is saved', () => {
+      expect(service.loadSession()).toBeNull();
     });
 
-    it('should handle load errors gracefully', async () => {
-      const mockIndexedDBService = (service as any).indexedDBService;
-      mockIndexedDBService.loadCurrentState.mockRejectedValue(new Error('Load failed'));
-      
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-      
-      const result = await service.loadTimerState();
-      
-      expect(result).toBeNull();
-      expect(consoleSpy).toHaveBeenCalledWith('Failed to load timer state:', expect.any(Error));
-      
-      consoleSpy.mockRestore();
-    });
-  });
+    it('should clear the saved session', () => {
+      service.saveSession(createSession());
 
-  describe('background sync', () => {
-    beforeEach(async () => {
-      await service.initialize();
-    });
+      service.clearSession();
 
-    it('should start background sync', () => {
-      const addEventListenerSpy = vi.spyOn(document, 'addEventListener');
-      
-      service.startBackgroundSync();
-      
-      expect(addEventListenerSpy).toHaveBeenCalledWith('visibilitychange', expect.any(Function));
-      expect(service.isBackgroundSyncActive()).toBe(true);
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+      expect(service.loadSession()).toBeNull();
     });
 
-    it('should stop background sync', () => {
-      const removeEventListenerSpy = vi.spyOn(document, 'removeEventListener');
-      
-      service.startBackgroundSync();
-      service.stopBackgroundSync();
-      
-      expect(removeEventListenerSpy).toHaveBeenCalledWith('visibilitychange', expect.any(Function));
-      expect(service.isBackgroundSyncActive()).toBe(false);
-    });
+    it('should discard data saved in an old or broken format', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      // 이전 버전은 남은 시간을 그대로 저장했음
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ timerState: { remainingTime: 5000 }, timestamp: SAVED_AT }));
 
-    it('should handle visibility change to hidden', async () => {
-      const mockCallback = vi.fn();
-      service.setOnBackgroundCallback(mockCallback);
-      service.startBackgroundSync();
-      
-      // Simulate page becoming hidden
-      Object.defineProperty(document, 'hidden', { value: true });
-      Object.defineProperty(document, 'visibilityState', { value: 'hidden' });
-      
-      // Trigger visibility change event
-      const visibilityChangeEvent = new Event('visibilitychange');
-      document.dispatchEvent(visibilityChangeEvent);
-      
-      expect(mockCallback).toHaveBeenCalledWith('background');
+      expect(service.loadSession()).toBeNull();
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
     });
 
-    it('should handle visibility change to visible', async () => {
-      const mockCallback = vi.fn();
-      service.setOnForegroundCallback(mockCallback);
-      service.startBackgroundSync();
-      
-      // First make it hidden
-      Object.defineProperty(document, 'hidden', { value: true });
-      Object.defineProperty(document, 'visibilityState', { value: 'hidden' });
-      
-      // Then make it visible
-      Object.defineProperty(document, 'hidden', { value: false });
-      Object.defineProperty(document, 'visibilityState', { value: 'visible' });
-      
-      // Trigger visibility change event
-      const visibilityChangeEvent = new Event('visibilitychange');
-      document.dispatchEvent(visibilityChangeEvent);
-      
-      expect(mockCallback).toHaveBeenCalledWith('foreground');
+    it('should handle unparsable data gracefully', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      localStorage.setItem(STORAGE_KEY, '{not json');
+
+      expect(service.loadSession()).toBeNull();
     });
   });
 
-  describe('periodic sync', () => {
-    beforeEach(async () => {
-      await service.initialize();
-    });
+  describe('calculateRestoredState', () => {
+    it('should subtract the wall-clock time since saving from a running countdown', () => {
+      const { state, elapsedTime } = BackgroundSyncService.calculateRestoredState(createSession(), SAVED_AT + 30_000);
 
-    it('should start periodic sync', () => {
-      const setIntervalSpy = vi.spyOn(global, 'setInterval');
-      
-      service.startPeriodicSync(1000);
-      
-      expect(setIntervalSpy).toHaveBeenCalledWith(expect.any(Function), 1000);
-      expect(service.isPeriodicSyncActive()).toBe(true);
+      expect(elapsedTime).toBe(90_000);
+      expect(state.remainingTime).toBe(210_000);
+      expect(state.isRunning).toBe(true);
+      expect(state.isPaused).toBe(false);
+      expect(state.repetitions).toBe(4);
     });
 
-    it('should stop periodic sync', () => {
-      const clearIntervalSpy = vi.spyOn(global, 'clearInterval');
-      
-      service.startPeriodicSync(1000);
-      service.stopPeriodicSync();
-      
-      expect(clearIntervalSpy).toHaveBeenCalled();
-      expect(service.isPeriodicSyncActive()).toBe(false);
-    });
+    it('should keep a paused session where it was', () => {
+      const session = createSession({ isPaused: true });
 
-    it('should execute periodic sync callback', async () => {
-      const mockCallback = vi.fn();
-      service.setOnPeriodicSyncCallback(mockCallback);
-      
-      service.startPeriodicSync(1000);
-      
-      // Fast-forward time to trigger interval
-      vi.advanceTimersByTime(1000);
-      
-      expect(mockCallback).toHaveBeenCalled();
-    });
+      const { state, elapsedTime } = BackgroundSyncService.calculateRestoredState(session, SAVED_AT + 600_000);
 
-    it('should use default interval when none provided', () => {
-      const setIntervalSpy = vi.spyOn(global, 'setInterval');
-      
-      service.startPeriodicSync();
-      
-      expect(setIntervalSpy).toHaveBeenCalledWith(expect.any(Function), 30000); // Default 30 seconds
+      expect(elapsedTime).toBe(60_000);
+      expect(state.remainingTime).toBe(240_000);
+      expect(state.isRunning).toBe(false);
+      expect(state.isPaused).toBe(true);
     });
-  });
 
-  describe('backup management', () => {
-    beforeEach(async () => {
-      await service.initialize();
-    });
+    it('should restore stopwatch elapsed time and laps', () => {
+      const laps = [{ number: 1, lapTime: 40_000, totalTime: 40_000 }];
+      const session = createSession({ mode: 'stopwatch', duration: 0, laps });
 
-    it('should create backup', async () => {
-      const mockIndexedDBService = (service as any).indexedDBService;
-      mockIndexedDBService.saveBackupState.mockResolvedValue('backup_123');
-      
-      const backupId = await service.createBackup(mockTimerState);
-      
-      expect(backupId).toBe('backup_123');
-      expect(mockIndexedDBService.saveBackupState).toHaveBeenCalledWith(mockTimerState);
-    });
+      const { state } = BackgroundSyncService.calculateRestoredState(session, SAVED_AT + 5_000);
 
-    it('should handle backup creation errors', async () => {
-      const mockIndexedDBService = (service as any).indexedDBService;
-      mockIndexedDBService.saveBackupState.mockRejectedValue(new Error('Backup failed'));
-      
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-      
-      const backupId = await service.createBackup(mockTimerState);
-      
-      expect(backupId).toBeNull();
-      expect(consoleSpy).toHaveBeenCalledWith('Failed to create backup:', expect.any(Error));
-      
-      consoleSpy.mockRestore();
+      expect(state.elapsedTime).toBe(65_000);
+      expect(state.laps).toEqual(laps);
     });
-  });
 
-  describe('sync status', () => {
-    beforeEach(async () => {
-      await service.initialize();
+    it('should move to the interval phase reached while the page was closed', () => {
+      const session = createSession({
+        mode: 'interval',
+        duration: 0,
+        interval: { workDuration: 20, restDuration: 10, rounds: 3 },
+        elapsedTime: 5_000,
+      });
+
+      // 5초 + 40초 = 2라운드 운동 구간 15초 경과
+      const { state } = BackgroundSyncService.calculateRestoredState(session, SAVED_AT + 40_000);
+
+      expect(state.currentRound).toBe(2);
+      expect(state.phase).toBe('work');
+      expect(state.remainingTime).toBe(5_000);
     });
 
-    it('should return sync status', () => {
-      service.startBackgroundSync();
-      service.startPeriodicSync(5000);
-      
-      const status = service.getSyncStatus();
-      
-      expect(status).toEqual({
-        initialized: true,
-        backgroundSyncActive: true,
-        periodicSyncActive: true,
-        lastSyncTime: expect.any(Number),
-        syncInterval: 5000
+    it('should keep the time added to interval phases', () => {
+      // 1라운드 운동 구간에 30초를 추가한 뒤 저장
+      const session = createSession({
+        mode: 'interval',
+        duration: 0,
+        interval: { workDuration: 20, restDuration: 10, rounds: 3 },
+        elapsedTime: 40_000,
+        addedTime: [{ index: 0, ms: 30_000 }],
       });
-    });
 
-    it('should update last sync time', () => {
-      const initialStatus = service.getSyncStatus();
-      const initialTime = initialStatus.lastSyncTime;
-      
-      // Wait a bit and update
-      vi.advanceTimersByTime(1000);
-      service.updateLastSyncTime();
-      
-      const updatedStatus = service.getSyncStatus();
-      expect(updatedStatus.lastSyncTime).toBeGreaterThan(initialTime);
-    });
-  });
+      const current = BackgroundSyncService.calculateRestoredState(session, SAVED_AT + 5_000);
+      // 50초 + 10초 휴식 이후 2라운드 운동 구간 3초 경과
+      const next = BackgroundSyncService.calculateRestoredState(session, SAVED_AT + 23_000);
+
+      expect(current.state.currentRound).toBe(1);
+      expect(current.state.phase).toBe('work');
+      expect(current.state.remainingTime).toBe(5_000);
+      expect(current.state.addedTime).toBe(30_000);
+      expect(next.state.currentRound).toBe(2);
+      expect(next.state.remainingTime).toBe(17_000);
+      expect(next.state.addedTime).toBe(0);
+    });
+
+    it('should count EMOM rounds passed while the page was closed', () => {
+      const session = createSession({
+        mode: 'emom',
+        duration: 0,
+        emom: { ...DEFAULT_EMOM_CONFIG, intervalDuration: 60, rounds: 10, repBehavior: 'increment' },
+        elapsedTime: 30_000,
+      });
 
-  describe('callbacks', () => {
-    beforeEach(async () => {
-      await service.initialize();
-    });
+      const { state } = BackgroundSyncService.calculateRestoredState(session, SAVED_AT + 120_000);
 
-    it('should set and call background callback', () => {
-      const mockCallback = vi.fn();
-      service.setOnBackgroundCallback(mockCallback);
-      
-      // Trigger background callback internally
-      (service as any).handleVisibilityChange();
-      
-      // Since document.hidden is false by default, this won't trigger background
-      // Let's set it to hidden first
-      Object.defineProperty(document, 'hidden', { value: true });
-      (service as any).handleVisibilityChange();
-      
-      expect(mockCallback).toHaveBeenCalledWith('background');
+      expect(state.currentRound).toBe(3);
+      expect(state.repetitions).toBe(6);
     });
 
-    it('should set and call foreground callback', () => {
-      const mockCallback = vi.fn();
-      service.setOnForegroundCallback(mockCallback);
-      
-      // Set to hidden first, then visible
-      Object.defineProperty(document, 'hidden', { value: true });
-      (service as any).handleVisibilityChange();
-      
-      Object.defineProperty(document, 'hidden', { value: false });
-      (service as any).handleVisibilityChange();
-      
-      expect(mockCallback).toHaveBeenCalledWith('foreground');
-    });
+    it('should reset EMOM reps when the rep behavior is reset', () => {
+      const session = createSession({
+        mode: 'emom',
+        duration: 0,
+        emom: { ...DEFAULT_EMOM_CONFIG, intervalDuration: 60, rounds: 10, repBehavior: 'reset' },
+        elapsedTime: 30_000,
+      });
 
-    it('should set and call periodic sync callback', () => {
-      const mockCallback = vi.fn();
-      service.setOnPeriodicSyncCallback(mockCallback);
-      
-      service.startPeriodicSync(1000);
-      vi.advanceTimersByTime(1000);
-      
-      expect(mockCallback).toHaveBeenCalled();
-    });
-  });
+      const { state } = BackgroundSyncService.calculateRestoredState(session, SAVED_AT + 60_000);
 
-  describe('cleanup', () => {
-    it('should destroy service properly', async () => {
-      await service.initialize();
-      service.startBackgroundSync();
-      service.startPeriodicSync(1000);
-      
-      const mockIndexedDBService = (service as any).indexedDBService;
-      const removeEventListenerSpy = vi.spyOn(document, 'removeEventListener');
-      const clearIntervalSpy = vi.spyOn(global, 'clearInterval');
-      
-      service.destroy();
-      
-      expect(removeEventListenerSpy).toHaveBeenCalled();
-      expect(clearIntervalSpy).toHaveBeenCalled();
-      expect(mockIndexedDBService.destroy).toHaveBeenCalled();
-      expect(service.isInitialized()).toBe(false);
-      expect(service.isBackgroundSyncActive()).toBe(false);
-      expect(service.isPeriodicSyncActive()).toBe(false);
+      expect(state.currentRound).toBe(2);
+      expect(state.repetitions).toBe(0);
     });
-  });
 
-  describe('error handling', () => {
-    it('should handle operations when not initialized', async () => {
-      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
-      
-      await service.saveTimerState(mockTimerState);
-      
-      expect(consoleSpy).toHaveBeenCalledWith('BackgroundSyncService is not initialized');
-      
-      consoleSpy.mockRestore();
-    });
+    it('should restore overtime past the end of a countdown', () => {
+      const session = createSession({ duration: 60, overtime: true });
 
-    it('should handle visibility change errors', () => {
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-      
-      // Mock callback that throws
-      service.setOnBackgroundCallback(() => {
-        throw new Error('Callback error');
-      });
-      
-      service.startBackgroundSync();
-      Object.defineProperty(document, 'hidden', { value: true });
-      (service as any).handleVisibilityChange();
-      
-      expect(consoleSpy).toHaveBeenCalledWith('Error in visibility change handler:', expect.any(Error));
-      
-      consoleSpy.mockRestore();
-    });
+      const { state } = BackgroundSyncService.calculateRestoredState(session, SAVED_AT + 15_000);
 
-    it('should handle periodic sync errors', () => {
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-      
-      // Mock callback that throws
-      service.setOnPeriodicSyncCallback(() => {
-        throw new Error('Periodic sync error');
-      });
-      
-      service.startPeriodicSync(1000);
-      vi.advanceTimersByTime(1000);
-      
-      expect(consoleSpy).toHaveBeenCalledWith('Error in periodic sync:', expect.any(Error));
-      
-      consoleSpy.mockRestore();
+      expect(state.remainingTime).toBe(0);
+      expect(state.overtime).toBe(15_000);
     });
   });
-});
\ No newline at end of file
+});
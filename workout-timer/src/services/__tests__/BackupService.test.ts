@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BackupService, calculateChecksum } from '../BackupService';
+import type { IndexedDBService } from '../IndexedDBService';
+import { StorageService } from '../StorageService';
+import { DEFAULT_SETTINGS, STORAGE_KEYS } from '../../types';
+import type { BackupFile, CustomSound, Template, WorkoutSession } from '../../types';
+
+const createSession = (id: string): WorkoutSession => ({
+  id,
+  mode: 'timer',
+  duration: 60,
+  elapsedTime: 60_000,
+  pauses: [],
+  repetitions: 3,
+  laps: [],
+  overtime: null,
+  startedAt: 1_709_200_000_000,
+  endedAt: 1_709_200_060_000,
+  completed: true,
+});
+
+const customTemplate = (id: string, name: string): Template => ({
+  id,
+  name,
+  duration: 90,
+  isDefault: false,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+});
+
+// 'RIFF'로 시작하는 짧은 오디오 파일 (jsdom의 Blob에는 arrayBuffer가 없어 필요한 속성만 모킹)
+const createSound = (id: CustomSound['id']): CustomSound => ({
+  id,
+  name: '호루라기',
+  mimeType: 'audio/wav',
+  size: 4,
+  duration: 0.5,
+  createdAt: 1_709_200_000_000,
+  blob: { type: 'audio/wav', size: 4, arrayBuffer: async () => new Uint8Array([82, 73, 70, 70]).buffer } as unknown as Blob,
+});
+
+// 메모리에 기록과 알림음을 저장하는 DB 모킹
+const createMockDB = (initial: WorkoutSession[] = [], initialSounds: CustomSound[] = []) => {
+  const store = new Map(initial.map(session => [session.id, session]));
+  const sounds = new Map(initialSounds.map(sound => [sound.id, sound]));
+  return {
+    store,
+    sounds,
+    getSessions: vi.fn(async () => [...store.values()]),
+    saveSessions: vi.fn(async (items: WorkoutSession[]) => {
+      items.forEach(item => store.set(item.id, item));
+    }),
+    clearSessions: vi.fn(async () => store.clear()),
+    getSounds: vi.fn(async () => [...sounds.values()]),
+    saveSound: vi.fn(async (sound: CustomSound) => {
+      sounds.set(sound.id, sound);
+    }),
+    clearSounds: vi.fn(async () => sounds.clear()),
+    destroy: vi.fn(),
+  };
+};
+
+const createService = (db: ReturnType<typeof createMockDB>) => new BackupService(db as unknown as IndexedDBService);
+
+describe('BackupService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('calculates a stable CRC-32 checksum', () => {
+    expect(calculateChecksum('123456789')).toBe('cbf43926');
+    expect(calculateChecksum('운동')).toBe(calculateChecksum('운동'));
+    expect(calculateChecksum('운동')).not.toBe(calculateChecksum('휴식'));
+  });
+
+  it('creates a versioned backup of settings, presets, program and history', async () => {
+    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(DEFAULT_SETTINGS));
+    localStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify([customTemplate('t1', '플랭크')]));
+    localStorage.setItem(STORAGE_KEYS.WORKOUT_PROGRAM, JSON.stringify({ name: '하체', exercises: [] }));
+
+    const content = await createService(createMockDB([createSession('s1')])).createBackup(new Date('2024-03-01T00:00:00.000Z'));
+    const backup = BackupService.parseBackup(content);
+
+    expect(backup.format).toBe(BackupService.FORMAT);
+    expect(backup.version).toBe(BackupService.VERSION);
+    expect(backup.data.settings).toEqual(DEFAULT_SETTINGS);
+    expect(backup.data.workoutProgram?.name).toBe('하체');
+    expect(BackupService.getPreview(backup)).toEqual({
+      createdAt: new Date('2024-03-01T00:00:00.000Z'),
+      hasSettings: true,
+      templates: 1,
+      exercises: 0,
+      sessions: 1,
+      sounds: 0,
+    });
+  });
+
+  it('backs up custom sounds as base64 and restores them as audio files', async () => {
+    const content = await createService(createMockDB([], [createSound('custom-whistle')])).createBackup();
+    const backup = BackupService.parseBackup(content);
+
+    expect(backup.data.sounds).toEqual([{
+      id: 'custom-whistle',
+      name: '호루라기',
+      mimeType: 'audio/wav',
+      duration: 0.5,
+      createdAt: 1_709_200_000_000,
+      data: 'UklGRg==',
+    }]);
+    expect(BackupService.getPreview(backup).sounds).toBe(1);
+
+    const db = createMockDB();
+    await createService(db).restore(backup, 'merge');
+
+    const restored = db.sounds.get('custom-whistle');
+    expect(restored).toEqual(expect.objectContaining({ name: '호루라기', size: 4, duration: 0.5 }));
+    expect(restored?.blob.type).toBe('audio/wav');
+  });
+
+  describe('parseBackup', () => {
+    let file: BackupFile;
+
+    beforeEach(async () => {
+      file = JSON.parse(await createService(createMockDB([createSession('s1')])).createBackup());
+    });
+
+    it('refuses unreadable or foreign files', () => {
+      expect(() => BackupService.parseBackup('{not json')).toThrow('백업 파일을 읽을 수 없습니다.');
+      expect(() => BackupService.parseBackup(JSON.stringify({ format: 'other' }))).toThrow('운동 타이머 백업 파일이 아닙니다.');
+    });
+
+    it('refuses files from a newer version', () => {
+      expect(() => BackupService.parseBackup(JSON.stringify({ ...file, version: BackupService.VERSION + 1 })))
+        .toThrow(`더 새로운 버전의 앱에서 만든 백업(v${BackupService.VERSION + 1})입니다.`);
+    });
+
+    it('refuses files whose data does not match the checksum', () => {
+      const tampered = { ...file, data: { ...file.data, sessions: [createSession('s2')] } };
+
+      expect(() => BackupService.parseBackup(JSON.stringify(tampered))).toThrow('백업 파일이 손상되었습니다.');
+    });
+
+    it('refuses files with invalid data even when the checksum matches', () => {
+      const data = { ...file.data, sessions: [{ id: 'broken' }] };
+      const broken = { ...file, data, checksum: calculateChecksum(JSON.stringify(data)) };
+
+      expect(() => BackupService.parseBackup(JSON.stringify(broken))).toThrow('백업 파일의 데이터 형식이 올바르지 않습니다.');
+    });
+
+    it('reads sessions backed up before overtime was recorded', () => {
+      const { overtime, ...legacy } = createSession('s1');
+      const data = { ...file.data, sessions: [legacy] };
+      const backup = { ...file, data, checksum: calculateChecksum(JSON.stringify(data)) };
+
+      expect(overtime).toBeNull();
+      expect(BackupService.parseBackup(JSON.stringify(backup)).data.sessions).toEqual([createSession('s1')]);
+    });
+
+    it('refuses sounds without audio data', () => {
+      const data = { ...file.data, sounds: [{ id: 'custom-1', name: '호루라기', mimeType: 'audio/wav' }] };
+      const broken = { ...file, data, checksum: calculateChecksum(JSON.stringify(data)) };
+
+      expect(() => BackupService.parseBackup(JSON.stringify(broken))).toThrow('백업 파일의 데이터 형식이 올바르지 않습니다.');
+    });
+  });
+
+  describe('restore', () => {
+    let backup: BackupFile;
+
+    beforeEach(async () => {
+      localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify({ ...DEFAULT_SETTINGS, ui: { ...DEFAULT_SETTINGS.ui, theme: 'dark' } }));
+      localStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify([customTemplate('t1', '플랭크'), customTemplate('t2', '버피')]));
+      localStorage.setItem(STORAGE_KEYS.WORKOUT_PROGRAM, JSON.stringify({ name: '백업 프로그램', exercises: [] }));
+      backup = BackupService.parseBackup(await createService(createMockDB([createSession('s1'), createSession('s2')])).createBackup());
+
+      // 새 기기의 현재 데이터
+      localStorage.clear();
+      localStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify([customTemplate('t3', '플랭크')]));
+    });
+
+    it('merges missing presets and sessions while keeping current data', async () => {
+      localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(DEFAULT_SETTINGS));
+      const db = createMockDB([createSession('s1')]);
+
+      await createService(db).restore(backup, 'merge');
+
+      expect(StorageService.loadSettings()?.ui.theme).toBe(DEFAULT_SETTINGS.ui.theme);
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.TEMPLATES)!).map((t: Template) => t.id)).toEqual(['t3', 't2']);
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.WORKOUT_PROGRAM)!).name).toBe('백업 프로그램');
+      expect(db.saveSessions).toHaveBeenCalledWith([createSession('s2')]);
+      expect(db.clearSessions).not.toHaveBeenCalled();
+    });
+
+    it('replaces all data with the backup contents', async () => {
+      const db = createMockDB([createSession('local')]);
+
+      await createService(db).restore(backup, 'replace');
+
+      expect(StorageService.loadSettings()?.ui.theme).toBe('dark');
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.TEMPLATES)!).map((t: Template) => t.id)).toEqual(['t1', 't2']);
+      expect([...db.store.keys()]).toEqual(['s1', 's2']);
+      expect(db.clearSounds).toHaveBeenCalled();
+    });
+  });
+});
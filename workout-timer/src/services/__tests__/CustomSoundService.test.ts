@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CustomSoundService } from '../CustomSoundService';
+import type { IndexedDBService } from '../IndexedDBService';
+import { CUSTOM_SOUND_CONSTANTS } from '../../types';
+import type { CustomSound } from '../../types';
+
+// 메모리에 알림음을 저장하는 DB 모킹
+const createMockDB = () => {
+  const store = new Map<string, CustomSound>();
+  return {
+    store,
+    getSounds: vi.fn(async () => [...store.values()]),
+    getSound: vi.fn(async (id: string) => store.get(id) ?? null),
+    saveSound: vi.fn(async (sound: CustomSound) => {
+      store.set(sound.id, sound);
+    }),
+    deleteSound: vi.fn(async (id: string) => {
+      store.delete(id);
+    }),
+    destroy: vi.fn(),
+  };
+};
+
+// jsdom의 File에는 arrayBuffer가 없어 필요한 속성만 갖춘 파일 모킹
+const createFile = (name: string, type: string, size: number = 1024) => ({
+  name,
+  type,
+  size,
+  arrayBuffer: vi.fn(async () => new Uint8Array(Math.min(size, 16)).buffer),
+}) as unknown as File;
+
+const decodeAs = (duration: number) => vi.fn(async () => ({ duration }) as AudioBuffer);
+
+describe('CustomSoundService', () => {
+  let db: ReturnType<typeof createMockDB>;
+  let service: CustomSoundService;
+
+  beforeEach(() => {
+    db = createMockDB();
+    service = new CustomSoundService(db as unknown as IndexedDBService);
+  });
+
+  it('should decode and store an imported audio file', async () => {
+    const decode = decodeAs(1.5);
+
+    const sound = await service.importFile(createFile('whistle.mp3', 'audio/mpeg'), decode);
+
+    expect(decode).toHaveBeenCalledWith(expect.any(ArrayBuffer));
+    expect(sound).toEqual(expect.objectContaining({
+      name: 'whistle',
+      mimeType: 'audio/mpeg',
+      size: 1024,
+      duration: 1.5,
+    }));
+    expect(sound.id.startsWith(CUSTOM_SOUND_CONSTANTS.ID_PREFIX)).toBe(true);
+    expect(sound.blob.type).toBe('audio/mpeg');
+    expect(await service.getSounds()).toEqual([sound]);
+  });
+
+  it('should reject files larger than the limit without decoding', async () => {
+    const decode = decodeAs(1);
+
+    await expect(service.importFile(createFile('long.wav', 'audio/wav', CUSTOM_SOUND_CONSTANTS.MAX_FILE_BYTES + 1), decode))
+      .rejects.toThrow('파일이 너무 큽니다. 1MB 이하의 파일을 선택해주세요.');
+    expect(decode).not.toHaveBeenCalled();
+    expect(db.saveSound).not.toHaveBeenCalled();
+  });
+
+  it('should reject files that are not audio', async () => {
+    await expect(service.importFile(createFile('notes.txt', 'text/plain'), decodeAs(1)))
+      .rejects.toThrow('오디오 파일만 추가할 수 있습니다.');
+  });
+
+  it('should reject files that cannot be decoded', async () => {
+    const decode = vi.fn(async () => {
+      throw new DOMException('Unable to decode audio data', 'EncodingError');
+    });
+
+    await expect(service.importFile(createFile('broken.mp3', 'audio/mpeg'), decode))
+      .rejects.toThrow('오디오 파일을 읽을 수 없습니다. 파일이 손상되었거나 지원하지 않는 형식입니다.');
+    expect(db.saveSound).not.toHaveBeenCalled();
+  });
+
+  it('should reject sounds longer than the limit', async () => {
+    await expect(service.importFile(createFile('song.mp3', 'audio/mpeg'), decodeAs(CUSTOM_SOUND_CONSTANTS.MAX_DURATION_SECONDS + 0.5)))
+      .rejects.toThrow('알림음은 10초 이하여야 합니다.');
+  });
+
+  it('should delete a stored sound', async () => {
+    const sound = await service.importFile(createFile('bell.ogg', 'audio/ogg'), decodeAs(0.8));
+
+    await service.deleteSound(sound.id);
+
+    expect(await service.getSound(sound.id)).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HistoryTransferService } from '../HistoryTransferService';
+import type { IndexedDBService } from '../IndexedDBService';
+import type { WorkoutSession } from '../../types';
+
+const sessions: WorkoutSession[] = [
+  {
+    id: 'session-2',
+    mode: 'stopwatch',
+    duration: 0,
+    elapsedTime: 95_000,
+    pauses: [{ startedAt: 1_709_300_010_000, endedAt: 1_709_300_015_000 }],
+    repetitions: 0,
+    laps: [
+      { number: 1, lapTime: 40_000, totalTime: 40_000 },
+      { number: 2, lapTime: 55_000, totalTime: 95_000 },
+    ],
+    overtime: null,
+    startedAt: 1_709_300_000_000,
+    endedAt: 1_709_300_100_000,
+    completed: false,
+  },
+  {
+    id: 'session-1',
+    mode: 'amrap',
+    duration: 600,
+    elapsedTime: 600_000,
+    pauses: [],
+    repetitions: 12,
+    laps: [],
+    overtime: null,
+    startedAt: 1_709_200_000_000,
+    endedAt: 1_709_200_600_000,
+    completed: true,
+  },
+];
+
+// 메모리에 기록을 저장하는 DB 모킹
+const createMockDB = (initial: WorkoutSession[] = []) => {
+  const store = new Map(initial.map(session => [session.id, session]));
+  return {
+    getSessions: vi.fn(async () => [...store.values()].sort((a, b) => b.startedAt - a.startedAt)),
+    saveSessions: vi.fn(async (items: WorkoutSession[]) => {
+      items.forEach(item => store.set(item.id, item));
+    }),
+  };
+};
+
+const createService = (db: ReturnType<typeof createMockDB>) =>
+  new HistoryTransferService(db as unknown as IndexedDBService);
+
+describe('HistoryTransferService', () => {
+  let source: ReturnType<typeof createMockDB>;
+
+  beforeEach(() => {
+    source = createMockDB(sessions);
+  });
+
+  describe('JSON', () => {
+    it('exports a versioned file', async () => {
+      const file = JSON.parse(await createService(source).exportHistory('json'));
+
+      expect(file.format).toBe(HistoryTransferService.FORMAT);
+      expect(file.version).toBe(HistoryTransferService.VERSION);
+      expect(file.sessions.map((session: WorkoutSession) => session.id)).toEqual(['session-1', 'session-2']);
+    });
+
+    it('round-trips sessions, laps and rep counts', async () => {
+      const content = await createService(source).exportHistory('json');
+      const target = createMockDB();
+
+      const result = await createService(target).importHistory(content, 'json');
+
+      expect(result).toEqual({ imported: 2, duplicates: 0, rejected: 0 });
+      expect(await target.getSessions()).toEqual(sessions);
+    });
+
+    it('rejects invalid sessions and skips duplicate ids', async () => {
+      const content = JSON.stringify({
+        format: HistoryTransferService.FORMAT,
+        version: 1,
+        sessions: [
+          sessions[0],
+          { ...sessions[1], id: 'new-session' },
+          { ...sessions[1], id: 'new-session' },
+          { ...sessions[1], id: 'bad-mode', mode: 'yoga' },
+          { ...sessions[1], id: 'bad-laps', laps: [{ number: 0 }] },
+          'not a session',
+        ],
+      });
+
+      const result = await createService(source).importHistory(content, 'json');
+
+      expect(result).toEqual({ imported: 1, duplicates: 2, rejected: 3 });
+      expect(source.saveSessions).toHaveBeenCalledWith([{ ...sessions[1], id: 'new-session' }]);
+    });
+
+    it('reads sessions exported before overtime was recorded', async () => {
+      const { overtime, ...legacy } = sessions[1];
+      const content = JSON.stringify({ format: HistoryTransferService.FORMAT, version: 1, sessions: [legacy] });
+      const target = createMockDB();
+
+      const result = await createService(target).importHistory(content, 'json');
+
+      expect(overtime).toBeNull();
+      expect(result).toEqual({ imported: 1, duplicates: 0, rejected: 0 });
+      expect(await target.getSessions()).toEqual([sessions[1]]);
+    });
+
+    it('rejects a negative overtime', async () => {
+      const content = JSON.stringify({
+        format: HistoryTransferService.FORMAT,
+        version: 1,
+        sessions: [{ ...sessions[1], overtime: -1 }],
+      });
+
+      expect(await createService(createMockDB()).importHistory(content, 'json'))
+        .toEqual({ imported: 0, duplicates: 0, rejected: 1 });
+    });
+
+    it('throws for files that are not history exports', async () => {
+      const service = createService(source);
+
+      await expect(service.importHistory('{', 'json')).rejects.toThrow('JSON 파일을 읽을 수 없습니다.');
+      await expect(service.importHistory('{"sessions": []}', 'json')).rejects.toThrow('운동 기록 파일 형식이 아닙니다.');
+      await expect(service.importHistory(
+        JSON.stringify({ format: HistoryTransferService.FORMAT, version: 99, sessions: [] }),
+        'json'
+      )).rejects.toThrow('지원하지 않는 파일 버전입니다.');
+      expect(source.saveSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('CSV', () => {
+    it('exports one row per session with a header', async () => {
+      const lines = (await createService(source).exportHistory('csv')).trim().split('\r\n');
+
+      expect(lines[0]).toBe('id,mode,started_at,ended_at,duration_seconds,elapsed_ms,repetitions,completed,pauses,laps_ms,overtime_ms');
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toBe('session-1,amrap,2024-02-29T09:46:40.000Z,2024-02-29T09:56:40.000Z,600,600000,12,true,,,');
+      expect(lines[2]).toContain(',1709300010000-1709300015000,40000;55000,');
+    });
+
+    it('round-trips sessions, laps and rep counts', async () => {
+      const content = await createService(source).exportHistory('csv');
+      const target = createMockDB();
+
+      const result = await createService(target).importHistory(content, 'csv');
+
+      expect(result).toEqual({ imported: 2, duplicates: 0, rejected: 0 });
+      expect(await target.getSessions()).toEqual(sessions);
+    });
+
+    it('reports rejected rows and reads quoted values', async () => {
+      const content = [
+        '\uFEFFid,mode,started_at,ended_at,duration_seconds,elapsed_ms,repetitions,completed,pauses,laps_ms',
+        '"a,1",timer,2024-03-01T00:00:00.000Z,2024-03-01T00:01:00.000Z,60,60000,3,true,,',
+        'b,timer,not a date,2024-03-01T00:01:00.000Z,60,60000,3,true,,',
+        'c,timer,2024-03-01T00:00:00.000Z,2024-03-01T00:01:00.000Z,60,60000,3,yes,,',
+        'd,timer,2024-03-01T00:00:00.000Z,2024-03-01T00:01:00.000Z,60,,3,true,,',
+        '',
+      ].join('\n');
+      const target = createMockDB();
+
+      const result = await createService(target).importHistory(content, 'csv');
+
+      expect(result).toEqual({ imported: 1, duplicates: 0, rejected: 3 });
+      expect((await target.getSessions())[0]).toMatchObject({ id: 'a,1', repetitions: 3, completed: true, overtime: null });
+    });
+
+    it('round-trips the overtime of sessions stopped in overtime', async () => {
+      const overtimeSession: WorkoutSession = { ...sessions[1], id: 'overtime', mode: 'timer', repetitions: 1, overtime: 12_345 };
+      const content = await createService(createMockDB([overtimeSession])).exportHistory('csv');
+      const target = createMockDB();
+
+      expect(content.trim().split('\r\n')[1]).toMatch(/,12345$/);
+      await createService(target).importHistory(content, 'csv');
+
+      expect(await target.getSessions()).toEqual([overtimeSession]);
+    });
+
+    it('throws when required columns are missing', async () => {
+      await expect(createService(source).importHistory('name,value\nfoo,1', 'csv'))
+        .rejects.toThrow('운동 기록 CSV 형식이 아닙니다.');
+    });
+  });
+
+  it('detects the file format from the extension', () => {
+    expect(HistoryTransferService.detectFormat('history.CSV')).toBe('csv');
+    expect(HistoryTransferService.detectFormat('backup.json')).toBe('json');
+    expect(HistoryTransferService.detectFormat('notes.txt')).toBeNull();
+  });
+});
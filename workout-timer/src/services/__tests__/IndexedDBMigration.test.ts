@@ -0,0 +1,188 @@
+// IndexedDB 스키마/레코드 마이그레이션 테스트 (fake-indexeddb 사용)
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBService, migrateStoredTimerState } from '../IndexedDBService';
+import type { StoredTimerState } from '../IndexedDBService';
+import { DEFAULT_EMOM_CONFIG, DEFAULT_INTERVAL_CONFIG } from '../../types';
+import type { WorkoutSession } from '../../types';
+
+const DB_NAME = 'WorkoutTimerDB';
+
+// v1 앱이 저장하던 타이머 상태 (인터벌/EMOM/랩 등 항목 없음)
+const V1_STATE = {
+  id: 'current',
+  timestamp: 1_700_000_000_000,
+  version: 1,
+  mode: 'timer',
+  duration: 90,
+  remainingTime: 45_000,
+  elapsedTime: 0,
+  repetitions: 3,
+  isRunning: false,
+  isPaused: true,
+  voiceCountActive: false,
+  voiceCountNumber: 0,
+};
+
+/**
+ * v1 스키마로 DB를 만들고 레코드 저장 (v1 앱의 onupgradeneeded와 동일)
+ */
+const createV1Database = (records: object[]): Promise<void> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore('timerStates', { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp', { unique: false });
+    records.forEach(record => store.put(record));
+  };
+  request.onsuccess = () => {
+    request.result.close();
+    resolve();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * 서비스를 거치지 않고 저장소의 원본 레코드 읽기
+ */
+const readRawRecord = (id: string): Promise<{ version: number; storeNames: string[]; record: StoredTimerState }> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onsuccess = () => {
+      const db = request.result;
+      const get = db.transaction('timerStates', 'readonly').objectStore('timerStates').get(id);
+      get.onsuccess = () => {
+        resolve({ version: db.version, storeNames: Array.from(db.objectStoreNames), record: get.result });
+        db.close();
+      };
+      get.onerror = () => reject(get.error);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const createSession = (id: string): WorkoutSession => ({
+  id,
+  mode: 'timer',
+  duration: 60,
+  elapsedTime: 60_000,
+  pauses: [],
+  repetitions: 0,
+  laps: [],
+  overtime: null,
+  startedAt: 1_700_000_000_000,
+  endedAt: 1_700_000_060_000,
+  completed: true,
+});
+
+describe('IndexedDB migrations', () => {
+  let service: IndexedDBService | null = null;
+
+  beforeEach(() => {
+    // 테스트마다 빈 IndexedDB 사용
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    service?.destroy();
+    service = null;
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('upgrades a v1 database to the latest version without losing the saved state', async () => {
+    await createV1Database([V1_STATE, { ...V1_STATE, id: 'backup_1', repetitions: 1 }]);
+
+    service = new IndexedDBService();
+    await service.getSessions();
+
+    expect(await service.loadCurrentState()).toEqual({
+      mode: 'timer',
+      duration: 90,
+      remainingTime: 45_000,
+      elapsedTime: 0,
+      repetitions: 3,
+      isRunning: false,
+      isPaused: true,
+      voiceCountActive: false,
+      voiceCountNumber: 0,
+      interval: DEFAULT_INTERVAL_CONFIG,
+      emom: DEFAULT_EMOM_CONFIG,
+      currentRound: 1,
+      phase: 'work',
+      roundSplits: [],
+      amrapSummary: null,
+      laps: [],
+      preStartRemaining: null,
+      overtime: null,
+      addedTime: 0,
+    });
+    expect(await service.loadBackupState('backup_1')).toEqual(expect.objectContaining({ repetitions: 1, laps: [] }));
+    expect(await service.getBackupList()).toEqual([{ id: 'backup_1', timestamp: V1_STATE.timestamp }]);
+
+    service.destroy();
+    const raw = await readRawRecord('current');
+    expect(raw.version).toBe(3);
+    expect(raw.storeNames).toEqual(['sessions', 'sounds', 'timerStates']);
+    expect(raw.record.version).toBe(3);
+    expect(raw.record.roundSplits).toEqual([]);
+  });
+
+  it('creates every store on a fresh database', async () => {
+    service = new IndexedDBService();
+    await service.saveSession(createSession('s1'));
+
+    expect((await service.getSessions()).map(session => session.id)).toEqual(['s1']);
+    expect(service.ready).toBe(true);
+
+    service.destroy();
+    expect((await readRawRecord('current')).storeNames).toEqual(['sessions', 'sounds', 'timerStates']);
+  });
+
+  it('reads sessions saved before overtime was recorded', async () => {
+    const legacy: Record<string, unknown> = { ...createSession('legacy') };
+    delete legacy.overtime;
+    service = new IndexedDBService();
+    await service.saveSession(legacy as unknown as WorkoutSession);
+
+    expect(await service.getSessions()).toEqual([createSession('legacy')]);
+  });
+
+  it('keeps states saved by a newer version instead of deleting them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await createV1Database([{ ...V1_STATE, version: 99 }]);
+
+    service = new IndexedDBService();
+    await service.getSessions();
+
+    expect(await service.loadCurrentState()).toBeNull();
+    service.destroy();
+    expect((await readRawRecord('current')).record.version).toBe(99);
+  });
+
+  describe('migrateStoredTimerState', () => {
+    it('fills only missing fields when migrating from v1', () => {
+      const migrated = migrateStoredTimerState({ ...V1_STATE, laps: [{ number: 1, lapTime: 500, totalTime: 500 }] } as unknown as StoredTimerState);
+
+      expect(migrated.version).toBe(3);
+      expect(migrated.laps).toEqual([{ number: 1, lapTime: 500, totalTime: 500 }]);
+      expect(migrated.interval).toEqual(DEFAULT_INTERVAL_CONFIG);
+      expect(migrated.remainingTime).toBe(45_000);
+    });
+
+    it('treats records without a version as v1', () => {
+      const unversioned: Record<string, unknown> = { ...V1_STATE };
+      delete unversioned.version;
+
+      const migrated = migrateStoredTimerState(unversioned as unknown as StoredTimerState);
+
+      expect(migrated.version).toBe(3);
+      expect(migrated.phase).toBe('work');
+    });
+
+    it('leaves current records unchanged', () => {
+      const current = migrateStoredTimerState(V1_STATE as unknown as StoredTimerState);
+
+      expect(migrateStoredTimerState(current)).toEqual(current);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MediaSessionService, getMediaSessionText } from '../MediaSessionService';
+import { TimerEventBus } from '../TimerEventBus';
+
+// MediaMetadata 모의 객체 (전달된 정보를 그대로 보관)
+class MockMediaMetadata {
+  title: string;
+  artist: string;
+  constructor(init: { title: string; artist: string }) {
+    this.title = init.title;
+    this.artist = init.artist;
+  }
+}
+
+describe('MediaSessionService', () => {
+  let mediaSession: {
+    metadata: MockMediaMetadata | null;
+    playbackState: MediaSessionPlaybackState;
+    setActionHandler: ReturnType<typeof vi.fn>;
+  };
+  let audio: { startKeepAlive: ReturnType<typeof vi.fn>; stopKeepAlive: ReturnType<typeof vi.fn> };
+  let onControl: ReturnType<typeof vi.fn>;
+  let events: TimerEventBus;
+  let disconnect: () => void;
+
+  /**
+   * 등록된 미디어 컨트롤 핸들러 실행
+   */
+  const press = (control: string) => {
+    const call = mediaSession.setActionHandler.mock.calls.filter(([action]) => action === control).pop();
+    call?.[1]();
+  };
+
+  beforeEach(() => {
+    mediaSession = { metadata: null, playbackState: 'none', setActionHandler: vi.fn() };
+    Object.defineProperty(navigator, 'mediaSession', { value: mediaSession, configurable: true });
+    vi.stubGlobal('MediaMetadata', MockMediaMetadata);
+
+    audio = { startKeepAlive: vi.fn().mockResolvedValue(undefined), stopKeepAlive: vi.fn() };
+    onControl = vi.fn();
+    events = new TimerEventBus();
+    disconnect = new MediaSessionService(onControl, audio).connect(events);
+  });
+
+  afterEach(() => {
+    disconnect();
+    Reflect.deleteProperty(navigator, 'mediaSession');
+    vi.unstubAllGlobals();
+  });
+
+  it('should register lock-screen controls when the timer starts', () => {
+    events.emit('started', { mode: 'timer', startedAt: 0, restored: false });
+    expect(mediaSession.playbackState).toBe('playing');
+
+    events.emit('tick', { mode: 'timer', timeMs: 59_500 });
+    expect(mediaSession.metadata).toEqual(expect.objectContaining({ title: '1:00 남음', artist: '타이머' }));
+    expect(audio.startKeepAlive).toHaveBeenCalledTimes(1);
+
+    press('pause');
+    press('nexttrack');
+    press('previoustrack');
+    press('play');
+    expect(onControl.mock.calls.map(([control]) => control)).toEqual(['pause', 'nexttrack', 'previoustrack', 'play']);
+  });
+
+  it('should update the metadata only when the shown second changes', () => {
+    events.emit('started', { mode: 'timer', startedAt: 0, restored: false });
+    events.emit('tick', { mode: 'timer', timeMs: 30_000 });
+    const metadata = mediaSession.metadata;
+
+    events.emit('tick', { mode: 'timer', timeMs: 29_500 });
+    expect(mediaSession.metadata).toBe(metadata);
+
+    events.emit('tick', { mode: 'timer', timeMs: 28_900 });
+    expect(mediaSession.metadata?.title).toBe('0:29 남음');
+  });
+
+  it('should show paused state and clear the session when stopped', () => {
+    events.emit('started', { mode: 'timer', startedAt: 0, restored: false });
+    events.emit('paused', { mode: 'timer', timeMs: 20_000 });
+    expect(mediaSession.playbackState).toBe('paused');
+
+    events.emit('stopped', { mode: 'timer' });
+
+    expect(mediaSession.playbackState).toBe('none');
+    expect(mediaSession.metadata).toBeNull();
+    expect(audio.stopKeepAlive).toHaveBeenCalled();
+    expect(mediaSession.setActionHandler).toHaveBeenCalledWith('play', null);
+  });
+
+  it('should describe the interval phase and round', () => {
+    expect(
+      getMediaSessionText({ status: 'running', mode: 'interval', timeMs: 9_200, phase: 'rest', round: 2, totalRounds: 8 })
+    ).toEqual({ title: '0:10 휴식', artist: '인터벌 · 라운드 2/8' });
+    expect(
+      getMediaSessionText({ status: 'running', mode: 'stopwatch', timeMs: 75_900, phase: 'work', round: 1, totalRounds: 1 })
+    ).toEqual({ title: '1:15 경과', artist: '스톱워치' });
+  });
+});
@@ -2,10 +2,12 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { NotificationService } from '../NotificationService';
 import { AudioNotificationService } from '../AudioNotificationService';
 import { VibrationService } from '../VibrationService';
+import { CustomSoundService } from '../CustomSoundService';
 
 // Mock the services
 vi.mock('../AudioNotificationService');
 vi.mock('../VibrationService');
+vi.mock('../CustomSoundService');
 
 const MockedAudioNotificationService = vi.mocked(AudioNotificationService);
 const MockedVibrationService = vi.mocked(VibrationService);
@@ -23,6 +25,9 @@ describe('NotificationService', () => {
       loadSounds: vi.fn().mockResolvedValue(undefined),
       playCountdown: vi.fn().mockResolvedValue(undefined),
       playCompletion: vi.fn().mockResolvedValue(undefined),
+      playPhaseCountdown: vi.fn().mockResolvedValue(undefined),
+      playPhaseStart: vi.fn().mockResolvedValue(undefined),
+      playPreStartTick: vi.fn().mockResolvedValue(undefined),
       setVolume: vi.fn(),
       getVolume: vi.fn().mockReturnValue(0.8),
       isReady: vi.fn().mockReturnValue(true),
@@ -35,6 +40,7 @@ describe('NotificationService', () => {
     mockVibrationService = {
       vibrateCountdown: vi.fn(),
       vibrateCompletion: vi.fn(),
+      vibrate: vi.fn(),
       setEnabled: vi.fn(),
       isVibrationEnabled: vi.fn().mockReturnValue(true),
       isVibrationSupported: vi.fn().mockReturnValue(true),
@@ -149,6 +155,24 @@ describe('NotificationService', () => {
       expect(mockVibrationService.vibrateCountdown).toHaveBeenCalled();
     });
 
+    it('선택한 사용자 지정 알림음을 불러와 재생해야 한다', async () => {
+      const sound = { id: 'custom-whistle', name: '호루라기' };
+      const getSound = vi.fn().mockResolvedValue(sound);
+      vi.mocked(CustomSoundService).mockImplementation(() => ({ getSound, destroy: vi.fn() }) as unknown as CustomSoundService);
+      mockAudioService.hasSound = vi.fn().mockReturnValue(false);
+      mockAudioService.addCustomSound = vi.fn().mockResolvedValue(undefined);
+
+      service.updateSettings(
+        { enabled: true, countdownSound: 'custom-whistle', completionSound: 'bell' },
+        { enabled: true, pattern: [200] }
+      );
+      await vi.waitFor(() => expect(mockAudioService.addCustomSound).toHaveBeenCalledWith(sound));
+      await service.notifyCountdown();
+
+      expect(getSound).toHaveBeenCalledWith('custom-whistle');
+      expect(mockAudioService.playCountdown).toHaveBeenCalledWith('custom-whistle');
+    });
+
     it('진동이 비활성화되었을 때 진동하지 않아야 한다', async () => {
       mockVibrationService.isVibrationEnabled.mockReturnValue(false);
 
@@ -202,6 +226,68 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('인터벌 구간 알림', () => {
+    beforeEach(async () => {
+      await service.initialize();
+    });
+
+    it('구간별 카운트다운 알림음을 재생해야 한다', async () => {
+      await service.notifyPhaseCountdown('rest');
+
+      expect(mockAudioService.playPhaseCountdown).toHaveBeenCalledWith('rest');
+      expect(mockVibrationService.vibrateCountdown).toHaveBeenCalled();
+    });
+
+    it('운동/휴식 시작마다 다른 진동 패턴을 사용해야 한다', async () => {
+      await service.notifyPhaseStart('work');
+      await service.notifyPhaseStart('rest');
+
+      expect(mockAudioService.playPhaseStart).toHaveBeenNthCalledWith(1, 'work');
+      expect(mockAudioService.playPhaseStart).toHaveBeenNthCalledWith(2, 'rest');
+      expect(mockVibrationService.vibrate).toHaveBeenNthCalledWith(1, [300, 100, 300]);
+      expect(mockVibrationService.vibrate).toHaveBeenNthCalledWith(2, [600]);
+    });
+
+    it('사운드가 꺼져 있으면 구간 시작음을 재생하지 않아야 한다', async () => {
+      service.updateSettings(
+        { enabled: false, countdownSound: 'beep', completionSound: 'bell' },
+        { enabled: true, pattern: [200] }
+      );
+
+      await service.notifyPhaseStart('work');
+
+      expect(mockAudioService.playPhaseStart).not.toHaveBeenCalled();
+      expect(mockVibrationService.vibrate).toHaveBeenCalled();
+    });
+
+    it('EMOM 라운드 시작 시 운동 시작 알림을 사용해야 한다', async () => {
+      await service.notifyRoundStart();
+
+      expect(mockAudioService.playPhaseStart).toHaveBeenCalledWith('work');
+      expect(mockVibrationService.vibrate).toHaveBeenCalledWith([300, 100, 300]);
+    });
+  });
+
+  describe('준비 카운트다운 알림', () => {
+    beforeEach(async () => {
+      await service.initialize();
+    });
+
+    it('매 초 짧은 준비 틱과 진동을 재생해야 한다', async () => {
+      await service.notifyPreStartTick();
+
+      expect(mockAudioService.playPreStartTick).toHaveBeenCalled();
+      expect(mockVibrationService.vibrate).toHaveBeenCalledWith([50]);
+    });
+
+    it('준비가 끝나면 운동 시작음과 긴 진동을 재생해야 한다', async () => {
+      await service.notifyPreStartEnd();
+
+      expect(mockAudioService.playPhaseStart).toHaveBeenCalledWith('work');
+      expect(mockVibrationService.vibrate).toHaveBeenCalledWith([400]);
+    });
+  });
+
   describe('알림 테스트', () => {
     it('카운트다운 테스트를 실행해야 한다', async () => {
       const notifyCountdownSpy = vi.spyOn(service, 'notifyCountdown').mockResolvedValue();
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SessionHistoryService } from '../SessionHistoryService';
+import type { IndexedDBService } from '../IndexedDBService';
+
+// IndexedDB 대신 저장 호출만 확인하는 DB 모킹
+const createMockDB = () => ({
+  saveSession: vi.fn().mockResolvedValue(undefined),
+  getSessions: vi.fn().mockResolvedValue([]),
+  deleteSession: vi.fn().mockResolvedValue(undefined),
+  clearSessions: vi.fn().mockResolvedValue(undefined),
+  destroy: vi.fn(),
+});
+
+describe('SessionHistoryService', () => {
+  let db: ReturnType<typeof createMockDB>;
+  let service: SessionHistoryService;
+
+  beforeEach(() => {
+    db = createMockDB();
+    service = new SessionHistoryService(db as unknown as IndexedDBService);
+  });
+
+  it('records a completed session with its configuration and result', async () => {
+    service.begin('timer', 60, 1000);
+    const laps = [{ number: 1, lapTime: 500, totalTime: 500 }];
+
+    const session = await service.finish({ repetitions: 2, laps, overtime: 4500 }, true, 61_000);
+
+    expect(session).toMatchObject({
+      mode: 'timer',
+      duration: 60,
+      elapsedTime: 60_000,
+      repetitions: 2,
+      laps,
+      overtime: 4500,
+      startedAt: 1000,
+      endedAt: 61_000,
+      completed: true,
+    });
+    expect(db.saveSession).toHaveBeenCalledWith(session);
+    expect(service.isTracking).toBe(false);
+  });
+
+  it('excludes paused time from the elapsed time', async () => {
+    service.begin('stopwatch', 0, 0);
+    service.pause(10_000);
+    service.resume(25_000);
+    // 일시정지 상태에서 정지하면 정지 시각까지 일시정지로 기록
+    service.pause(40_000);
+
+    const session = await service.finish({ repetitions: 0, laps: [], overtime: null }, false, 50_000);
+
+    expect(session?.elapsedTime).toBe(25_000);
+    expect(session?.pauses).toEqual([
+      { startedAt: 10_000, endedAt: 25_000 },
+      { startedAt: 40_000, endedAt: 50_000 },
+    ]);
+    expect(session?.completed).toBe(false);
+  });
+
+  it('continues a restored session with its earlier pauses', async () => {
+    service.begin('timer', 300, 0, { pauses: [{ startedAt: 10_000, endedAt: 20_000 }], pausedAt: 30_000 });
+
+    expect(service.getPauseState()).toEqual({ pauses: [{ startedAt: 10_000, endedAt: 20_000 }], pausedAt: 30_000 });
+    service.resume(50_000);
+    const session = await service.finish({ repetitions: 0, laps: [], overtime: null }, false, 60_000);
+
+    expect(session?.elapsedTime).toBe(30_000);
+    expect(session?.pauses).toEqual([
+      { startedAt: 10_000, endedAt: 20_000 },
+      { startedAt: 30_000, endedAt: 50_000 },
+    ]);
+    expect(service.getPauseState()).toBeNull();
+  });
+
+  it('ignores repeated pause and resume calls', async () => {
+    service.begin('amrap', 300, 0);
+    service.resume(1000);
+    service.pause(2000);
+    service.pause(3000);
+
+    const session = await service.finish({ repetitions: 4, laps: [], overtime: null }, true, 4000);
+
+    expect(session?.pauses).toEqual([{ startedAt: 2000, endedAt: 4000 }]);
+  });
+
+  it('does not save very short or untracked sessions', async () => {
+    expect(await service.finish({ repetitions: 0, laps: [], overtime: null }, false, 1000)).toBeNull();
+
+    service.begin('timer', 60, 0);
+    expect(await service.finish({ repetitions: 0, laps: [], overtime: null }, false, 500)).toBeNull();
+
+    service.begin('timer', 60, 0);
+    service.discard();
+    expect(await service.finish({ repetitions: 0, laps: [], overtime: null }, false, 5000)).toBeNull();
+
+    expect(db.saveSession).not.toHaveBeenCalled();
+  });
+
+  it('delegates history queries to the database', async () => {
+    await service.getSessions();
+    await service.deleteSession('session-1');
+    await service.clearHistory();
+
+    expect(db.getSessions).toHaveBeenCalled();
+    expect(db.deleteSession).toHaveBeenCalledWith('session-1');
+    expect(db.clearSessions).toHaveBeenCalled();
+  });
+});
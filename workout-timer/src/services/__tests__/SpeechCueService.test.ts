@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SpeechCueService, getSpeechCueText } from '../SpeechCueService';
+import { TimerEventBus } from '../TimerEventBus';
+import { DEFAULT_SETTINGS } from '../../types';
+
+// SpeechSynthesisUtterance 모의 객체 (읽을 문구와 옵션 보관)
+class MockUtterance {
+  text: string;
+  lang = '';
+  rate = 1;
+  voice: { voiceURI: string } | null = null;
+  onend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+describe('SpeechCueService', () => {
+  let synthesis: {
+    speak: ReturnType<typeof vi.fn>;
+    cancel: ReturnType<typeof vi.fn>;
+    getVoices: ReturnType<typeof vi.fn>;
+  };
+  let fallback: ReturnType<typeof vi.fn>;
+  let events: TimerEventBus;
+  let service: SpeechCueService;
+  let disconnect: () => void;
+
+  /**
+   * 지금까지 읽은 문구 목록
+   */
+  const spoken = () => synthesis.speak.mock.calls.map(([utterance]) => (utterance as MockUtterance).text);
+
+  const tick = (timeMs: number) => events.emit('tick', { mode: 'timer', timeMs });
+
+  beforeEach(() => {
+    synthesis = {
+      speak: vi.fn(),
+      cancel: vi.fn(),
+      getVoices: vi.fn(() => [
+        { voiceURI: 'ko-voice', lang: 'ko-KR' },
+        { voiceURI: 'en-voice', lang: 'en_US' },
+      ]),
+    };
+    vi.stubGlobal('speechSynthesis', synthesis);
+    vi.stubGlobal('SpeechSynthesisUtterance', MockUtterance);
+
+    fallback = vi.fn();
+    events = new TimerEventBus();
+    service = new SpeechCueService(fallback);
+    service.updateSettings({ ...DEFAULT_SETTINGS.speech, enabled: true });
+    disconnect = service.connect(events, () => 60_000);
+  });
+
+  afterEach(() => {
+    disconnect();
+    service.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('should build cue texts for each language', () => {
+    expect(getSpeechCueText({ type: 'time-left', seconds: 10 }, 'ko-KR')).toBe('10초 남았습니다');
+    expect(getSpeechCueText({ type: 'round', round: 4, totalRounds: 8 }, 'ko-KR')).toBe('8라운드 중 4라운드');
+    expect(getSpeechCueText({ type: 'round', round: 4, totalRounds: 8 }, 'en-US')).toBe('Round 4 of 8');
+    expect(getSpeechCueText({ type: 'exercise', name: 'Squat', upcoming: true }, 'en-US')).toBe('Next up, Squat');
+    expect(getSpeechCueText({ type: 'halfway' }, 'fr-FR')).toBe('절반 지났습니다');
+  });
+
+  it('should filter voices by language', () => {
+    expect(SpeechCueService.getVoices('en-US').map(voice => voice.voiceURI)).toEqual(['en-voice']);
+  });
+
+  it('should announce halfway and ten seconds left once while counting down', () => {
+    events.emit('started', { mode: 'timer', startedAt: Date.now(), restored: false });
+    [60_000, 31_000, 30_000, 29_000, 11_000, 10_000, 9_000].forEach(tick);
+
+    expect(spoken()).toEqual(['절반 지났습니다', '10초 남았습니다']);
+  });
+
+  it('should announce phase and round when an interval phase changes', () => {
+    events.emit('phase-changed', { mode: 'interval', phase: 'rest', round: 3, totalRounds: 8 });
+    events.emit('phase-changed', { mode: 'interval', phase: 'work', round: 4, totalRounds: 8 });
+
+    expect(spoken()).toEqual(['휴식', '운동', '8라운드 중 4라운드']);
+  });
+
+  it('should speak with the selected voice, language and rate', () => {
+    service.updateSettings({ ...DEFAULT_SETTINGS.speech, enabled: true, lang: 'en-US', voiceURI: 'en-voice', rate: 1.5 });
+    service.cue({ type: 'halfway' });
+
+    const [utterance] = synthesis.speak.mock.calls[0] as [MockUtterance];
+    expect(utterance).toEqual(expect.objectContaining({ text: 'Halfway', lang: 'en-US', rate: 1.5 }));
+    expect(utterance.voice?.voiceURI).toBe('en-voice');
+  });
+
+  it('should skip cues that are turned off or when speech is disabled', () => {
+    service.updateSettings({ ...DEFAULT_SETTINGS.speech, enabled: true, roundCue: false });
+    service.cue({ type: 'round', round: 1, totalRounds: 5 });
+    expect(synthesis.speak).not.toHaveBeenCalled();
+
+    service.updateSettings({ ...DEFAULT_SETTINGS.speech, enabled: false });
+    service.cue({ type: 'halfway' });
+    expect(synthesis.speak).not.toHaveBeenCalled();
+  });
+
+  it('should cancel its own pending cues when speech is turned off', () => {
+    service.cue({ type: 'halfway' });
+
+    service.updateSettings({ ...DEFAULT_SETTINGS.speech, enabled: false });
+
+    expect(synthesis.cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep voice count speech queued when settings change or the timer stops', () => {
+    // 음성 카운트가 같은 대기열에 넣은 문구
+    const voiceCount = new MockUtterance('하나');
+    synthesis.speak(voiceCount);
+
+    service.updateSettings({ ...DEFAULT_SETTINGS.speech, enabled: true, rate: 1.2 });
+    service.updateSettings({ ...DEFAULT_SETTINGS.speech, enabled: false });
+    events.emit('stopped', { mode: 'timer' });
+
+    expect(synthesis.cancel).not.toHaveBeenCalled();
+  });
+
+  it('should not flush the queue for cues that already finished', () => {
+    service.cue({ type: 'halfway' });
+    const [utterance] = synthesis.speak.mock.calls[0] as [MockUtterance];
+    utterance.onend?.();
+
+    events.emit('stopped', { mode: 'timer' });
+
+    expect(synthesis.cancel).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to a beep for time cues without speech synthesis', () => {
+    vi.unstubAllGlobals();
+    Reflect.deleteProperty(window, 'speechSynthesis');
+
+    service.cue({ type: 'time-left', seconds: 10 });
+    service.cue({ type: 'round', round: 2, totalRounds: 5 });
+
+    expect(fallback).toHaveBeenCalledTimes(1);
+  });
+});
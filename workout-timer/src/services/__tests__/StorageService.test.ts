@@ -1,6 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { StorageService } from '../StorageService';
 import type { Template, SettingsState } from '../../types';
+import { DEFAULT_SETTINGS } from '../../types';
+import settingsV1 from './fixtures/settings/v1.json';
+import settingsV1WithTimer from './fixtures/settings/v1-with-timer.json';
+import settingsV2 from './fixtures/settings/v2.json';
+import settingsV2Invalid from './fixtures/settings/v2-invalid.json';
+import settingsV3 from './fixtures/settings/v3.json';
+import settingsV4 from './fixtures/settings/v4.json';
+import settingsV5 from './fixtures/settings/v5.json';
+import settingsV99 from './fixtures/settings/v99.json';
 
 // Mock localStorage
 const mockLocalStorage = {
@@ -218,7 +227,7 @@ describe('StorageService', () => {
       const result = StorageService.loadSettings();
 
       expect(mockLocalStorage.getItem).toHaveBeenCalledWith('workout-timer-settings');
-      expect(result).toEqual(mockSettings);
+      expect(result).toEqual({ ...mockSettings, timer: DEFAULT_SETTINGS.timer, speech: DEFAULT_SETTINGS.speech, voiceCount: DEFAULT_SETTINGS.voiceCount, metronome: DEFAULT_SETTINGS.metronome });
     });
 
     it('should return null when no settings exist', () => {
@@ -252,11 +261,122 @@ describe('StorageService', () => {
 
       expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
         'workout-timer-settings',
-        JSON.stringify(mockSettings)
+        JSON.stringify({ version: StorageService.SETTINGS_VERSION, settings: mockSettings })
       );
     });
   });
 
+  describe('settings migrations', () => {
+    beforeEach(() => {
+      mockLocalStorage.getItem.mockReset();
+      mockLocalStorage.setItem.mockReset();
+    });
+
+    const load = (fixture: unknown) => {
+      mockLocalStorage.getItem.mockReturnValue(JSON.stringify(fixture));
+      return StorageService.loadSettings();
+    };
+
+    it('should migrate unversioned v1 settings by adding timer defaults', () => {
+      expect(load(settingsV1)).toEqual({
+        sound: { enabled: false, countdownSound: 'chime', completionSound: 'beep' },
+        vibration: { enabled: true, pattern: [300, 100, 300] },
+        ui: { theme: 'dark', keepScreenOn: true },
+        timer: { preStartCountdown: 0, overtime: false, resumePromptMinutes: 30 },
+        speech: DEFAULT_SETTINGS.speech,
+        voiceCount: DEFAULT_SETTINGS.voiceCount,
+        metronome: DEFAULT_SETTINGS.metronome
+      });
+    });
+
+    it('should keep timer values already saved in unversioned settings', () => {
+      expect(load(settingsV1WithTimer)?.timer).toEqual({ preStartCountdown: 5, overtime: false, resumePromptMinutes: 30 });
+    });
+
+    it('should migrate v2 settings by adding the resume prompt limit', () => {
+      expect(load(settingsV2)).toEqual({
+        sound: { enabled: true, countdownSound: 'bell', completionSound: 'chime' },
+        vibration: { enabled: true, pattern: [200, 100, 200] },
+        ui: { theme: 'dark', keepScreenOn: true },
+        timer: { preStartCountdown: 10, overtime: true, resumePromptMinutes: 30 },
+        speech: DEFAULT_SETTINGS.speech,
+        voiceCount: DEFAULT_SETTINGS.voiceCount,
+        metronome: DEFAULT_SETTINGS.metronome
+      });
+    });
+
+    it('should migrate v3 settings by adding speech cue defaults', () => {
+      expect(load(settingsV3)).toEqual({
+        sound: { enabled: true, countdownSound: 'beep', completionSound: 'bell' },
+        vibration: { enabled: false, pattern: [200, 100, 200] },
+        ui: { theme: 'light', keepScreenOn: true },
+        timer: { preStartCountdown: 5, overtime: false, resumePromptMinutes: 15 },
+        speech: DEFAULT_SETTINGS.speech,
+        voiceCount: DEFAULT_SETTINGS.voiceCount,
+        metronome: DEFAULT_SETTINGS.metronome
+      });
+    });
+
+    it('should migrate v4 settings by adding voice count defaults', () => {
+      expect(load(settingsV4)).toEqual({
+        ...settingsV4.settings,
+        voiceCount: { targetReps: 10, tempo: [3, 1, 2, 0] },
+        metronome: DEFAULT_SETTINGS.metronome
+      });
+    });
+
+    it('should migrate v5 settings by adding metronome defaults', () => {
+      expect(load(settingsV5)).toEqual({
+        ...settingsV5.settings,
+        metronome: { bpm: 120, accentEvery: 4, subdivision: 1, followTimer: false }
+      });
+    });
+
+    it('should repair invalid values with defaults and keep valid ones', () => {
+      expect(load(settingsV2Invalid)).toEqual({
+        sound: { enabled: true, countdownSound: 'beep', completionSound: 'chime' },
+        vibration: { enabled: true, pattern: [200, 100, 200] },
+        ui: { theme: 'light', keepScreenOn: true },
+        timer: { preStartCountdown: 0, overtime: true, resumePromptMinutes: 30 },
+        speech: DEFAULT_SETTINGS.speech,
+        voiceCount: DEFAULT_SETTINGS.voiceCount,
+        metronome: DEFAULT_SETTINGS.metronome
+      });
+    });
+
+    it('should keep known values from settings saved by a newer version', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(load(settingsV99)).toEqual({
+        sound: { enabled: false, countdownSound: 'bell', completionSound: 'bell' },
+        vibration: { enabled: true, pattern: [100] },
+        ui: { theme: 'dark', keepScreenOn: false },
+        timer: { preStartCountdown: 10, overtime: false, resumePromptMinutes: 30 },
+        speech: DEFAULT_SETTINGS.speech,
+        voiceCount: DEFAULT_SETTINGS.voiceCount,
+        metronome: DEFAULT_SETTINGS.metronome
+      });
+    });
+
+    it('should fall back to defaults for unreadable settings data', () => {
+      expect(load('broken')).toEqual(DEFAULT_SETTINGS);
+      expect(load({ version: 2, settings: null })).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should load what saveSettings wrote without changes', () => {
+      const settings: SettingsState = {
+        ...DEFAULT_SETTINGS,
+        timer: { preStartCountdown: 3, overtime: true, resumePromptMinutes: 15 }
+      };
+      StorageService.saveSettings(settings);
+      const [, saved] = mockLocalStorage.setItem.mock.calls[0];
+
+      mockLocalStorage.getItem.mockReturnValue(saved);
+
+      expect(StorageService.loadSettings()).toEqual(settings);
+    });
+  });
+
   describe('isStorageAvailable', () => {
     it('should return true when localStorage is available', () => {
       const result = StorageService.isStorageAvailable();
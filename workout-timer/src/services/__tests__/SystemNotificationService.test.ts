@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SystemNotificationService, getCountdownAlert } from '../SystemNotificationService';
+import { TimerEventBus } from '../TimerEventBus';
+
+// 알림 권한을 바꿀 수 있는 Notification 모의 객체
+class MockNotification {
+  static permission: NotificationPermission = 'granted';
+  static requestPermission = vi.fn(async () => MockNotification.permission);
+}
+
+// 서비스 워커 컨테이너 모의 객체 (메시지 이벤트 전달용 EventTarget)
+class MockServiceWorkerContainer extends EventTarget {
+  registration = {
+    showNotification: vi.fn(async () => {}),
+    getNotifications: vi.fn(async () => [] as { close: () => void; timestamp?: number }[]),
+  };
+  getRegistration = vi.fn(async () => this.registration);
+}
+
+describe('SystemNotificationService', () => {
+  let container: MockServiceWorkerContainer;
+  let events: TimerEventBus;
+  let onAction: ReturnType<typeof vi.fn>;
+  let service: SystemNotificationService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    MockNotification.permission = 'granted';
+    vi.stubGlobal('Notification', MockNotification);
+    container = new MockServiceWorkerContainer();
+    Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+
+    events = new TimerEventBus();
+    onAction = vi.fn();
+    service = new SystemNotificationService(onAction);
+    service.connect(events, () => ({ at: Date.now() + 10_000, title: '휴식 끝 – 다음 세트', body: '본문' }));
+  });
+
+  afterEach(() => {
+    service.destroy();
+    Reflect.deleteProperty(navigator, 'serviceWorker');
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  describe('getCountdownAlert', () => {
+    it('should describe the end of the current countdown for each mode', () => {
+      expect(getCountdownAlert('timer', null, 30_000, 1000)).toEqual(
+        expect.objectContaining({ at: 31_000, title: '휴식 끝 – 다음 세트' })
+      );
+      expect(getCountdownAlert('interval', 'work', 20_000)?.title).toBe('운동 구간 끝');
+      expect(getCountdownAlert('interval', 'rest', 10_000)?.title).toBe('휴식 끝 – 다음 세트');
+      expect(getCountdownAlert('emom', 'work', 60_000)?.title).toBe('다음 라운드 시작');
+      expect(getCountdownAlert('amrap', null, 60_000)?.title).toBe('AMRAP 종료');
+    });
+
+    it('should not alert for the stopwatch or a finished countdown', () => {
+      expect(getCountdownAlert('stopwatch', null, 30_000)).toBeNull();
+      expect(getCountdownAlert('timer', null, 0)).toBeNull();
+    });
+  });
+
+  describe('permission', () => {
+    it('should report unsupported without the Notification API', async () => {
+      Reflect.deleteProperty(globalThis, 'Notification');
+
+      expect(SystemNotificationService.getPermission()).toBe('unsupported');
+      expect(await SystemNotificationService.requestPermission()).toBe('unsupported');
+    });
+
+    it('should request permission from the browser', async () => {
+      MockNotification.permission = 'denied';
+
+      expect(await SystemNotificationService.requestPermission()).toBe('denied');
+      expect(MockNotification.requestPermission).toHaveBeenCalled();
+    });
+  });
+
+  it('should show the alert with action buttons when the countdown ends', async () => {
+    events.emit('started', { mode: 'timer', startedAt: Date.now(), restored: false });
+    await vi.advanceTimersByTimeAsync(9_000);
+    expect(container.registration.showNotification).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(container.registration.showNotification).toHaveBeenCalledWith(
+      '휴식 끝 – 다음 세트',
+      expect.objectContaining({
+        body: '본문',
+        tag: 'workout-timer-countdown',
+        actions: [
+          { action: 'pause', title: '일시정지' },
+          { action: 'add-30', title: '+30초' },
+          { action: 'skip', title: '건너뛰기' },
+        ],
+      })
+    );
+  });
+
+  it('should schedule with a notification trigger when supported', async () => {
+    const TimestampTrigger = vi.fn(function (this: { timestamp: number }, timestamp: number) {
+      this.timestamp = timestamp;
+    });
+    vi.stubGlobal('TimestampTrigger', TimestampTrigger);
+
+    events.emit('resumed', { mode: 'timer' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(TimestampTrigger).toHaveBeenCalledWith(Date.now() + 10_000);
+    expect(container.registration.showNotification).toHaveBeenCalledWith(
+      '휴식 끝 – 다음 세트',
+      expect.objectContaining({ showTrigger: expect.objectContaining({ timestamp: Date.now() + 10_000 }) })
+    );
+  });
+
+  it('should cancel the alert when the timer is paused', async () => {
+    const notification = { close: vi.fn() };
+    container.registration.getNotifications.mockResolvedValue([notification]);
+
+    events.emit('started', { mode: 'timer', startedAt: Date.now(), restored: false });
+    await vi.advanceTimersByTimeAsync(0);
+    events.emit('paused', { mode: 'timer', timeMs: 10_000 });
+    await vi.advanceTimersByTimeAsync(20_000);
+
+    expect(container.registration.showNotification).not.toHaveBeenCalled();
+    expect(notification.close).toHaveBeenCalled();
+  });
+
+  it('should not schedule without permission', async () => {
+    MockNotification.permission = 'default';
+
+    events.emit('started', { mode: 'timer', startedAt: Date.now(), restored: false });
+    await vi.advanceTimersByTimeAsync(20_000);
+
+    expect(container.registration.showNotification).not.toHaveBeenCalled();
+  });
+
+  it('should pass notification button actions from the service worker', () => {
+    container.dispatchEvent(new MessageEvent('message', { data: { type: 'timer-notification-action', action: 'add-30' } }));
+    container.dispatchEvent(new MessageEvent('message', { data: { type: 'other' } }));
+
+    expect(onAction).toHaveBeenCalledTimes(1);
+    expect(onAction).toHaveBeenCalledWith('add-30');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TabSyncService } from '../TabSyncService';
+import type { TabSyncCallbacks } from '../TabSyncService';
+import type { TimerState } from '../../types';
+
+// 같은 프로세스 안의 탭들을 잇는 메모리 BroadcastChannel (메시지는 보낸 채널을 제외하고 동기적으로 전달)
+class FakeBroadcastChannel {
+  static channels = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  readonly name: string;
+
+  constructor(name: string) {
+    this.name = name;
+    FakeBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels.forEach(channel => {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data: structuredClone(data) });
+      }
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.channels.delete(this);
+  }
+}
+
+const createCallbacks = (): TabSyncCallbacks => ({
+  onRoleChange: vi.fn(),
+  onState: vi.fn(),
+  onCommand: vi.fn(),
+  onStateRequest: vi.fn(),
+});
+
+const RUNNING_STATE = { mode: 'timer', remainingTime: 30_000, isRunning: true } as TimerState;
+
+describe('TabSyncService', () => {
+  const tabs: TabSyncService[] = [];
+
+  /**
+   * 새 탭 열기 (테스트 종료 시 정리)
+   */
+  const openTab = (callbacks: TabSyncCallbacks = createCallbacks()) => {
+    const tab = new TabSyncService(callbacks);
+    tabs.push(tab);
+    return { tab, callbacks };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    tabs.splice(0).forEach(tab => tab.destroy());
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('makes the first tab the leader and later tabs followers', () => {
+    const first = openTab();
+    const second = openTab();
+
+    expect(first.tab.isLeader).toBe(true);
+    expect(second.tab.isLeader).toBe(false);
+    // 새 탭은 열리자마자 리더에게 현재 상태를 요청
+    expect(first.callbacks.onStateRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('mirrors leader state and forwards follower commands', () => {
+    const leader = openTab();
+    const follower = openTab();
+
+    leader.tab.broadcastState(RUNNING_STATE);
+    follower.tab.sendCommand({ name: 'pause' });
+    // 팔로워는 상태를 보내지 않고, 리더는 명령을 보내지 않음
+    follower.tab.broadcastState({ ...RUNNING_STATE, isRunning: false });
+    leader.tab.sendCommand({ name: 'reset' });
+
+    expect(follower.callbacks.onState).toHaveBeenCalledTimes(1);
+    expect(follower.callbacks.onState).toHaveBeenCalledWith(RUNNING_STATE);
+    expect(leader.callbacks.onCommand).toHaveBeenCalledTimes(1);
+    expect(leader.callbacks.onCommand).toHaveBeenCalledWith({ name: 'pause' });
+    expect(leader.callbacks.onState).not.toHaveBeenCalled();
+  });
+
+  it('hands off leadership immediately when the leader tab closes', () => {
+    const leader = openTab();
+    const follower = openTab();
+    const other = openTab();
+
+    leader.tab.destroy();
+
+    expect(follower.tab.isLeader).toBe(true);
+    expect(follower.callbacks.onRoleChange).toHaveBeenCalledWith(true);
+    // 남은 탭 중 하나만 리더가 됨
+    expect(other.tab.isLeader).toBe(false);
+    expect(other.callbacks.onRoleChange).not.toHaveBeenCalled();
+
+    follower.tab.broadcastState(RUNNING_STATE);
+    expect(other.callbacks.onState).toHaveBeenCalledWith(RUNNING_STATE);
+  });
+
+  it('takes over after the lease expires when the leader disappears without notice', () => {
+    openTab();
+    const follower = openTab();
+
+    // 리더 탭이 강제 종료되면 하트비트도 종료 알림도 없음
+    const killed = tabs.shift()!;
+    vi.spyOn(killed as unknown as { resign: () => void }, 'resign').mockImplementation(() => {});
+    killed.destroy();
+
+    vi.advanceTimersByTime(2000);
+    expect(follower.tab.isLeader).toBe(false);
+
+    vi.advanceTimersByTime(2000);
+    expect(follower.tab.isLeader).toBe(true);
+    expect(follower.callbacks.onRoleChange).toHaveBeenCalledWith(true);
+  });
+
+  it('resolves two tabs claiming leadership at the same time', () => {
+    const first = openTab();
+    // 임대 기록이 엇갈려 두 탭이 모두 리더가 된 상황
+    localStorage.clear();
+    const second = openTab();
+    expect(first.tab.isLeader).toBe(true);
+    expect(second.tab.isLeader).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+
+    expect([first.tab.isLeader, second.tab.isLeader].filter(Boolean)).toHaveLength(1);
+  });
+
+  it('acts as the only leader when BroadcastChannel is not supported', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const first = openTab();
+    const second = openTab();
+
+    expect(first.tab.isLeader).toBe(true);
+    expect(second.tab.isLeader).toBe(true);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Timer } from '../Timer';
-import type { TimerCallbacks } from '../../types';
+import type { TimerClock } from '../Timer';
+import type { TimerCallbacks, IntervalSegment } from '../../types';
 
 describe('Timer Service', () => {
   let timer: Timer;
@@ -373,4 +374,420 @@ describe('Timer Service', () => {
       expect(state.isPaused).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('interval mode', () => {
+    const segments: IntervalSegment[] = [
+      { phase: 'work', round: 1, duration: 5 },
+      { phase: 'rest', round: 1, duration: 3 },
+      { phase: 'work', round: 2, duration: 5 }
+    ];
+
+    it('should tick the remaining time of the current phase', () => {
+      timer.start(0, 'interval', segments);
+      expect(mockCallbacks.onTick).toHaveBeenCalledWith(5000);
+
+      vi.advanceTimersByTime(6000); // 휴식 구간 1초 경과
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(2000);
+      expect(timer.getState().remainingTime).toBe(2000);
+    });
+
+    it('should fire onPhaseChange at each phase boundary', () => {
+      const onPhaseChange = vi.fn();
+      const intervalTimer = new Timer({ ...mockCallbacks, onPhaseChange });
+      intervalTimer.start(0, 'interval', segments);
+
+      vi.advanceTimersByTime(5000);
+      expect(onPhaseChange).toHaveBeenCalledWith(segments[1], 1);
+      expect(intervalTimer.getCurrentSegment()).toEqual({ segment: segments[1], index: 1 });
+
+      vi.advanceTimersByTime(3000);
+      expect(onPhaseChange).toHaveBeenCalledWith(segments[2], 2);
+      expect(onPhaseChange).toHaveBeenCalledTimes(2);
+
+      intervalTimer.destroy();
+    });
+
+    it('should count down the last seconds of every phase', () => {
+      timer.start(0, 'interval', segments);
+
+      vi.advanceTimersByTime(5000); // 운동 구간 종료
+      expect(mockCallbacks.onCountdown).toHaveBeenCalledTimes(3);
+
+      vi.advanceTimersByTime(3000); // 휴식 구간 종료 (시작 초 3은 알리지 않음)
+      expect(mockCallbacks.onCountdown).toHaveBeenCalledTimes(5);
+      expect(mockCallbacks.onCountdown).toHaveBeenNthCalledWith(4, 2);
+      expect(mockCallbacks.onCountdown).toHaveBeenNthCalledWith(5, 1);
+    });
+
+    it('should complete after the last phase', () => {
+      timer.start(0, 'interval', segments);
+
+      vi.advanceTimersByTime(12900);
+      expect(mockCallbacks.onComplete).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(100);
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+      expect(timer.running).toBe(false);
+    });
+
+    it('should complete immediately with an empty schedule', () => {
+      timer.start(0, 'interval', []);
+
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+      expect(timer.getCurrentSegment()).toBeNull();
+    });
+
+    it('should only announce the latest phase when throttling skips several', () => {
+      let clock = 0;
+      const onPhaseChange = vi.fn();
+      const intervalTimer = new Timer({ ...mockCallbacks, onPhaseChange }, () => clock);
+      intervalTimer.start(0, 'interval', segments);
+
+      clock += 9000;
+      vi.advanceTimersByTime(100);
+
+      expect(onPhaseChange).toHaveBeenCalledTimes(1);
+      expect(onPhaseChange).toHaveBeenCalledWith(segments[2], 2);
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(4000);
+
+      intervalTimer.destroy();
+    });
+  });
+
+  describe('emom mode', () => {
+    const segments: IntervalSegment[] = [
+      { phase: 'work', round: 1, duration: 10 },
+      { phase: 'work', round: 2, duration: 10 }
+    ];
+
+    it('should run rounds back to back and announce each new round', () => {
+      const onPhaseChange = vi.fn();
+      const emomTimer = new Timer({ ...mockCallbacks, onPhaseChange });
+      emomTimer.start(0, 'emom', segments);
+      expect(mockCallbacks.onTick).toHaveBeenCalledWith(10000);
+
+      vi.advanceTimersByTime(10000);
+      expect(onPhaseChange).toHaveBeenCalledWith(segments[1], 1);
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(10000);
+      expect(emomTimer.getCurrentSegment()).toEqual({ segment: segments[1], index: 1 });
+
+      vi.advanceTimersByTime(10000);
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+      expect(onPhaseChange).toHaveBeenCalledTimes(1);
+
+      emomTimer.destroy();
+    });
+
+    it('should count down the end of every round', () => {
+      timer.start(0, 'emom', segments);
+
+      vi.advanceTimersByTime(20000);
+      expect(mockCallbacks.onCountdown).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('amrap mode', () => {
+    it('should count down the time cap like timer mode', () => {
+      timer.start(10, 'amrap');
+      expect(mockCallbacks.onTick).toHaveBeenCalledWith(10000);
+
+      vi.advanceTimersByTime(4000);
+      expect(timer.getState().remainingTime).toBe(6000);
+
+      vi.advanceTimersByTime(6000);
+      expect(mockCallbacks.onCountdown).toHaveBeenCalledTimes(3);
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('overtime', () => {
+    beforeEach(() => {
+      mockCallbacks.onOvertime = vi.fn();
+    });
+
+    it('should keep counting past zero instead of completing', () => {
+      timer.start(2, 'timer', [], true);
+
+      vi.advanceTimersByTime(2000);
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(0);
+      expect(mockCallbacks.onComplete).not.toHaveBeenCalled();
+      expect(timer.running).toBe(true);
+
+      vi.advanceTimersByTime(17000);
+      expect(mockCallbacks.onOvertime).toHaveBeenLastCalledWith(17000);
+      expect(timer.getOvertime()).toBe(17000);
+      // 0은 한 번만 알리고 이후에는 초과 시간만 알림
+      expect(vi.mocked(mockCallbacks.onTick).mock.calls.filter(([time]) => time === 0)).toHaveLength(1);
+    });
+
+    it('should resume counting overtime after a pause', () => {
+      timer.start(1, 'timer', [], true);
+      vi.advanceTimersByTime(3000);
+
+      timer.pause();
+      vi.advanceTimersByTime(5000);
+      timer.resume();
+      vi.advanceTimersByTime(1000);
+
+      expect(timer.getOvertime()).toBe(3000);
+    });
+
+    it('should ignore overtime outside of timer mode', () => {
+      timer.start(2, 'amrap', [], true);
+      vi.advanceTimersByTime(3000);
+
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onOvertime).not.toHaveBeenCalled();
+      expect(timer.getOvertime()).toBe(0);
+    });
+
+    it('should clear overtime on reset', () => {
+      timer.start(1, 'timer', [], true);
+      vi.advanceTimersByTime(4000);
+
+      timer.reset();
+
+      expect(timer.getOvertime()).toBe(0);
+      expect(timer.running).toBe(false);
+    });
+  });
+
+  describe('restore', () => {
+    it('should continue a countdown from the elapsed time', () => {
+      timer.restore(60, 'timer', [], false, 45_000, false);
+
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(15_000);
+      expect(timer.running).toBe(true);
+
+      vi.advanceTimersByTime(5000);
+      expect(timer.getState().remainingTime).toBe(10_000);
+      expect(timer.getElapsedTime()).toBe(50_000);
+    });
+
+    it('should restore a paused session without ticking', () => {
+      timer.restore(0, 'stopwatch', [], false, 12_000, true);
+
+      expect(mockCallbacks.onTick).toHaveBeenCalledWith(12_000);
+      expect(timer.paused).toBe(true);
+
+      vi.advanceTimersByTime(5000);
+      expect(timer.getElapsedTime()).toBe(12_000);
+
+      timer.resume();
+      vi.advanceTimersByTime(1000);
+      expect(timer.getElapsedTime()).toBe(13_000);
+    });
+
+    it('should continue in the current interval phase without announcing it', () => {
+      const onPhaseChange = vi.fn();
+      const segments: IntervalSegment[] = [
+        { phase: 'work', round: 1, duration: 5 },
+        { phase: 'rest', round: 1, duration: 3 }
+      ];
+      const intervalTimer = new Timer({ ...mockCallbacks, onPhaseChange });
+
+      intervalTimer.restore(0, 'interval', segments, false, 6000, false);
+
+      expect(intervalTimer.getCurrentSegment()).toEqual({ segment: segments[1], index: 1 });
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(2000);
+      expect(onPhaseChange).not.toHaveBeenCalled();
+
+      intervalTimer.destroy();
+    });
+
+    it('should complete immediately when the session ended while the page was closed', () => {
+      timer.restore(30, 'timer', [], false, 90_000, false);
+
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+      expect(timer.running).toBe(false);
+    });
+  });
+
+  describe('addTime and skip', () => {
+    const segments: IntervalSegment[] = [
+      { phase: 'work', round: 1, duration: 5 },
+      { phase: 'rest', round: 1, duration: 3 },
+      { phase: 'work', round: 2, duration: 5 }
+    ];
+
+    it('should extend a running countdown', () => {
+      timer.start(10, 'timer');
+      vi.advanceTimersByTime(4000);
+
+      expect(timer.addTime(30)).toBe(true);
+
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(36_000);
+      vi.advanceTimersByTime(35_900);
+      expect(mockCallbacks.onComplete).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(100);
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should extend only the current interval phase', () => {
+      const onPhaseChange = vi.fn();
+      const intervalTimer = new Timer({ ...mockCallbacks, onPhaseChange });
+      intervalTimer.start(0, 'interval', segments);
+      vi.advanceTimersByTime(6000); // 휴식 구간 1초 경과
+
+      intervalTimer.addTime(30);
+      expect(intervalTimer.getState().remainingTime).toBe(32_000);
+
+      vi.advanceTimersByTime(32_000);
+      expect(onPhaseChange).toHaveBeenLastCalledWith(segments[2], 2);
+      expect(intervalTimer.getState().remainingTime).toBe(5000);
+
+      intervalTimer.destroy();
+    });
+
+    it('should ignore added time for the stopwatch', () => {
+      timer.start(0, 'stopwatch');
+      vi.advanceTimersByTime(2000);
+
+      expect(timer.addTime(30)).toBe(false);
+
+      expect(timer.getState().elapsedTime).toBe(2000);
+    });
+
+    it('should move to the next interval phase on skip', () => {
+      const onPhaseChange = vi.fn();
+      const intervalTimer = new Timer({ ...mockCallbacks, onPhaseChange });
+      intervalTimer.start(0, 'interval', segments);
+      vi.advanceTimersByTime(1000);
+
+      intervalTimer.skip();
+
+      expect(onPhaseChange).toHaveBeenCalledWith(segments[1], 1);
+      expect(intervalTimer.getState().remainingTime).toBe(3000);
+      expect(mockCallbacks.onComplete).not.toHaveBeenCalled();
+
+      intervalTimer.destroy();
+    });
+
+    it('should complete a countdown on skip', () => {
+      timer.start(60, 'timer');
+      vi.advanceTimersByTime(1000);
+
+      timer.skip();
+
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+      expect(timer.running).toBe(false);
+    });
+  });
+
+  describe('wall-clock accuracy (fake clock)', () => {
+    let clock: number;
+    let fakeClock: TimerClock;
+    let clockTimer: Timer;
+
+    // 인터벌 콜백 한 번이 실행되는 동안 시계가 intervalMs만큼 흐른 상황을 재현
+    // (백그라운드 탭 스로틀링, 바쁜 메인 스레드 등으로 콜백이 늦게 실행되는 경우)
+    const throttledTick = (intervalMs: number) => {
+      clock += intervalMs;
+      vi.advanceTimersByTime(100);
+    };
+
+    beforeEach(() => {
+      clock = 1_000;
+      fakeClock = () => clock;
+      clockTimer = new Timer(mockCallbacks, fakeClock);
+    });
+
+    afterEach(() => {
+      clockTimer.destroy();
+    });
+
+    it('should keep a stopwatch exact after hours of irregular throttling', () => {
+      clockTimer.start(0, 'stopwatch');
+
+      // 3시간 동안 100ms ~ 60초 간격으로 불규칙하게 콜백 실행
+      const intervals = [100, 1_000, 60_000, 250, 30_000, 4_321];
+      const threeHours = 3 * 60 * 60 * 1000;
+      let simulated = 0;
+      let i = 0;
+      while (simulated < threeHours) {
+        const step = Math.min(intervals[i % intervals.length], threeHours - simulated);
+        throttledTick(step);
+        simulated += step;
+        i++;
+      }
+
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(threeHours);
+      expect(clockTimer.getState().elapsedTime).toBe(threeHours);
+    });
+
+    it('should complete a 3-minute rest on time when callbacks only fire once per second', () => {
+      clockTimer.start(180);
+
+      for (let second = 0; second < 179; second++) {
+        throttledTick(1_000);
+      }
+      expect(mockCallbacks.onComplete).not.toHaveBeenCalled();
+      expect(clockTimer.getState().remainingTime).toBe(1_000);
+
+      throttledTick(1_000);
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(0);
+    });
+
+    it('should not overrun when a single delayed callback jumps past zero', () => {
+      clockTimer.start(60);
+
+      throttledTick(5 * 60 * 1000); // 5분 동안 탭이 멈춰 있었던 경우
+
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(0);
+      expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+      expect(clockTimer.running).toBe(false);
+    });
+
+    it('should not count paused time, however long the pause lasts', () => {
+      clockTimer.start(0, 'stopwatch');
+      throttledTick(90_000);
+
+      clockTimer.pause();
+      clock += 2 * 60 * 60 * 1000; // 2시간 일시정지
+      vi.advanceTimersByTime(10_000);
+      expect(clockTimer.getState().elapsedTime).toBe(90_000);
+
+      clockTimer.resume();
+      throttledTick(30_000);
+
+      expect(clockTimer.getState().elapsedTime).toBe(120_000);
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(120_000);
+    });
+
+    it('should accumulate many pause/resume cycles without drift', () => {
+      clockTimer.start(3600);
+
+      for (let cycle = 0; cycle < 100; cycle++) {
+        throttledTick(7_000);
+        clockTimer.pause();
+        clock += 13_000;
+        clockTimer.resume();
+      }
+
+      expect(clockTimer.getState().remainingTime).toBe(3_600_000 - 100 * 7_000);
+    });
+
+    it('should resync immediately when the page becomes visible again', () => {
+      clockTimer.start(0, 'stopwatch');
+      clock += 45_000; // 백그라운드에서 인터벌이 전혀 실행되지 않음
+
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(mockCallbacks.onTick).toHaveBeenLastCalledWith(45_000);
+    });
+
+    it('should announce each countdown second once, skipping seconds lost to throttling', () => {
+      clockTimer.start(5);
+
+      throttledTick(2_000); // 3초 남음
+      throttledTick(100);
+      throttledTick(1_900); // 1초 남음 (2초는 건너뜀)
+      throttledTick(500);
+
+      expect(mockCallbacks.onCountdown).toHaveBeenCalledTimes(2);
+      expect(mockCallbacks.onCountdown).toHaveBeenNthCalledWith(1, 3);
+      expect(mockCallbacks.onCountdown).toHaveBeenNthCalledWith(2, 1);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TimerEventBus } from '../TimerEventBus';
+
+describe('TimerEventBus', () => {
+  let bus: TimerEventBus;
+
+  beforeEach(() => {
+    bus = new TimerEventBus();
+  });
+
+  it('should deliver payloads only to listeners of the emitted event', () => {
+    const onStarted = vi.fn();
+    const onPaused = vi.fn();
+    bus.on('started', onStarted);
+    bus.on('paused', onPaused);
+
+    bus.emit('started', { mode: 'interval', startedAt: 1000, restored: false });
+
+    expect(onStarted).toHaveBeenCalledWith({ mode: 'interval', startedAt: 1000, restored: false });
+    expect(onPaused).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering after unsubscribing', () => {
+    const onTick = vi.fn();
+    const unsubscribe = bus.on('tick', onTick);
+
+    unsubscribe();
+    bus.emit('tick', { mode: 'timer', timeMs: 5000 });
+
+    expect(onTick).not.toHaveBeenCalled();
+  });
+
+  it('should keep notifying other listeners when one throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onCompleted = vi.fn();
+    bus.on('completed', () => {
+      throw new Error('listener failed');
+    });
+    bus.on('completed', onCompleted);
+
+    bus.emit('completed', { mode: 'timer', overtime: null });
+
+    expect(onCompleted).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  describe('snapshot', () => {
+    it('should follow the timer lifecycle', () => {
+      expect(bus.getSnapshot().status).toBe('idle');
+
+      bus.emit('started', { mode: 'emom', startedAt: 0, restored: false });
+      bus.emit('tick', { mode: 'emom', timeMs: 42_000 });
+      bus.emit('phase-changed', { mode: 'emom', phase: 'work', round: 2, totalRounds: 10 });
+      expect(bus.getSnapshot()).toEqual({
+        status: 'running',
+        mode: 'emom',
+        timeMs: 42_000,
+        phase: 'work',
+        round: 2,
+        totalRounds: 10,
+      });
+
+      bus.emit('paused', { mode: 'emom', timeMs: 41_000 });
+      expect(bus.getSnapshot()).toEqual(expect.objectContaining({ status: 'paused', timeMs: 41_000 }));
+
+      bus.emit('resumed', { mode: 'emom' });
+      bus.emit('completed', { mode: 'emom', overtime: null });
+      expect(bus.getSnapshot().status).toBe('completed');
+
+      bus.emit('stopped', { mode: 'timer' });
+      expect(bus.getSnapshot()).toEqual(expect.objectContaining({ status: 'idle', mode: 'timer', round: 1 }));
+    });
+
+    it('should notify store subscribers only when the snapshot changes', () => {
+      const listener = vi.fn();
+      bus.subscribe(listener);
+
+      bus.emit('tick', { mode: 'timer', timeMs: 3000 });
+      const snapshot = bus.getSnapshot();
+      bus.emit('tick', { mode: 'timer', timeMs: 3000 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(bus.getSnapshot()).toBe(snapshot);
+    });
+
+    it('should reset on clear', () => {
+      const listener = vi.fn();
+      bus.subscribe(listener);
+      bus.emit('started', { mode: 'stopwatch', startedAt: 0, restored: false });
+
+      bus.clear();
+      bus.emit('tick', { mode: 'stopwatch', timeMs: 1000 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(bus.getSnapshot().status).toBe('idle');
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { VoiceCountService } from '../VoiceCountService';
+import { VoiceCountService, buildRepCountSchedule, getRepCountText, toKoreanCount } from '../VoiceCountService';
 
 // Mock Web Audio API
 const mockAudioContext = {
@@ -129,7 +129,7 @@ describe('VoiceCountService', () => {
       service.startVoiceCount();
       service.stopVoiceCount();
       expect(window.clearInterval).toHaveBeenCalled();
-      expect(mockSpeechSynthesis.cancel).toHaveBeenCalled();
+      expect(mockSpeechSynthesis.cancel).not.toHaveBeenCalled();
     });
 
     it('이미 활성 상태일 때 startVoiceCount 호출해도 중복 실행되지 않아야 함', () => {
@@ -224,11 +224,83 @@ describe('VoiceCountService', () => {
       vi.useRealTimers();
     });
 
-    it('음성 합성 중단 시 cancel이 호출되어야 함', () => {
+    it('중지해도 다른 음성 안내가 기다리는 음성 합성 대기열은 비우지 않아야 함', () => {
       service.startVoiceCount();
       service.stopVoiceCount();
       
-      expect(mockSpeechSynthesis.cancel).toHaveBeenCalled();
+      expect(mockSpeechSynthesis.cancel).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('템포 카운트', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('템포에 따라 반복과 구간 일정이 만들어져야 함', () => {
+      const cues = buildRepCountSchedule({ targetReps: 2, tempo: [3, 1, 2, 0] }, 1);
+
+      expect(cues.map(({ time, rep, phase }) => [time, rep, phase])).toEqual([
+        [1, 1, 'eccentric'],
+        [4, 1, 'bottom-pause'],
+        [5, 1, 'concentric'],
+        [7, 2, 'eccentric'],
+        [10, 2, 'bottom-pause'],
+        [11, 2, 'concentric'],
+        [13, 2, 'complete'],
+      ]);
+      expect(cues.filter(cue => cue.repStart).map(cue => cue.rep)).toEqual([1, 2]);
+    });
+
+    it('반복 번호와 구간 이름을 안내 문구로 변환해야 함', () => {
+      expect(toKoreanCount(1)).toBe('하나');
+      expect(toKoreanCount(12)).toBe('열둘');
+      expect(toKoreanCount(20)).toBe('스물');
+      expect(getRepCountText({ time: 0, rep: 3, phase: 'eccentric', repStart: true }, 'ko-KR')).toBe('셋');
+      expect(getRepCountText({ time: 0, rep: 3, phase: 'eccentric', repStart: true }, 'en-US')).toBe('3');
+      expect(getRepCountText({ time: 0, rep: 3, phase: 'concentric', repStart: false }, 'ko-KR')).toBe('올리고');
+      expect(getRepCountText({ time: 0, rep: 3, phase: 'complete', repStart: false }, 'en-US')).toBe('Set complete');
+    });
+
+    it('일정에 맞춰 반복 번호를 알리고 세트를 마치면 완료를 알려야 함', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance'] });
+      const onCount = vi.fn();
+      const onComplete = vi.fn();
+      const counter = new VoiceCountService(onCount, onComplete);
+      counter.configure({ targetReps: 2, tempo: [1, 0, 1, 0] });
+
+      counter.startVoiceCount();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(onCount).toHaveBeenLastCalledWith(1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(onCount).toHaveBeenLastCalledWith(2);
+      expect(onComplete).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(counter.isVoiceCountActive()).toBe(false);
+      expect(counter.getCurrentCount()).toBe(2);
+      expect(vi.mocked(global.SpeechSynthesisUtterance).mock.calls.map(([text]) => text)).toEqual(
+        ['하나', '올리고', '둘', '올리고', '세트 완료']
+      );
+      // 세트를 마쳐도 대기 중인 음성 안내(라운드, 휴식 등)는 그대로 읽음
+      expect(mockSpeechSynthesis.cancel).not.toHaveBeenCalled();
+      counter.destroy();
+    });
+
+    it('중지하면 남은 안내가 취소되어야 함', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance'] });
+      const onCount = vi.fn();
+      const counter = new VoiceCountService(onCount);
+
+      counter.startVoiceCount();
+      await vi.advanceTimersByTimeAsync(500);
+      counter.stopVoiceCount();
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(onCount).not.toHaveBeenCalled();
+      counter.destroy();
+    });
+  });
+});
@@ -1,6 +1,7 @@
 // Wake Lock Service Tests
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { WakeLockService } from '../WakeLockService';
+import { TimerEventBus } from '../TimerEventBus';
 
 // Mock Wake Lock API
 const mockWakeLockSentinel = {
@@ -188,6 +189,32 @@ describe('WakeLockService', () => {
     expect(service.active).toBe(false);
   });
 
+  it('should follow timer events once connected', async () => {
+    service = new WakeLockService();
+    const events = new TimerEventBus();
+    let keepScreenOn = true;
+    const disconnect = service.connect(events, () => keepScreenOn);
+
+    events.emit('started', { mode: 'timer', startedAt: 0, restored: false });
+    await vi.waitFor(() => expect(service.active).toBe(true));
+
+    events.emit('paused', { mode: 'timer', timeMs: 1000 });
+    await vi.waitFor(() => expect(service.active).toBe(false));
+
+    // 설정이 꺼져 있으면 재개해도 화면을 켜두지 않음
+    keepScreenOn = false;
+    events.emit('resumed', { mode: 'timer' });
+    await Promise.resolve();
+    expect(service.active).toBe(false);
+
+    // 구독 해제 후에는 이벤트를 무시
+    keepScreenOn = true;
+    disconnect();
+    events.emit('started', { mode: 'timer', startedAt: 0, restored: false });
+    await Promise.resolve();
+    expect(mockWakeLock.request).toHaveBeenCalledTimes(1);
+  });
+
   it('should setup visibility handler', () => {
     service = new WakeLockService();
     
@@ -1,6 +1,11 @@
 // Service exports for Workout Timer App
 
 export { Timer } from './Timer';
+export { TimerEventBus } from './TimerEventBus';
+export { TabSyncService } from './TabSyncService';
+export { SystemNotificationService } from './SystemNotificationService';
+export { MediaSessionService } from './MediaSessionService';
+export { SpeechCueService } from './SpeechCueService';
 export { AudioNotificationService } from './AudioNotificationService';
 export { VibrationService } from './VibrationService';
 export { VoiceCountService } from './VoiceCountService';
@@ -9,4 +14,8 @@ export { StorageService } from './StorageService';
 export { BackgroundSyncService } from './BackgroundSyncService';
 export { PWAService } from './PWAService';
 export { IndexedDBService } from './IndexedDBService';
-export { WakeLockService } from './WakeLockService';
\ No newline at end of file
+export { WakeLockService } from './WakeLockService';
+export { SessionHistoryService } from './SessionHistoryService';
+export { HistoryTransferService } from './HistoryTransferService';
+export { BackupService } from './BackupService';
+export { CustomSoundService } from './CustomSoundService';
@@ -1 +1,5 @@
-import '@testing-library/jest-dom';
\ No newline at end of file
+import '@testing-library/jest-dom';
+
+// jsdom에는 없는 Node의 BroadcastChannel이 전역에 노출되어 있어 제거
+// (남아 있으면 같은 프로세스의 TimerProvider끼리 탭 동기화 메시지를 주고받음, 필요한 테스트는 직접 stubGlobal)
+Reflect.deleteProperty(globalThis, 'BroadcastChannel');
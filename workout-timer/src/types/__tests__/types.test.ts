@@ -61,7 +61,8 @@ describe('Type Definitions', () => {
 
   it('should have correct time constants', () => {
     expect(TIME_CONSTANTS.MIN_SECONDS).toBe(1);
-    expect(TIME_CONSTANTS.MAX_SECONDS).toBe(3599);
+    expect(TIME_CONSTANTS.MAX_SECONDS).toBe(35999);
+    expect(TIME_CONSTANTS.MAX_HOURS).toBe(9);
     expect(TIME_CONSTANTS.COUNTDOWN_THRESHOLD).toBe(3);
     expect(TIME_CONSTANTS.WARNING_THRESHOLD).toBe(10);
     expect(TIME_CONSTANTS.DANGER_THRESHOLD).toBe(30);
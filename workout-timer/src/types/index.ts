@@ -1,15 +1,246 @@
 // Core Types for Workout Timer App
 
+export type TimerMode = 'timer' | 'stopwatch' | 'interval' | 'emom' | 'amrap';
+
+// 인터벌(HIIT/Tabata) 모드의 구간 종류
+export type IntervalPhase = 'work' | 'rest';
+
+export interface IntervalConfig {
+  workDuration: number;    // 운동 구간 시간 (초)
+  restDuration: number;    // 휴식 구간 시간 (초)
+  rounds: number;          // 라운드 수
+}
+
+// EMOM 라운드 경계에서 반복 횟수 처리 방식 (초기화 / 1 증가)
+export type EmomRepBehavior = 'reset' | 'increment';
+
+export interface EmomConfig {
+  intervalDuration: number; // 한 라운드 시간 (초) - 기본 1분
+  rounds: number;           // 라운드 수
+  repBehavior: EmomRepBehavior;
+}
+
+// 타이머 서비스가 순서대로 실행하는 하나의 구간
+export interface IntervalSegment {
+  phase: IntervalPhase;
+  round: number;           // 1부터 시작하는 라운드 번호
+  duration: number;        // 구간 시간 (초)
+}
+
+// 진행 중에 시간을 추가한 구간 (인터벌/EMOM, 시스템 알림의 +30초)
+export interface AddedSegmentTime {
+  index: number;           // 구간 목록에서의 위치
+  ms: number;              // 추가한 시간 (밀리초)
+}
+
+// AMRAP 모드에서 라운드 완료를 탭할 때마다 기록되는 구간 기록
+export interface RoundSplit {
+  round: number;           // 1부터 시작하는 라운드 번호
+  timestamp: number;       // 기록 시각 (Date.now())
+  elapsedTime: number;     // 세션 시작부터 경과 시간 (밀리초)
+  splitTime: number;       // 직전 라운드부터 걸린 시간 (밀리초)
+}
+
+// 스톱워치 랩 기록
+export interface Lap {
+  number: number;          // 1부터 시작하는 랩 번호
+  lapTime: number;         // 해당 랩 시간 (밀리초)
+  totalTime: number;       // 랩 기록 시점의 누적 시간 (밀리초)
+}
+
+// AMRAP 세션 종료 요약
+export interface AmrapSummary {
+  duration: number;        // 제한 시간 (초)
+  totalRounds: number;
+  splits: RoundSplit[];
+}
+
+// 운동 기록의 일시정지 구간 (타임스탬프, 밀리초)
+export interface SessionPause {
+  startedAt: number;
+  endedAt: number;
+}
+
+// 완료되거나 수동으로 정지한 타이머 세션 기록
+export interface WorkoutSession {
+  id: string;
+  mode: TimerMode;
+  duration: number;      // 설정 시간 (초, 인터벌/EMOM은 전체 구간 합, 스톱워치는 0)
+  elapsedTime: number;   // 실제 운동 시간 (밀리초, 일시정지 제외)
+  pauses: SessionPause[];
+  repetitions: number;   // 종료 시점의 반복 횟수
+  laps: Lap[];
+  overtime: number | null; // 0을 지나 초과한 시간 (밀리초, 초과 카운트 중 정지한 경우만, 아니면 null)
+  startedAt: number;     // 시작 시각 (타임스탬프)
+  endedAt: number;       // 종료 시각 (타임스탬프)
+  completed: boolean;    // true: 끝까지 완료, false: 수동 정지
+}
+
+// 운동 기록 내보내기/가져오기 파일 형식
+export type HistoryFileFormat = 'csv' | 'json';
+
+// 운동 기록 가져오기 결과
+export interface HistoryImportResult {
+  imported: number;    // 새로 저장한 기록 수
+  duplicates: number;  // 이미 있는 id라 건너뛴 기록 수
+  rejected: number;    // 형식이 잘못되어 제외한 행 수
+}
+
+// 백업 복원 방식 (merge: 기존 데이터에 없는 항목만 추가, replace: 백업 내용으로 교체)
+export type BackupRestoreMode = 'merge' | 'replace';
+
+// 사용자가 가져온 알림음 (IndexedDB에 원본 파일을 보관)
+export interface CustomSound {
+  id: CustomSoundId;
+  name: string;
+  mimeType: string;
+  size: number;       // 파일 크기 (바이트)
+  duration: number;   // 재생 길이 (초)
+  createdAt: number;
+  blob: Blob;
+}
+
+// 백업에 포함되는 사용자 지정 알림음
+export interface BackupSound {
+  id: CustomSoundId;
+  name: string;
+  mimeType: string;
+  duration: number;
+  createdAt: number;
+  data: string;  // base64 인코딩된 오디오
+}
+
+// 백업 파일에 담기는 앱 데이터
+export interface BackupData {
+  settings: SettingsState | null;
+  templates: Template[];
+  workoutProgram: WorkoutProgram | null;
+  sessions: WorkoutSession[];
+  sounds: BackupSound[];
+}
+
+// 백업 파일 구조 (checksum은 data를 직렬화한 문자열의 CRC-32)
+export interface BackupFile {
+  format: string;
+  version: number;
+  createdAt: string;
+  checksum: string;
+  data: BackupData;
+}
+
+// 복원 전 미리보기
+export interface BackupPreview {
+  createdAt: Date;
+  hasSettings: boolean;
+  templates: number;  // 사용자 템플릿 수
+  exercises: number;  // 운동 프로그램 종목 수
+  sessions: number;
+  sounds: number;
+}
+
+// 통계 차트의 막대 하나 (일/주 단위 집계)
+export interface StatsBucket {
+  start: number;  // 구간 시작 시각 (타임스탬프, 자정 기준)
+  label: string;  // 축 레이블 (예: "3/1")
+  value: number;
+}
+
+// 운동 기록으로 계산한 통계
+export interface TrainingStats {
+  totalTime: { day: number; week: number; month: number }; // 오늘/이번 주/이번 달 운동 시간 (밀리초)
+  dailyTime: StatsBucket[];      // 최근 7일 일별 운동 시간 (밀리초)
+  weeklySessions: StatsBucket[]; // 최근 8주 주별 세션 수
+  totalSessions: number;
+  totalReps: number;
+  averagePause: number;          // 평균 일시정지 시간 (밀리초, 일시정지가 없으면 0, 인터벌/프로그램 휴식 구간은 포함하지 않음)
+  longestStreak: number;         // 가장 긴 연속 운동 일수
+}
+
+// 운동 프로그램의 세트 목표 (반복 횟수 / 시간)
+export type ExerciseTarget = 'reps' | 'time';
+
+// 운동 프로그램의 한 종목
+export interface WorkoutExercise {
+  id: string;
+  name: string;
+  sets: number;
+  target: ExerciseTarget;
+  reps: number;            // 세트당 목표 반복 횟수 (target이 'reps'일 때)
+  duration: number;        // 세트당 운동 시간 (초, target이 'time'일 때)
+  restDuration: number;    // 세트 사이 휴식 시간 (초, 0이면 휴식 없음)
+}
+
+export interface WorkoutProgram {
+  name: string;
+  exercises: WorkoutExercise[];
+}
+
+// 프로그램을 펼친 실행 단계 (세트 또는 휴식)
+export interface WorkoutStep {
+  kind: 'set' | 'rest';
+  exerciseIndex: number;   // 휴식 단계는 휴식 뒤에 이어질 세트의 종목
+  exerciseName: string;
+  set: number;             // 휴식 단계는 휴식 뒤에 이어질 세트 번호
+  totalSets: number;
+  target: ExerciseTarget;
+  reps: number;
+  duration: number;        // 타이머로 진행할 시간 (초, 반복 횟수 세트는 0 - 직접 완료)
+}
+
+// 운동 프로그램 진행 상태
+export type WorkoutStatus = 'idle' | 'active' | 'completed';
+
+export interface WorkoutState {
+  program: WorkoutProgram;
+  status: WorkoutStatus;
+  stepIndex: number;
+}
+
+export type WorkoutAction =
+  | { type: 'SET_PROGRAM'; payload: WorkoutProgram }
+  | { type: 'ADD_EXERCISE'; payload: WorkoutExercise }
+  | { type: 'UPDATE_EXERCISE'; payload: { id: string; updates: Partial<Omit<WorkoutExercise, 'id'>> } }
+  | { type: 'REMOVE_EXERCISE'; payload: { id: string } }
+  | { type: 'MOVE_EXERCISE'; payload: { id: string; direction: -1 | 1 } }
+  | { type: 'START_WORKOUT' }
+  | { type: 'NEXT_STEP' }
+  | { type: 'STOP_WORKOUT' };
+
 export interface TimerState {
-  mode: 'timer' | 'stopwatch';  // 타이머/스톱워치 모드
-  duration: number;        // 설정된 총 시간 (초) - 타이머 모드용
-  remainingTime: number;   // 남은 시간 (밀리초) - 타이머 모드용
+  mode: TimerMode;         // 타이머/스톱워치/인터벌/EMOM/AMRAP 모드
+  duration: number;        // 설정된 총 시간 (초) - 타이머/AMRAP 모드용
+  remainingTime: number;   // 남은 시간 (밀리초) - 타이머/AMRAP 모드용
   elapsedTime: number;     // 경과 시간 (밀리초) - 스톱워치 모드용
   repetitions: number;     // 현재 반복 횟수
   isRunning: boolean;      // 타이머/스톱워치 실행 상태
   isPaused: boolean;       // 일시정지 상태
   voiceCountActive: boolean;     // 음성 카운트 활성 상태
   voiceCountNumber: number;      // 현재 음성 카운트 숫자
+  interval: IntervalConfig;      // 인터벌 모드 설정
+  emom: EmomConfig;              // EMOM 모드 설정
+  currentRound: number;          // 인터벌/EMOM 모드 현재 라운드 (1부터)
+  phase: IntervalPhase;          // 인터벌 모드 현재 구간 (EMOM은 항상 'work')
+  roundSplits: RoundSplit[];     // AMRAP 모드 라운드 기록
+  amrapSummary: AmrapSummary | null; // 마지막 AMRAP 세션 요약 (확인 전까지 유지)
+  laps: Lap[];                   // 스톱워치 랩 기록 (기록 순)
+  preStartRemaining: number | null; // 시작 전 준비 카운트다운 남은 시간 (밀리초, 준비 중이 아니면 null)
+  overtime: number | null;       // 0을 지나 초과한 시간 (밀리초, 초과 중이거나 초과 후 완료된 경우만, 아니면 null)
+  addedTime: number;             // 인터벌/EMOM 모드 현재 구간에 추가한 시간 (밀리초, 타이머/AMRAP은 duration에 더함)
+}
+
+// 저장된 타이머 시간 프리셋
+export interface Template {
+  id: string;
+  name: string;
+  duration: number;   // 설정 시간 (초)
+  isDefault: boolean; // 기본 템플릿은 수정/삭제 불가
+  createdAt: Date;
+}
+
+export interface TemplateState {
+  templates: Template[]; // 표시 순서 (숫자 키 1-9는 앞에서부터 대응)
+  isLoading: boolean;
+  error: string | null;
 }
 
 export interface SettingsState {
@@ -26,26 +257,97 @@ export interface SettingsState {
     theme: 'light' | 'dark';
     keepScreenOn: boolean;
   };
+  timer: {
+    preStartCountdown: number; // 시작 전 준비 카운트다운 (초, 0이면 사용 안 함)
+    overtime: boolean;         // 타이머 모드에서 0 이후에도 정지할 때까지 초과 시간 카운트
+    resumePromptMinutes: number; // 새로고침 후 이 시간(분)보다 오래된 세션은 이어서 할지 확인
+  };
+  speech: {
+    enabled: boolean;          // 음성 안내 (speechSynthesis)
+    lang: string;              // 안내 언어 (SPEECH_CONSTANTS.LANGUAGES)
+    voiceURI: string;          // 선택한 음성 (빈 문자열이면 언어별 기본 음성)
+    rate: number;              // 말하기 속도 (SPEECH_CONSTANTS.RATE_OPTIONS)
+    timeLeftCue: boolean;      // "10초 남았습니다"
+    halfwayCue: boolean;       // "절반 지났습니다"
+    phaseCue: boolean;         // 인터벌 구간 전환 ("운동", "휴식")
+    roundCue: boolean;         // 라운드 시작 ("8라운드 중 4라운드")
+    exerciseCue: boolean;      // 운동 프로그램의 다음 종목 이름
+  };
+  voiceCount: {
+    targetReps: number;        // 한 세트의 목표 반복 횟수 (VOICE_COUNT_CONSTANTS.TARGET_REP_OPTIONS)
+    tempo: number[];           // 템포 [내리기, 아래 멈춤, 올리기, 위 멈춤] (초, 예: 3-1-2-0)
+  };
+  metronome: {
+    bpm: number;               // 분당 박자 수 (METRONOME_CONSTANTS.MIN_BPM ~ MAX_BPM)
+    accentEvery: number;       // N박마다 강박 (0이면 강박 없음)
+    subdivision: number;       // 한 박을 나누는 수 (1이면 나누지 않음, 2는 8분음표, 3은 셋잇단음표)
+    followTimer: boolean;      // 타이머/스톱워치를 시작하거나 멈출 때 함께 시작/정지
+  };
+}
+
+// 새로고침/탭 종료 후 이어서 하기 위해 저장하는 진행 중 세션 (벽시계 기준)
+export interface SavedTimerSession {
+  mode: TimerMode;
+  duration: number;          // 설정 시간 (초)
+  interval: IntervalConfig;
+  emom: EmomConfig;
+  overtime: boolean;         // 초과 시간 카운트 사용 여부
+  repetitions: number;
+  laps: Lap[];
+  roundSplits: RoundSplit[];
+  isPaused: boolean;
+  startedAt: number;         // 세션 시작 시각 (Date.now())
+  elapsedTime: number;       // savedAt 시점까지 운동한 시간 (밀리초, 일시정지 구간 제외)
+  savedAt: number;           // 저장 시각 (Date.now())
+  pauses: SessionPause[];    // 저장 시점까지 끝난 일시정지 구간 (운동 기록용)
+  pausedAt: number | null;   // 일시정지 중이면 일시정지 시작 시각
+  addedTime: AddedSegmentTime[]; // 인터벌/EMOM 구간에 추가한 시간 (복원 시 구간 목록에 반영)
+}
+
+// localStorage에 저장하는 설정 형식 (버전별 마이그레이션용)
+export interface StoredSettings {
+  version: number;
+  settings: SettingsState;
 }
 
 
 
 // Action Types
 export type TimerAction =
-  | { type: 'SET_MODE'; payload: { mode: 'timer' | 'stopwatch' } }
+  | { type: 'SET_MODE'; payload: { mode: TimerMode } }
   | { type: 'START_TIMER' }
   | { type: 'PAUSE_TIMER' }
   | { type: 'RESET_TIMER' }
   | { type: 'RESET_REPETITIONS' }
-  | { type: 'COMPLETE_TIMER' }
+  | { type: 'COMPLETE_TIMER'; payload?: { overtime: number } }
+  | { type: 'OVERTIME_TICK'; payload: { overtime: number } }
   | { type: 'SET_DURATION'; payload: { duration: number } }
+  | { type: 'ADD_TIME'; payload: { seconds: number } }
   | { type: 'INCREMENT_REPETITIONS' }
   | { type: 'DECREMENT_REPETITIONS' }
   | { type: 'TICK'; payload?: { remainingTime?: number; elapsedTime?: number } }
   | { type: 'TOGGLE_VOICE_COUNT' }
-  | { type: 'INCREMENT_VOICE_COUNT' };
+  | { type: 'INCREMENT_VOICE_COUNT' }
+  | { type: 'FINISH_VOICE_COUNT' }
+  | { type: 'SET_INTERVAL_CONFIG'; payload: Partial<IntervalConfig> }
+  | { type: 'SET_EMOM_CONFIG'; payload: Partial<EmomConfig> }
+  | { type: 'RECORD_ROUND'; payload: { elapsedTime: number; timestamp: number } }
+  | { type: 'CLEAR_AMRAP_SUMMARY' }
+  | { type: 'LAP'; payload: { elapsedTime: number } }
+  | { type: 'CLEAR_LAPS' }
+  | { type: 'PRE_START'; payload: { remainingTime: number } }
+  | { type: 'PRE_START_END' }
+  | { type: 'RESTORE_STATE'; payload: { state: TimerState } }
+  | { type: 'SYNC_STATE'; payload: { state: TimerState } } // 리더 탭 상태 반영 (음성 카운트 포함)
+  | { type: 'PHASE_CHANGE'; payload: { phase: IntervalPhase; round: number; remainingTime: number } };
 
-// 템플릿 기능 제거로 관련 타입 제거
+export type TemplateAction =
+  | { type: 'LOAD_TEMPLATES'; payload: Template[] }
+  | { type: 'ADD_TEMPLATE'; payload: Template }
+  | { type: 'UPDATE_TEMPLATE'; payload: { id: string; updates: Partial<Pick<Template, 'name' | 'duration'>> } }
+  | { type: 'DELETE_TEMPLATE'; payload: { id: string } }
+  | { type: 'MOVE_TEMPLATE'; payload: { id: string; direction: -1 | 1 } }
+  | { type: 'SET_ERROR'; payload: string | null };
 
 // Component Props Types
 export interface ButtonProps {
@@ -65,10 +367,20 @@ export interface CircularProgressProps {
   size: number;         // 원의 크기
   strokeWidth: number;  // 선의 두께
   color: string;        // 진행률 색상
+  innerProgress?: number; // 안쪽 동심원 진행률 (0-100, 지정 시에만 표시)
+  innerColor?: string;    // 안쪽 동심원 색상
   backgroundColor?: string;
   className?: string;
 }
 
+export interface BarChartProps {
+  data: { label: string; value: number }[];
+  label: string;                          // 차트 접근성 레이블
+  formatValue?: (value: number) => string; // 막대 값 표시 형식
+  color?: string;
+  className?: string;
+}
+
 export interface DragTimeInputProps {
   value: number;
   min: number;
@@ -82,11 +394,56 @@ export interface DragTimeInputProps {
 
 // Service Types
 export interface TimerCallbacks {
-  onTick: (timeMs: number) => void; // remainingTime for timer mode, elapsedTime for stopwatch mode
+  onTick: (timeMs: number) => void; // remainingTime for timer/amrap mode, elapsedTime for stopwatch mode, segment remainingTime for interval/emom mode
   onComplete: () => void;
   onCountdown: (seconds: number) => void;
+  onPhaseChange?: (segment: IntervalSegment, index: number) => void; // interval/emom mode only
+  onOvertime?: (overtimeMs: number) => void; // timer mode with overtime only, every tick after reaching zero
 }
 
+// 타이머 이벤트 버스로 전달되는 수명 주기 이벤트 (이벤트 이름 → 전달 값)
+export interface TimerEventMap {
+  started: { mode: TimerMode; startedAt: number; restored: boolean }; // restored: 새로고침 후 이어서 시작
+  paused: { mode: TimerMode; timeMs: number };
+  resumed: { mode: TimerMode };
+  tick: { mode: TimerMode; timeMs: number }; // onTick과 같은 기준의 시간 (밀리초)
+  'phase-changed': { mode: TimerMode; phase: IntervalPhase; round: number; totalRounds: number };
+  'time-added': { mode: TimerMode; seconds: number }; // 진행 중인 카운트다운 연장
+  completed: { mode: TimerMode; overtime: number | null }; // overtime: 초과 카운트 중 정지했을 때 초과한 시간 (밀리초)
+  stopped: { mode: TimerMode }; // 완료 전 초기화/모드 변경
+}
+
+export type TimerEventType = keyof TimerEventMap;
+
+export type TimerEventListener<K extends TimerEventType> = (payload: TimerEventMap[K]) => void;
+
+// 이벤트 버스가 보관하는 최신 타이머 상태 요약 (useSyncExternalStore 스냅샷)
+export interface TimerSnapshot {
+  status: 'idle' | 'running' | 'paused' | 'completed';
+  mode: TimerMode;
+  timeMs: number;
+  phase: IntervalPhase;
+  round: number;
+  totalRounds: number;
+}
+
+// 팔로워 탭이 리더 탭에 전달하는 타이머 조작 명령
+export type TabSyncCommand =
+  | { name: 'start' }
+  | { name: 'pause' }
+  | { name: 'resume' }
+  | { name: 'reset' }
+  | { name: 'setMode'; mode: TimerMode }
+  | { name: 'setDuration'; duration: number }
+  | { name: 'setIntervalConfig'; config: Partial<IntervalConfig> }
+  | { name: 'setEmomConfig'; config: Partial<EmomConfig> }
+  | { name: 'incrementRepetitions' }
+  | { name: 'decrementRepetitions' }
+  | { name: 'resetRepetitions' }
+  | { name: 'recordLap' }
+  | { name: 'toggleVoiceCount' }
+  | { name: 'clearAmrapSummary' };
+
 export interface NotificationOptions {
   sound: boolean;
   vibration: boolean;
@@ -106,7 +463,17 @@ export interface DragState {
 }
 
 // Constants
-// DEFAULT_TEMPLATES 제거
+export const DEFAULT_TEMPLATE_IDS = {
+  THIRTY_SECONDS: 'default-30s',
+  ONE_MINUTE: 'default-1m',
+  THREE_MINUTES: 'default-3m'
+} as const;
+
+export const DEFAULT_TEMPLATES: Omit<Template, 'id' | 'createdAt'>[] = [
+  { name: '30초', duration: 30, isDefault: true },
+  { name: '1분', duration: 60, isDefault: true },
+  { name: '3분', duration: 180, isDefault: true }
+];
 
 export const DEFAULT_SETTINGS: SettingsState = {
   sound: {
@@ -121,9 +488,47 @@ export const DEFAULT_SETTINGS: SettingsState = {
   ui: {
     theme: 'light',
     keepScreenOn: false
+  },
+  timer: {
+    preStartCountdown: 0,
+    overtime: false,
+    resumePromptMinutes: 30
+  },
+  speech: {
+    enabled: false,
+    lang: 'ko-KR',
+    voiceURI: '',
+    rate: 1,
+    timeLeftCue: true,
+    halfwayCue: true,
+    phaseCue: true,
+    roundCue: true,
+    exerciseCue: true
+  },
+  voiceCount: {
+    targetReps: 10,
+    tempo: [3, 1, 2, 0]
+  },
+  metronome: {
+    bpm: 120,
+    accentEvery: 4,
+    subdivision: 1,
+    followTimer: false
   }
 };
 
+export const DEFAULT_INTERVAL_CONFIG: IntervalConfig = {
+  workDuration: 20,
+  restDuration: 10,
+  rounds: 8
+};
+
+export const DEFAULT_EMOM_CONFIG: EmomConfig = {
+  intervalDuration: 60,
+  rounds: 10,
+  repBehavior: 'reset'
+};
+
 export const TIMER_STATES = {
   IDLE: 'idle',
   RUNNING: 'running',
@@ -136,14 +541,59 @@ export type TimerStatus = typeof TIMER_STATES[keyof typeof TIMER_STATES];
 // Time-related constants
 export const TIME_CONSTANTS = {
   MIN_SECONDS: 1,
-  MAX_SECONDS: 3599, // 59분 59초
+  MAX_SECONDS: 35999, // 9시간 59분 59초
   MIN_MINUTES: 0,
   MAX_MINUTES: 59,
+  MAX_HOURS: 9,
   COUNTDOWN_THRESHOLD: 3, // 카운트다운 알림 시작 시간 (초)
+  PRE_START_OPTIONS: [0, 3, 5, 10], // 시작 전 준비 카운트다운 선택지 (초)
+  RESUME_PROMPT_OPTIONS: [5, 15, 30, 60], // 이어하기 확인 기준 선택지 (분)
   WARNING_THRESHOLD: 10,  // 경고 색상 시작 시간 (초)
   DANGER_THRESHOLD: 30    // 위험 색상 시작 시간 (초)
 } as const;
 
+// Interval-related constants
+export const INTERVAL_CONSTANTS = {
+  MIN_WORK_SECONDS: 5,
+  MAX_WORK_SECONDS: 600,
+  MIN_REST_SECONDS: 0,
+  MAX_REST_SECONDS: 600,
+  STEP_SECONDS: 5,
+  MIN_ROUNDS: 1,
+  MAX_ROUNDS: 50
+} as const;
+
+// EMOM-related constants
+export const EMOM_CONSTANTS = {
+  MIN_INTERVAL_SECONDS: 10,
+  MAX_INTERVAL_SECONDS: 300,
+  STEP_SECONDS: 5,
+  MIN_ROUNDS: 1,
+  MAX_ROUNDS: 60
+} as const;
+
+// Workout program constants
+export const WORKOUT_CONSTANTS = {
+  MIN_SETS: 1,
+  MAX_SETS: 20,
+  MIN_REPS: 1,
+  MAX_REPS: 100,
+  MIN_DURATION_SECONDS: 5,
+  MAX_DURATION_SECONDS: 600,
+  DURATION_STEP_SECONDS: 5,
+  MAX_REST_SECONDS: 600,
+  REST_STEP_SECONDS: 15,
+  MAX_NAME_LENGTH: 30
+} as const;
+
+export const DEFAULT_WORKOUT_EXERCISE: Omit<WorkoutExercise, 'id' | 'name'> = {
+  sets: 3,
+  target: 'reps',
+  reps: 10,
+  duration: 30,
+  restDuration: 60
+};
+
 // Audio-related constants
 export const AUDIO_CONSTANTS = {
   SOUNDS: {
@@ -151,17 +601,60 @@ export const AUDIO_CONSTANTS = {
     BELL: 'bell',
     CHIME: 'chime'
   },
+  // 구간 시작/준비 카운트다운 알림음 (설정에서 선택하는 사운드와 별개)
+  PHASE_CUES: {
+    WORK_START: 'work-start',
+    REST_START: 'rest-start',
+    GET_READY: 'get-ready'
+  },
   DEFAULT_VOLUME: 0.8,
   COUNTDOWN_VOLUME: 0.6,
   COMPLETION_VOLUME: 1.0
 } as const;
 
+// Speech cue constants
+export const SPEECH_CONSTANTS = {
+  LANGUAGES: ['ko-KR', 'en-US'], // 안내 문구를 제공하는 언어
+  RATE_OPTIONS: [0.8, 1, 1.2, 1.5], // 말하기 속도 선택지
+  TIME_LEFT_SECONDS: 10 // 남은 시간 안내 시점 (초)
+} as const;
+
+// Voice rep counter constants
+export const VOICE_COUNT_CONSTANTS = {
+  TARGET_REP_OPTIONS: [5, 8, 10, 12, 15, 20], // 목표 반복 횟수 선택지
+  MAX_TEMPO_SECONDS: 6, // 템포 구간별 최대 시간 (초)
+  LEAD_IN_SECONDS: 1, // 시작 버튼을 누른 뒤 첫 반복까지 준비 시간 (초)
+  LOOKAHEAD_MS: 25, // 스케줄러 확인 주기 (밀리초)
+  SCHEDULE_AHEAD_SECONDS: 0.1 // 미리 예약하는 범위 (초)
+} as const;
+
+// Custom sound constants
+export const CUSTOM_SOUND_CONSTANTS = {
+  ID_PREFIX: 'custom-', // 사용자 지정 알림음 id 접두사 (기본 알림음과 구분)
+  MAX_FILE_BYTES: 1024 * 1024, // 가져올 수 있는 최대 파일 크기 (1MB)
+  MAX_DURATION_SECONDS: 10 // 최대 재생 길이 (초)
+} as const;
+
+// Metronome constants
+export const METRONOME_CONSTANTS = {
+  MIN_BPM: 30,
+  MAX_BPM: 240,
+  ACCENT_OPTIONS: [0, 2, 3, 4, 6, 8], // 강박 간격 선택지 (0은 강박 없음)
+  SUBDIVISION_OPTIONS: [1, 2, 3, 4], // 박 나누기 선택지
+  LOOKAHEAD_MS: 25, // 스케줄러 확인 주기 (밀리초)
+  SCHEDULE_AHEAD_SECONDS: 0.1 // 미리 예약하는 범위 (초)
+} as const;
+
 // Vibration patterns
 export const VIBRATION_PATTERNS = {
   COUNTDOWN: [100],
   COMPLETION: [200, 100, 200, 100, 200],
   SHORT: [50],
-  LONG: [300]
+  LONG: [300],
+  WORK_START: [300, 100, 300],
+  REST_START: [600],
+  PRE_START_TICK: [50],
+  PRE_START_END: [400]
 } as const;
 
 // UI Constants
@@ -176,12 +669,17 @@ export const UI_CONSTANTS = {
 // Storage keys
 export const STORAGE_KEYS = {
   SETTINGS: 'workout-timer-settings',
+  TEMPLATES: 'workout-timer-templates',
   THEME: 'workout-timer-theme',
-  TIMER_STATE: 'workout-timer-state'
+  TIMER_STATE: 'workout-timer-state',
+  WORKOUT_PROGRAM: 'workout-timer-program'
 } as const;
 
 // Additional utility types
-export type SoundType = typeof AUDIO_CONSTANTS.SOUNDS[keyof typeof AUDIO_CONSTANTS.SOUNDS];
+export type BuiltInSoundType = typeof AUDIO_CONSTANTS.SOUNDS[keyof typeof AUDIO_CONSTANTS.SOUNDS];
+export type CustomSoundId = `${typeof CUSTOM_SOUND_CONSTANTS.ID_PREFIX}${string}`;
+export type SoundType = BuiltInSoundType | CustomSoundId;
+export type PhaseCueType = typeof AUDIO_CONSTANTS.PHASE_CUES[keyof typeof AUDIO_CONSTANTS.PHASE_CUES];
 export type VibrationPattern = typeof VIBRATION_PATTERNS[keyof typeof VIBRATION_PATTERNS];
 export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
 
@@ -212,7 +710,12 @@ export interface ValidationResult {
 }
 
 // Template form data
-// TemplateFormData 제거
+export interface TemplateFormData {
+  name: string;
+  hours?: number;
+  minutes: number;
+  seconds: number;
+}
 
 // Settings form data
 export interface SettingsFormData {
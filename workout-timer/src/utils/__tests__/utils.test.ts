@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   formatTime,
+  formatTimeWithMilliseconds,
+  formatOvertime,
   parseTime,
   calculateProgress,
   getTimerColor,
@@ -27,8 +29,18 @@ import {
   throttle,
   classNames,
   getCurrentTheme,
-  applyTheme
+  applyTheme,
+  buildIntervalSchedule,
+  buildEmomSchedule,
+  getLapExtremes,
+  getScheduleDuration,
+  formatClock,
+  buildWorkoutSteps,
+  formatWorkoutStep,
+  startOfWeek,
+  calculateTrainingStats
 } from '../index';
+import type { WorkoutProgram, WorkoutSession } from '../../types';
 
 describe('Time Utilities', () => {
   it('should format time correctly', () => {
@@ -39,12 +51,34 @@ describe('Time Utilities', () => {
     expect(formatTime(3599)).toBe('59:59');
   });
 
+  it('should format durations of an hour or more as H:MM:SS', () => {
+    expect(formatTime(3600)).toBe('1:00:00');
+    expect(formatTime(5400)).toBe('1:30:00');
+    expect(formatTime(35999)).toBe('9:59:59');
+  });
+
+  it('should format milliseconds with an hours column past 59:59.99', () => {
+    expect(formatTimeWithMilliseconds(3_599_990)).toBe('59:59.99');
+    expect(formatTimeWithMilliseconds(3_600_000)).toBe('1:00:00.00');
+    expect(formatTimeWithMilliseconds(5_425_670)).toBe('1:30:25.67');
+  });
+
+  it('should format overtime with a leading plus sign', () => {
+    expect(formatOvertime(0)).toBe('+0:00');
+    expect(formatOvertime(17_400)).toBe('+0:17');
+    expect(formatOvertime(125_000)).toBe('+2:05');
+    expect(formatOvertime(3_661_000)).toBe('+1:01:01');
+  });
+
   it('should parse time correctly', () => {
     expect(parseTime('00:00')).toBe(0);
     expect(parseTime('00:30')).toBe(30);
     expect(parseTime('01:00')).toBe(60);
     expect(parseTime('01:30')).toBe(90);
     expect(parseTime('59:59')).toBe(3599);
+    expect(parseTime('1:00:00')).toBe(3600);
+    expect(parseTime('1:30:00')).toBe(5400);
+    expect(parseTime('9:59:59')).toBe(35999);
   });
 
   it('should calculate progress correctly', () => {
@@ -55,10 +89,168 @@ describe('Time Utilities', () => {
   });
 
   it('should split and combine time correctly', () => {
-    expect(splitTime(90)).toEqual({ minutes: 1, seconds: 30 });
-    expect(splitTime(3599)).toEqual({ minutes: 59, seconds: 59 });
+    expect(splitTime(90)).toEqual({ hours: 0, minutes: 1, seconds: 30 });
+    expect(splitTime(3599)).toEqual({ hours: 0, minutes: 59, seconds: 59 });
+    expect(splitTime(3600)).toEqual({ hours: 1, minutes: 0, seconds: 0 });
+    expect(splitTime(35999)).toEqual({ hours: 9, minutes: 59, seconds: 59 });
     expect(combineTime(1, 30)).toBe(90);
     expect(combineTime(59, 59)).toBe(3599);
+    expect(combineTime(30, 0, 1)).toBe(5400);
+    expect(combineTime(59, 59, 9)).toBe(35999);
+  });
+});
+
+describe('Interval Utilities', () => {
+  it('should build alternating work/rest segments without a trailing rest', () => {
+    const segments = buildIntervalSchedule({ workDuration: 20, restDuration: 10, rounds: 3 });
+
+    expect(segments).toEqual([
+      { phase: 'work', round: 1, duration: 20 },
+      { phase: 'rest', round: 1, duration: 10 },
+      { phase: 'work', round: 2, duration: 20 },
+      { phase: 'rest', round: 2, duration: 10 },
+      { phase: 'work', round: 3, duration: 20 }
+    ]);
+    expect(getScheduleDuration(segments)).toBe(80);
+  });
+
+  it('should skip rest segments when rest duration is 0', () => {
+    const segments = buildIntervalSchedule({ workDuration: 60, restDuration: 0, rounds: 2 });
+
+    expect(segments.map(segment => segment.phase)).toEqual(['work', 'work']);
+    expect(getScheduleDuration(segments)).toBe(120);
+  });
+
+  it('should build back-to-back EMOM rounds', () => {
+    const segments = buildEmomSchedule({ intervalDuration: 60, rounds: 3, repBehavior: 'reset' });
+
+    expect(segments).toEqual([
+      { phase: 'work', round: 1, duration: 60 },
+      { phase: 'work', round: 2, duration: 60 },
+      { phase: 'work', round: 3, duration: 60 }
+    ]);
+    expect(getScheduleDuration(segments)).toBe(180);
+  });
+});
+
+describe('Lap Utilities', () => {
+  it('should find the fastest and slowest laps', () => {
+    const laps = [
+      { number: 1, lapTime: 62000, totalTime: 62000 },
+      { number: 2, lapTime: 58000, totalTime: 120000 },
+      { number: 3, lapTime: 65000, totalTime: 185000 }
+    ];
+
+    expect(getLapExtremes(laps)).toEqual({ fastest: 2, slowest: 3 });
+  });
+
+  it('should not highlight a single lap', () => {
+    expect(getLapExtremes([{ number: 1, lapTime: 60000, totalTime: 60000 }])).toEqual({ fastest: null, slowest: null });
+  });
+});
+
+describe('Workout Utilities', () => {
+  const program: WorkoutProgram = {
+    name: '하체',
+    exercises: [
+      { id: 'a', name: 'Squat', sets: 2, target: 'reps', reps: 10, duration: 30, restDuration: 90 },
+      { id: 'b', name: 'Plank', sets: 2, target: 'time', reps: 10, duration: 45, restDuration: 0 }
+    ]
+  };
+
+  it('should format clock without zero padding minutes', () => {
+    expect(formatClock(90)).toBe('1:30');
+    expect(formatClock(5)).toBe('0:05');
+    expect(formatClock(3661)).toBe('1:01:01');
+  });
+
+  it('should build set and rest steps in order', () => {
+    const steps = buildWorkoutSteps(program);
+
+    expect(steps.map(step => `${step.kind}:${step.exerciseName}:${step.set}:${step.duration}`)).toEqual([
+      'set:Squat:1:0',
+      'rest:Squat:2:90',
+      'set:Squat:2:0',
+      'rest:Plank:1:90',
+      'set:Plank:1:45',
+      'set:Plank:2:45'
+    ]);
+  });
+
+  it('should return no steps for an empty program', () => {
+    expect(buildWorkoutSteps({ name: '빈 프로그램', exercises: [] })).toEqual([]);
+  });
+
+  it('should format workout step labels', () => {
+    const steps = buildWorkoutSteps(program);
+
+    expect(formatWorkoutStep(steps[0])).toBe('Squat – Set 1/2 – 10 reps');
+    expect(formatWorkoutStep(steps[1])).toBe('Squat – Set 2/2 – Rest 1:30');
+    expect(formatWorkoutStep(steps[1], 42)).toBe('Squat – Set 2/2 – Rest 0:42');
+    expect(formatWorkoutStep(steps[4])).toBe('Plank – Set 1/2 – Work 0:45');
+  });
+});
+
+describe('Stats Utilities', () => {
+  const MINUTE = 60 * 1000;
+  // 2024-03-06 (수) 정오 기준
+  const now = new Date(2024, 2, 6, 12, 0).getTime();
+
+  const createSession = (startedAt: Date, minutes: number, overrides: Partial<WorkoutSession> = {}): WorkoutSession => ({
+    id: `session-${startedAt.getTime()}`,
+    mode: 'timer',
+    duration: minutes * 60,
+    elapsedTime: minutes * MINUTE,
+    pauses: [],
+    repetitions: 0,
+    laps: [],
+    overtime: null,
+    startedAt: startedAt.getTime(),
+    endedAt: startedAt.getTime() + minutes * MINUTE,
+    completed: true,
+    ...overrides
+  });
+
+  const sessions = [
+    createSession(new Date(2024, 2, 6, 10, 0), 10, { repetitions: 5, pauses: [{ startedAt: 0, endedAt: 60_000 }] }),
+    createSession(new Date(2024, 2, 5, 10, 0), 20, { pauses: [{ startedAt: 0, endedAt: 120_000 }] }),
+    createSession(new Date(2024, 2, 4, 8, 0), 5, { repetitions: 7 }),
+    createSession(new Date(2024, 2, 1, 18, 0), 30),
+    createSession(new Date(2024, 1, 20, 7, 0), 15)
+  ];
+
+  it('should start weeks on Monday', () => {
+    expect(startOfWeek(now)).toBe(new Date(2024, 2, 4).getTime());
+    expect(startOfWeek(new Date(2024, 2, 10, 23, 0).getTime())).toBe(new Date(2024, 2, 4).getTime());
+  });
+
+  it('should total training time per day, week and month', () => {
+    const stats = calculateTrainingStats(sessions, now);
+
+    expect(stats.totalTime).toEqual({ day: 10 * MINUTE, week: 35 * MINUTE, month: 65 * MINUTE });
+    expect(stats.totalSessions).toBe(5);
+    expect(stats.totalReps).toBe(12);
+    expect(stats.averagePause).toBe(90_000);
+    expect(stats.longestStreak).toBe(3);
+  });
+
+  it('should bucket the last 7 days and 8 weeks for charts', () => {
+    const stats = calculateTrainingStats(sessions, now);
+
+    expect(stats.dailyTime.map(bucket => bucket.label)).toEqual(['2/29', '3/1', '3/2', '3/3', '3/4', '3/5', '3/6']);
+    expect(stats.dailyTime.map(bucket => bucket.value / MINUTE)).toEqual([0, 30, 0, 0, 5, 20, 10]);
+    expect(stats.weeklySessions).toHaveLength(8);
+    expect(stats.weeklySessions[7]).toMatchObject({ label: '3/4', value: 3 });
+    expect(stats.weeklySessions.slice(5, 7).map(bucket => bucket.value)).toEqual([1, 1]);
+  });
+
+  it('should return empty stats without history', () => {
+    const stats = calculateTrainingStats([], now);
+
+    expect(stats.totalTime).toEqual({ day: 0, week: 0, month: 0 });
+    expect(stats.averagePause).toBe(0);
+    expect(stats.longestStreak).toBe(0);
+    expect(stats.weeklySessions.every(bucket => bucket.value === 0)).toBe(true);
   });
 });
 
@@ -70,6 +262,10 @@ describe('Validation Utilities', () => {
     expect(isValidTime(-1, 0)).toBe(false);
     expect(isValidTime(60, 0)).toBe(false);
     expect(isValidTime(0, 60)).toBe(false);
+    expect(isValidTime(0, 0, 1)).toBe(true);
+    expect(isValidTime(59, 59, 9)).toBe(true);
+    expect(isValidTime(0, 0, 10)).toBe(false);
+    expect(isValidTime(0, 0, -1)).toBe(false);
   });
 
   it('should validate repetitions correctly', () => {
@@ -1,33 +1,51 @@
 // Utility Functions for Workout Timer App
-import type { SettingsState } from '../types';
+import type { SettingsState, CustomSoundId, IntervalConfig, IntervalSegment, EmomConfig, Lap, WorkoutProgram, WorkoutStep, TemplateFormData, WorkoutSession, StatsBucket, TrainingStats } from '../types';
+import { AUDIO_CONSTANTS, CUSTOM_SOUND_CONSTANTS, DEFAULT_SETTINGS, METRONOME_CONSTANTS, SPEECH_CONSTANTS, TIME_CONSTANTS, VOICE_COUNT_CONSTANTS } from '../types';
 
 /**
- * 초를 MM:SS 형식으로 포맷팅
+ * 초를 MM:SS 형식으로 포맷팅 (1시간 이상이면 H:MM:SS)
  */
-export const formatTime = (seconds: number): string => {
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = seconds % 60;
-  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+export const formatTime = (totalSeconds: number): string => {
+  const { hours, minutes, seconds } = splitTime(totalSeconds);
+  const mmss = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
 };
 
 /**
- * 밀리초를 포함한 시간을 MM:SS.mmm 형식으로 포맷팅
+ * 밀리초를 포함한 시간을 MM:SS.cc 형식으로 포맷팅 (1시간 이상이면 H:MM:SS.cc)
  */
 export const formatTimeWithMilliseconds = (totalMilliseconds: number): string => {
-  const totalSeconds = Math.floor(totalMilliseconds / 1000);
   const milliseconds = totalMilliseconds % 1000;
-  const minutes = Math.floor(totalSeconds / 60);
-  const seconds = totalSeconds % 60;
   
-  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${Math.floor(milliseconds / 10).toString().padStart(2, '0')}`;
+  return `${formatTime(Math.floor(totalMilliseconds / 1000))}.${Math.floor(milliseconds / 10).toString().padStart(2, '0')}`;
+};
+
+/**
+ * 초를 앞자리 0 없는 M:SS 형식으로 포맷팅 (예: 90초 → "1:30", 1시간 이상이면 H:MM:SS)
+ */
+export const formatClock = (totalSeconds: number): string => {
+  const { hours, minutes, seconds } = splitTime(Math.max(0, totalSeconds));
+  const paddedSeconds = seconds.toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${paddedSeconds}`
+    : `${minutes}:${paddedSeconds}`;
 };
 
 /**
- * MM:SS 형식의 문자열을 초로 변환
+ * 초과 시간을 +M:SS 형식으로 포맷팅 (예: 17초 → "+0:17", 1시간 이상이면 +H:MM:SS)
+ */
+export const formatOvertime = (totalMilliseconds: number): string => {
+  return `+${formatClock(Math.floor(Math.max(0, totalMilliseconds) / 1000))}`;
+};
+
+/**
+ * MM:SS 또는 H:MM:SS 형식의 문자열을 초로 변환
  */
 export const parseTime = (timeString: string): number => {
-  const [minutes, seconds] = timeString.split(':').map(Number);
-  return (minutes || 0) * 60 + (seconds || 0);
+  const parts = timeString.split(':').map(Number);
+  const [hours, minutes, seconds] = parts.length >= 3 ? parts : [0, ...parts];
+  return combineTime(minutes || 0, seconds || 0, hours || 0);
 };
 
 /**
@@ -211,30 +229,214 @@ export const applyTheme = (theme: 'light' | 'dark'): void => {
 /**
  * 시간 유효성 검사
  */
-export const isValidTime = (minutes: number, seconds: number): boolean => {
+export const isValidTime = (minutes: number, seconds: number, hours: number = 0): boolean => {
   return (
+    hours >= 0 &&
+    hours <= TIME_CONSTANTS.MAX_HOURS &&
     minutes >= 0 && 
     minutes <= 59 && 
     seconds >= 0 && 
     seconds <= 59 && 
-    (minutes > 0 || seconds > 0) // 최소 1초는 있어야 함
+    (hours > 0 || minutes > 0 || seconds > 0) // 최소 1초는 있어야 함
   );
 };
 
 /**
- * 총 시간을 분과 초로 분해
+ * 총 시간을 시, 분, 초로 분해
  */
-export const splitTime = (totalSeconds: number): { minutes: number; seconds: number } => {
-  const minutes = Math.floor(totalSeconds / 60);
+export const splitTime = (totalSeconds: number): { hours: number; minutes: number; seconds: number } => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
   const seconds = totalSeconds % 60;
-  return { minutes, seconds };
+  return { hours, minutes, seconds };
+};
+
+/**
+ * 분과 초(및 시)를 총 초로 결합
+ */
+export const combineTime = (minutes: number, seconds: number, hours: number = 0): number => {
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+/**
+ * 운동 프로그램을 세트/휴식 실행 단계 목록으로 펼침
+ * 휴식은 세트 사이(다음 종목으로 넘어갈 때 포함)에만 두며, 마지막 세트 뒤와 휴식 시간 0은 생략
+ */
+export const buildWorkoutSteps = (program: WorkoutProgram): WorkoutStep[] => {
+  const steps: WorkoutStep[] = [];
+  program.exercises.forEach((exercise, exerciseIndex) => {
+    for (let set = 1; set <= exercise.sets; set++) {
+      const setStep: WorkoutStep = {
+        kind: 'set',
+        exerciseIndex,
+        exerciseName: exercise.name,
+        set,
+        totalSets: exercise.sets,
+        target: exercise.target,
+        reps: exercise.reps,
+        duration: exercise.target === 'time' ? exercise.duration : 0,
+      };
+
+      // 직전 세트의 휴식 (휴식 단계는 이어질 세트 정보를 가짐)
+      const previous = steps[steps.length - 1];
+      const restDuration = previous ? program.exercises[previous.exerciseIndex].restDuration : 0;
+      if (restDuration > 0) {
+        steps.push({ ...setStep, kind: 'rest', duration: restDuration });
+      }
+      steps.push(setStep);
+    }
+  });
+  return steps;
+};
+
+/**
+ * 실행 단계 표시 문구 (예: "Squat – Set 2/5 – Rest 1:30")
+ * @param remainingSeconds 타이머로 진행 중인 단계의 남은 시간 (초, 생략하면 단계 전체 시간)
+ */
+export const formatWorkoutStep = (step: WorkoutStep, remainingSeconds: number = step.duration): string => {
+  const base = `${step.exerciseName} – Set ${step.set}/${step.totalSets}`;
+  if (step.kind === 'rest') {
+    return `${base} – Rest ${formatClock(remainingSeconds)}`;
+  }
+  if (step.target === 'time') {
+    return `${base} – Work ${formatClock(remainingSeconds)}`;
+  }
+  return `${base} – ${step.reps} reps`;
+};
+
+/**
+ * 인터벌 설정으로 구간 목록 생성
+ * 마지막 라운드 뒤의 휴식은 생략하며, 휴식 시간이 0이면 휴식 구간을 만들지 않음
+ */
+export const buildIntervalSchedule = (config: IntervalConfig): IntervalSegment[] => {
+  const segments: IntervalSegment[] = [];
+  for (let round = 1; round <= config.rounds; round++) {
+    segments.push({ phase: 'work', round, duration: config.workDuration });
+    if (round < config.rounds && config.restDuration > 0) {
+      segments.push({ phase: 'rest', round, duration: config.restDuration });
+    }
+  }
+  return segments;
+};
+
+/**
+ * EMOM 설정으로 구간 목록 생성
+ * 모든 라운드가 같은 길이의 운동 구간이며, 라운드 사이에 쉬는 구간이 없음
+ */
+export const buildEmomSchedule = (config: EmomConfig): IntervalSegment[] => {
+  return Array.from({ length: config.rounds }, (_, index) => ({
+    phase: 'work' as const,
+    round: index + 1,
+    duration: config.intervalDuration,
+  }));
 };
 
 /**
- * 분과 초를 총 초로 결합
+ * 구간 목록의 총 시간 (초)
  */
-export const combineTime = (minutes: number, seconds: number): number => {
-  return minutes * 60 + seconds;
+export const getScheduleDuration = (segments: IntervalSegment[]): number => {
+  return segments.reduce((total, segment) => total + segment.duration, 0);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 해당 시각이 속한 날의 자정 (로컬 시간)
+ */
+export const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+/**
+ * 해당 시각이 속한 주의 월요일 자정 (로컬 시간)
+ */
+export const startOfWeek = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  const daysFromMonday = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysFromMonday).getTime();
+};
+
+/**
+ * 가장 긴 연속 운동 일수 (세션 시작일 기준)
+ */
+const getLongestStreak = (sessions: WorkoutSession[]): number => {
+  // 서머타임으로 하루가 23/25시간이어도 같은 일 번호가 되도록 반올림
+  const days = [...new Set(sessions.map(session => Math.round(startOfDay(session.startedAt) / DAY_MS)))]
+    .sort((a, b) => a - b);
+  let longest = 0;
+  let current = 0;
+  days.forEach((day, index) => {
+    current = index > 0 && day - days[index - 1] === 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+};
+
+/**
+ * 운동 기록으로 통계 계산 (일/주/월 운동 시간, 주별 세션 수, 평균 일시정지, 총 반복, 최장 연속 일수)
+ */
+export const calculateTrainingStats = (sessions: WorkoutSession[], now: number = Date.now()): TrainingStats => {
+  const today = new Date(now);
+  const dayStart = startOfDay(now);
+  const weekStart = startOfWeek(now);
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1).getTime();
+
+  const sumTime = (from: number) => sessions
+    .filter(session => session.startedAt >= from)
+    .reduce((total, session) => total + session.elapsedTime, 0);
+
+  const toBucket = (start: number, value: number): StatsBucket => {
+    const date = new Date(start);
+    return { start, label: `${date.getMonth() + 1}/${date.getDate()}`, value };
+  };
+
+  // 최근 7일 (오늘 포함)
+  const dailyTime = Array.from({ length: 7 }, (_, index) => {
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (6 - index)).getTime();
+    const value = sessions
+      .filter(session => startOfDay(session.startedAt) === start)
+      .reduce((total, session) => total + session.elapsedTime, 0);
+    return toBucket(start, value);
+  });
+
+  // 최근 8주 (이번 주 포함)
+  const weeklySessions = Array.from({ length: 8 }, (_, index) => {
+    const weekDate = new Date(weekStart);
+    const start = new Date(weekDate.getFullYear(), weekDate.getMonth(), weekDate.getDate() - (7 - index) * 7).getTime();
+    return toBucket(start, sessions.filter(session => startOfWeek(session.startedAt) === start).length);
+  });
+
+  const pauses = sessions.flatMap(session => session.pauses);
+  const averagePause = pauses.length > 0
+    ? pauses.reduce((total, pause) => total + (pause.endedAt - pause.startedAt), 0) / pauses.length
+    : 0;
+
+  return {
+    totalTime: { day: sumTime(dayStart), week: sumTime(weekStart), month: sumTime(monthStart) },
+    dailyTime,
+    weeklySessions,
+    totalSessions: sessions.length,
+    totalReps: sessions.reduce((total, session) => total + session.repetitions, 0),
+    averagePause,
+    longestStreak: getLongestStreak(sessions),
+  };
+};
+
+/**
+ * 가장 빠른/느린 랩 번호 (랩이 2개 미만이면 비교하지 않음)
+ */
+export const getLapExtremes = (laps: Lap[]): { fastest: number | null; slowest: number | null } => {
+  if (laps.length < 2) {
+    return { fastest: null, slowest: null };
+  }
+  let fastest = laps[0];
+  let slowest = laps[0];
+  for (const lap of laps) {
+    if (lap.lapTime < fastest.lapTime) fastest = lap;
+    if (lap.lapTime > slowest.lapTime) slowest = lap;
+  }
+  return { fastest: fastest.number, slowest: slowest.number };
 };
 
 /**
@@ -279,15 +481,15 @@ export const isDangerTime = (remainingTime: number): boolean => {
 /**
  * 템플릿 폼 데이터 유효성 검사
  */
-export const validateTemplateForm = (data: { name: string; minutes: number; seconds: number }): { isValid: boolean; errors: string[] } => {
+export const validateTemplateForm = (data: TemplateFormData): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
   
   if (!isValidTemplateName(data.name)) {
     errors.push('템플릿 이름은 1-50자 사이여야 합니다.');
   }
   
-  if (!isValidTime(data.minutes, data.seconds)) {
-    errors.push('시간은 최소 1초 이상이어야 하며, 59분 59초를 초과할 수 없습니다.');
+  if (!isValidTime(data.minutes, data.seconds, data.hours)) {
+    errors.push(`시간은 최소 1초 이상이어야 하며, ${TIME_CONSTANTS.MAX_HOURS}시간 59분 59초를 초과할 수 없습니다.`);
   }
   
   return {
@@ -296,27 +498,161 @@ export const validateTemplateForm = (data: { name: string; minutes: number; seco
   };
 };
 
+const SOUND_OPTIONS: string[] = Object.values(AUDIO_CONSTANTS.SOUNDS);
+
+/**
+ * 사용자 지정 알림음 id 여부
+ */
+export const isCustomSoundId = (value: unknown): value is CustomSoundId =>
+  typeof value === 'string'
+  && value.startsWith(CUSTOM_SOUND_CONSTANTS.ID_PREFIX)
+  && value.length > CUSTOM_SOUND_CONSTANTS.ID_PREFIX.length;
+
+// 설정 항목별 값 검사 규칙 (검증과 불러오기 시 복구에 함께 사용)
+const SETTINGS_RULES: Array<{
+  section: keyof SettingsState;
+  field: string;
+  isValid: (value: unknown) => boolean;
+  message: string;
+}> = [
+  {
+    section: 'sound',
+    field: 'countdownSound',
+    isValid: value => SOUND_OPTIONS.includes(value as string) || isCustomSoundId(value),
+    message: '유효하지 않은 카운트다운 사운드입니다.'
+  },
+  {
+    section: 'sound',
+    field: 'completionSound',
+    isValid: value => SOUND_OPTIONS.includes(value as string) || isCustomSoundId(value),
+    message: '유효하지 않은 완료 사운드입니다.'
+  },
+  {
+    section: 'vibration',
+    field: 'pattern',
+    isValid: value => Array.isArray(value) && value.length > 0
+      && value.every(duration => typeof duration === 'number' && Number.isFinite(duration) && duration >= 0),
+    message: '유효하지 않은 진동 패턴입니다.'
+  },
+  {
+    section: 'ui',
+    field: 'theme',
+    isValid: value => value === 'light' || value === 'dark',
+    message: '유효하지 않은 테마입니다.'
+  },
+  {
+    section: 'timer',
+    field: 'preStartCountdown',
+    isValid: value => (TIME_CONSTANTS.PRE_START_OPTIONS as readonly unknown[]).includes(value),
+    message: '유효하지 않은 준비 카운트다운 시간입니다.'
+  },
+  {
+    section: 'timer',
+    field: 'resumePromptMinutes',
+    isValid: value => (TIME_CONSTANTS.RESUME_PROMPT_OPTIONS as readonly unknown[]).includes(value),
+    message: '유효하지 않은 이어하기 확인 시간입니다.'
+  },
+  {
+    section: 'speech',
+    field: 'lang',
+    isValid: value => (SPEECH_CONSTANTS.LANGUAGES as readonly unknown[]).includes(value),
+    message: '유효하지 않은 음성 안내 언어입니다.'
+  },
+  {
+    section: 'speech',
+    field: 'rate',
+    isValid: value => (SPEECH_CONSTANTS.RATE_OPTIONS as readonly unknown[]).includes(value),
+    message: '유효하지 않은 말하기 속도입니다.'
+  },
+  {
+    section: 'voiceCount',
+    field: 'targetReps',
+    isValid: value => (VOICE_COUNT_CONSTANTS.TARGET_REP_OPTIONS as readonly unknown[]).includes(value),
+    message: '유효하지 않은 목표 반복 횟수입니다.'
+  },
+  {
+    section: 'voiceCount',
+    field: 'tempo',
+    isValid: value => Array.isArray(value) && value.length === 4
+      && value.every(seconds => Number.isInteger(seconds) && seconds >= 0 && seconds <= VOICE_COUNT_CONSTANTS.MAX_TEMPO_SECONDS)
+      && value.some(seconds => seconds > 0),
+    message: '유효하지 않은 템포입니다.'
+  },
+  {
+    section: 'metronome',
+    field: 'bpm',
+    isValid: value => Number.isInteger(value)
+      && (value as number) >= METRONOME_CONSTANTS.MIN_BPM && (value as number) <= METRONOME_CONSTANTS.MAX_BPM,
+    message: '유효하지 않은 메트로놈 BPM입니다.'
+  },
+  {
+    section: 'metronome',
+    field: 'accentEvery',
+    isValid: value => (METRONOME_CONSTANTS.ACCENT_OPTIONS as readonly unknown[]).includes(value),
+    message: '유효하지 않은 강박 간격입니다.'
+  },
+  {
+    section: 'metronome',
+    field: 'subdivision',
+    isValid: value => (METRONOME_CONSTANTS.SUBDIVISION_OPTIONS as readonly unknown[]).includes(value),
+    message: '유효하지 않은 박 나누기입니다.'
+  }
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
 /**
  * 설정 데이터 유효성 검사
  */
 export const validateSettings = (settings: Partial<SettingsState>): { isValid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-  
   // 기본적인 타입 체크는 TypeScript가 처리하므로 여기서는 비즈니스 로직 검증만
-  if (settings.sound?.countdownSound && !Object.values(['beep', 'bell', 'chime']).includes(settings.sound.countdownSound)) {
-    errors.push('유효하지 않은 카운트다운 사운드입니다.');
-  }
-  
-  if (settings.sound?.completionSound && !Object.values(['beep', 'bell', 'chime']).includes(settings.sound.completionSound)) {
-    errors.push('유효하지 않은 완료 사운드입니다.');
-  }
-  
-  if (settings.ui?.theme && !['light', 'dark'].includes(settings.ui.theme)) {
-    errors.push('유효하지 않은 테마입니다.');
-  }
-  
+  const errors = SETTINGS_RULES
+    .filter(({ section, field, isValid }) => {
+      const value = (settings[section] as Record<string, unknown> | undefined)?.[field];
+      return value !== undefined && !isValid(value);
+    })
+    .map(rule => rule.message);
+
   return {
     isValid: errors.length === 0,
     errors
   };
+};
+
+/**
+ * 저장소에서 읽은 설정 복구
+ * 항목별로 타입과 값이 올바른 것만 유지하고 나머지는 기본값으로 채움
+ */
+export const repairSettings = (value: unknown): SettingsState => {
+  const saved = isRecord(value) ? value : {};
+
+  const repairSection = <K extends keyof SettingsState>(section: K): SettingsState[K] => {
+    const defaults = DEFAULT_SETTINGS[section] as unknown as Record<string, unknown>;
+    const source = isRecord(saved[section]) ? saved[section] : {};
+    const repaired = { ...defaults };
+
+    Object.keys(defaults).forEach(field => {
+      const current = source[field];
+      const sameType = Array.isArray(defaults[field])
+        ? Array.isArray(current)
+        : typeof current === typeof defaults[field];
+      const rule = SETTINGS_RULES.find(item => item.section === section && item.field === field);
+      if (sameType && (!rule || rule.isValid(current))) {
+        repaired[field] = current;
+      }
+    });
+
+    return repaired as unknown as SettingsState[K];
+  };
+
+  return {
+    sound: repairSection('sound'),
+    vibration: repairSection('vibration'),
+    ui: repairSection('ui'),
+    timer: repairSection('timer'),
+    speech: repairSection('speech'),
+    voiceCount: repairSection('voiceCount'),
+    metronome: repairSection('metronome')
+  };
 };
\ No newline at end of file